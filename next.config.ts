@@ -4,7 +4,11 @@ const nextConfig: NextConfig = {
   /* config options here */
   typescript : {
     ignoreBuildErrors: true
-  }
+  },
+  env: {
+    // Browsers route GitHub requests through /api/github while recording or replaying
+    GITFLUX_TRANSPORT: process.env.GITFLUX_TRANSPORT || 'live',
+  },
 };
 
 export default nextConfig;
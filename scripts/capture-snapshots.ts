@@ -0,0 +1,73 @@
+/**
+ * Capture metric snapshots of repositories for the history page
+ *
+ * Usage: bun scripts/capture-snapshots.ts [owner/repo | host/owner/repo ...] [--db .gitflux/snapshots.db] [--every hours]
+ * Without repositories, GITFLUX_SNAPSHOT_REPOS is used. Run it from cron, or pass
+ * --every to keep it running and capture again at that interval. Requests use the
+ * server tokens (GITHUB_TOKEN, or the Enterprise host's token).
+ */
+
+import { mkdirSync } from 'fs';
+import path from 'path';
+import {
+  captureRepositorySnapshot,
+  parseSnapshotRepositories,
+  setSnapshotStore,
+} from '../src/lib/repository-snapshots';
+import { createSqliteSnapshotStore, DEFAULT_SNAPSHOT_DB, type SqliteDatabase } from '../src/lib/snapshot-store-sqlite';
+
+// Bun's built-in SQLite (better-sqlite3 only loads under Node) has the same API
+const { Database } = require('bun:sqlite') as { Database: new (file: string) => SqliteDatabase };
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const repositoryArgs = args.filter((arg, index) => !arg.startsWith('--') && !args[index - 1]?.startsWith('--'));
+const repositories = parseSnapshotRepositories(repositoryArgs.join(',') || process.env.GITFLUX_SNAPSHOT_REPOS);
+const dbPath = option('--db') || process.env.GITFLUX_SNAPSHOT_DB || DEFAULT_SNAPSHOT_DB;
+const everyHours = parseFloat(option('--every') || '');
+
+/**
+ * Capture every repository once; returns whether all captures succeeded
+ */
+async function captureAll(): Promise<boolean> {
+  let succeeded = true;
+  for (const { host, owner, repo } of repositories) {
+    const response = await captureRepositorySnapshot(owner, repo, { host });
+    if (response.error) {
+      succeeded = false;
+      console.error(`${host}/${owner}/${repo}: ${response.error}`);
+    } else {
+      console.log(`${host}/${owner}/${repo}: captured at ${response.data!.capturedAt}`);
+    }
+  }
+  return succeeded;
+}
+
+async function main() {
+  if (repositories.length === 0) {
+    console.error('No repositories to capture: pass owner/repo arguments or set GITFLUX_SNAPSHOT_REPOS');
+    process.exit(1);
+  }
+
+  mkdirSync(path.dirname(dbPath), { recursive: true });
+  setSnapshotStore(createSqliteSnapshotStore(new Database(dbPath)));
+
+  if (!(everyHours > 0)) {
+    process.exit((await captureAll()) ? 0 : 1);
+  }
+
+  console.log(`Capturing ${repositories.length} repositories every ${everyHours} hours into ${dbPath}`);
+  for (;;) {
+    await captureAll();
+    await new Promise(resolve => setTimeout(resolve, everyHours * 60 * 60 * 1000));
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
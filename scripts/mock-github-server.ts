@@ -0,0 +1,51 @@
+/**
+ * Run the mock GitHub API server from the command line
+ *
+ * Usage: bun scripts/mock-github-server.ts [seed.json] [--port 4010] [--simulate kind[:path[:times]]]
+ * Then start the app with GITHUB_API_BASE=http://127.0.0.1:4010
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { MockFailureKind, startMockGitHubServer } from '../src/test/mock-github/server';
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const seedPath = args.find((arg, index) => !arg.startsWith('--') && !args[index - 1]?.startsWith('--'))
+  || path.join(__dirname, '../src/test/mock-github/example-repository.json');
+const port = parseInt(option('--port') || '4010');
+
+async function main() {
+  const seed = JSON.parse(readFileSync(seedPath, 'utf8'));
+  const server = await startMockGitHubServer(seed, { port });
+
+  // e.g. --simulate computing:/stats/:2 or --simulate rate_limit
+  args.forEach((arg, index) => {
+    if (arg === '--simulate' && args[index + 1]) {
+      const [kind, scenarioPath, times] = args[index + 1].split(':');
+      server.simulate({
+        kind: kind as MockFailureKind,
+        path: scenarioPath || undefined,
+        times: times ? parseInt(times) : undefined,
+      });
+    }
+  });
+
+  console.log(`Mock GitHub API listening on ${server.url} (seed: ${seedPath})`);
+  console.log(`Start GitFlux with GITHUB_API_BASE=${server.url}`);
+
+  const shutdown = () => {
+    server.close().then(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('Failed to start mock GitHub API server:', error);
+  process.exit(1);
+});
@@ -0,0 +1,48 @@
+/**
+ * Send a locally signed webhook delivery to a running GitFlux server
+ *
+ * Usage: bun scripts/send-webhook.ts <event> <payload.json> [--url http://localhost:3000/api/webhooks/github] [--host ghe.example.com]
+ * The payload is signed with GITHUB_WEBHOOK_SECRET, which must match the server's.
+ * e.g. bun scripts/send-webhook.ts push push.json
+ */
+
+import { readFileSync } from 'fs';
+import { signWebhookPayload } from '../src/lib/github-webhooks';
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const [event, payloadPath] = args.filter((arg, index) => !arg.startsWith('--') && !args[index - 1]?.startsWith('--'));
+const url = option('--url') || 'http://localhost:3000/api/webhooks/github';
+const host = option('--host');
+
+async function main() {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  if (!event || !payloadPath || !secret) {
+    console.error('Usage: GITHUB_WEBHOOK_SECRET=... bun scripts/send-webhook.ts <event> <payload.json> [--url url] [--host host]');
+    process.exit(1);
+  }
+
+  const body = readFileSync(payloadPath, 'utf8');
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      'x-github-event': event,
+      'x-hub-signature-256': signWebhookPayload(body, secret),
+      ...(host ? { 'x-github-enterprise-host': host } : {}),
+    },
+    body,
+  });
+
+  console.log(`${response.status} ${await response.text()}`);
+  process.exit(response.ok ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('Failed to send webhook:', error);
+  process.exit(1);
+});
@@ -0,0 +1,144 @@
+import { notFound } from 'next/navigation';
+import { attachReviewData, getTimePeriodBounds, markMergedBranches, processFileChangeData, processReviewData } from '@/lib/github-api';
+import { buildActivityData, parseTimePeriod, TIME_RANGE_BY_PERIOD, toActivityCommits } from '@/lib/repository-analysis';
+import type { RepositoryProvider } from '@/lib/repository-provider';
+import { GitHubApiError } from '@/lib/github-errors';
+import { RepoForm } from '@/components/RepoForm';
+import { RepositoryAnalysis } from '@/components/RepositoryAnalysis';
+
+interface ProviderAnalysisProps {
+  owner: string;
+  repo: string;
+  provider: RepositoryProvider;
+  period?: string;
+}
+
+// API budget per page load: commits are read one by one on GitLab, and
+// reviews are read for the most recent change requests only
+const MAX_COMMITS = 300;
+const MAX_REVIEWED_CHANGE_REQUESTS = 25;
+
+const PROVIDER_NAMES: Record<RepositoryProvider['kind'], string> = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  gitea: 'Gitea',
+};
+
+/**
+ * Analysis of a GitLab or Gitea repository, read on the server through its provider
+ */
+export async function ProviderAnalysis({ owner, repo, provider, period }: ProviderAnalysisProps) {
+  const timePeriod = parseTimePeriod(period);
+  const timeRange = TIME_RANGE_BY_PERIOD[timePeriod];
+  const { since, until } = getTimePeriodBounds(timePeriod);
+
+  const [repoResponse, commitsResponse, branchesResponse, changeRequestsResponse] = await Promise.all([
+    provider.getRepository(owner, repo),
+    provider.getCommitsWithFiles(owner, repo, { since, until, maxCommits: MAX_COMMITS }),
+    provider.getBranches(owner, repo, timePeriod),
+    provider.getChangeRequests(owner, repo, timePeriod),
+  ]);
+
+  // Handle repository not found
+  if (repoResponse.errorInfo?.kind === 'not_found') {
+    notFound();
+  }
+
+  // Handle other API errors
+  if (repoResponse.error) {
+    throw GitHubApiError.fromResponse(repoResponse);
+  }
+
+  const repository = repoResponse.data!;
+  const commits = commitsResponse.data || [];
+  const changeRequests = changeRequestsResponse.data || [];
+
+  const reviewResponses = await Promise.all(
+    changeRequests
+      .slice(0, MAX_REVIEWED_CHANGE_REQUESTS)
+      .map(pullRequest => provider.getReviews(owner, repo, pullRequest.number))
+  );
+  const reviews = reviewResponses.flatMap(response => response.data || []).map(review => ({
+    pull_request_number: review.prNumber,
+    user: { login: review.reviewer },
+    state: review.state,
+    submitted_at: review.submittedAt,
+  }));
+  const pullRequests = attachReviewData(changeRequests, reviews);
+
+  const analysis = processFileChangeData(commits, timePeriod);
+  // Activity charts use the same commits, so they cover the selected period only
+  const { commitDays, contributorTrends } = buildActivityData(toActivityCommits(commits), timeRange);
+  const providerName = PROVIDER_NAMES[provider.kind];
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-4 sm:py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Repository Form Section */}
+        <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 sm:p-6 mb-6" aria-label="Repository search">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Analyze Another Repository</h2>
+              <p className="text-sm text-gray-600 dark:text-gray-400">Enter a GitHub, GitLab or Gitea repository URL to analyze</p>
+            </div>
+          </div>
+          <RepoForm initialOwner={owner} initialRepo={repo} initialHost={provider.host} />
+        </section>
+        {/* Repository Header */}
+        <header className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 sm:p-6 mb-6">
+          <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+            <div className="flex-1 min-w-0">
+              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2 break-words">
+                {repository.fullName}
+              </h1>
+              {repository.description && (
+                <p className="text-gray-600 dark:text-gray-300 text-base sm:text-lg mb-4 leading-relaxed">{repository.description}</p>
+              )}
+              <div className="flex flex-wrap items-center gap-3 sm:gap-6 text-sm text-gray-500 dark:text-gray-400">
+                <span className="flex items-center gap-1" aria-label={`${repository.stars.toLocaleString()} stars`}>
+                  <span role="img" aria-hidden="true">⭐</span>
+                  <span>{repository.stars.toLocaleString()} stars</span>
+                </span>
+                <span className="flex items-center gap-1" aria-label={`${repository.forks.toLocaleString()} forks`}>
+                  <span role="img" aria-hidden="true">🍴</span>
+                  <span>{repository.forks.toLocaleString()} forks</span>
+                </span>
+                {repository.language && (
+                  <span className="flex items-center gap-1" aria-label={`Primary language: ${repository.language}`}>
+                    <span role="img" aria-hidden="true">📝</span>
+                    <span>{repository.language}</span>
+                  </span>
+                )}
+              </div>
+            </div>
+            <div className="flex-shrink-0">
+              <a
+                href={repository.htmlUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+                aria-label={`View ${repository.fullName} on ${providerName} (opens in new tab)`}
+              >
+                View on {providerName}
+              </a>
+            </div>
+          </div>
+        </header>
+
+        <RepositoryAnalysis
+          owner={owner}
+          repo={repo}
+          timePeriod={timePeriod}
+          timeRange={timeRange}
+          analysis={analysis}
+          commitDays={commitDays}
+          contributorTrends={contributorTrends}
+          branches={markMergedBranches(branchesResponse.data || [], pullRequests)}
+          pullRequests={pullRequests}
+          reviewData={processReviewData(reviews, pullRequests, timePeriod)}
+          changeRequestLabel={provider.changeRequestLabel}
+        />
+      </div>
+    </div>
+  );
+}
@@ -8,15 +8,16 @@ import { type TimeRange } from '@/lib/commit-activity-data';
 interface ActivityPageClientProps {
   owner: string;
   repo: string;
+  host?: string;
   initialTimeRange: TimeRange;
 }
 
-export function ActivityPageClient({ owner, repo, initialTimeRange }: ActivityPageClientProps) {
+export function ActivityPageClient({ owner, repo, host, initialTimeRange }: ActivityPageClientProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
   const [timeRange, setTimeRange] = useState<TimeRange>(initialTimeRange);
 
-  // Update URL when time range changes
+  // Update URL when time range changes (other params such as ?host= are kept)
   const updateTimeRangeInUrl = useCallback((newTimeRange: TimeRange) => {
     const params = new URLSearchParams(searchParams.toString());
     
@@ -54,6 +55,7 @@ export function ActivityPageClient({ owner, repo, initialTimeRange }: ActivityPa
     <ActivityVisualizationPanelWithUrlSync
       owner={owner}
       repo={repo}
+      host={host}
       timeRange={timeRange}
       onTimeRangeChange={handleTimeRangeChange}
     />
@@ -64,6 +66,7 @@ export function ActivityPageClient({ owner, repo, initialTimeRange }: ActivityPa
 interface ActivityVisualizationPanelWithUrlSyncProps {
   owner: string;
   repo: string;
+  host?: string;
   timeRange: TimeRange;
   onTimeRangeChange: (timeRange: TimeRange) => void;
 }
@@ -71,6 +74,7 @@ interface ActivityVisualizationPanelWithUrlSyncProps {
 function ActivityVisualizationPanelWithUrlSync({ 
   owner, 
   repo, 
+  host,
   timeRange, 
   onTimeRangeChange 
 }: ActivityVisualizationPanelWithUrlSyncProps) {
@@ -101,6 +105,7 @@ function ActivityVisualizationPanelWithUrlSync({
       <ActivityVisualizationPanel
         owner={owner}
         repo={repo}
+        host={host}
         initialTimeRange={timeRange}
         key={timeRange} // Force re-render when time range changes
       />
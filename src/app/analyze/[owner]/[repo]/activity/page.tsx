@@ -1,5 +1,8 @@
 import { notFound } from 'next/navigation';
 import { fetchRepository } from '@/lib/github-api';
+import { getSessionToken } from '@/lib/github-auth';
+import { buildAnalyzePath, isAllowedGitHubHost, normalizeGitHubHost } from '@/lib/github-hosts';
+import { GitHubApiError } from '@/lib/github-errors';
 import { ActivityVisualizationPanel } from '@/components/ActivityVisualizationPanel';
 import { RepoForm } from '@/components/RepoForm';
 import { ActivityPageClient } from './ActivityPageClient';
@@ -11,12 +14,19 @@ interface PageProps {
   }>;
   searchParams: Promise<{
     timeRange?: string;
+    host?: string;
   }>;
 }
 
 export default async function ActivityPage({ params, searchParams }: PageProps) {
   const { owner, repo } = await params;
-  const { timeRange } = await searchParams;
+  const { timeRange, host: hostParam } = await searchParams;
+  const host = normalizeGitHubHost(hostParam);
+
+  // Only github.com and configured Enterprise hosts can be analyzed
+  if (!isAllowedGitHubHost(host)) {
+    notFound();
+  }
 
   // Validate time range parameter
   const validTimeRanges = ['30d', '3m', '6m', '1y'] as const;
@@ -25,16 +35,16 @@ export default async function ActivityPage({ params, searchParams }: PageProps)
     : '30d';
 
   // Fetch repository data to validate it exists
-  const repoResponse = await fetchRepository(owner, repo);
+  const repoResponse = await fetchRepository(owner, repo, { host, token: await getSessionToken(host) });
 
   // Handle repository not found
-  if (repoResponse.error === 'Repository not found') {
+  if (repoResponse.errorInfo?.kind === 'not_found') {
     notFound();
   }
 
   // Handle other API errors
   if (repoResponse.error) {
-    throw new Error(repoResponse.error);
+    throw GitHubApiError.fromResponse(repoResponse);
   }
 
   const repository = repoResponse.data!;
@@ -50,7 +60,7 @@ export default async function ActivityPage({ params, searchParams }: PageProps)
               <p className="text-sm text-gray-600 dark:text-gray-400">Enter a GitHub repository URL to analyze</p>
             </div>
           </div>
-          <RepoForm initialOwner={owner} initialRepo={repo} />
+          <RepoForm initialOwner={owner} initialRepo={repo} initialHost={host} />
         </section>
 
         {/* Repository Header */}
@@ -82,7 +92,7 @@ export default async function ActivityPage({ params, searchParams }: PageProps)
             </div>
             <div className="flex-shrink-0 flex gap-3">
               <a
-                href={`/analyze/${owner}/${repo}`}
+                href={buildAnalyzePath(owner, repo, host)}
                 className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
                 aria-label={`View main analysis for ${repository.full_name}`}
               >
@@ -112,6 +122,7 @@ export default async function ActivityPage({ params, searchParams }: PageProps)
           <ActivityPageClient
             owner={owner}
             repo={repo}
+            host={host}
             initialTimeRange={initialTimeRange}
           />
         </section>
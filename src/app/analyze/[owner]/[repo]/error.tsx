@@ -1,6 +1,7 @@
 'use client';
 
 import { useEffect } from 'react';
+import { toGitHubError } from '@/lib/github-errors';
 
 interface ErrorProps {
   error: Error & { digest?: string };
@@ -14,43 +15,40 @@ export default function Error({ error, reset }: ErrorProps) {
   }, [error]);
 
   const getErrorMessage = (error: Error) => {
-    if (error.message.includes('rate limit')) {
-      return {
-        title: 'Rate Limit Exceeded',
-        message: 'GitHub API rate limit has been exceeded. Please try again later.',
-        suggestion: 'The rate limit typically resets every hour.',
-      };
+    switch (toGitHubError(error)?.kind) {
+      case 'rate_limited':
+      case 'secondary_limit':
+        return {
+          title: 'Rate Limit Exceeded',
+          message: 'GitHub API rate limit has been exceeded. Please try again later.',
+          suggestion: 'The rate limit typically resets every hour.',
+        };
+      case 'network':
+        return {
+          title: 'Network Error',
+          message: 'Unable to connect to GitHub. Please check your internet connection.',
+          suggestion: 'Try refreshing the page or check your network connection.',
+        };
+      case 'forbidden':
+      case 'auth_required':
+        return {
+          title: 'Access Forbidden',
+          message: 'This repository may be private or require authentication.',
+          suggestion: 'Make sure the repository is public and accessible.',
+        };
+      case 'server':
+        return {
+          title: 'Service Unavailable',
+          message: 'GitHub API is temporarily unavailable.',
+          suggestion: 'Please try again in a few minutes.',
+        };
+      default:
+        return {
+          title: 'Something went wrong',
+          message: 'An unexpected error occurred while analyzing the repository.',
+          suggestion: 'Please try again or contact support if the problem persists.',
+        };
     }
-
-    if (error.message.includes('Network error')) {
-      return {
-        title: 'Network Error',
-        message: 'Unable to connect to GitHub. Please check your internet connection.',
-        suggestion: 'Try refreshing the page or check your network connection.',
-      };
-    }
-
-    if (error.message.includes('Access forbidden')) {
-      return {
-        title: 'Access Forbidden',
-        message: 'This repository may be private or require authentication.',
-        suggestion: 'Make sure the repository is public and accessible.',
-      };
-    }
-
-    if (error.message.includes('GitHub API is currently unavailable')) {
-      return {
-        title: 'Service Unavailable',
-        message: 'GitHub API is temporarily unavailable.',
-        suggestion: 'Please try again in a few minutes.',
-      };
-    }
-
-    return {
-      title: 'Something went wrong',
-      message: 'An unexpected error occurred while analyzing the repository.',
-      suggestion: 'Please try again or contact support if the problem persists.',
-    };
   };
 
   const errorInfo = getErrorMessage(error);
@@ -0,0 +1,75 @@
+'use client';
+
+import { useEffect } from 'react';
+
+interface ErrorProps {
+  error: Error & { digest?: string };
+  reset: () => void;
+}
+
+export default function Error({ error, reset }: ErrorProps) {
+  useEffect(() => {
+    // Log the error to an error reporting service
+    console.error('History page error:', error);
+  }, [error]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-4 sm:py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 sm:p-6">
+          <div className="flex items-center justify-center h-96">
+            <div className="text-center max-w-md px-4">
+              <div className="text-red-600 dark:text-red-400 mb-6" role="img" aria-label="Error icon">
+                <svg
+                  className="mx-auto h-12 w-12"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                  aria-hidden="true"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z"
+                  />
+                </svg>
+              </div>
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">
+                Something went wrong
+              </h2>
+              <p className="text-gray-600 dark:text-gray-300 text-sm leading-relaxed mb-6">
+                We encountered an error while loading the metric history. This could be due to:
+              </p>
+              <ul className="text-left text-sm text-gray-600 dark:text-gray-300 mb-6 space-y-1">
+                <li>• GitHub API rate limiting</li>
+                <li>• Network connectivity issues</li>
+                <li>• Repository access restrictions</li>
+                <li>• Temporary server issues</li>
+              </ul>
+              <div className="flex flex-col sm:flex-row gap-3 justify-center">
+                <button
+                  onClick={reset}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-blue-600 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors"
+                >
+                  Try Again
+                </button>
+                <a
+                  href="/"
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600 dark:hover:bg-gray-600 transition-colors"
+                >
+                  Go Home
+                </a>
+              </div>
+              {error.digest && (
+                <p className="text-xs text-gray-400 dark:text-gray-500 mt-4">
+                  Error ID: {error.digest}
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -1,36 +1,73 @@
 import { notFound } from 'next/navigation';
-import { fetchRepository, fetchContributors, fetchCommitActivity, transformCommitActivity } from '@/lib/github-api';
+import { fetchRepository, fetchContributors, fetchCommitActivity, transformCommitActivity, type Repository } from '@/lib/github-api';
+import { getSessionToken } from '@/lib/github-auth';
+import { buildAnalyzePath, normalizeGitHubHost } from '@/lib/github-hosts';
+import { getRepositoryProvider } from '@/lib/repository-provider';
+import { GitHubApiError } from '@/lib/github-errors';
 import { CommitChart } from '@/components/CommitChart';
 import { Contributors } from '@/components/Contributors';
 import { RepoForm } from '@/components/RepoForm';
 import { MostChangedFiles } from '@/components/MostChangedFiles';
 import { BranchPRStats } from '@/components/BranchPRStats';
+import { ProviderAnalysis } from './ProviderAnalysis';
+
+// Wait briefly for statistics GitHub is still computing; CommitChart keeps checking afterwards
+const STATS_TIMEOUT = 5000;
+
+/**
+ * Describe the signed-in user's access to a repository, when GitHub reported it
+ */
+function getAccessLabel(permissions: Repository['permissions']): string | undefined {
+  if (!permissions) return undefined;
+  if (permissions.admin) return 'Admin access';
+  if (permissions.maintain || permissions.push) return 'Write access';
+  if (permissions.triage || permissions.pull) return 'Read access';
+  return undefined;
+}
 
 interface PageProps {
   params: Promise<{
     owner: string;
     repo: string;
   }>;
+  searchParams?: Promise<{
+    host?: string;
+    period?: string;
+  }>;
 }
 
-export default async function AnalyzePage({ params }: PageProps) {
+export default async function AnalyzePage({ params, searchParams }: PageProps) {
   const { owner, repo } = await params;
+  const query = await searchParams;
+  const host = normalizeGitHubHost(query?.host);
+
+  // Only github.com, configured Enterprise hosts and configured GitLab/Gitea hosts can be analyzed
+  const provider = getRepositoryProvider(host);
+  if (!provider) {
+    notFound();
+  }
+
+  // GitLab and Gitea repositories are analyzed on the server through their provider
+  if (provider.kind !== 'github') {
+    return <ProviderAnalysis owner={owner} repo={repo} provider={provider} period={query?.period} />;
+  }
 
-  // Fetch repository data
+  // Fetch repository data, with the signed-in user's token when there is one
+  const token = await getSessionToken(host);
   const [repoResponse, contributorsResponse, activityResponse] = await Promise.all([
-    fetchRepository(owner, repo),
-    fetchContributors(owner, repo),
-    fetchCommitActivity(owner, repo),
+    fetchRepository(owner, repo, { host, token }),
+    fetchContributors(owner, repo, { host, token }),
+    fetchCommitActivity(owner, repo, { host, token, timeout: STATS_TIMEOUT }),
   ]);
 
   // Handle repository not found
-  if (repoResponse.error === 'Repository not found') {
+  if (repoResponse.errorInfo?.kind === 'not_found') {
     notFound();
   }
 
   // Handle other API errors
   if (repoResponse.error) {
-    throw new Error(repoResponse.error);
+    throw GitHubApiError.fromResponse(repoResponse);
   }
 
   const repository = repoResponse.data!;
@@ -38,6 +75,9 @@ export default async function AnalyzePage({ params }: PageProps) {
   const commitActivity = activityResponse.data && Array.isArray(activityResponse.data) 
     ? transformCommitActivity(activityResponse.data) 
     : [];
+  const activityComputing = activityResponse.status === 'computing';
+  const totalCommits = commitActivity.reduce((sum, week) => sum + week.count, 0);
+  const accessLabel = getAccessLabel(repository.permissions);
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-4 sm:py-8">
@@ -50,7 +90,7 @@ export default async function AnalyzePage({ params }: PageProps) {
               <p className="text-sm text-gray-600 dark:text-gray-400">Enter a GitHub repository URL to analyze</p>
             </div>
           </div>
-          <RepoForm initialOwner={owner} initialRepo={repo} />
+          <RepoForm initialOwner={owner} initialRepo={repo} initialHost={host} />
         </section>
         {/* Repository Header */}
         <header className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 sm:p-6 mb-6">
@@ -81,7 +121,7 @@ export default async function AnalyzePage({ params }: PageProps) {
             </div>
             <div className="flex-shrink-0 flex gap-3">
               <a
-                href={`/analyze/${owner}/${repo}/activity`}
+                href={buildAnalyzePath(owner, repo, host, '/activity')}
                 className="inline-flex items-center px-4 py-2 border border-blue-300 dark:border-blue-600 rounded-md shadow-sm text-sm font-medium text-blue-700 dark:text-blue-200 bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/30 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
                 aria-label={`View detailed activity analysis for ${repository.full_name}`}
               >
@@ -90,6 +130,16 @@ export default async function AnalyzePage({ params }: PageProps) {
                 </svg>
                 Activity Analysis
               </a>
+              <a
+                href={buildAnalyzePath(owner, repo, host, '/history')}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+                aria-label={`View metric history for ${repository.full_name}`}
+              >
+                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                History
+              </a>
               <a
                 href={repository.html_url}
                 target="_blank"
@@ -137,6 +187,9 @@ export default async function AnalyzePage({ params }: PageProps) {
                   }`}>
                     {repository.private ? 'Private' : 'Public'}
                   </span>
+                  {accessLabel && (
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{accessLabel}</span>
+                  )}
                 </dd>
               </div>
             </dl>
@@ -152,33 +205,42 @@ export default async function AnalyzePage({ params }: PageProps) {
 
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 sm:p-6">
             <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-3">Activity</h3>
-            <div className="text-2xl sm:text-3xl font-bold text-green-600 dark:text-green-400 mb-2" aria-label={`${commitActivity.reduce((sum, week) => sum + week.count, 0)} total commits in the last year`}>
-              {commitActivity.reduce((sum, week) => sum + week.count, 0)}
-            </div>
-            <p className="text-sm text-gray-600 dark:text-gray-400">Total commits (last year)</p>
+            {activityComputing ? (
+              <>
+                <div className="text-2xl sm:text-3xl font-bold text-gray-400 dark:text-gray-500 mb-2" aria-hidden="true">…</div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">GitHub is still computing statistics</p>
+              </>
+            ) : (
+              <>
+                <div className="text-2xl sm:text-3xl font-bold text-green-600 dark:text-green-400 mb-2" aria-label={`${totalCommits} total commits in the last year`}>
+                  {totalCommits}
+                </div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">Total commits (last year)</p>
+              </>
+            )}
           </div>
         </section>
 
         {/* Contributors Section */}
         <section className="mb-6" aria-label="Repository contributors">
-          <Contributors owner={owner} repo={repo} data={contributors} />
+          <Contributors owner={owner} repo={repo} host={host} data={contributors} />
         </section>
 
         {/* Commit Activity Chart */}
         <section className="mb-6" aria-label="Commit activity visualization">
-          <CommitChart owner={owner} repo={repo} data={commitActivity} />
+          <CommitChart owner={owner} repo={repo} host={host} data={activityComputing ? undefined : commitActivity} computing={activityComputing} />
         </section>
 
         {/* Most Changed Files Analysis */}
         <section className="mb-6" aria-label="File change analysis">
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 sm:p-6">
-            <MostChangedFiles owner={owner} repo={repo} />
+            <MostChangedFiles owner={owner} repo={repo} host={host} />
           </div>
         </section>
 
         {/* Branch & Pull Request Analytics */}
         <section className="mb-6" aria-label="Branch and pull request analytics">
-          <BranchPRStats owner={owner} repo={repo} />
+          <BranchPRStats owner={owner} repo={repo} host={host} />
         </section>
       </div>
     </div>
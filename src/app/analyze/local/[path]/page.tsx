@@ -0,0 +1,115 @@
+import { notFound } from 'next/navigation';
+import { getTimePeriodBounds, processFileChangeData } from '@/lib/github-api';
+import {
+  fetchLocalBranches,
+  fetchLocalCommits,
+  fetchLocalCommitsWithFiles,
+  fetchLocalRepositoryInfo,
+  findLocalRepository,
+} from '@/lib/local-git';
+import { GitHubApiError } from '@/lib/github-errors';
+import { buildActivityData, parseTimePeriod, TIME_RANGE_BY_PERIOD } from '@/lib/repository-analysis';
+import { RepositoryAnalysis } from '@/components/RepositoryAnalysis';
+
+interface PageProps {
+  params: Promise<{
+    path: string;
+  }>;
+  searchParams?: Promise<{
+    period?: string;
+  }>;
+}
+
+export default async function LocalAnalyzePage({ params, searchParams }: PageProps) {
+  const { path: name } = await params;
+  const { period } = (await searchParams) || {};
+
+  // Only repositories configured in GITFLUX_LOCAL_REPOS can be analyzed; Next has
+  // already decoded the name
+  const repository = findLocalRepository(name);
+  if (!repository) {
+    notFound();
+  }
+
+  const timePeriod = parseTimePeriod(period);
+  const timeRange = TIME_RANGE_BY_PERIOD[timePeriod];
+  const { since, until } = getTimePeriodBounds(timePeriod);
+  // Activity charts cover at most the last year
+  const activitySince = getTimePeriodBounds(timePeriod === 'all' ? '1y' : timePeriod).since;
+
+  // Read the whole history for the period; there is no API budget to respect
+  const [infoResponse, filesResponse, commitsResponse, branchesResponse] = await Promise.all([
+    fetchLocalRepositoryInfo(repository),
+    fetchLocalCommitsWithFiles(repository.path, { since, until }),
+    fetchLocalCommits(repository.path, { since: activitySince }),
+    fetchLocalBranches(repository.path, timePeriod),
+  ]);
+
+  // Handle repository not found
+  if (infoResponse.errorInfo?.kind === 'not_found') {
+    notFound();
+  }
+
+  // Handle other git errors
+  const failed = [infoResponse, filesResponse, commitsResponse, branchesResponse].find(response => response.error);
+  if (failed) {
+    throw GitHubApiError.fromResponse(failed);
+  }
+
+  const info = infoResponse.data!;
+  const analysis = processFileChangeData(filesResponse.data || [], timePeriod);
+  const { commitDays, contributorTrends } = buildActivityData(commitsResponse.data || [], timeRange);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-4 sm:py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Repository Header */}
+        <header className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 sm:p-6 mb-6">
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2 break-words">
+            {info.name}
+          </h1>
+          <p className="text-gray-600 dark:text-gray-300 text-base sm:text-lg mb-4 leading-relaxed">
+            Local repository analysis (full history, no GitHub API)
+          </p>
+          <dl className="flex flex-wrap items-center gap-3 sm:gap-6 text-sm text-gray-500 dark:text-gray-400">
+            <div className="flex items-center gap-1">
+              <dt>Default branch:</dt>
+              <dd className="font-medium text-gray-900 dark:text-gray-100">{info.defaultBranch}</dd>
+            </div>
+            <div className="flex items-center gap-1">
+              <dt>Commits:</dt>
+              <dd className="font-medium text-gray-900 dark:text-gray-100">{info.commitCount.toLocaleString()}</dd>
+            </div>
+            {info.firstCommitDate && (
+              <div className="flex items-center gap-1">
+                <dt>First commit:</dt>
+                <dd className="font-medium text-gray-900 dark:text-gray-100">
+                  <time dateTime={info.firstCommitDate}>{new Date(info.firstCommitDate).toLocaleDateString()}</time>
+                </dd>
+              </div>
+            )}
+            {info.lastCommitDate && (
+              <div className="flex items-center gap-1">
+                <dt>Last commit:</dt>
+                <dd className="font-medium text-gray-900 dark:text-gray-100">
+                  <time dateTime={info.lastCommitDate}>{new Date(info.lastCommitDate).toLocaleDateString()}</time>
+                </dd>
+              </div>
+            )}
+          </dl>
+        </header>
+
+        <RepositoryAnalysis
+          owner="local"
+          repo={info.name}
+          timePeriod={timePeriod}
+          timeRange={timeRange}
+          analysis={analysis}
+          commitDays={commitDays}
+          contributorTrends={contributorTrends}
+          branches={branchesResponse.data || []}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createSession,
+  exchangeOAuthCode,
+  getReturnPath,
+  getSessionCookieOptions,
+  isGitHubSignInEnabled,
+  OAUTH_STATE_COOKIE,
+  sealSession,
+  SESSION_COOKIE,
+  SESSION_MARKER_COOKIE,
+} from '@/lib/github-auth';
+
+/**
+ * Read the state stored by the login route
+ */
+function readOAuthState(request: NextRequest): { state?: string; returnTo: string } {
+  try {
+    const stored = JSON.parse(request.cookies.get(OAUTH_STATE_COOKIE)?.value || '{}');
+    return { state: stored.state, returnTo: getReturnPath(stored.returnTo) };
+  } catch {
+    return { returnTo: '/' };
+  }
+}
+
+/**
+ * Finish signing in with GitHub
+ * Exchanges the code for a token, looks up the account and stores both in the
+ * encrypted session cookie
+ */
+export async function GET(request: NextRequest) {
+  if (!isGitHubSignInEnabled()) {
+    return NextResponse.json({ message: 'Sign-in with GitHub is not configured' }, { status: 404 });
+  }
+
+  const code = request.nextUrl.searchParams.get('code');
+  const { state, returnTo } = readOAuthState(request);
+
+  // A missing or different state means the redirect did not start from this browser
+  if (!code || !state || request.nextUrl.searchParams.get('state') !== state) {
+    return NextResponse.json({ message: 'Invalid sign-in request. Please try again.' }, { status: 400 });
+  }
+
+  const token = await exchangeOAuthCode(code, `${request.nextUrl.origin}/api/auth/callback`);
+  if (token.error || !token.data) {
+    return NextResponse.json({ message: token.error }, { status: 401 });
+  }
+
+  const session = await createSession(token.data);
+  if (session.error || !session.data) {
+    return NextResponse.json({ message: session.error }, { status: 401 });
+  }
+
+  const response = NextResponse.redirect(new URL(returnTo, request.nextUrl.origin));
+  response.cookies.set(SESSION_COOKIE, sealSession(session.data), getSessionCookieOptions());
+  response.cookies.set(SESSION_MARKER_COOKIE, '1', getSessionCookieOptions(false));
+  response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: '/api/auth' });
+  return response;
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createOAuthState,
+  getAuthorizeUrl,
+  getReturnPath,
+  isGitHubSignInEnabled,
+  OAUTH_STATE_COOKIE,
+  OAUTH_STATE_MAX_AGE,
+} from '@/lib/github-auth';
+
+/**
+ * Start signing in with GitHub
+ * The state is kept in a short-lived cookie together with the page to return to,
+ * and checked when GitHub redirects back to the callback route
+ */
+export async function GET(request: NextRequest) {
+  if (!isGitHubSignInEnabled()) {
+    return NextResponse.json({ message: 'Sign-in with GitHub is not configured' }, { status: 404 });
+  }
+
+  const state = createOAuthState();
+  const returnTo = getReturnPath(request.nextUrl.searchParams.get('returnTo'));
+  const redirectUri = `${request.nextUrl.origin}/api/auth/callback`;
+
+  const response = NextResponse.redirect(getAuthorizeUrl(state, redirectUri));
+  response.cookies.set(OAUTH_STATE_COOKIE, JSON.stringify({ state, returnTo }), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/api/auth',
+    maxAge: OAUTH_STATE_MAX_AGE,
+  });
+  return response;
+}
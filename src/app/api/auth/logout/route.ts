@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getReturnPath, SESSION_COOKIE, SESSION_MARKER_COOKIE } from '@/lib/github-auth';
+
+/**
+ * Sign out by removing the session cookies
+ * Only POST, so that links and prefetching cannot sign users out
+ */
+export async function POST(request: NextRequest) {
+  const returnTo = getReturnPath(request.nextUrl.searchParams.get('returnTo'));
+
+  // 303 turns the form POST into a GET of the page
+  const response = NextResponse.redirect(new URL(returnTo, request.nextUrl.origin), 303);
+  response.cookies.delete(SESSION_COOKIE);
+  response.cookies.delete(SESSION_MARKER_COOKIE);
+  return response;
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getGitHubHeaders } from '@/lib/github-api';
+import { isGraphQLQueryDocument } from '@/lib/github-graphql';
+import { openSession, SESSION_COOKIE, SESSION_MARKER_COOKIE } from '@/lib/github-auth';
+import {
+  getGitHubApiBase,
+  getGitHubGraphQLEndpoint,
+  getGitHubProxyBase,
+  isAllowedGitHubHost,
+  isDefaultGitHubHost,
+} from '@/lib/github-hosts';
+import { getGitHubTransport, getGitHubTransportMode } from '@/lib/github-transport';
+
+interface RouteContext {
+  params: Promise<{
+    host: string;
+    path: string[];
+  }>;
+}
+
+// Request headers forwarded so conditional requests keep working through the proxy
+const FORWARDED_REQUEST_HEADERS = ['if-none-match', 'if-modified-since'];
+
+// Response headers that no longer apply once the body has been decoded
+const DROPPED_RESPONSE_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding', 'connection'];
+
+/**
+ * Get the document of a GraphQL request body, or an empty one when there is none
+ */
+function getGraphQLDocument(body: string): string {
+  try {
+    const { query } = JSON.parse(body);
+    return typeof query === 'string' ? query : '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Forward a browser request to GitHub through the configured transport
+ * In live mode only github.com requests of signed-in users are forwarded. Requests
+ * carry the signed-in user's own token and nothing else: while recording or
+ * replaying, requests without a session are forwarded unauthenticated, so the
+ * server token is never exposed through an open proxy. GitFlux only reads, so GraphQL
+ * documents with anything other than queries (mutations, subscriptions) are rejected.
+ */
+async function proxyGitHubRequest(request: NextRequest, context: RouteContext, method: 'GET' | 'POST') {
+  const { host, path } = await context.params;
+  const session = isDefaultGitHubHost(host) ? openSession(request.cookies.get(SESSION_COOKIE)?.value) : undefined;
+  if (getGitHubTransportMode() === 'live' && !session) {
+    // The session cookie expired or can no longer be decrypted while the browser still routes through the proxy
+    if (request.cookies.has(SESSION_MARKER_COOKIE)) {
+      return NextResponse.json({ message: 'Your GitHub session has expired. Please sign in again.' }, { status: 401 });
+    }
+    return NextResponse.json({ message: 'Not Found' }, { status: 404 });
+  }
+
+  if (!isAllowedGitHubHost(host)) {
+    return NextResponse.json({ message: `GitHub host ${host} is not configured` }, { status: 403 });
+  }
+
+  const apiBase = getGitHubApiBase(host);
+  const isGraphQL = method === 'POST' && path.join('/') === 'graphql';
+  if (method === 'POST' && !isGraphQL) {
+    return NextResponse.json({ message: 'Not Found' }, { status: 404 });
+  }
+
+  const body = isGraphQL ? await request.text() : undefined;
+  if (body !== undefined && !isGraphQLQueryDocument(getGraphQLDocument(body))) {
+    return NextResponse.json({ message: 'Only GraphQL queries can be sent through this proxy' }, { status: 400 });
+  }
+
+  const url = isGraphQL
+    ? getGitHubGraphQLEndpoint(host)
+    : `${apiBase}/${path.map(encodeURIComponent).join('/')}${request.nextUrl.search}`;
+
+  const headers: Record<string, string> = getGitHubHeaders(host, session?.token);
+  if (!session) {
+    // getGitHubHeaders falls back to the server's token
+    delete headers['Authorization'];
+  }
+  FORWARDED_REQUEST_HEADERS.forEach(name => {
+    const value = request.headers.get(name);
+    if (value) {
+      headers[name] = value;
+    }
+  });
+  if (isGraphQL) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  const response = await getGitHubTransport().request({
+    url,
+    method,
+    headers,
+    body,
+    signal: request.signal,
+  });
+
+  const responseHeaders = new Headers(response.headers);
+  DROPPED_RESPONSE_HEADERS.forEach(name => responseHeaders.delete(name));
+
+  // Point pagination links back at the proxy
+  const link = responseHeaders.get('link');
+  if (link) {
+    responseHeaders.set('link', link.split(apiBase).join(`${request.nextUrl.origin}${getGitHubProxyBase(host)}`));
+  }
+
+  return new NextResponse(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: responseHeaders,
+  });
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  return proxyGitHubRequest(request, context, 'GET');
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  return proxyGitHubRequest(request, context, 'POST');
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelAnalysisJob, subscribeToAnalysisJob, type AnalysisJobEvent } from '@/lib/analysis-jobs';
+import { createGitHubError } from '@/lib/github-errors';
+
+// Comment lines sent regularly, so proxies keep streams of paused jobs open
+const KEEP_ALIVE_INTERVAL = 30 * 1000;
+
+interface JobRouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+function jobNotFound() {
+  const error = createGitHubError('not_found', { message: 'Analysis job not found' });
+  return NextResponse.json({ message: error.message, error }, { status: 404 });
+}
+
+/**
+ * Stream an analysis job's events as Server-Sent Events
+ * `progress` events carry the job's latest progress, starting with the current
+ * one, and `partial` events the result so far when the job pauses for the rate
+ * limit. The stream ends after the `result` event, whose data is the analysis
+ * response ({ data } or { error, errorInfo }, with the rate limit).
+ */
+export async function GET(request: NextRequest, context: JobRouteContext) {
+  const { id } = await context.params;
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | undefined;
+  let keepAlive: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(keepAlive);
+        unsubscribe?.();
+        controller.close();
+      };
+
+      unsubscribe = subscribeToAnalysisJob(id, (event: AnalysisJobEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`));
+        if (event.type === 'result') {
+          // Let the subscription finish before closing
+          queueMicrotask(close);
+        }
+      });
+
+      if (unsubscribe && !closed) {
+        keepAlive = setInterval(() => controller.enqueue(encoder.encode(': keep-alive\n\n')), KEEP_ALIVE_INTERVAL);
+      }
+
+      // Closing the stream leaves the job running; DELETE cancels it
+      request.signal.addEventListener('abort', close);
+    },
+    cancel() {
+      closed = true;
+      clearInterval(keepAlive);
+      unsubscribe?.();
+    },
+  });
+
+  if (!unsubscribe) {
+    await stream.cancel();
+    return jobNotFound();
+  }
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+/**
+ * Cancel an analysis job
+ */
+export async function DELETE(_request: NextRequest, context: JobRouteContext) {
+  const { id } = await context.params;
+  if (!cancelAnalysisJob(id)) {
+    return jobNotFound();
+  }
+  return new NextResponse(null, { status: 204 });
+}
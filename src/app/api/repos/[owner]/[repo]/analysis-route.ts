@@ -0,0 +1,125 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchRepository, type Repository } from '@/lib/github-api';
+import type { AnalysisOptions } from '@/lib/github-analysis';
+import { startAnalysisJob, type AnalysisJobResult } from '@/lib/analysis-jobs';
+import { getSessionToken } from '@/lib/github-auth';
+import { createGitHubError, getErrorStatus, type GitHubError } from '@/lib/github-errors';
+import { isAllowedGitHubHost, normalizeGitHubHost } from '@/lib/github-hosts';
+
+export interface AnalysisRouteContext {
+  params: Promise<{
+    owner: string;
+    repo: string;
+  }>;
+}
+
+export type Analyze<T> = (
+  owner: string,
+  repo: string,
+  options: AnalysisOptions & { repository: Repository }
+) => Promise<AnalysisJobResult<T>>;
+
+/**
+ * Respond with a failure, as { message, error } and the status of its kind
+ */
+function errorJson(error: GitHubError) {
+  return NextResponse.json({ message: error.message, error }, { status: getErrorStatus(error) });
+}
+
+/**
+ * Check the caller can read the repository before analyzing it
+ * Requests use the signed-in user's token, or the server's. The repository is
+ * looked up with that token first, so commits the server has already synced for
+ * a private repository are only served to callers who can read it.
+ */
+async function openRepository(request: NextRequest, context: AnalysisRouteContext) {
+  const { owner, repo } = await context.params;
+  const host = normalizeGitHubHost(request.nextUrl.searchParams.get('host') || undefined);
+
+  if (!isAllowedGitHubHost(host)) {
+    return { failure: errorJson(createGitHubError('forbidden', { message: `GitHub host ${host} is not configured` })) };
+  }
+
+  const token = await getSessionToken(host);
+  const repoResponse = await fetchRepository(owner, repo, { host, token, signal: request.signal });
+  if (repoResponse.error || !repoResponse.data) {
+    return {
+      failure: errorJson(repoResponse.errorInfo || createGitHubError('server', { message: repoResponse.error })),
+    };
+  }
+
+  return { owner, repo, host, token, repository: repoResponse.data, rateLimit: repoResponse.rateLimit };
+}
+
+/**
+ * Run an analysis for GET /api/repos/[owner]/[repo]/... and respond with its result
+ * The rate limit of the token is passed on in the X-RateLimit-* headers;
+ * X-GitFlux-Rate-Limit-Warning marks results cut short by it.
+ */
+export async function respondWithAnalysis<T>(
+  request: NextRequest,
+  context: AnalysisRouteContext,
+  analyze: Analyze<T>
+) {
+  const opened = await openRepository(request, context);
+  if ('failure' in opened) {
+    return opened.failure;
+  }
+
+  const { owner, repo, host, token, repository } = opened;
+  const response = await analyze(owner, repo, { host, token, repository, signal: request.signal });
+  if (response.error || !response.data) {
+    return errorJson(response.errorInfo || createGitHubError('server', { message: response.error }));
+  }
+
+  const headers = new Headers();
+  const rateLimit = response.rateLimit || opened.rateLimit;
+  if (rateLimit) {
+    headers.set('X-RateLimit-Limit', String(rateLimit.limit));
+    headers.set('X-RateLimit-Remaining', String(rateLimit.remaining));
+    headers.set('X-RateLimit-Reset', String(rateLimit.reset));
+  }
+  if (response.rateLimitWarning) {
+    headers.set('X-GitFlux-Rate-Limit-Warning', 'true');
+  }
+  if (response.dataPoints !== undefined) {
+    headers.set('X-GitFlux-Data-Points', String(response.dataPoints));
+  }
+  if (response.largeRepository) {
+    headers.set('X-GitFlux-Large-Repository', 'true');
+  }
+
+  return NextResponse.json(response.data, { headers });
+}
+
+/**
+ * Start an analysis as a job for POST /api/repos/[owner]/[repo]/...
+ * Responds with 202 and the job's id; its progress and result are streamed from
+ * /api/jobs/[id] (see analysis-jobs.ts). The job keeps running when the request
+ * ends, and the same caller asking again for the same analysis gets the same job,
+ * e.g. after reloading the page while the job waits for the rate limit to reset.
+ */
+export async function startAnalysisJobResponse<T>(
+  request: NextRequest,
+  context: AnalysisRouteContext,
+  analyze: Analyze<T>
+) {
+  const opened = await openRepository(request, context);
+  if ('failure' in opened) {
+    return opened.failure;
+  }
+
+  const { owner, repo, host, token, repository } = opened;
+  const params = new URLSearchParams(request.nextUrl.searchParams);
+  params.sort();
+  const caller = createHash('sha256').update(token || '').digest('hex');
+  const id = startAnalysisJob(
+    ({ signal, onProgress, checkpoint }) =>
+      analyze(owner, repo, { host, token, repository, signal, onProgress, checkpoint }),
+    { key: `${caller}:${request.nextUrl.pathname}?${params}` }
+  );
+  const events = `/api/jobs/${id}`;
+
+  return NextResponse.json({ id, events }, { status: 202, headers: { Location: events } });
+}
@@ -0,0 +1,34 @@
+import { NextRequest } from 'next/server';
+import type { BranchPRAnalysis } from '@/lib/github-api';
+import { analyzeBranchPRs } from '@/lib/github-analysis';
+import { parseTimePeriod } from '@/lib/repository-analysis';
+import {
+  respondWithAnalysis,
+  startAnalysisJobResponse,
+  type Analyze,
+  type AnalysisRouteContext,
+} from '../analysis-route';
+
+/**
+ * Branch and pull request analysis (BranchPRAnalysis) for ?period= (default 90d)
+ * ?scope=reduced analyzes fewer branches, pull requests and reviews of large
+ * repositories (flagged by X-GitFlux-Large-Repository)
+ */
+function analysisFor(request: NextRequest): Analyze<BranchPRAnalysis> {
+  const { searchParams } = request.nextUrl;
+  const timePeriod = parseTimePeriod(searchParams.get('period'));
+  const reducedScope = searchParams.get('scope') === 'reduced';
+  return (owner, repo, options) =>
+    analyzeBranchPRs(owner, repo, timePeriod, { ...options, reducedScope });
+}
+
+export async function GET(request: NextRequest, context: AnalysisRouteContext) {
+  return respondWithAnalysis(request, context, analysisFor(request));
+}
+
+/**
+ * Start the same analysis as a job with streamed progress (see analysis-jobs.ts)
+ */
+export async function POST(request: NextRequest, context: AnalysisRouteContext) {
+  return startAnalysisJobResponse(request, context, analysisFor(request));
+}
@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import type { ContributorAnalysis } from '@/lib/commit-activity-data';
+import { analyzeContributorTrends } from '@/lib/github-analysis';
+import { parseTimeRange } from '@/lib/repository-analysis';
+import {
+  respondWithAnalysis,
+  startAnalysisJobResponse,
+  type Analyze,
+  type AnalysisRouteContext,
+} from '../analysis-route';
+
+/**
+ * Contributor commit trends (ContributorAnalysis) for ?range= (default 30d)
+ */
+function analysisFor(request: NextRequest): Analyze<ContributorAnalysis> {
+  const timeRange = parseTimeRange(request.nextUrl.searchParams.get('range'));
+  return (owner, repo, options) =>
+    analyzeContributorTrends(owner, repo, timeRange, options);
+}
+
+export async function GET(request: NextRequest, context: AnalysisRouteContext) {
+  return respondWithAnalysis(request, context, analysisFor(request));
+}
+
+/**
+ * Start the same analysis as a job with streamed progress (see analysis-jobs.ts)
+ */
+export async function POST(request: NextRequest, context: AnalysisRouteContext) {
+  return startAnalysisJobResponse(request, context, analysisFor(request));
+}
@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import type { FileChangeAnalysis } from '@/lib/github-api';
+import { analyzeFileChanges } from '@/lib/github-analysis';
+import { parseTimePeriod } from '@/lib/repository-analysis';
+import {
+  respondWithAnalysis,
+  startAnalysisJobResponse,
+  type Analyze,
+  type AnalysisRouteContext,
+} from '../analysis-route';
+
+/**
+ * File change analysis (FileChangeAnalysis) for ?period= (default 90d)
+ */
+function analysisFor(request: NextRequest): Analyze<FileChangeAnalysis> {
+  const timePeriod = parseTimePeriod(request.nextUrl.searchParams.get('period'));
+  return (owner, repo, options) =>
+    analyzeFileChanges(owner, repo, timePeriod, options);
+}
+
+export async function GET(request: NextRequest, context: AnalysisRouteContext) {
+  return respondWithAnalysis(request, context, analysisFor(request));
+}
+
+/**
+ * Start the same analysis as a job with streamed progress (see analysis-jobs.ts)
+ */
+export async function POST(request: NextRequest, context: AnalysisRouteContext) {
+  return startAnalysisJobResponse(request, context, analysisFor(request));
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAllowedGitHubHost, normalizeGitHubHost } from '@/lib/github-hosts';
+import { parseWebhookPayload, PayloadValidationError } from '@/lib/github-models';
+import {
+  getWebhookSecret,
+  handleWebhookEvent,
+  isWebhookEvent,
+  verifyWebhookSignature,
+} from '@/lib/github-webhooks';
+
+/**
+ * Receive a GitHub webhook delivery and refresh the cached data of its repository
+ * The signature is checked against the raw body before anything else is read.
+ * Events that do not affect analyses (and the initial ping) are acknowledged
+ * without changes.
+ */
+export async function POST(request: NextRequest) {
+  const secret = getWebhookSecret();
+  if (!secret) {
+    return NextResponse.json({ message: 'GitHub webhooks are not configured' }, { status: 404 });
+  }
+
+  const body = await request.text();
+  if (!verifyWebhookSignature(body, request.headers.get('x-hub-signature-256'), secret)) {
+    return NextResponse.json({ message: 'Invalid webhook signature' }, { status: 401 });
+  }
+
+  const event = request.headers.get('x-github-event');
+  // Enterprise Server names itself; deliveries from github.com do not
+  const host = normalizeGitHubHost(request.headers.get('x-github-enterprise-host'));
+  if (!isWebhookEvent(event) || !isAllowedGitHubHost(host)) {
+    return NextResponse.json({ message: `Ignored ${event || 'unknown'} event` }, { status: 202 });
+  }
+
+  let payload;
+  try {
+    payload = parseWebhookPayload(JSON.parse(body));
+  } catch (error) {
+    const message = error instanceof PayloadValidationError ? error.message : 'Webhook body is not valid JSON';
+    return NextResponse.json({ message }, { status: 400 });
+  }
+
+  return NextResponse.json(await handleWebhookEvent(event, payload, host));
+}
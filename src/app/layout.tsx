@@ -1,6 +1,9 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
+import { AccountStatus } from "@/components/AccountStatus";
+import { fetchRateLimit } from "@/lib/github-api";
+import { getGitHubSession, isGitHubSignInEnabled } from "@/lib/github-auth";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -23,11 +26,15 @@ export const viewport = {
   initialScale: 1,
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  // Signed-in users see the rate limit of their own token
+  const session = await getGitHubSession();
+  const rateLimit = session ? (await fetchRateLimit({ token: session.token })).data : undefined;
+
   return (
     <html lang="en">
       <head>
@@ -41,6 +48,15 @@ export default function RootLayout({
             Skip to main content
           </a>
         </div>
+        {(session || isGitHubSignInEnabled()) && (
+          <nav className="flex justify-end px-4 sm:px-6 lg:px-8 pt-3" aria-label="Account">
+            <AccountStatus
+              user={session && { login: session.login, avatarUrl: session.avatarUrl }}
+              rateLimit={rateLimit}
+              signInEnabled={isGitHubSignInEnabled()}
+            />
+          </nav>
+        )}
         <main id="main-content">
           {children}
         </main>
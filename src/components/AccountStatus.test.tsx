@@ -0,0 +1,40 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { AccountStatus } from './AccountStatus';
+
+vi.mock('next/navigation', () => ({
+  usePathname: () => '/analyze/acme/widgets',
+}));
+
+describe('AccountStatus', () => {
+  it('links to sign-in, returning to the current page', () => {
+    render(<AccountStatus signInEnabled />);
+
+    expect(screen.getByRole('link', { name: 'Sign in with GitHub' })).toHaveAttribute(
+      'href',
+      '/api/auth/login?returnTo=%2Fanalyze%2Facme%2Fwidgets'
+    );
+  });
+
+  it('renders nothing when sign-in is not configured', () => {
+    const { container } = render(<AccountStatus signInEnabled={false} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('shows the signed-in user and their rate limit', () => {
+    const reset = Math.floor(Date.now() / 1000) + 30 * 60;
+    render(
+      <AccountStatus
+        signInEnabled
+        user={{ login: 'ann', avatarUrl: '' }}
+        rateLimit={{ remaining: 4200, limit: 5000, reset }}
+      />
+    );
+
+    expect(screen.getByText('ann')).toBeInTheDocument();
+    expect(screen.getByLabelText('4200 of 5000 GitHub API requests left, resets in 30 minutes')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Sign out' })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,68 @@
+'use client';
+
+import React from 'react';
+import { usePathname } from 'next/navigation';
+import { getRateLimitResetTime, type RateLimitInfo } from '@/lib/github-api';
+
+interface AccountStatusProps {
+  user?: {
+    login: string;
+    avatarUrl: string;
+  };
+  rateLimit?: RateLimitInfo;
+  signInEnabled: boolean;
+}
+
+/**
+ * Sign-in state of the visitor: a sign-in link, or the signed-in user with
+ * the rate limit of their own token
+ */
+export function AccountStatus({ user, rateLimit, signInEnabled }: AccountStatusProps) {
+  const pathname = usePathname() || '/';
+  const returnTo = encodeURIComponent(pathname);
+
+  if (!user) {
+    if (!signInEnabled) {
+      return null;
+    }
+
+    return (
+      <a
+        href={`/api/auth/login?returnTo=${returnTo}`}
+        className="inline-flex items-center px-3 py-1.5 rounded-md text-sm font-medium text-white bg-gray-900 hover:bg-gray-700 dark:bg-gray-700 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+      >
+        Sign in with GitHub
+      </a>
+    );
+  }
+
+  const lowOnRequests = rateLimit ? rateLimit.remaining < rateLimit.limit * 0.1 : false;
+
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      {rateLimit && (
+        <span
+          className={lowOnRequests ? 'text-orange-600 dark:text-orange-400' : 'text-gray-600 dark:text-gray-400'}
+          aria-label={`${rateLimit.remaining} of ${rateLimit.limit} GitHub API requests left, resets in ${getRateLimitResetTime(rateLimit)}`}
+          title={`Resets in ${getRateLimitResetTime(rateLimit)}`}
+        >
+          {rateLimit.remaining.toLocaleString()} / {rateLimit.limit.toLocaleString()} requests left
+        </span>
+      )}
+      <span className="flex items-center gap-2 text-gray-900 dark:text-gray-100 font-medium">
+        {user.avatarUrl && (
+          <img src={user.avatarUrl} alt="" className="w-6 h-6 rounded-full" />
+        )}
+        {user.login}
+      </span>
+      <form action={`/api/auth/logout?returnTo=${returnTo}`} method="post">
+        <button
+          type="submit"
+          className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+        >
+          Sign out
+        </button>
+      </form>
+    </div>
+  );
+}
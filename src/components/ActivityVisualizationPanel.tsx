@@ -8,6 +8,7 @@ import { type TimeRange } from '@/lib/commit-activity-data';
 interface ActivityVisualizationPanelProps {
   owner: string;
   repo: string;
+  host?: string;
   initialTimeRange?: TimeRange;
 }
 
@@ -99,6 +100,7 @@ class ActivityErrorBoundary extends React.Component<
 export const ActivityVisualizationPanel = React.memo(function ActivityVisualizationPanel({ 
   owner, 
   repo, 
+  host,
   initialTimeRange = '30d' 
 }: ActivityVisualizationPanelProps) {
   const [timeRange, setTimeRange] = useState<TimeRange>(initialTimeRange);
@@ -216,6 +218,7 @@ export const ActivityVisualizationPanel = React.memo(function ActivityVisualizat
             <CommitActivityHeatmap
               owner={owner}
               repo={repo}
+              host={host}
               timeRange={timeRange}
             />
           </div>
@@ -225,6 +228,7 @@ export const ActivityVisualizationPanel = React.memo(function ActivityVisualizat
             <ContributorTrendlines
               owner={owner}
               repo={repo}
+              host={host}
               timeRange={timeRange}
             />
           </div>
@@ -1,14 +1,15 @@
-import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import React from 'react';
+import { render, screen, waitFor, act } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
+import { vi } from 'vitest';
 import { BranchPRStats } from './BranchPRStats';
-import * as githubApi from '@/lib/github-api';
 
 // Mock all the sub-components with realistic implementations
-jest.mock('./BranchPRFilter', () => ({
+vi.mock('./BranchPRFilter', () => ({
   BranchPRFilter: ({ selectedPeriod, onPeriodChange, isLoading }: any) => (
     <div data-testid="branch-pr-filter">
       <label htmlFor="period-select">Time Period</label>
-      <select 
+      <select
         id="period-select"
         value={selectedPeriod}
         onChange={(e) => onPeriodChange(e.target.value)}
@@ -24,7 +25,7 @@ jest.mock('./BranchPRFilter', () => ({
   ),
 }));
 
-jest.mock('./BranchStatistics', () => ({
+vi.mock('./BranchStatistics', () => ({
   BranchStatistics: ({ branches, isLoading, timePeriod }: any) => (
     <div data-testid="branch-statistics">
       <h3>Branch Statistics</h3>
@@ -32,8 +33,7 @@ jest.mock('./BranchStatistics', () => ({
         <div>Loading branches...</div>
       ) : (
         <div>
-          <p>Total Branches: {branches?.totalBranches || 0}</p>
-          <p>Active Branches: {branches?.activeBranches || 0}</p>
+          <p>Total Branches: {branches.length}</p>
           <p>Time Period: {timePeriod}</p>
         </div>
       )}
@@ -41,7 +41,7 @@ jest.mock('./BranchStatistics', () => ({
   ),
 }));
 
-jest.mock('./PRAnalytics', () => ({
+vi.mock('./PRAnalytics', () => ({
   PRAnalytics: ({ pullRequests, isLoading, timePeriod }: any) => (
     <div data-testid="pr-analytics">
       <h3>Pull Request Analytics</h3>
@@ -49,8 +49,7 @@ jest.mock('./PRAnalytics', () => ({
         <div>Loading pull requests...</div>
       ) : (
         <div>
-          <p>Total PRs: {pullRequests?.totalPRs || 0}</p>
-          <p>Open PRs: {pullRequests?.openPRs || 0}</p>
+          <p>Total PRs: {pullRequests.length}</p>
           <p>Time Period: {timePeriod}</p>
         </div>
       )}
@@ -58,7 +57,7 @@ jest.mock('./PRAnalytics', () => ({
   ),
 }));
 
-jest.mock('./PRTimeline', () => ({
+vi.mock('./PRTimeline', () => ({
   PRTimeline: ({ timelineData, isLoading, timePeriod }: any) => (
     <div data-testid="pr-timeline">
       <h3>Pull Request Timeline</h3>
@@ -66,7 +65,7 @@ jest.mock('./PRTimeline', () => ({
         <div>Loading timeline...</div>
       ) : (
         <div>
-          <p>Timeline Points: {timelineData?.length || 0}</p>
+          <p>Timeline Points: {timelineData.length}</p>
           <p>Time Period: {timePeriod}</p>
         </div>
       )}
@@ -74,7 +73,7 @@ jest.mock('./PRTimeline', () => ({
   ),
 }));
 
-jest.mock('./ReviewStatistics', () => ({
+vi.mock('./ReviewStatistics', () => ({
   ReviewStatistics: ({ reviewData, isLoading }: any) => (
     <div data-testid="review-statistics">
       <h3>Review Statistics</h3>
@@ -90,54 +89,37 @@ jest.mock('./ReviewStatistics', () => ({
   ),
 }));
 
-// Mock GitHub API functions
-const mockFetchRepository = jest.fn();
-const mockFetchBranches = jest.fn();
-const mockFetchPullRequests = jest.fn();
-const mockFetchPRReviews = jest.fn();
-const mockGenerateBranchPRAnalysis = jest.fn();
-
-jest.mock('@/lib/github-api', () => ({
-  ...jest.requireActual('@/lib/github-api'),
-  fetchRepository: (...args: any[]) => mockFetchRepository(...args),
-  fetchBranches: (...args: any[]) => mockFetchBranches(...args),
-  fetchPullRequests: (...args: any[]) => mockFetchPullRequests(...args),
-  fetchPRReviews: (...args: any[]) => mockFetchPRReviews(...args),
-  generateBranchPRAnalysis: (...args: any[]) => mockGenerateBranchPRAnalysis(...args),
-}));
+// The job's event stream; tests send its events with emit()
+class MockEventSource {
+  static readonly CLOSED = 2;
+  static instances: MockEventSource[] = [];
 
-const mockRepositoryData = {
-  data: {
-    default_branch: 'main',
-    name: 'test-repo',
-    full_name: 'owner/test-repo',
-    size: 50000,
-  },
-};
+  readyState = 1;
+  private listeners = new Map<string, ((event: MessageEvent<string>) => void)[]>();
 
-const mockBranchesData = {
-  data: [
-    { name: 'main', commit: { sha: 'abc123' } },
-    { name: 'feature-1', commit: { sha: 'def456' } },
-    { name: 'feature-2', commit: { sha: 'ghi789' } },
-  ],
-};
+  constructor(public url: string) {
+    MockEventSource.instances.push(this);
+  }
 
-const mockPullRequestsData = {
-  data: [
-    { number: 1, title: 'PR 1', state: 'open', created_at: '2024-01-01T00:00:00Z' },
-    { number: 2, title: 'PR 2', state: 'merged', created_at: '2024-01-02T00:00:00Z', merged_at: '2024-01-03T00:00:00Z' },
-    { number: 3, title: 'PR 3', state: 'closed', created_at: '2024-01-04T00:00:00Z' },
-  ],
-};
+  addEventListener(type: string, listener: (event: MessageEvent<string>) => void) {
+    this.listeners.set(type, [...(this.listeners.get(type) || []), listener]);
+  }
 
-const mockReviewsData = {
-  data: [
-    { id: 1, user: { login: 'reviewer1' }, state: 'APPROVED', submitted_at: '2024-01-02T12:00:00Z' },
-    { id: 2, user: { login: 'reviewer2' }, state: 'CHANGES_REQUESTED', submitted_at: '2024-01-03T10:00:00Z' },
-    { id: 3, user: { login: 'reviewer1' }, state: 'APPROVED', submitted_at: '2024-01-04T14:00:00Z' },
-  ],
-};
+  close() {
+    this.readyState = MockEventSource.CLOSED;
+  }
+
+  emit(type: string, data: unknown) {
+    if (this.readyState === MockEventSource.CLOSED) return;
+    act(() => {
+      this.listeners.get(type)?.forEach(listener => listener({ data: JSON.stringify(data) } as MessageEvent<string>));
+    });
+  }
+}
+
+function latestJobStream(): MockEventSource {
+  return MockEventSource.instances[MockEventSource.instances.length - 1];
+}
 
 const mockAnalysisResult = {
   branches: {
@@ -145,7 +127,11 @@ const mockAnalysisResult = {
     activeBranches: 2,
     mergedBranches: 1,
     staleBranches: 0,
-    branches: mockBranchesData.data,
+    branches: [
+      { name: 'main', status: 'active', lastCommitDate: '2024-01-01' },
+      { name: 'feature-1', status: 'active', lastCommitDate: '2024-01-02' },
+      { name: 'feature-2', status: 'merged', lastCommitDate: '2024-01-03' },
+    ],
     branchActivity: [],
   },
   pullRequests: {
@@ -156,7 +142,11 @@ const mockAnalysisResult = {
     averageTimeToMerge: 24,
     averageReviewTime: 12,
     averagePRSize: 100,
-    pullRequests: mockPullRequestsData.data,
+    pullRequests: [
+      { number: 1, title: 'PR 1', state: 'open', created_at: '2024-01-01T00:00:00Z' },
+      { number: 2, title: 'PR 2', state: 'merged', created_at: '2024-01-02T00:00:00Z', merged_at: '2024-01-03T00:00:00Z' },
+      { number: 3, title: 'PR 3', state: 'closed', created_at: '2024-01-04T00:00:00Z' },
+    ],
     timeline: [
       { date: '2024-01-01', opened: 1, merged: 0, closed: 0 },
       { date: '2024-01-02', opened: 1, merged: 0, closed: 0 },
@@ -180,295 +170,310 @@ const mockAnalysisResult = {
   timePeriod: '30d' as const,
 };
 
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
 describe('BranchPRStats Integration Tests', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let jobCount: number;
+
+  // Start the job, then wait for the component to follow it
+  async function waitForJob(): Promise<MockEventSource> {
+    await waitFor(() => {
+      expect(MockEventSource.instances.length).toBeGreaterThan(0);
+      expect(latestJobStream().readyState).not.toBe(MockEventSource.CLOSED);
+    });
+    return latestJobStream();
+  }
+
   beforeEach(() => {
-    jest.clearAllMocks();
-    
-    // Setup default successful responses
-    mockFetchRepository.mockResolvedValue(mockRepositoryData);
-    mockFetchBranches.mockResolvedValue(mockBranchesData);
-    mockFetchPullRequests.mockResolvedValue(mockPullRequestsData);
-    mockFetchPRReviews.mockResolvedValue(mockReviewsData);
-    mockGenerateBranchPRAnalysis.mockReturnValue(mockAnalysisResult);
+    MockEventSource.instances = [];
+    jobCount = 0;
+
+    // The analysis routes: POST starts a job, DELETE cancels one
+    fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+      if (init?.method === 'DELETE') {
+        return new Response(null, { status: 204 });
+      }
+      return jsonResponse({ id: `job-${++jobCount}` }, 202);
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubGlobal('EventSource', MockEventSource);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
   });
 
   it('should complete full analysis workflow successfully', async () => {
     render(<BranchPRStats owner="testowner" repo="testrepo" />);
-    
+
     // Should show loading state initially
-    expect(screen.getByText('Fetching repository information...')).toBeInTheDocument();
-    
+    expect(screen.getByText('Loading branches...')).toBeInTheDocument();
+
+    const job = await waitForJob();
+    expect(job.url).toBe('/api/jobs/job-1');
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/api/repos/testowner/testrepo/branch-pr?period=30d',
+      expect.objectContaining({ method: 'POST' })
+    );
+
+    // Should show the job's progress
+    job.emit('progress', { status: 'running', phase: 'fetching-prs', progress: 40 });
+    expect(screen.getByText('Fetching pull requests...')).toBeInTheDocument();
+
+    job.emit('result', { data: mockAnalysisResult, dataPoints: 10 });
+
     // Should complete analysis and show all components
-    await waitFor(() => {
-      expect(screen.getByText('Branch Statistics')).toBeInTheDocument();
-      expect(screen.getByText('Pull Request Analytics')).toBeInTheDocument();
-      expect(screen.getByText('Pull Request Timeline')).toBeInTheDocument();
-      expect(screen.getByText('Review Statistics')).toBeInTheDocument();
-    });
-    
+    expect(screen.getByText('Branch Statistics')).toBeInTheDocument();
+    expect(screen.getByText('Pull Request Analytics')).toBeInTheDocument();
+    expect(screen.getByText('Pull Request Timeline')).toBeInTheDocument();
+    expect(screen.getByText('Review Statistics')).toBeInTheDocument();
+
     // Should show correct data
     expect(screen.getByText('Total Branches: 3')).toBeInTheDocument();
     expect(screen.getByText('Total PRs: 3')).toBeInTheDocument();
     expect(screen.getByText('Timeline Points: 4')).toBeInTheDocument();
     expect(screen.getByText('Total Reviews: 3')).toBeInTheDocument();
-    
+
     // Should show performance metrics
     expect(screen.getByText('Performance Metrics')).toBeInTheDocument();
-    
-    // Should call all API functions
-    expect(mockFetchRepository).toHaveBeenCalledWith('testowner', 'testrepo');
-    expect(mockFetchBranches).toHaveBeenCalledWith('testowner', 'testrepo', expect.any(Object));
-    expect(mockFetchPullRequests).toHaveBeenCalledWith('testowner', 'testrepo', expect.any(Object));
-    expect(mockFetchPRReviews).toHaveBeenCalledWith('testowner', 'testrepo', expect.any(Array));
-    expect(mockGenerateBranchPRAnalysis).toHaveBeenCalled();
+    expect(screen.getByText('10')).toBeInTheDocument();
   });
 
   it('should handle time period changes correctly', async () => {
     const user = userEvent.setup();
-    
+
     render(<BranchPRStats owner="testowner" repo="testrepo" />);
-    
+
     // Wait for initial load
-    await waitFor(() => {
-      expect(screen.getByText('Total Branches: 3')).toBeInTheDocument();
-    });
-    
+    (await waitForJob()).emit('result', { data: mockAnalysisResult });
+    expect(screen.getByText('Total Branches: 3')).toBeInTheDocument();
+
     // Change time period
     const periodSelect = screen.getByLabelText('Time Period');
     await user.selectOptions(periodSelect, '90d');
-    
-    // Should trigger new analysis
+
+    // Should start a new analysis for the period
     await waitFor(() => {
-      expect(mockFetchRepository).toHaveBeenCalledTimes(2);
+      expect(fetchMock).toHaveBeenCalledWith(
+        '/api/repos/testowner/testrepo/branch-pr?period=90d',
+        expect.objectContaining({ method: 'POST' })
+      );
     });
-    
+
+    (await waitForJob()).emit('result', { data: { ...mockAnalysisResult, timePeriod: '90d' } });
+
     // Should update all components with new time period
     expect(screen.getAllByText('Time Period: 90d')).toHaveLength(3); // Branch, PR, Timeline components
   });
 
   it('should handle large repository workflow', async () => {
     const user = userEvent.setup();
-    
-    // Mock large repository
-    mockFetchRepository.mockResolvedValue({
-      data: {
-        ...mockRepositoryData.data,
-        size: 150000, // Large repository
-      },
-    });
-    
+
     render(<BranchPRStats owner="testowner" repo="testrepo" />);
-    
+
+    // The server flags large repositories
+    (await waitForJob()).emit('result', { data: mockAnalysisResult, largeRepository: true });
+
     // Should show large repository warning
-    await waitFor(() => {
-      expect(screen.getByText('Large Repository Detected')).toBeInTheDocument();
-    });
-    
+    expect(screen.getByText('Large Repository Detected')).toBeInTheDocument();
+
     // Should show reduced scope option
     const checkbox = screen.getByLabelText('Use reduced scope (faster analysis)');
     expect(checkbox).toBeInTheDocument();
-    
+
     // Toggle reduced scope
     await user.click(checkbox);
-    
+
     // Should show reduced scope message
     expect(screen.getByText('Reduced scope: Analyzing fewer branches, PRs, and reviews for faster processing.')).toBeInTheDocument();
-    
-    // Should still complete analysis
+
+    // Should start the analysis again with the reduced scope
     await waitFor(() => {
-      expect(screen.getByText('Total Branches: 3')).toBeInTheDocument();
+      expect(fetchMock).toHaveBeenLastCalledWith(
+        '/api/repos/testowner/testrepo/branch-pr?period=30d&scope=reduced',
+        expect.objectContaining({ method: 'POST' })
+      );
     });
-    
+
+    (await waitForJob()).emit('result', { data: mockAnalysisResult, largeRepository: true });
+    expect(screen.getByText('Total Branches: 3')).toBeInTheDocument();
+
     // Performance metrics should show reduced scope
     expect(screen.getByText('Reduced')).toBeInTheDocument();
   });
 
   it('should handle error recovery workflow', async () => {
     const user = userEvent.setup();
-    
+
     // Start with error
-    mockFetchRepository.mockResolvedValue({ error: 'Repository not found' });
-    
+    fetchMock.mockResolvedValueOnce(jsonResponse({
+      message: 'Repository not found',
+      error: { kind: 'not_found', message: 'Repository not found', status: 404 },
+    }, 404));
+
     render(<BranchPRStats owner="testowner" repo="testrepo" />);
-    
+
     // Should show error state
     await waitFor(() => {
       expect(screen.getByText('Error Loading Data')).toBeInTheDocument();
     });
-    
+    expect(screen.getByText('• Repository not found')).toBeInTheDocument();
+
     // Should show retry button
     const retryButton = screen.getByText('Retry');
     expect(retryButton).toBeInTheDocument();
-    
-    // Fix the error and retry
-    mockFetchRepository.mockResolvedValue(mockRepositoryData);
+
+    // Retry with the route working again
     await user.click(retryButton);
-    
+
     // Should recover and show data
-    await waitFor(() => {
-      expect(screen.getByText('Total Branches: 3')).toBeInTheDocument();
-    });
-    
+    (await waitForJob()).emit('result', { data: mockAnalysisResult });
+    expect(screen.getByText('Total Branches: 3')).toBeInTheDocument();
+
     // Error should be gone
     expect(screen.queryByText('Error Loading Data')).not.toBeInTheDocument();
   });
 
-  it('should handle partial error scenarios', async () => {
-    // Repository succeeds, but branches fail
-    mockFetchBranches.mockResolvedValue({ error: 'Failed to fetch branches' });
-    
+  it('should handle a failed analysis job', async () => {
     render(<BranchPRStats owner="testowner" repo="testrepo" />);
-    
-    await waitFor(() => {
-      expect(screen.getByText('Error Loading Data')).toBeInTheDocument();
+
+    (await waitForJob()).emit('result', {
+      error: 'Failed to fetch branches',
+      errorInfo: { kind: 'server', message: 'Failed to fetch branches' },
     });
-    
-    // Should show specific error for branches
-    expect(screen.getByText('• Branches: Failed to fetch branches')).toBeInTheDocument();
-    
-    // Should still show other components that succeeded
-    expect(screen.getByText('Pull Request Analytics')).toBeInTheDocument();
-    expect(screen.getByText('Review Statistics')).toBeInTheDocument();
+
+    expect(screen.getByText('Error Loading Data')).toBeInTheDocument();
+    expect(screen.getByText('• Failed to fetch branches')).toBeInTheDocument();
   });
 
   it('should handle cancellation workflow', async () => {
     const user = userEvent.setup();
-    
-    // Mock slow API calls
-    mockFetchRepository.mockImplementation(() => new Promise(resolve => setTimeout(() => resolve(mockRepositoryData), 1000)));
-    mockFetchBranches.mockImplementation(() => new Promise(resolve => setTimeout(() => resolve(mockBranchesData), 1000)));
-    
+
     render(<BranchPRStats owner="testowner" repo="testrepo" />);
-    
+
     // Should show progress indicator
-    await waitFor(() => {
-      expect(screen.getByTitle('Cancel operation')).toBeInTheDocument();
-    });
-    
+    const job = await waitForJob();
+    expect(screen.getByText('Cancel')).toBeInTheDocument();
+
     // Cancel the operation
-    const cancelButton = screen.getByTitle('Cancel operation');
-    await user.click(cancelButton);
-    
+    await user.click(screen.getByText('Cancel'));
+    expect(fetchMock).toHaveBeenCalledWith('/api/jobs/job-1', { method: 'DELETE' });
+
+    // The server ends the job with a cancelled result
+    job.emit('result', { error: 'Cancelled', errorInfo: { kind: 'cancelled', message: 'Cancelled' } });
+
     // Should show cancellation message
-    await waitFor(() => {
-      expect(screen.getByText('Analysis was cancelled by user.')).toBeInTheDocument();
-    });
-    
-    // Should not show loading anymore
-    expect(screen.queryByTitle('Cancel operation')).not.toBeInTheDocument();
+    expect(screen.getByText('• Analysis was cancelled by user.')).toBeInTheDocument();
+
+    // Should not show progress anymore
+    expect(screen.queryByText('Cancel')).not.toBeInTheDocument();
   });
 
   it('should handle rate limiting workflow', async () => {
-    // Mock rate limit responses
-    mockFetchBranches.mockResolvedValue({
-      ...mockBranchesData,
-      rateLimit: { remaining: 10, reset: Date.now() + 3600000, limit: 5000 },
-    });
-    mockFetchPullRequests.mockResolvedValue({
-      ...mockPullRequestsData,
-      rateLimit: { remaining: 5, reset: Date.now() + 3600000, limit: 5000 },
-    });
-    
     render(<BranchPRStats owner="testowner" repo="testrepo" />);
-    
-    // Should show rate limit warning
-    await waitFor(() => {
-      expect(screen.getByText('API Rate Limit Warning')).toBeInTheDocument();
-    });
-    
-    // Should still complete analysis
+
+    // The job pauses for the rate limit with what it has so far
+    const job = await waitForJob();
+    job.emit('partial', { data: mockAnalysisResult, rateLimitWarning: true });
+    job.emit('progress', { status: 'paused', phase: 'fetching-reviews', progress: 60, resumesAt: Date.now() + 60_000 });
+
+    // Should show rate limit warning and the partial results
+    expect(screen.getByText('API Rate Limit Warning')).toBeInTheDocument();
     expect(screen.getByText('Total Branches: 3')).toBeInTheDocument();
+    expect(screen.getByText(/^Partial results, 60% complete, resumes at /)).toBeInTheDocument();
+
+    // Should still complete analysis
+    job.emit('result', { data: mockAnalysisResult, rateLimitWarning: true });
+    expect(screen.getByText('Total Reviews: 3')).toBeInTheDocument();
+    expect(screen.queryByText(/^Partial results/)).not.toBeInTheDocument();
   });
 
   it('should handle empty repository workflow', async () => {
-    // Mock empty responses
-    mockFetchBranches.mockResolvedValue({ data: [] });
-    mockFetchPullRequests.mockResolvedValue({ data: [] });
-    mockFetchPRReviews.mockResolvedValue({ data: [] });
-    
-    mockGenerateBranchPRAnalysis.mockReturnValue({
-      branches: {
-        totalBranches: 0,
-        activeBranches: 0,
-        mergedBranches: 0,
-        staleBranches: 0,
-        branches: [],
-        branchActivity: [],
-      },
-      pullRequests: {
-        totalPRs: 0,
-        openPRs: 0,
-        closedPRs: 0,
-        mergedPRs: 0,
-        averageTimeToMerge: 0,
-        averageReviewTime: 0,
-        averagePRSize: 0,
-        pullRequests: [],
-        timeline: [],
-        topContributors: [],
-      },
-      reviews: {
-        totalReviews: 0,
-        averageReviewsPerPR: 0,
-        averageTimeToFirstReview: 0,
-        averageTimeToApproval: 0,
-        topReviewers: [],
-        reviewPatterns: [],
+    render(<BranchPRStats owner="testowner" repo="testrepo" />);
+
+    (await waitForJob()).emit('result', {
+      data: {
+        branches: {
+          totalBranches: 0,
+          activeBranches: 0,
+          mergedBranches: 0,
+          staleBranches: 0,
+          branches: [],
+          branchActivity: [],
+        },
+        pullRequests: {
+          totalPRs: 0,
+          openPRs: 0,
+          closedPRs: 0,
+          mergedPRs: 0,
+          averageTimeToMerge: 0,
+          averageReviewTime: 0,
+          averagePRSize: 0,
+          pullRequests: [],
+          timeline: [],
+          topContributors: [],
+        },
+        reviews: {
+          totalReviews: 0,
+          averageReviewsPerPR: 0,
+          averageTimeToFirstReview: 0,
+          averageTimeToApproval: 0,
+          topReviewers: [],
+          reviewPatterns: [],
+        },
+        analysisDate: new Date().toISOString(),
+        timePeriod: '30d',
       },
-      analysisDate: new Date().toISOString(),
-      timePeriod: '30d' as const,
     });
-    
-    render(<BranchPRStats owner="testowner" repo="testrepo" />);
-    
+
     // Should show empty state
-    await waitFor(() => {
-      expect(screen.getByText('No Data Available')).toBeInTheDocument();
-    });
-    
+    expect(screen.getByText('No Data Available')).toBeInTheDocument();
+
     // Should show helpful message
     expect(screen.getByText('This repository doesn\'t have enough branch or pull request activity to generate analytics.')).toBeInTheDocument();
   });
 
   it('should maintain state consistency across re-renders', async () => {
     const { rerender } = render(<BranchPRStats owner="testowner" repo="testrepo" />);
-    
+
     // Wait for initial load
-    await waitFor(() => {
-      expect(screen.getByText('Total Branches: 3')).toBeInTheDocument();
-    });
-    
-    const initialCallCount = mockFetchRepository.mock.calls.length;
-    
+    (await waitForJob()).emit('result', { data: mockAnalysisResult });
+    expect(screen.getByText('Total Branches: 3')).toBeInTheDocument();
+
+    const initialCallCount = fetchMock.mock.calls.length;
+
     // Re-render with same props
     rerender(<BranchPRStats owner="testowner" repo="testrepo" />);
-    
-    // Should not trigger new API calls
-    expect(mockFetchRepository.mock.calls.length).toBe(initialCallCount);
-    
+
+    // Should not start a new analysis
+    expect(fetchMock.mock.calls.length).toBe(initialCallCount);
+
     // Data should still be displayed
     expect(screen.getByText('Total Branches: 3')).toBeInTheDocument();
   });
 
   it('should handle prop changes correctly', async () => {
     const { rerender } = render(<BranchPRStats owner="testowner" repo="testrepo" />);
-    
+
     // Wait for initial load
-    await waitFor(() => {
-      expect(screen.getByText('Total Branches: 3')).toBeInTheDocument();
-    });
-    
-    const initialCallCount = mockFetchRepository.mock.calls.length;
-    
+    (await waitForJob()).emit('result', { data: mockAnalysisResult });
+    expect(screen.getByText('Total Branches: 3')).toBeInTheDocument();
+
     // Change props
     rerender(<BranchPRStats owner="testowner" repo="newrepo" />);
-    
-    // Should trigger new API calls
+
+    // Should start the analysis of the new repository
     await waitFor(() => {
-      expect(mockFetchRepository.mock.calls.length).toBeGreaterThan(initialCallCount);
+      expect(fetchMock).toHaveBeenCalledWith(
+        '/api/repos/testowner/newrepo/branch-pr?period=30d',
+        expect.objectContaining({ method: 'POST' })
+      );
     });
-    
-    // Should call with new repo
-    expect(mockFetchRepository).toHaveBeenLastCalledWith('testowner', 'newrepo');
+
+    (await waitForJob()).emit('result', { data: mockAnalysisResult });
+    expect(screen.getByText('Total Branches: 3')).toBeInTheDocument();
   });
-});
\ No newline at end of file
+});
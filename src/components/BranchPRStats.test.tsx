@@ -1,9 +1,12 @@
+import React from 'react';
 import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import { vi } from 'vitest';
 import { BranchPRStats } from './BranchPRStats';
-import * as githubApi from '@/lib/github-api';
+import type { AnalysisJobHandlers, AnalysisRouteResponse } from '@/lib/analysis-client';
+import type { BranchPRAnalysis } from '@/lib/github-api';
 
 // Mock all the sub-components
-jest.mock('./BranchPRFilter', () => ({
+vi.mock('./BranchPRFilter', () => ({
   BranchPRFilter: ({ selectedPeriod, onPeriodChange, isLoading }: any) => (
     <div data-testid="branch-pr-filter">
       <span>Period: {selectedPeriod}</span>
@@ -14,7 +17,7 @@ jest.mock('./BranchPRFilter', () => ({
   ),
 }));
 
-jest.mock('./BranchStatistics', () => ({
+vi.mock('./BranchStatistics', () => ({
   BranchStatistics: ({ branches, isLoading, timePeriod }: any) => (
     <div data-testid="branch-statistics">
       <span>Branches: {branches.length}</span>
@@ -24,7 +27,7 @@ jest.mock('./BranchStatistics', () => ({
   ),
 }));
 
-jest.mock('./PRAnalytics', () => ({
+vi.mock('./PRAnalytics', () => ({
   PRAnalytics: ({ pullRequests, isLoading, timePeriod }: any) => (
     <div data-testid="pr-analytics">
       <span>PRs: {pullRequests.length}</span>
@@ -34,7 +37,7 @@ jest.mock('./PRAnalytics', () => ({
   ),
 }));
 
-jest.mock('./PRTimeline', () => ({
+vi.mock('./PRTimeline', () => ({
   PRTimeline: ({ timelineData, timePeriod, isLoading }: any) => (
     <div data-testid="pr-timeline">
       <span>Timeline: {timelineData.length}</span>
@@ -44,7 +47,7 @@ jest.mock('./PRTimeline', () => ({
   ),
 }));
 
-jest.mock('./ReviewStatistics', () => ({
+vi.mock('./ReviewStatistics', () => ({
   ReviewStatistics: ({ reviewData, isLoading }: any) => (
     <div data-testid="review-statistics">
       <span>Reviews: {reviewData.totalReviews}</span>
@@ -53,52 +56,19 @@ jest.mock('./ReviewStatistics', () => ({
   ),
 }));
 
-// Mock GitHub API functions
-const mockFetchRepository = jest.fn();
-const mockFetchBranches = jest.fn();
-const mockFetchPullRequests = jest.fn();
-const mockFetchPRReviews = jest.fn();
-const mockGenerateBranchPRAnalysis = jest.fn();
-
-jest.mock('@/lib/github-api', () => ({
-  ...jest.requireActual('@/lib/github-api'),
-  fetchRepository: (...args: any[]) => mockFetchRepository(...args),
-  fetchBranches: (...args: any[]) => mockFetchBranches(...args),
-  fetchPullRequests: (...args: any[]) => mockFetchPullRequests(...args),
-  fetchPRReviews: (...args: any[]) => mockFetchPRReviews(...args),
-  generateBranchPRAnalysis: (...args: any[]) => mockGenerateBranchPRAnalysis(...args),
+// Mock the analysis route client; the analysis runs as a server job whose
+// result arrives over the job's event stream
+const { startRepositoryAnalysisJob, subscribeToAnalysisJob, cancelAnalysisJob } = vi.hoisted(() => ({
+  startRepositoryAnalysisJob: vi.fn(),
+  subscribeToAnalysisJob: vi.fn(),
+  cancelAnalysisJob: vi.fn(),
 }));
 
-const mockRepositoryData = {
-  data: {
-    default_branch: 'main',
-    name: 'test-repo',
-    full_name: 'owner/test-repo',
-  },
-};
-
-const mockBranchesData = {
-  data: [
-    { name: 'main', commit: { sha: 'abc123' } },
-    { name: 'feature-1', commit: { sha: 'def456' } },
-    { name: 'feature-2', commit: { sha: 'ghi789' } },
-  ],
-};
-
-const mockPullRequestsData = {
-  data: [
-    { number: 1, title: 'PR 1', state: 'open' },
-    { number: 2, title: 'PR 2', state: 'merged' },
-    { number: 3, title: 'PR 3', state: 'closed' },
-  ],
-};
-
-const mockReviewsData = {
-  data: [
-    { id: 1, state: 'APPROVED', user: { login: 'reviewer1' } },
-    { id: 2, state: 'CHANGES_REQUESTED', user: { login: 'reviewer2' } },
-  ],
-};
+vi.mock('@/lib/analysis-client', () => ({
+  startRepositoryAnalysisJob,
+  subscribeToAnalysisJob,
+  cancelAnalysisJob,
+}));
 
 const mockAnalysisResult = {
   branches: {
@@ -146,18 +116,24 @@ const mockAnalysisResult = {
   },
   analysisDate: '2024-01-01T00:00:00.000Z',
   timePeriod: '30d' as const,
-};
+} as unknown as BranchPRAnalysis;
 
 describe('BranchPRStats', () => {
+  let jobResult: AnalysisRouteResponse<BranchPRAnalysis>;
+  let jobHandlers: AnalysisJobHandlers<BranchPRAnalysis> | undefined;
+
   beforeEach(() => {
-    jest.clearAllMocks();
-    
+    vi.clearAllMocks();
+    jobResult = { data: mockAnalysisResult, dataPoints: 11 };
+    jobHandlers = undefined;
+
     // Setup default successful responses
-    mockFetchRepository.mockResolvedValue(mockRepositoryData);
-    mockFetchBranches.mockResolvedValue(mockBranchesData);
-    mockFetchPullRequests.mockResolvedValue(mockPullRequestsData);
-    mockFetchPRReviews.mockResolvedValue(mockReviewsData);
-    mockGenerateBranchPRAnalysis.mockReturnValue(mockAnalysisResult);
+    startRepositoryAnalysisJob.mockResolvedValue({ data: 'job-1' });
+    subscribeToAnalysisJob.mockImplementation((_id: string, handlers: AnalysisJobHandlers<BranchPRAnalysis>) => {
+      jobHandlers = handlers;
+      Promise.resolve().then(() => handlers.onResult(jobResult));
+      return () => {};
+    });
   });
 
   it('renders the main component with header', async () => {
@@ -179,13 +155,18 @@ describe('BranchPRStats', () => {
     });
   });
 
-  it('fetches data on mount', async () => {
-    render(<BranchPRStats owner="testowner" repo="testrepo" />);
+  it('starts the analysis job on mount and follows it', async () => {
+    render(<BranchPRStats owner="testowner" repo="testrepo" host="github.example.com" />);
 
     await waitFor(() => {
-      expect(mockFetchRepository).toHaveBeenCalledWith('testowner', 'testrepo');
-      expect(mockFetchBranches).toHaveBeenCalledWith('testowner', 'testrepo', 1, 100);
-      expect(mockFetchPullRequests).toHaveBeenCalledWith('testowner', 'testrepo', 'all', 1, 100);
+      expect(startRepositoryAnalysisJob).toHaveBeenCalledWith(
+        'testowner',
+        'testrepo',
+        'branch-pr',
+        { period: '30d', scope: undefined },
+        { host: 'github.example.com' }
+      );
+      expect(subscribeToAnalysisJob).toHaveBeenCalledWith('job-1', expect.any(Object));
     });
   });
 
@@ -201,19 +182,19 @@ describe('BranchPRStats', () => {
   });
 
   it('shows loading states correctly', async () => {
-    // Make API calls hang to test loading state
-    mockFetchRepository.mockImplementation(() => new Promise(() => {}));
-    
+    // Never start the job to test the loading state
+    startRepositoryAnalysisJob.mockImplementation(() => new Promise(() => {}));
+
     render(<BranchPRStats owner="testowner" repo="testrepo" />);
 
-    expect(screen.getByText('Loading Analytics...')).toBeInTheDocument();
-    expect(screen.getByText('• Fetching branches')).toBeInTheDocument();
-    expect(screen.getByText('• Fetching pull requests')).toBeInTheDocument();
-    expect(screen.getByText('• Fetching reviews')).toBeInTheDocument();
+    await waitFor(() => {
+      expect(screen.getAllByText('Loading: true')).toHaveLength(4);
+    });
+    expect(screen.getByText('Change Period')).toBeDisabled();
   });
 
-  it('handles repository fetch error', async () => {
-    mockFetchRepository.mockResolvedValue({ error: 'Repository not found' });
+  it('handles an error starting the job', async () => {
+    startRepositoryAnalysisJob.mockResolvedValue({ error: 'Repository not found' });
 
     render(<BranchPRStats owner="testowner" repo="testrepo" />);
 
@@ -222,35 +203,32 @@ describe('BranchPRStats', () => {
       expect(screen.getByText('• Repository not found')).toBeInTheDocument();
       expect(screen.getByText('Retry')).toBeInTheDocument();
     });
+    expect(subscribeToAnalysisJob).not.toHaveBeenCalled();
   });
 
-  it('handles branches fetch error', async () => {
-    mockFetchBranches.mockResolvedValue({ error: 'Failed to fetch branches' });
+  it('handles a failed analysis job', async () => {
+    jobResult = { error: 'Failed to fetch pull requests' };
 
     render(<BranchPRStats owner="testowner" repo="testrepo" />);
 
     await waitFor(() => {
       expect(screen.getByText('Error Loading Data')).toBeInTheDocument();
-      expect(screen.getByText('• Branches: Failed to fetch branches')).toBeInTheDocument();
+      expect(screen.getByText('• Failed to fetch pull requests')).toBeInTheDocument();
     });
   });
 
-  it('handles pull requests fetch error', async () => {
-    mockFetchPullRequests.mockResolvedValue({ error: 'Failed to fetch pull requests' });
+  it('reports a cancelled job', async () => {
+    jobResult = { error: 'Cancelled', errorInfo: { kind: 'cancelled', message: 'Cancelled' } };
 
     render(<BranchPRStats owner="testowner" repo="testrepo" />);
 
     await waitFor(() => {
-      expect(screen.getByText('Error Loading Data')).toBeInTheDocument();
-      expect(screen.getByText('• Pull Requests: Failed to fetch pull requests')).toBeInTheDocument();
+      expect(screen.getByText('• Analysis was cancelled by user.')).toBeInTheDocument();
     });
   });
 
   it('shows rate limit warning', async () => {
-    mockFetchBranches.mockResolvedValue({
-      ...mockBranchesData,
-      rateLimit: { remaining: 10, reset: Date.now() + 3600000, limit: 5000 },
-    });
+    jobResult = { data: mockAnalysisResult, rateLimitWarning: true };
 
     render(<BranchPRStats owner="testowner" repo="testrepo" />);
 
@@ -260,31 +238,66 @@ describe('BranchPRStats', () => {
     });
   });
 
+  it('shows a rate limit error when the job cannot start', async () => {
+    startRepositoryAnalysisJob.mockResolvedValue({
+      error: 'API rate limit exceeded',
+      errorInfo: { kind: 'rate_limited', message: 'API rate limit exceeded' },
+    });
+
+    render(<BranchPRStats owner="testowner" repo="testrepo" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('API Rate Limit Warning')).toBeInTheDocument();
+      expect(screen.getByText('• API rate limit exceeded')).toBeInTheDocument();
+    });
+  });
+
+  it('shows partial results while the job waits for the rate limit', async () => {
+    subscribeToAnalysisJob.mockImplementation((_id: string, handlers: AnalysisJobHandlers<BranchPRAnalysis>) => {
+      Promise.resolve().then(() => handlers.onPartialResult?.({ data: mockAnalysisResult }));
+      return () => {};
+    });
+
+    render(<BranchPRStats owner="testowner" repo="testrepo" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Branches: 3')).toBeInTheDocument();
+      expect(screen.getByText('API Rate Limit Warning')).toBeInTheDocument();
+    });
+  });
+
   it('handles time period changes', async () => {
     render(<BranchPRStats owner="testowner" repo="testrepo" />);
 
     await waitFor(() => {
-      expect(screen.getByText('Period: 30d')).toBeInTheDocument();
+      expect(screen.getByText('Branches: 3')).toBeInTheDocument();
     });
 
     // Change time period
     fireEvent.click(screen.getByText('Change Period'));
 
     await waitFor(() => {
-      expect(screen.getByText('Period: 90d')).toBeInTheDocument();
+      expect(screen.getAllByText('Period: 90d').length).toBeGreaterThan(0);
     });
 
-    // Should refetch data with new period
-    expect(mockFetchRepository).toHaveBeenCalledTimes(2);
+    // Should start a job for the new period
+    expect(startRepositoryAnalysisJob).toHaveBeenLastCalledWith(
+      'testowner',
+      'testrepo',
+      'branch-pr',
+      { period: '90d', scope: undefined },
+      { host: undefined }
+    );
   });
 
   it('shows empty state when no data available', async () => {
-    const emptyAnalysisResult = {
-      ...mockAnalysisResult,
-      branches: { ...mockAnalysisResult.branches, totalBranches: 0 },
-      pullRequests: { ...mockAnalysisResult.pullRequests, totalPRs: 0 },
+    jobResult = {
+      data: {
+        ...mockAnalysisResult,
+        branches: { ...mockAnalysisResult.branches, totalBranches: 0 },
+        pullRequests: { ...mockAnalysisResult.pullRequests, totalPRs: 0 },
+      },
     };
-    mockGenerateBranchPRAnalysis.mockReturnValue(emptyAnalysisResult);
 
     render(<BranchPRStats owner="testowner" repo="testrepo" />);
 
@@ -295,8 +308,9 @@ describe('BranchPRStats', () => {
   });
 
   it('handles retry functionality', async () => {
-    mockFetchRepository.mockResolvedValueOnce({ error: 'Network error' });
-    mockFetchRepository.mockResolvedValueOnce(mockRepositoryData);
+    startRepositoryAnalysisJob
+      .mockResolvedValueOnce({ error: 'Network error' })
+      .mockResolvedValueOnce({ data: 'job-2' });
 
     render(<BranchPRStats owner="testowner" repo="testrepo" />);
 
@@ -311,64 +325,79 @@ describe('BranchPRStats', () => {
       expect(screen.getByText('Branches: 3')).toBeInTheDocument();
     });
 
-    expect(mockFetchRepository).toHaveBeenCalledTimes(2);
+    expect(startRepositoryAnalysisJob).toHaveBeenCalledTimes(2);
+    expect(subscribeToAnalysisJob).toHaveBeenCalledWith('job-2', expect.any(Object));
   });
 
   it('uses initial time period prop', () => {
     render(<BranchPRStats owner="testowner" repo="testrepo" initialTimePeriod="1y" />);
 
-    expect(screen.getByText('Period: 1y')).toBeInTheDocument();
+    expect(screen.getAllByText('Period: 1y').length).toBeGreaterThan(0);
+    expect(startRepositoryAnalysisJob).toHaveBeenCalledWith(
+      'testowner',
+      'testrepo',
+      'branch-pr',
+      { period: '1y', scope: undefined },
+      { host: undefined }
+    );
   });
 
-  it('limits API calls to prevent excessive usage', async () => {
-    // Mock many pages of data
-    const manyBranches = Array.from({ length: 100 }, (_, i) => ({
-      name: `branch-${i}`,
-      commit: { sha: `sha-${i}` },
-    }));
-
-    mockFetchBranches
-      .mockResolvedValueOnce({ data: manyBranches })
-      .mockResolvedValueOnce({ data: manyBranches })
-      .mockResolvedValueOnce({ data: manyBranches });
+  it('restarts the analysis with a reduced scope for large repositories', async () => {
+    jobResult = { data: mockAnalysisResult, largeRepository: true };
 
     render(<BranchPRStats owner="testowner" repo="testrepo" />);
 
     await waitFor(() => {
-      expect(screen.getByTestId('branch-statistics')).toBeInTheDocument();
+      expect(screen.getByText('Large Repository Detected')).toBeInTheDocument();
     });
 
-    // Should limit to reasonable number of API calls
-    expect(mockFetchBranches).toHaveBeenCalledTimes(3);
+    fireEvent.click(screen.getByLabelText('Use reduced scope (faster analysis)'));
+
+    await waitFor(() => {
+      expect(startRepositoryAnalysisJob).toHaveBeenLastCalledWith(
+        'testowner',
+        'testrepo',
+        'branch-pr',
+        { period: '30d', scope: 'reduced' },
+        { host: undefined }
+      );
+    });
   });
 
-  it('handles review data fetching for recent PRs only', async () => {
-    const manyPRs = Array.from({ length: 100 }, (_, i) => ({
-      number: i + 1,
-      title: `PR ${i + 1}`,
-      state: 'open',
-    }));
+  it('shows performance metrics once the job finishes', async () => {
+    render(<BranchPRStats owner="testowner" repo="testrepo" />);
 
-    mockFetchPullRequests.mockResolvedValue({ data: manyPRs });
+    await waitFor(() => {
+      expect(screen.getByText('Performance Metrics')).toBeInTheDocument();
+    });
+    expect(screen.getByText('11')).toBeInTheDocument();
+  });
 
-    render(<BranchPRStats owner="testowner" repo="testrepo" />);
+  it('cancels the running job on unmount', async () => {
+    subscribeToAnalysisJob.mockImplementation((_id: string, handlers: AnalysisJobHandlers<BranchPRAnalysis>) => {
+      jobHandlers = handlers;
+      return () => {};
+    });
+
+    const { unmount } = render(<BranchPRStats owner="testowner" repo="testrepo" />);
 
     await waitFor(() => {
-      expect(screen.getByTestId('review-statistics')).toBeInTheDocument();
+      expect(jobHandlers).toBeDefined();
     });
 
-    // Should only fetch reviews for first 50 PRs to avoid rate limits
-    expect(mockFetchPRReviews).toHaveBeenCalledTimes(50);
+    unmount();
+    expect(cancelAnalysisJob).toHaveBeenCalledWith('job-1');
   });
 
   it('passes loading states correctly to sub-components', async () => {
-    // Make branches loading hang
-    mockFetchBranches.mockImplementation(() => new Promise(() => {}));
+    // The job never finishes
+    subscribeToAnalysisJob.mockImplementation(() => () => {});
 
     render(<BranchPRStats owner="testowner" repo="testrepo" />);
 
     await waitFor(() => {
-      expect(screen.getByText('Loading: true')).toBeInTheDocument();
+      expect(subscribeToAnalysisJob).toHaveBeenCalled();
     });
+    expect(screen.getAllByText('Loading: true').length).toBeGreaterThan(0);
   });
-});
\ No newline at end of file
+});
@@ -1,16 +1,14 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { 
-  TimePeriod, 
-  BranchPRAnalysis,
-  fetchBranches,
-  fetchPullRequests,
-  fetchPRReviews,
-  fetchRepository,
-  generateBranchPRAnalysis,
-  GitHubApiResponse
-} from '@/lib/github-api';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { TimePeriod, BranchPRAnalysis } from '@/lib/github-api';
+import { isRateLimitError } from '@/lib/github-errors';
+import {
+  cancelAnalysisJob,
+  startRepositoryAnalysisJob,
+  type AnalysisRouteResponse,
+} from '@/lib/analysis-client';
+import { ProgressIndicator } from './ProgressIndicator';
 import { BranchPRFilter } from './BranchPRFilter';
 import { BranchStatistics } from './BranchStatistics';
 import { PRAnalytics } from './PRAnalytics';
@@ -20,6 +18,7 @@ import { ReviewStatistics } from './ReviewStatistics';
 interface BranchPRStatsProps {
   owner: string;
   repo: string;
+  host?: string;
   initialTimePeriod?: TimePeriod;
 }
 
@@ -37,14 +36,6 @@ interface ErrorState {
   general?: string;
 }
 
-interface ProgressState {
-  phase: 'initializing' | 'fetching-repo' | 'fetching-branches' | 'fetching-prs' | 'fetching-reviews' | 'processing' | 'complete';
-  progress: number; // 0-100
-  message: string;
-  canCancel: boolean;
-  estimatedTimeRemaining?: number;
-}
-
 interface PerformanceMetrics {
   startTime: number;
   dataPoints: number;
@@ -52,7 +43,16 @@ interface PerformanceMetrics {
   memoryUsage?: number;
 }
 
-export function BranchPRStats({ owner, repo, initialTimePeriod = '30d' }: BranchPRStatsProps) {
+// performance.memory is non-standard and only available in Chromium
+interface PerformanceWithMemory extends Performance {
+  memory: { usedJSHeapSize: number };
+}
+
+function hasMemoryInfo(value: Performance): value is PerformanceWithMemory {
+  return 'memory' in value && typeof (value as PerformanceWithMemory).memory?.usedJSHeapSize === 'number';
+}
+
+export function BranchPRStats({ owner, repo, host, initialTimePeriod = '30d' }: BranchPRStatsProps) {
   const [timePeriod, setTimePeriod] = useState<TimePeriod>(initialTimePeriod);
   const [analysis, setAnalysis] = useState<BranchPRAnalysis | null>(null);
   const [loading, setLoading] = useState<LoadingState>({
@@ -64,13 +64,8 @@ export function BranchPRStats({ owner, repo, initialTimePeriod = '30d' }: Branch
   const [errors, setErrors] = useState<ErrorState>({});
   const [rateLimitWarning, setRateLimitWarning] = useState(false);
   
-  // Enhanced state for performance optimizations
-  const [progress, setProgress] = useState<ProgressState>({
-    phase: 'initializing',
-    progress: 0,
-    message: 'Initializing...',
-    canCancel: false,
-  });
+  // The server job running the analysis; ProgressIndicator follows its progress
+  const [jobId, setJobId] = useState<string | null>(null);
   const [performanceMetrics, setPerformanceMetrics] = useState<PerformanceMetrics>({
     startTime: 0,
     dataPoints: 0,
@@ -80,10 +75,8 @@ export function BranchPRStats({ owner, repo, initialTimePeriod = '30d' }: Branch
   const [reducedScope, setReducedScope] = useState(false);
   
   // Refs for cancellation and cleanup
-  const abortControllerRef = useRef<AbortController | null>(null);
-  const timeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const retryCountRef = useRef(0);
-  const maxRetries = 3;
+  const jobIdRef = useRef<string | null>(null);
+  const requestRef = useRef(0);
 
   // Memoized data for sub-components
   const componentData = useMemo(() => {
@@ -97,6 +90,8 @@ export function BranchPRStats({ owner, repo, initialTimePeriod = '30d' }: Branch
           averageReviewsPerPR: 0,
           averageTimeToFirstReview: 0,
           averageTimeToApproval: 0,
+          timeToFirstReview: { mean: 0, median: 0, p90: 0, count: 0 },
+          timeToApproval: { mean: 0, median: 0, p90: 0, count: 0 },
           topReviewers: [],
           reviewPatterns: [],
         },
@@ -111,23 +106,24 @@ export function BranchPRStats({ owner, repo, initialTimePeriod = '30d' }: Branch
     };
   }, [analysis]);
 
-  // Enhanced fetch repository data with performance optimizations
-  const fetchRepositoryData = useCallback(async (selectedTimePeriod: TimePeriod, isRetry = false) => {
-    // Initialize performance tracking
-    const startTime = Date.now();
-    setPerformanceMetrics(prev => ({ ...prev, startTime }));
-    
-    // Create abort controller for cancellation
-    abortControllerRef.current = new AbortController();
-    const signal = abortControllerRef.current.signal;
-    
-    // Set timeout for long-running operations
-    timeoutRef.current = setTimeout(() => {
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-      }
-    }, 120000); // 2 minute timeout
-    
+  const stopLoading = useCallback(() => {
+    setLoading({
+      branches: false,
+      pullRequests: false,
+      reviews: false,
+      overall: false,
+    });
+  }, []);
+
+  // Start the analysis as a server job, replacing any job still running
+  const fetchRepositoryData = useCallback(async (selectedTimePeriod: TimePeriod) => {
+    const request = ++requestRef.current;
+    if (jobIdRef.current) {
+      cancelAnalysisJob(jobIdRef.current);
+      jobIdRef.current = null;
+    }
+
+    setPerformanceMetrics(prev => ({ ...prev, startTime: Date.now() }));
     setLoading({
       branches: true,
       pullRequests: true,
@@ -136,364 +132,68 @@ export function BranchPRStats({ owner, repo, initialTimePeriod = '30d' }: Branch
     });
     setErrors({});
     setRateLimitWarning(false);
-    setProgress({
-      phase: 'fetching-repo',
-      progress: 5,
-      message: 'Fetching repository information...',
-      canCancel: true,
-    });
-
-    try {
-      // Check if request was cancelled
-      if (signal.aborted) {
-        throw new Error('Operation cancelled by user');
-      }
-
-      // First, get repository info to get default branch
-      const repoResponse = await fetchRepository(owner, repo);
-      if (repoResponse.error) {
-        setErrors({ general: repoResponse.error });
-        setLoading({
-          branches: false,
-          pullRequests: false,
-          reviews: false,
-          overall: false,
-        });
-        return;
-      }
-
-      const defaultBranch = (repoResponse.data as any)?.default_branch || 'main';
-      
-      // Detect large repository based on initial indicators
-      const repoSize = (repoResponse.data as any)?.size || 0;
-      const isLarge = repoSize > 100000; // 100MB+ repositories
-      setIsLargeRepository(isLarge);
-      
-      setProgress({
-        phase: 'fetching-branches',
-        progress: 15,
-        message: 'Fetching branch information...',
-        canCancel: true,
-        estimatedTimeRemaining: isLarge ? 60 : 30,
-      });
-
-      // Fetch branches data with enhanced error handling and performance optimization
-      let allBranches: any[] = [];
-      let branchPage = 1;
-      let hasMoreBranches = true;
-      const maxBranchPages = isLarge && reducedScope ? 5 : 10; // Reduce scope for large repos
-
-      while (hasMoreBranches && branchPage <= maxBranchPages) {
-        // Check if request was cancelled
-        if (signal.aborted) {
-          throw new Error('Operation cancelled by user');
-        }
-
-        setProgress({
-          phase: 'fetching-branches',
-          progress: 15 + (branchPage / maxBranchPages) * 25,
-          message: `Fetching branches (page ${branchPage}/${maxBranchPages})...`,
-          canCancel: true,
-          estimatedTimeRemaining: Math.max(0, (maxBranchPages - branchPage) * 2),
-        });
-
-        try {
-          const branchResponse = await fetchBranches(owner, repo, branchPage, 100);
-          
-          if (branchResponse.error) {
-            // Implement retry logic for transient errors
-            if (branchResponse.error.includes('rate limit') && retryCountRef.current < maxRetries) {
-              retryCountRef.current++;
-              await new Promise(resolve => setTimeout(resolve, 5000)); // Wait 5 seconds
-              continue; // Retry the same page
-            }
-            setErrors(prev => ({ ...prev, branches: branchResponse.error }));
-            break;
-          }
-
-          if (branchResponse.data && branchResponse.data.length > 0) {
-            allBranches = [...allBranches, ...branchResponse.data];
-            hasMoreBranches = branchResponse.data.length === 100;
-            branchPage++;
-            
-            // Update data points counter
-            setPerformanceMetrics(prev => ({ 
-              ...prev, 
-              dataPoints: prev.dataPoints + (branchResponse.data?.length || 0)
-            }));
-          } else {
-            hasMoreBranches = false;
-          }
-
-          // Enhanced rate limit handling
-          if (branchResponse.rateLimit) {
-            if (branchResponse.rateLimit.remaining < 50) {
-              setRateLimitWarning(true);
-              if (branchResponse.rateLimit.remaining < 10) {
-                // Critical rate limit - stop fetching
-                break;
-              }
-            }
-          }
-
-          // Add small delay to be respectful to API
-          await new Promise(resolve => setTimeout(resolve, 100));
-
-        } catch (error) {
-          if (error instanceof Error && error.message === 'Operation cancelled by user') {
-            throw error;
-          }
-          console.warn(`Error fetching branches page ${branchPage}:`, error);
-          if (retryCountRef.current < maxRetries) {
-            retryCountRef.current++;
-            await new Promise(resolve => setTimeout(resolve, 2000));
-            continue; // Retry
-          }
-          break; // Give up after max retries
-        }
-      }
+    setJobId(null);
+
+    // The server fetches branches, pull requests and reviews with GraphQL when
+    // authenticated (batched with their reviews) and the REST API otherwise
+    const response = await startRepositoryAnalysisJob(owner, repo, 'branch-pr', {
+      period: selectedTimePeriod,
+      scope: reducedScope ? 'reduced' : undefined,
+    }, { host });
+
+    // A newer request or unmounting replaced this one while it started
+    if (request !== requestRef.current) {
+      if (response.data) cancelAnalysisJob(response.data);
+      return;
+    }
 
-      setLoading(prev => ({ ...prev, branches: false }));
-
-      // Fetch pull requests data with enhanced error handling
-      setProgress({
-        phase: 'fetching-prs',
-        progress: 40,
-        message: 'Fetching pull request data...',
-        canCancel: true,
-        estimatedTimeRemaining: isLarge ? 40 : 20,
-      });
-
-      let allPullRequests: any[] = [];
-      let prPage = 1;
-      let hasMorePRs = true;
-      const maxPRPages = isLarge && reducedScope ? 5 : 10; // Reduce scope for large repos
-
-      while (hasMorePRs && prPage <= maxPRPages) {
-        // Check if request was cancelled
-        if (signal.aborted) {
-          throw new Error('Operation cancelled by user');
-        }
-
-        setProgress({
-          phase: 'fetching-prs',
-          progress: 40 + (prPage / maxPRPages) * 30,
-          message: `Fetching pull requests (page ${prPage}/${maxPRPages})...`,
-          canCancel: true,
-          estimatedTimeRemaining: Math.max(0, (maxPRPages - prPage) * 3),
-        });
-
-        try {
-          const prResponse = await fetchPullRequests(owner, repo, 'all', prPage, 100);
-          
-          if (prResponse.error) {
-            // Implement retry logic for transient errors
-            if (prResponse.error.includes('rate limit') && retryCountRef.current < maxRetries) {
-              retryCountRef.current++;
-              await new Promise(resolve => setTimeout(resolve, 5000));
-              continue;
-            }
-            setErrors(prev => ({ ...prev, pullRequests: prResponse.error }));
-            break;
-          }
-
-          if (prResponse.data && prResponse.data.length > 0) {
-            allPullRequests = [...allPullRequests, ...prResponse.data];
-            hasMorePRs = prResponse.data.length === 100;
-            prPage++;
-            
-            // Update data points counter
-            setPerformanceMetrics(prev => ({ 
-              ...prev, 
-              dataPoints: prev.dataPoints + (prResponse.data?.length || 0)
-            }));
-          } else {
-            hasMorePRs = false;
-          }
-
-          // Enhanced rate limit handling
-          if (prResponse.rateLimit) {
-            if (prResponse.rateLimit.remaining < 30) {
-              setRateLimitWarning(true);
-              if (prResponse.rateLimit.remaining < 5) {
-                break; // Critical rate limit
-              }
-            }
-          }
-
-          // Add small delay to be respectful to API
-          await new Promise(resolve => setTimeout(resolve, 150));
-
-        } catch (error) {
-          if (error instanceof Error && error.message === 'Operation cancelled by user') {
-            throw error;
-          }
-          console.warn(`Error fetching PRs page ${prPage}:`, error);
-          if (retryCountRef.current < maxRetries) {
-            retryCountRef.current++;
-            await new Promise(resolve => setTimeout(resolve, 2000));
-            continue;
-          }
-          break;
-        }
-      }
+    if (response.error || !response.data) {
+      setErrors({ general: response.error || 'Failed to start the branch and pull request analysis' });
+      setRateLimitWarning(isRateLimitError(response.errorInfo));
+      stopLoading();
+      return;
+    }
 
-      setLoading(prev => ({ ...prev, pullRequests: false }));
-
-      // Fetch review data with enhanced progress tracking
-      setProgress({
-        phase: 'fetching-reviews',
-        progress: 70,
-        message: 'Fetching review data...',
-        canCancel: true,
-        estimatedTimeRemaining: isLarge ? 30 : 15,
-      });
-
-      const maxReviewPRs = isLarge && reducedScope ? 25 : 50; // Reduce scope for large repos
-      const recentPRs = allPullRequests.slice(0, maxReviewPRs);
-      const reviewData: any[] = [];
-
-      // Process reviews in batches to avoid overwhelming the API
-      const batchSize = 5;
-      for (let i = 0; i < recentPRs.length; i += batchSize) {
-        // Check if request was cancelled
-        if (signal.aborted) {
-          throw new Error('Operation cancelled by user');
-        }
-
-        const batch = recentPRs.slice(i, i + batchSize);
-        const batchProgress = 70 + ((i / recentPRs.length) * 20);
-        
-        setProgress({
-          phase: 'fetching-reviews',
-          progress: batchProgress,
-          message: `Fetching reviews (${i + 1}-${Math.min(i + batchSize, recentPRs.length)} of ${recentPRs.length})...`,
-          canCancel: true,
-          estimatedTimeRemaining: Math.max(0, ((recentPRs.length - i) / batchSize) * 2),
-        });
-
-        try {
-          const batchPromises = batch.map(async (pr) => {
-            try {
-              const reviewResponse = await fetchPRReviews(owner, repo, pr.number);
-              return {
-                prNumber: pr.number,
-                reviews: reviewResponse.data || [],
-                error: reviewResponse.error,
-              };
-            } catch (error) {
-              return {
-                prNumber: pr.number,
-                reviews: [],
-                error: 'Failed to fetch reviews',
-              };
-            }
-          });
-
-          const batchResults = await Promise.allSettled(batchPromises);
-          const batchData = batchResults
-            .filter((result): result is PromiseFulfilledResult<any> => result.status === 'fulfilled')
-            .map(result => result.value)
-            .filter(data => !data.error);
-
-          reviewData.push(...batchData);
-
-          // Add delay between batches to be respectful to API
-          if (i + batchSize < recentPRs.length) {
-            await new Promise(resolve => setTimeout(resolve, 500));
-          }
-
-        } catch (error) {
-          if (error instanceof Error && error.message === 'Operation cancelled by user') {
-            throw error;
-          }
-          console.warn(`Error fetching review batch ${i}-${i + batchSize}:`, error);
-          // Continue with next batch on error
-        }
-      }
+    jobIdRef.current = response.data;
+    setJobId(response.data);
+  }, [owner, repo, host, reducedScope, stopLoading]);
+
+  // Show what the job has so far while it waits for the rate limit to reset
+  const handlePartialResult = useCallback((response: AnalysisRouteResponse<BranchPRAnalysis>) => {
+    if (!response.data) return;
+    stopLoading();
+    setIsLargeRepository(Boolean(response.largeRepository));
+    setRateLimitWarning(true);
+    setAnalysis(response.data);
+  }, [stopLoading]);
+
+  // Take the result of the analysis job
+  const handleJobResult = useCallback((response: AnalysisRouteResponse<BranchPRAnalysis>) => {
+    jobIdRef.current = null;
+    setJobId(null);
+    stopLoading();
+
+    if (response.errorInfo?.kind === 'cancelled') {
+      setErrors({ general: 'Analysis was cancelled by user.' });
+      return;
+    }
 
-      setLoading(prev => ({ ...prev, reviews: false }));
-
-      // Processing phase with performance tracking
-      setProgress({
-        phase: 'processing',
-        progress: 90,
-        message: 'Processing and analyzing data...',
-        canCancel: false,
-      });
-
-      // Generate comprehensive analysis
-      const analysisResult = generateBranchPRAnalysis(
-        allBranches,
-        allPullRequests,
-        reviewData,
-        defaultBranch,
-        selectedTimePeriod
-      );
-
-      // Calculate final performance metrics
-      const endTime = Date.now();
-      const processingTime = endTime - startTime;
-      setPerformanceMetrics(prev => ({
-        ...prev,
-        processingTime,
-        memoryUsage: (performance as any).memory?.usedJSHeapSize || 0,
-      }));
-
-      setProgress({
-        phase: 'complete',
-        progress: 100,
-        message: 'Analysis complete!',
-        canCancel: false,
-      });
-
-      setAnalysis(analysisResult);
-      retryCountRef.current = 0; // Reset retry count on success
-
-    } catch (error) {
-      console.error('Error fetching branch/PR data:', error);
-      
-      if (error instanceof Error) {
-        if (error.message === 'Operation cancelled by user') {
-          setErrors({ general: 'Analysis was cancelled by user.' });
-          setProgress({
-            phase: 'initializing',
-            progress: 0,
-            message: 'Analysis cancelled',
-            canCancel: false,
-          });
-        } else if (error.message.includes('timeout')) {
-          setErrors({ 
-            general: 'Analysis timed out. This repository may be too large. Try reducing the scope or try again later.' 
-          });
-        } else {
-          setErrors({ 
-            general: `An unexpected error occurred: ${error.message}. Please try again.` 
-          });
-        }
-      } else {
-        setErrors({ 
-          general: 'An unexpected error occurred while fetching repository data. Please try again.' 
-        });
-      }
-    } finally {
-      // Cleanup
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
-        timeoutRef.current = null;
-      }
-      if (abortControllerRef.current) {
-        abortControllerRef.current = null;
-      }
-      
-      setLoading({
-        branches: false,
-        pullRequests: false,
-        reviews: false,
-        overall: false,
-      });
+    if (response.error || !response.data) {
+      setErrors({ general: response.error || 'Failed to fetch branch and pull request data' });
+      setRateLimitWarning(isRateLimitError(response.errorInfo));
+      return;
     }
-  }, [owner, repo]);
+
+    setIsLargeRepository(Boolean(response.largeRepository));
+    setRateLimitWarning(Boolean(response.rateLimitWarning));
+    setPerformanceMetrics(prev => ({
+      ...prev,
+      dataPoints: response.dataPoints || 0,
+      processingTime: Date.now() - prev.startTime,
+      memoryUsage: hasMemoryInfo(performance) ? performance.memory.usedJSHeapSize : 0,
+    }));
+    setAnalysis(response.data);
+  }, [stopLoading]);
 
   // Handle time period changes
   const handleTimePeriodChange = useCallback((newTimePeriod: TimePeriod) => {
@@ -511,30 +211,18 @@ export function BranchPRStats({ owner, repo, initialTimePeriod = '30d' }: Branch
     fetchRepositoryData(timePeriod);
   }, [fetchRepositoryData, timePeriod]);
 
-  // Cancel operation function
-  const handleCancel = useCallback(() => {
-    if (abortControllerRef.current && progress.canCancel) {
-      abortControllerRef.current.abort();
-    }
-  }, [progress.canCancel]);
-
-  // Toggle reduced scope for large repositories
+  // Toggle reduced scope for large repositories; the analysis is fetched again
+  // with the new scope
   const handleToggleReducedScope = useCallback(() => {
     setReducedScope(prev => !prev);
-    if (analysis) {
-      // Re-fetch with new scope
-      fetchRepositoryData(timePeriod);
-    }
-  }, [analysis, fetchRepositoryData, timePeriod]);
+  }, []);
 
-  // Cleanup on unmount
+  // Cancel the job on unmount
   useEffect(() => {
     return () => {
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-      }
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
+      requestRef.current++;
+      if (jobIdRef.current) {
+        cancelAnalysisJob(jobIdRef.current);
       }
     };
   }, []);
@@ -671,47 +359,14 @@ export function BranchPRStats({ owner, repo, initialTimePeriod = '30d' }: Branch
         </div>
       )}
 
-      {/* Enhanced Progress Indicator with Cancellation */}
-      {isLoading && (
-        <div className="fixed bottom-4 right-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-4 max-w-sm">
-          <div className="space-y-3">
-            {/* Progress Header */}
-            <div className="flex items-center justify-between">
-              <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
-                {progress.message}
-              </p>
-              {progress.canCancel && (
-                <button
-                  onClick={handleCancel}
-                  className="text-xs text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 transition-colors"
-                  title="Cancel operation"
-                >
-                  ✕
-                </button>
-              )}
-            </div>
-
-            {/* Progress Bar */}
-            <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
-              <div
-                className="bg-blue-600 h-2 rounded-full transition-all duration-300 ease-out"
-                style={{ width: `${progress.progress}%` }}
-              ></div>
-            </div>
-
-            {/* Progress Details */}
-            <div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400">
-              <span>{progress.progress.toFixed(0)}% complete</span>
-              {progress.estimatedTimeRemaining && (
-                <span>{progress.estimatedTimeRemaining}s remaining</span>
-              )}
-            </div>
-
-            {/* Phase Indicator */}
-            <div className="text-xs text-gray-500 dark:text-gray-400">
-              Phase: {progress.phase.replace('-', ' ')}
-            </div>
-          </div>
+      {/* Progress of the analysis job, with cancellation */}
+      {jobId && (
+        <div className="fixed bottom-4 right-4 max-w-sm shadow-lg">
+          <ProgressIndicator
+            jobId={jobId}
+            onPartialResult={handlePartialResult}
+            onResult={handleJobResult}
+          />
         </div>
       )}
 
@@ -25,6 +25,12 @@ export function BranchStatistics({
     const stale = branches.filter(b => b.status === 'stale').length;
     const merged = branches.filter(b => b.status === 'merged').length;
     const defaultBranch = branches.find(b => b.isDefault);
+    // Branches compared with the default branch that miss more than 10 of its commits
+    const behind = branches.filter(b => b.compared && b.behind > 10).length;
+    // Merged branches still around, oldest first, as candidates for deletion
+    const mergedNotDeleted = branches
+      .filter(b => b.status === 'merged' && !b.isDefault)
+      .sort((a, b) => new Date(a.lastCommitDate).getTime() - new Date(b.lastCommitDate).getTime());
 
     return {
       total,
@@ -32,6 +38,8 @@ export function BranchStatistics({
       stale,
       merged,
       defaultBranch,
+      behind,
+      mergedNotDeleted,
       healthScore: branches.length > 0 
         ? Math.round(branches.reduce((sum, b) => sum + calculateBranchHealthScore(b), 0) / branches.length)
         : 0,
@@ -130,7 +138,7 @@ export function BranchStatistics({
           value={`${stats.healthScore}%`}
           icon="💚"
           color="emerald"
-          subtitle="Overall branch health"
+          subtitle={stats.behind > 0 ? `${stats.behind} more than 10 commits behind` : 'Overall branch health'}
         />
       </div>
 
@@ -151,6 +159,29 @@ export function BranchStatistics({
         </div>
       )}
 
+      {/* Merged Branches To Clean Up */}
+      {stats.mergedNotDeleted.length > 0 && (
+        <div className="bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+          <h4 className="font-semibold text-gray-900 dark:text-gray-100">
+            Merged but not deleted ({stats.mergedNotDeleted.length})
+          </h4>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+            These branches are merged{stats.defaultBranch ? ` into ${stats.defaultBranch.name}` : ''} and can be deleted.
+          </p>
+          <ul className="space-y-1 max-h-48 overflow-y-auto">
+            {stats.mergedNotDeleted.map(branch => (
+              <li key={branch.name} className="flex items-center justify-between gap-4 text-sm">
+                <span className="font-mono text-gray-900 dark:text-gray-100 truncate">{branch.name}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                  {branch.mergedPullRequest ? `#${branch.mergedPullRequest} • ` : ''}
+                  {formatRelativeTime(branch.lastCommitDate)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Branch List */}
       <div className="space-y-2">
         <h4 className="text-md font-medium text-gray-900 dark:text-gray-100">
@@ -267,6 +298,15 @@ function BranchItem({ branch, rank, isSelected, onSelect }: BranchItemProps) {
               <span>By {branch.author}</span>
               <span>{formatRelativeTime(branch.lastCommitDate)}</span>
               <span className="capitalize">{branch.status}</span>
+              {branch.compared && (
+                <span
+                  className="font-mono"
+                  title={`${branch.ahead} ahead of and ${branch.behind} behind the default branch`}
+                  aria-label={`${branch.ahead} commits ahead, ${branch.behind} commits behind`}
+                >
+                  ↑{branch.ahead} ↓{branch.behind}
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -4,25 +4,23 @@ import userEvent from '@testing-library/user-event';
 import { axe, toHaveNoViolations } from 'jest-axe';
 import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { CommitActivityHeatmap } from './CommitActivityHeatmap';
-import * as githubApi from '@/lib/github-api';
+import * as analysisClient from '@/lib/analysis-client';
 import * as commitActivityData from '@/lib/commit-activity-data';
 
 // Extend Jest matchers
 expect.extend(toHaveNoViolations);
 
 // Mock the dependencies
-vi.mock('@/lib/github-api', () => ({
-    fetchCommitsWithFiles: vi.fn(),
+vi.mock('@/lib/analysis-client', () => ({
+    fetchCommitActivityAnalysis: vi.fn(),
 }));
 
 vi.mock('@/lib/commit-activity-data', () => ({
     transformToHeatmapData: vi.fn(),
-    filterCommitsByTimeRange: vi.fn(),
 }));
 
-const mockFetchCommitsWithFiles = vi.mocked(githubApi.fetchCommitsWithFiles);
+const mockFetchCommitActivityAnalysis = vi.mocked(analysisClient.fetchCommitActivityAnalysis);
 const mockTransformToHeatmapData = vi.mocked(commitActivityData.transformToHeatmapData);
-const mockFilterCommitsByTimeRange = vi.mocked(commitActivityData.filterCommitsByTimeRange);
 
 // Mock data
 const mockWeeklyCommitData = [
@@ -53,23 +51,6 @@ const mockHeatmapData = {
     averagePerDay: 1.14,
 };
 
-const mockCommitData = [
-    {
-        sha: 'abc123',
-        date: '2024-01-01T10:00:00Z',
-        author: 'user1',
-        message: 'Test commit',
-        files: [],
-    },
-    {
-        sha: 'def456',
-        date: '2024-01-02T14:00:00Z',
-        author: 'user2',
-        message: 'Another commit',
-        files: [],
-    },
-];
-
 const defaultProps = {
     owner: 'testowner',
     repo: 'testrepo',
@@ -90,7 +71,6 @@ describe('CommitActivityHeatmap', () => {
     beforeEach(() => {
         vi.clearAllMocks();
         mockTransformToHeatmapData.mockReturnValue(mockHeatmapData);
-        mockFilterCommitsByTimeRange.mockReturnValue([]);
     });
 
     afterEach(() => {
@@ -107,7 +87,7 @@ describe('CommitActivityHeatmap', () => {
         });
 
         it('renders loading state initially when no data provided', () => {
-            mockFetchCommitsWithFiles.mockImplementation(() => new Promise(() => { })); // Never resolves
+            mockFetchCommitActivityAnalysis.mockImplementation(() => new Promise(() => { })); // Never resolves
 
             render(<CommitActivityHeatmap {...defaultProps} />);
 
@@ -116,7 +96,7 @@ describe('CommitActivityHeatmap', () => {
         });
 
         it('renders error state when API call fails', async () => {
-            mockFetchCommitsWithFiles.mockResolvedValue({
+            mockFetchCommitActivityAnalysis.mockResolvedValue({
                 error: 'API Error',
                 rateLimit: { remaining: 100, reset: Date.now(), limit: 5000 },
             });
@@ -130,16 +110,15 @@ describe('CommitActivityHeatmap', () => {
         });
 
         it('renders empty state when no commits found', async () => {
-            mockFetchCommitsWithFiles.mockResolvedValue({
-                data: [],
+            mockFetchCommitActivityAnalysis.mockResolvedValue({
+                data: {
+                    weeks: [],
+                    totalCommits: 0,
+                    peakDay: { day: 'Sunday', count: 0 },
+                    averagePerDay: 0,
+                },
                 rateLimit: { remaining: 100, reset: Date.now(), limit: 5000 },
             });
-            mockTransformToHeatmapData.mockReturnValue({
-                weeks: [],
-                totalCommits: 0,
-                peakDay: { day: 'Sunday', count: 0 },
-                averagePerDay: 0,
-            });
 
             render(<CommitActivityHeatmap {...defaultProps} />);
 
@@ -277,37 +256,35 @@ describe('CommitActivityHeatmap', () => {
     });
 
     describe('Data Processing', () => {
-        it('fetches and processes commit data when no data prop provided', async () => {
-            mockFetchCommitsWithFiles.mockResolvedValue({
-                data: mockCommitData,
+        it('loads the heatmap from the analysis route when no data prop provided', async () => {
+            mockFetchCommitActivityAnalysis.mockResolvedValue({
+                data: mockHeatmapData,
                 rateLimit: { remaining: 100, reset: Date.now(), limit: 5000 },
             });
 
-            render(<CommitActivityHeatmap {...defaultProps} />);
+            render(<CommitActivityHeatmap {...defaultProps} host="ghe.example.com" />);
 
             await waitFor(() => {
-                expect(mockFetchCommitsWithFiles).toHaveBeenCalledWith(
-                    'testowner',
-                    'testrepo',
-                    expect.any(String), // since date
-                    expect.any(String), // until date
-                    1,
-                    100,
-                    { maxCommits: 1000 }
-                );
+                expect(screen.getByText(/8 commits/)).toBeInTheDocument();
             });
 
-            expect(mockFilterCommitsByTimeRange).toHaveBeenCalled();
-            expect(mockTransformToHeatmapData).toHaveBeenCalled();
+            expect(mockFetchCommitActivityAnalysis).toHaveBeenCalledWith(
+                'testowner',
+                'testrepo',
+                '30d',
+                { host: 'ghe.example.com' }
+            );
+            // The server computes the heatmap
+            expect(mockTransformToHeatmapData).not.toHaveBeenCalled();
         });
 
         it('handles different time ranges correctly', async () => {
             const timeRanges = ['30d', '3m', '6m', '1y'] as const;
 
             for (const timeRange of timeRanges) {
-                mockFetchCommitsWithFiles.mockClear();
-                mockFetchCommitsWithFiles.mockResolvedValue({
-                    data: mockCommitData,
+                mockFetchCommitActivityAnalysis.mockClear();
+                mockFetchCommitActivityAnalysis.mockResolvedValue({
+                    data: mockHeatmapData,
                     rateLimit: { remaining: 100, reset: Date.now(), limit: 5000 },
                 });
 
@@ -316,7 +293,7 @@ describe('CommitActivityHeatmap', () => {
                 );
 
                 await waitFor(() => {
-                    expect(mockFetchCommitsWithFiles).toHaveBeenCalled();
+                    expect(mockFetchCommitActivityAnalysis).toHaveBeenCalledWith('testowner', 'testrepo', timeRange, { host: undefined });
                 });
 
                 unmount();
@@ -361,7 +338,7 @@ describe('CommitActivityHeatmap', () => {
         });
 
         it('provides loading status for screen readers', () => {
-            mockFetchCommitsWithFiles.mockImplementation(() => new Promise(() => { }));
+            mockFetchCommitActivityAnalysis.mockImplementation(() => new Promise(() => { }));
 
             render(<CommitActivityHeatmap {...defaultProps} />);
 
@@ -369,7 +346,7 @@ describe('CommitActivityHeatmap', () => {
         });
 
         it('provides error alerts for screen readers', async () => {
-            mockFetchCommitsWithFiles.mockResolvedValue({
+            mockFetchCommitActivityAnalysis.mockResolvedValue({
                 error: 'Test error',
                 rateLimit: { remaining: 100, reset: Date.now(), limit: 5000 },
             });
@@ -445,7 +422,7 @@ describe('CommitActivityHeatmap', () => {
         });
 
         it('handles network errors gracefully', async () => {
-            mockFetchCommitsWithFiles.mockRejectedValue(new Error('Network error'));
+            mockFetchCommitActivityAnalysis.mockRejectedValue(new Error('Network error'));
 
             render(<CommitActivityHeatmap {...defaultProps} />);
 
@@ -455,7 +432,7 @@ describe('CommitActivityHeatmap', () => {
         });
 
         it('handles API rate limiting', async () => {
-            mockFetchCommitsWithFiles.mockResolvedValue({
+            mockFetchCommitActivityAnalysis.mockResolvedValue({
                 error: 'GitHub API rate limit exceeded. Please try again later.',
                 rateLimit: { remaining: 0, reset: Date.now() + 3600000, limit: 5000 },
             });
@@ -3,17 +3,17 @@
 import React, { useEffect, useState, useMemo, useCallback } from 'react';
 import { 
   transformToHeatmapData,
-  filterCommitsByTimeRange,
   type TimeRange,
   type HeatmapData,
-  type WeeklyCommitData,
-  type GitHubCommit
+  type WeeklyCommitData
 } from '@/lib/commit-activity-data';
-import { fetchCommitsWithFiles, type GitHubApiResponse } from '@/lib/github-api';
+import { isTransientError } from '@/lib/github-errors';
+import { fetchCommitActivityAnalysis } from '@/lib/analysis-client';
 
 interface CommitActivityHeatmapProps {
   owner: string;
   repo: string;
+  host?: string;
   timeRange: TimeRange;
   data?: WeeklyCommitData[];
 }
@@ -37,7 +37,7 @@ interface TooltipData {
 const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
 // Memoized component for performance optimization
-export const CommitActivityHeatmap = React.memo(function CommitActivityHeatmap({ owner, repo, timeRange, data }: CommitActivityHeatmapProps) {
+export const CommitActivityHeatmap = React.memo(function CommitActivityHeatmap({ owner, repo, host, timeRange, data }: CommitActivityHeatmapProps) {
   const [state, setState] = useState<HeatmapState>({
     data: { weeks: data || [], totalCommits: 0, peakDay: { day: 'Sunday', count: 0 }, averagePerDay: 0 },
     loading: !data,
@@ -67,32 +67,6 @@ export const CommitActivityHeatmap = React.memo(function CommitActivityHeatmap({
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  // Get time bounds for API calls
-  const getTimeBounds = (range: TimeRange) => {
-    const now = new Date();
-    let since: string | undefined;
-
-    switch (range) {
-      case '30d':
-        since = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000).toISOString();
-        break;
-      case '3m':
-        since = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000).toISOString();
-        break;
-      case '6m':
-        since = new Date(now.getTime() - 180 * 24 * 60 * 60 * 1000).toISOString();
-        break;
-      case '1y':
-        since = new Date(now.getTime() - 365 * 24 * 60 * 60 * 1000).toISOString();
-        break;
-    }
-
-    return { since, until: now.toISOString() };
-  };
-
-  // Memoized time bounds calculation
-  const timeBounds = useMemo(() => getTimeBounds(timeRange), [timeRange]);
-
   // Memoized data transformation for provided data
   const transformedProvidedData = useMemo(() => {
     if (!data) return null;
@@ -131,22 +105,13 @@ export const CommitActivityHeatmap = React.memo(function CommitActivityHeatmap({
     }
 
     try {
-      const response: GitHubApiResponse<any[]> = await fetchCommitsWithFiles(
-        owner,
-        repo,
-        timeBounds.since,
-        timeBounds.until,
-        1,
-        100,
-        { maxCommits: 1000 }
-      );
+      // The server reuses the commits it has already synced for this
+      // repository; only newer commits and older history are fetched
+      const response = await fetchCommitActivityAnalysis(owner, repo, timeRange, { host });
 
       if (response.error) {
-        // Check if it's a rate limit error and should retry
-        const isRateLimitError = response.error.includes('rate limit');
-        const isNetworkError = response.error.includes('Network error') || response.error.includes('fetch');
-        
-        if ((isRateLimitError || isNetworkError) && attempt < maxRetries) {
+        // Retry failures that may go away: rate limits, network and server errors
+        if (isTransientError(response.errorInfo) && attempt < maxRetries) {
           const delay = getRetryDelay(attempt);
           setTimeout(() => {
             setRetryCount(attempt + 1);
@@ -165,28 +130,8 @@ export const CommitActivityHeatmap = React.memo(function CommitActivityHeatmap({
       }
 
       if (response.data) {
-        // Transform the commit data to match GitHubCommit interface
-        const commits: GitHubCommit[] = response.data.map(commit => ({
-          sha: commit.sha,
-          commit: {
-            author: {
-              name: commit.author,
-              email: '',
-              date: commit.date,
-            },
-            message: commit.message,
-          },
-          author: {
-            login: commit.author,
-            avatar_url: '',
-          },
-        }));
-
-        const filteredCommits = filterCommitsByTimeRange(commits, timeRange);
-        const heatmapData = transformToHeatmapData(filteredCommits, timeRange);
-        
         setState({
-          data: heatmapData,
+          data: response.data,
           loading: false,
           error: null,
         });
@@ -216,7 +161,7 @@ export const CommitActivityHeatmap = React.memo(function CommitActivityHeatmap({
         setIsRetrying(false);
       }
     }
-  }, [owner, repo, timeBounds, timeRange, getRetryDelay]);
+  }, [owner, repo, host, timeRange, getRetryDelay]);
 
   useEffect(() => {
     // If data is provided as prop, use transformed data
@@ -1,6 +1,6 @@
 import React from 'react';
-import { render, screen, waitFor } from '@testing-library/react';
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, render, screen, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { CommitChart } from './CommitChart';
 import * as githubApi from '@/lib/github-api';
 
@@ -78,7 +78,7 @@ describe('CommitChart', () => {
     });
 
     expect(screen.getByTestId('responsive-container')).toBeInTheDocument();
-    expect(githubApi.fetchCommitActivity).toHaveBeenCalledWith('test-owner', 'test-repo');
+    expect(githubApi.fetchCommitActivity).toHaveBeenCalledWith('test-owner', 'test-repo', { host: undefined });
     expect(githubApi.transformCommitActivity).toHaveBeenCalledWith(mockCommitActivity);
   });
 
@@ -166,7 +166,7 @@ describe('CommitChart', () => {
     vi.mocked(githubApi.transformCommitActivity).mockReturnValue(mockCommitData);
 
     await waitFor(() => {
-      expect(githubApi.fetchCommitActivity).toHaveBeenCalledWith('owner1', 'repo1');
+      expect(githubApi.fetchCommitActivity).toHaveBeenCalledWith('owner1', 'repo1', { host: undefined });
     });
 
     // Clear previous calls
@@ -176,7 +176,53 @@ describe('CommitChart', () => {
     rerender(<CommitChart owner="owner2" repo="repo2" />);
 
     await waitFor(() => {
-      expect(githubApi.fetchCommitActivity).toHaveBeenCalledWith('owner2', 'repo2');
+      expect(githubApi.fetchCommitActivity).toHaveBeenCalledWith('owner2', 'repo2', { host: undefined });
     });
   });
-});
\ No newline at end of file
+
+  describe('while GitHub computes statistics', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('shows a computing state and refreshes until the statistics are ready', async () => {
+      vi.useFakeTimers();
+      vi.mocked(githubApi.fetchCommitActivity)
+        .mockResolvedValueOnce({ status: 'computing' })
+        .mockResolvedValueOnce({ data: mockCommitActivity, status: 'ready' });
+      vi.mocked(githubApi.transformCommitActivity).mockReturnValue(mockCommitData);
+
+      render(<CommitChart owner="test-owner" repo="test-repo" />);
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(0);
+      });
+
+      expect(screen.getByText('GitHub is still computing statistics')).toBeInTheDocument();
+      expect(screen.queryByText('No commit history available')).not.toBeInTheDocument();
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(10 * 1000);
+      });
+
+      expect(screen.getByText('Last 3 weeks')).toBeInTheDocument();
+      expect(githubApi.fetchCommitActivity).toHaveBeenCalledTimes(2);
+    });
+
+    it('starts in the computing state when the server found the statistics computing', async () => {
+      vi.useFakeTimers();
+      vi.mocked(githubApi.fetchCommitActivity).mockResolvedValue({ status: 'computing' });
+
+      render(<CommitChart owner="test-owner" repo="test-repo" computing />);
+
+      expect(screen.getByText('GitHub is still computing statistics')).toBeInTheDocument();
+      expect(githubApi.fetchCommitActivity).not.toHaveBeenCalled();
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(10 * 1000);
+      });
+
+      expect(githubApi.fetchCommitActivity).toHaveBeenCalledTimes(1);
+      expect(screen.getByText('GitHub is still computing statistics')).toBeInTheDocument();
+    });
+  });
+});
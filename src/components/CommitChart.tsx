@@ -15,28 +15,36 @@ import {
   fetchCommitActivity,
   transformCommitActivity,
   type CommitData,
-  type GitHubApiResponse,
+  type GitHubStatsResponse,
   type CommitActivity,
 } from '@/lib/github-api';
 
+// How often to check again while GitHub is still computing the statistics
+const STATS_REFRESH_INTERVAL = 10 * 1000;
+
 interface CommitChartProps {
   owner: string;
   repo: string;
+  host?: string;
   data?: CommitData[];
+  computing?: boolean; // The server found the statistics still being computed
 }
 
 interface CommitChartState {
   data: CommitData[];
   loading: boolean;
   error: string | null;
+  computing: boolean;
 }
 
-export function CommitChart({ owner, repo, data }: CommitChartProps) {
+export function CommitChart({ owner, repo, host, data, computing }: CommitChartProps) {
   const [state, setState] = useState<CommitChartState>({
     data: data || [],
-    loading: !data,
+    loading: !data && !computing,
     error: null,
+    computing: Boolean(computing),
   });
+  const [refreshCount, setRefreshCount] = useState(0);
   const [isMobile, setIsMobile] = useState(false);
 
   useEffect(() => {
@@ -55,51 +63,89 @@ export function CommitChart({ owner, repo, data }: CommitChartProps) {
   useEffect(() => {
     // If data is provided as prop, don't fetch
     if (data) {
-      setState({ data, loading: false, error: null });
+      setState({ data, loading: false, error: null, computing: false });
       return;
     }
 
+    // The server already waited for the statistics; check again after the refresh interval
+    if (computing && refreshCount === 0) {
+      setState({ data: [], loading: false, error: null, computing: true });
+      return;
+    }
+
+    let cancelled = false;
+
     // Fetch commit activity data
     const fetchData = async () => {
-      setState(prev => ({ ...prev, loading: true, error: null }));
+      // Keep showing the computing state while checking again
+      setState(prev => ({ ...prev, loading: !prev.computing, error: null }));
 
       try {
-        const response: GitHubApiResponse<CommitActivity[]> = await fetchCommitActivity(owner, repo);
+        const response: GitHubStatsResponse<CommitActivity[]> = await fetchCommitActivity(owner, repo, { host });
+        if (cancelled) {
+          return;
+        }
 
         if (response.error) {
           setState(prev => ({
             ...prev,
             loading: false,
+            computing: false,
             error: response.error || 'Failed to fetch commit data',
           }));
           return;
         }
 
+        if (response.status === 'computing') {
+          setState({ data: [], loading: false, error: null, computing: true });
+          return;
+        }
+
         if (response.data) {
           const transformedData = transformCommitActivity(response.data);
           setState({
             data: transformedData,
             loading: false,
             error: null,
+            computing: false,
           });
         } else {
           setState(prev => ({
             ...prev,
             loading: false,
+            computing: false,
             error: 'No commit data available',
           }));
         }
       } catch (error) {
+        if (cancelled) {
+          return;
+        }
         setState(prev => ({
           ...prev,
           loading: false,
+          computing: false,
           error: 'An unexpected error occurred while fetching commit data',
         }));
       }
     };
 
     fetchData();
-  }, [owner, repo, data]);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [owner, repo, host, data, computing, refreshCount]);
+
+  // Refresh automatically while GitHub computes the statistics
+  useEffect(() => {
+    if (!state.computing) {
+      return;
+    }
+
+    const timer = setTimeout(() => setRefreshCount(count => count + 1), STATS_REFRESH_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [state.computing, refreshCount]);
 
   // Loading state
   if (state.loading) {
@@ -119,6 +165,26 @@ export function CommitChart({ owner, repo, data }: CommitChartProps) {
     );
   }
 
+  // Statistics still being computed
+  if (state.computing) {
+    return (
+      <div className="w-full h-80 sm:h-96 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+        <div className="p-4 sm:p-6">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Commit Activity</h3>
+          <div className="flex items-center justify-center h-48 sm:h-64">
+            <div className="text-center max-w-sm px-4" role="status" aria-live="polite">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4" aria-hidden="true"></div>
+              <p className="text-gray-600 dark:text-gray-300 font-medium text-base sm:text-lg mb-2">GitHub is still computing statistics</p>
+              <p className="text-gray-500 dark:text-gray-400 text-sm leading-relaxed">
+                Commit activity for this repository is being prepared. This chart refreshes automatically once it is ready.
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // Error state
   if (state.error) {
     return (
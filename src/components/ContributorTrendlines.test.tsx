@@ -1,19 +1,28 @@
 import React from 'react';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { axe, toHaveNoViolations } from 'jest-axe';
 import { vi } from 'vitest';
 import { ContributorTrendlines } from './ContributorTrendlines';
-import type { ContributorTrendData } from '@/lib/commit-activity-data';
+import type { ContributorAnalysis, ContributorTrendData } from '@/lib/commit-activity-data';
 
 // Extend Jest matchers
 expect.extend(toHaveNoViolations);
 
-// Mock the GitHub API
-const mockFetchCommitsWithFiles = vi.fn();
-vi.mock('@/lib/github-api', () => ({
-  fetchCommitsWithFiles: mockFetchCommitsWithFiles,
+// Mock the analysis route client
+const { mockFetchContributorTrendAnalysis } = vi.hoisted(() => ({
+  mockFetchContributorTrendAnalysis: vi.fn(),
 }));
+vi.mock('@/lib/analysis-client', () => ({
+  fetchContributorTrendAnalysis: mockFetchContributorTrendAnalysis,
+}));
+
+const toAnalysis = (contributors: ContributorTrendData[]): ContributorAnalysis => ({
+  contributors,
+  timeRange: '30d',
+  totalContributors: contributors.length,
+  activeContributors: contributors.length,
+});
 
 // Mock Recharts components to avoid canvas rendering issues in tests
 vi.mock('recharts', () => ({
@@ -74,23 +83,8 @@ describe('ContributorTrendlines', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     // Mock successful API response
-    mockFetchCommitsWithFiles.mockResolvedValue({
-      data: [
-        {
-          sha: 'abc123',
-          author: 'alice',
-          date: '2024-01-01T10:00:00Z',
-          message: 'Test commit',
-          files: [],
-        },
-        {
-          sha: 'def456',
-          author: 'bob',
-          date: '2024-01-02T10:00:00Z',
-          message: 'Another commit',
-          files: [],
-        },
-      ],
+    mockFetchContributorTrendAnalysis.mockResolvedValue({
+      data: toAnalysis(mockContributorData.slice(0, 2)),
     });
   });
 
@@ -170,13 +164,13 @@ describe('ContributorTrendlines', () => {
       await user.click(aliceButton);
       
       // Should be hidden (different styling)
-      expect(aliceButton).toHaveClass('bg-gray-50');
+      expect(screen.getByRole('button', { name: /toggle alice visibility/i })).toHaveClass('bg-gray-50');
     });
   });
 
   describe('Error Handling', () => {
     it('displays error state when API fails', async () => {
-      mockFetchCommitsWithFiles.mockResolvedValue({
+      mockFetchContributorTrendAnalysis.mockResolvedValue({
         error: 'API rate limit exceeded',
       });
 
@@ -189,14 +183,20 @@ describe('ContributorTrendlines', () => {
     });
 
     it('displays error state when network fails', async () => {
-      mockFetchCommitsWithFiles.mockRejectedValue(new Error('Network error'));
+      vi.useFakeTimers();
+      mockFetchContributorTrendAnalysis.mockRejectedValue(new Error('Network error'));
 
       render(<ContributorTrendlines {...mockProps} />);
-      
-      await waitFor(() => {
-        expect(screen.getByText('Error loading contributor trends')).toBeInTheDocument();
-        expect(screen.getByText('An unexpected error occurred while fetching commit data')).toBeInTheDocument();
+
+      // Let the retries back off before giving up
+      await act(async () => {
+        await vi.runAllTimersAsync();
       });
+      vi.useRealTimers();
+
+      expect(screen.getByText('Error loading contributor trends')).toBeInTheDocument();
+      expect(screen.getByText('An unexpected error occurred while fetching commit data')).toBeInTheDocument();
+      expect(mockFetchContributorTrendAnalysis).toHaveBeenCalledTimes(4);
     });
   });
 
@@ -209,8 +209,8 @@ describe('ContributorTrendlines', () => {
     });
 
     it('displays empty state when API returns no data', async () => {
-      mockFetchCommitsWithFiles.mockResolvedValue({
-        data: [],
+      mockFetchContributorTrendAnalysis.mockResolvedValue({
+        data: toAnalysis([]),
       });
 
       render(<ContributorTrendlines {...mockProps} />);
@@ -258,14 +258,11 @@ describe('ContributorTrendlines', () => {
       render(<ContributorTrendlines {...mockProps} timeRange="3m" />);
       
       await waitFor(() => {
-        expect(mockFetchCommitsWithFiles).toHaveBeenCalledWith(
+        expect(mockFetchContributorTrendAnalysis).toHaveBeenCalledWith(
           'test-owner',
           'test-repo',
-          expect.any(String), // since date
-          expect.any(String), // until date
-          1,
-          100,
-          { maxCommits: 1000 }
+          '3m',
+          { host: undefined }
         );
       });
     });
@@ -295,7 +292,7 @@ describe('ContributorTrendlines', () => {
     it('provides proper ARIA labels', () => {
       render(<ContributorTrendlines {...mockProps} data={mockContributorData} />);
       
-      expect(screen.getByRole('img', { name: /contributor trends chart/i })).toBeInTheDocument();
+      expect(screen.getByRole('application', { name: /contributor trends chart/i })).toBeInTheDocument();
       expect(screen.getByRole('button', { name: /toggle alice visibility.*16 total commits/i })).toBeInTheDocument();
     });
 
@@ -312,7 +309,7 @@ describe('ContributorTrendlines', () => {
       
       // Tab to chart
       await user.tab();
-      expect(screen.getByRole('img', { name: /contributor trends chart/i })).toHaveFocus();
+      expect(screen.getByRole('application', { name: /contributor trends chart/i })).toHaveFocus();
       
       // Tab to legend buttons
       await user.tab();
@@ -354,31 +351,9 @@ describe('ContributorTrendlines', () => {
   });
 
   describe('Integration', () => {
-    it('fetches and processes real API data', async () => {
-      mockFetchCommitsWithFiles.mockResolvedValue({
-        data: [
-          {
-            sha: 'abc123',
-            author: 'alice',
-            date: '2024-01-01T10:00:00Z',
-            message: 'Test commit',
-            files: [],
-          },
-          {
-            sha: 'def456',
-            author: 'alice',
-            date: '2024-01-02T10:00:00Z',
-            message: 'Another commit',
-            files: [],
-          },
-          {
-            sha: 'ghi789',
-            author: 'bob',
-            date: '2024-01-01T15:00:00Z',
-            message: 'Bob commit',
-            files: [],
-          },
-        ],
+    it('renders the analysis loaded from the server', async () => {
+      mockFetchContributorTrendAnalysis.mockResolvedValue({
+        data: toAnalysis(mockContributorData),
       });
 
       render(<ContributorTrendlines {...mockProps} />);
@@ -390,7 +365,7 @@ describe('ContributorTrendlines', () => {
     });
 
     it('handles API rate limiting gracefully', async () => {
-      mockFetchCommitsWithFiles.mockResolvedValue({
+      mockFetchContributorTrendAnalysis.mockResolvedValue({
         error: 'GitHub API rate limit exceeded. Please try again later.',
         rateLimit: {
           remaining: 0,
@@ -12,18 +12,17 @@ import {
   Legend,
 } from 'recharts';
 import {
-  calculateContributorTrends,
-  filterCommitsByTimeRange,
   type TimeRange,
   type ContributorAnalysis,
-  type ContributorTrendData,
-  type GitHubCommit
+  type ContributorTrendData
 } from '@/lib/commit-activity-data';
-import { fetchCommitsWithFiles, type GitHubApiResponse } from '@/lib/github-api';
+import { isTransientError } from '@/lib/github-errors';
+import { fetchContributorTrendAnalysis } from '@/lib/analysis-client';
 
 interface ContributorTrendlinesProps {
   owner: string;
   repo: string;
+  host?: string;
   timeRange: TimeRange;
   data?: ContributorTrendData[];
 }
@@ -53,7 +52,7 @@ const CONTRIBUTOR_COLORS = [
 ];
 
 // Memoized component for performance optimization
-export const ContributorTrendlines = React.memo(function ContributorTrendlines({ owner, repo, timeRange, data }: ContributorTrendlinesProps) {
+export const ContributorTrendlines = React.memo(function ContributorTrendlines({ owner, repo, host, timeRange, data }: ContributorTrendlinesProps) {
   const [state, setState] = useState<TrendlinesState>({
     data: { 
       contributors: data || [], 
@@ -80,32 +79,6 @@ export const ContributorTrendlines = React.memo(function ContributorTrendlines({
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  // Get time bounds for API calls
-  const getTimeBounds = (range: TimeRange) => {
-    const now = new Date();
-    let since: string | undefined;
-
-    switch (range) {
-      case '30d':
-        since = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000).toISOString();
-        break;
-      case '3m':
-        since = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000).toISOString();
-        break;
-      case '6m':
-        since = new Date(now.getTime() - 180 * 24 * 60 * 60 * 1000).toISOString();
-        break;
-      case '1y':
-        since = new Date(now.getTime() - 365 * 24 * 60 * 60 * 1000).toISOString();
-        break;
-    }
-
-    return { since, until: now.toISOString() };
-  };
-
-  // Memoized time bounds calculation
-  const timeBounds = useMemo(() => getTimeBounds(timeRange), [timeRange]);
-
   // Memoized data transformation for provided data
   const transformedProvidedData = useMemo(() => {
     if (!data) return null;
@@ -137,22 +110,13 @@ export const ContributorTrendlines = React.memo(function ContributorTrendlines({
     }
 
     try {
-      const response: GitHubApiResponse<any[]> = await fetchCommitsWithFiles(
-        owner,
-        repo,
-        timeBounds.since,
-        timeBounds.until,
-        1,
-        100,
-        { maxCommits: 1000 }
-      );
+      // The server reuses the commits it has already synced for this
+      // repository; only newer commits and older history are fetched
+      const response = await fetchContributorTrendAnalysis(owner, repo, timeRange, { host });
 
       if (response.error) {
-        // Check if it's a rate limit error and should retry
-        const isRateLimitError = response.error.includes('rate limit');
-        const isNetworkError = response.error.includes('Network error') || response.error.includes('fetch');
-        
-        if ((isRateLimitError || isNetworkError) && attempt < maxRetries) {
+        // Retry failures that may go away: rate limits, network and server errors
+        if (isTransientError(response.errorInfo) && attempt < maxRetries) {
           const delay = getRetryDelay(attempt);
           setTimeout(() => {
             setRetryCount(attempt + 1);
@@ -171,35 +135,15 @@ export const ContributorTrendlines = React.memo(function ContributorTrendlines({
       }
 
       if (response.data) {
-        // Transform the commit data to match GitHubCommit interface
-        const commits: GitHubCommit[] = response.data.map(commit => ({
-          sha: commit.sha,
-          commit: {
-            author: {
-              name: commit.author,
-              email: '',
-              date: commit.date,
-            },
-            message: commit.message,
-          },
-          author: {
-            login: commit.author,
-            avatar_url: '',
-          },
-        }));
-
-        const filteredCommits = filterCommitsByTimeRange(commits, timeRange);
-        const analysis = calculateContributorTrends(filteredCommits, timeRange);
-        
         setState({
-          data: analysis,
+          data: response.data,
           loading: false,
           error: null,
         });
 
         // Initialize legend state - show top 10 contributors by default
         const initialLegendState: LegendState = {};
-        analysis.contributors.forEach((contributor, index) => {
+        response.data.contributors.forEach((contributor, index) => {
           initialLegendState[contributor.contributor] = index < 10;
         });
         setLegendState(initialLegendState);
@@ -229,7 +173,7 @@ export const ContributorTrendlines = React.memo(function ContributorTrendlines({
         setIsRetrying(false);
       }
     }
-  }, [owner, repo, timeBounds, timeRange, getRetryDelay]);
+  }, [owner, repo, host, timeRange, getRetryDelay]);
 
   useEffect(() => {
     // If data is provided as prop, use transformed data
@@ -383,7 +327,6 @@ export const ContributorTrendlines = React.memo(function ContributorTrendlines({
                 aria-label={`Toggle ${contributor.contributor} visibility. Currently ${isVisible ? 'visible' : 'hidden'}. ${totalCommits} total commits. Trend: ${trend === 'up' ? 'increasing' : trend === 'down' ? 'decreasing' : 'stable'}.`}
                 aria-pressed={isVisible}
                 data-contributor-legend
-                role="switch"
                 onKeyDown={(e) => {
                   // Handle keyboard navigation between legend items
                   if (e.key === 'ArrowRight' || e.key === 'ArrowDown') {
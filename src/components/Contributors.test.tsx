@@ -177,7 +177,7 @@ describe('Contributors', () => {
     
     render(<Contributors owner="testowner" repo="testrepo" />);
     
-    expect(mockFetchContributors).toHaveBeenCalledWith('testowner', 'testrepo');
+    expect(mockFetchContributors).toHaveBeenCalledWith('testowner', 'testrepo', { host: undefined });
   });
 
   it('displays contribution badges with correct styling', async () => {
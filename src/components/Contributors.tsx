@@ -7,10 +7,11 @@ import { fetchContributors, type Contributor, type GitHubApiResponse } from '@/l
 interface ContributorsProps {
     owner: string;
     repo: string;
+    host?: string;
     data?: Contributor[];
 }
 
-export function Contributors({ owner, repo, data }: ContributorsProps) {
+export function Contributors({ owner, repo, host, data }: ContributorsProps) {
     const [contributors, setContributors] = useState<Contributor[]>(data || []);
     const [loading, setLoading] = useState(!data);
     const [error, setError] = useState<string | null>(null);
@@ -27,7 +28,7 @@ export function Contributors({ owner, repo, data }: ContributorsProps) {
             setError(null);
 
             try {
-                const response: GitHubApiResponse<Contributor[]> = await fetchContributors(owner, repo);
+                const response: GitHubApiResponse<Contributor[]> = await fetchContributors(owner, repo, { host });
 
                 if (response.error) {
                     setError(response.error);
@@ -44,7 +45,7 @@ export function Contributors({ owner, repo, data }: ContributorsProps) {
         };
 
         loadContributors();
-    }, [owner, repo, data]);
+    }, [owner, repo, host, data]);
 
     if (loading) {
         return (
@@ -0,0 +1,128 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import type { RepositorySnapshot, SnapshotMetrics } from '@/lib/repository-snapshots';
+
+type ChartedMetric = Exclude<keyof SnapshotMetrics, 'hotspots'>;
+
+interface MetricHistoryChartProps {
+  snapshots: RepositorySnapshot[]; // Oldest first
+}
+
+const METRICS: { key: ChartedMetric; label: string; unit?: string }[] = [
+  { key: 'contributors', label: 'Contributors' },
+  { key: 'commits', label: 'Commits' },
+  { key: 'openPRs', label: 'Open PRs' },
+  { key: 'mergedPRs', label: 'Merged PRs' },
+  { key: 'averageTimeToMerge', label: 'Time to Merge', unit: 'h' },
+  { key: 'reviewsPerPR', label: 'Reviews per PR' },
+  { key: 'totalBranches', label: 'Branches' },
+  { key: 'staleBranches', label: 'Stale Branches' },
+];
+
+function formatSnapshotDate(capturedAt: string): string {
+  return new Date(capturedAt).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function formatValue(value: number, unit?: string): string {
+  const rounded = Math.round(value * 10) / 10;
+  return unit ? `${rounded}${unit}` : `${rounded}`;
+}
+
+export function MetricHistoryChart({ snapshots }: MetricHistoryChartProps) {
+  const [metric, setMetric] = useState<ChartedMetric>('contributors');
+  const selected = METRICS.find(({ key }) => key === metric)!;
+
+  const chartData = useMemo(() => snapshots.map(snapshot => ({
+    date: formatSnapshotDate(snapshot.capturedAt),
+    value: snapshot.metrics[metric],
+  })), [snapshots, metric]);
+
+  if (snapshots.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">No snapshots yet</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Capture snapshots with <code className="font-mono">bun snapshots owner/repo</code> to follow how this repository&apos;s metrics evolve.
+        </p>
+      </div>
+    );
+  }
+
+  const latest = snapshots[snapshots.length - 1];
+  const previous = snapshots.length > 1 ? snapshots[snapshots.length - 2] : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3" role="group" aria-label="Metric to chart">
+        {METRICS.map(({ key, label, unit }) => {
+          const change = previous ? latest.metrics[key] - previous.metrics[key] : 0;
+          return (
+            <button
+              key={key}
+              onClick={() => setMetric(key)}
+              aria-pressed={metric === key}
+              className={`text-left rounded-lg border p-3 transition-colors ${
+                metric === key
+                  ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                  : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
+              }`}
+            >
+              <div className="text-xs text-gray-500 dark:text-gray-400">{label}</div>
+              <div className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                {formatValue(latest.metrics[key], unit)}
+              </div>
+              {change !== 0 && (
+                <div className={`text-xs ${change > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                  {change > 0 ? '+' : ''}{formatValue(change, unit)} since last snapshot
+                </div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          {selected.label} across {snapshots.length} snapshot{snapshots.length === 1 ? '' : 's'}
+        </h3>
+        <ResponsiveContainer width="100%" height={300}>
+          <LineChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+            <XAxis dataKey="date" tick={{ fontSize: 12 }} tickLine={false} />
+            <YAxis tick={{ fontSize: 12 }} tickLine={false} axisLine={false} allowDecimals={metric === 'reviewsPerPR'} />
+            <Tooltip formatter={(value: number) => [formatValue(value, selected.unit), selected.label]} />
+            <Line type="monotone" dataKey="value" stroke="#3b82f6" strokeWidth={2} dot={{ r: 3 }} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Hotspot files on {formatSnapshotDate(latest.capturedAt)}
+        </h3>
+        {latest.metrics.hotspots.length > 0 ? (
+          <ol className="divide-y divide-gray-200 dark:divide-gray-700">
+            {latest.metrics.hotspots.map(hotspot => (
+              <li key={hotspot.filename} className="flex justify-between py-2 text-sm">
+                <span className="font-mono text-gray-900 dark:text-gray-100 truncate">{hotspot.filename}</span>
+                <span className="text-gray-500 dark:text-gray-400 ml-4 flex-shrink-0">{hotspot.changeCount} changes</span>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No file changes in the 90 days before this snapshot.</p>
+        )}
+      </div>
+    </div>
+  );
+}
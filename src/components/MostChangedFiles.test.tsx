@@ -1,30 +1,33 @@
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import React from 'react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import { vi } from 'vitest';
 import { MostChangedFiles } from './MostChangedFiles';
-import * as githubApi from '@/lib/github-api';
+import type { AnalysisJobHandlers, AnalysisRouteResponse } from '@/lib/analysis-client';
+import type { FileChangeAnalysis } from '@/lib/github-api';
 
 // Mock all the sub-components
-jest.mock('./TimePeriodFilter', () => ({
+vi.mock('./TimePeriodFilter', () => ({
   TimePeriodFilter: ({ selectedPeriod, onPeriodChange, isLoading }: any) => (
     <div data-testid="time-period-filter">
       <span>Selected: {selectedPeriod}</span>
-      <span>Loading: {isLoading.toString()}</span>
+      <span>Filter loading: {isLoading.toString()}</span>
       <button onClick={() => onPeriodChange('30d')}>Change to 30d</button>
     </div>
   ),
 }));
 
-jest.mock('./FileChangeList', () => ({
+vi.mock('./FileChangeList', () => ({
   FileChangeList: ({ files, isLoading, onFileSelect, selectedFile }: any) => (
     <div data-testid="file-change-list">
       <span>Files count: {files.length}</span>
       <span>Loading: {isLoading.toString()}</span>
-      <span>Selected: {selectedFile || 'none'}</span>
-      <button onClick={() => onFileSelect('test.js')}>Select test.js</button>
+      <span>Selected file: {selectedFile || 'none'}</span>
+      <button onClick={() => onFileSelect('src/utils/helper.js')}>Select helper.js</button>
     </div>
   ),
 }));
 
-jest.mock('./FileChangeTrend', () => ({
+vi.mock('./FileChangeTrend', () => ({
   FileChangeTrend: ({ filename, trendData, timePeriod }: any) => (
     <div data-testid="file-change-trend">
       <span>Filename: {filename}</span>
@@ -34,113 +37,94 @@ jest.mock('./FileChangeTrend', () => ({
   ),
 }));
 
-jest.mock('./FileTypeBreakdown', () => ({
+vi.mock('./FileTypeBreakdown', () => ({
   FileTypeBreakdown: ({ typeData, isLoading }: any) => (
     <div data-testid="file-type-breakdown">
       <span>Type data count: {typeData.length}</span>
-      <span>Loading: {isLoading.toString()}</span>
+      <span>Breakdown loading: {isLoading.toString()}</span>
     </div>
   ),
 }));
 
-// Mock GitHub API functions
-const mockCommitFileData = [
-  {
-    sha: 'abc123',
-    date: '2024-01-15T10:30:00Z',
-    author: 'John Doe',
-    message: 'Update component',
-    files: [
-      {
-        filename: 'src/components/App.tsx',
-        status: 'modified' as const,
-        changes: 10,
-        additions: 8,
-        deletions: 2,
-      },
-    ],
-  },
-  {
-    sha: 'def456',
-    date: '2024-01-10T14:20:00Z',
-    author: 'Jane Smith',
-    message: 'Fix bug',
-    files: [
-      {
-        filename: 'src/utils/helper.js',
-        status: 'modified' as const,
-        changes: 5,
-        additions: 3,
-        deletions: 2,
-      },
-    ],
-  },
-];
-
-const mockFetchCommitsWithFiles = jest.fn();
-const mockFilterCommitsByTimePeriod = jest.fn();
-const mockProcessFileChangeData = jest.fn();
-
-// Mock the GitHub API module
-jest.mock('@/lib/github-api', () => ({
-  ...jest.requireActual('@/lib/github-api'),
-  fetchCommitsWithFiles: (...args: any[]) => mockFetchCommitsWithFiles(...args),
-  filterCommitsByTimePeriod: (...args: any[]) => mockFilterCommitsByTimePeriod(...args),
-  processFileChangeData: (...args: any[]) => mockProcessFileChangeData(...args),
+// Mock the analysis route client; the analysis runs as a server job whose
+// progress and result arrive over the job's event stream
+const { startRepositoryAnalysisJob, subscribeToAnalysisJob, cancelAnalysisJob } = vi.hoisted(() => ({
+  startRepositoryAnalysisJob: vi.fn(),
+  subscribeToAnalysisJob: vi.fn(),
+  cancelAnalysisJob: vi.fn(),
+}));
+
+vi.mock('@/lib/analysis-client', () => ({
+  startRepositoryAnalysisJob,
+  subscribeToAnalysisJob,
+  cancelAnalysisJob,
 }));
 
+const mockAnalysis: FileChangeAnalysis = {
+  files: [
+    {
+      filename: 'src/components/App.tsx',
+      changeCount: 10,
+      percentage: 66.7,
+      lastChanged: '2024-01-15T10:30:00Z',
+      fileType: 'TypeScript',
+      isDeleted: false,
+      trendData: [{ date: '2024-01-15', changes: 10 }],
+    },
+    {
+      filename: 'src/utils/helper.js',
+      changeCount: 5,
+      percentage: 33.3,
+      lastChanged: '2024-01-10T14:20:00Z',
+      fileType: 'JavaScript',
+      isDeleted: false,
+      trendData: [{ date: '2024-01-08', changes: 2 }, { date: '2024-01-10', changes: 3 }],
+    },
+  ],
+  totalChanges: 15,
+  analysisDate: '2024-01-20T00:00:00Z',
+  timePeriod: '90d',
+  fileTypeBreakdown: [
+    {
+      extension: 'TypeScript',
+      category: 'TypeScript',
+      changeCount: 10,
+      percentage: 66.7,
+      color: '#3178c6',
+    },
+    {
+      extension: 'JavaScript',
+      category: 'JavaScript',
+      changeCount: 5,
+      percentage: 33.3,
+      color: '#f7df1e',
+    },
+  ],
+} as FileChangeAnalysis;
+
 describe('MostChangedFiles', () => {
+  let jobResult: AnalysisRouteResponse<FileChangeAnalysis>;
+  let jobHandlers: AnalysisJobHandlers<FileChangeAnalysis> | undefined;
+
+  // Follow jobs without finishing them; tests finish them through jobHandlers
+  const followJobs = () => {
+    subscribeToAnalysisJob.mockImplementation((_id: string, handlers: AnalysisJobHandlers<FileChangeAnalysis>) => {
+      jobHandlers = handlers;
+      return () => {};
+    });
+  };
+
   beforeEach(() => {
-    jest.clearAllMocks();
-    
+    vi.clearAllMocks();
+    jobResult = { data: mockAnalysis };
+    jobHandlers = undefined;
+
     // Setup default mock implementations
-    mockFetchCommitsWithFiles.mockResolvedValue({
-      data: mockCommitFileData,
-      rateLimit: { remaining: 100, reset: Date.now() + 3600000, limit: 5000 },
-    });
-    
-    mockFilterCommitsByTimePeriod.mockReturnValue(mockCommitFileData);
-    
-    mockProcessFileChangeData.mockReturnValue({
-      files: [
-        {
-          filename: 'src/components/App.tsx',
-          changeCount: 10,
-          percentage: 66.7,
-          lastChanged: '2024-01-15T10:30:00Z',
-          fileType: 'TypeScript',
-          isDeleted: false,
-          trendData: [{ date: '2024-01-15', changes: 10 }],
-        },
-        {
-          filename: 'src/utils/helper.js',
-          changeCount: 5,
-          percentage: 33.3,
-          lastChanged: '2024-01-10T14:20:00Z',
-          fileType: 'JavaScript',
-          isDeleted: false,
-          trendData: [{ date: '2024-01-10', changes: 5 }],
-        },
-      ],
-      totalChanges: 15,
-      analysisDate: '2024-01-20T00:00:00Z',
-      timePeriod: '90d' as const,
-      fileTypeBreakdown: [
-        {
-          extension: 'TypeScript',
-          category: 'TypeScript',
-          changeCount: 10,
-          percentage: 66.7,
-          color: '#3178c6',
-        },
-        {
-          extension: 'JavaScript',
-          category: 'JavaScript',
-          changeCount: 5,
-          percentage: 33.3,
-          color: '#f7df1e',
-        },
-      ],
+    startRepositoryAnalysisJob.mockResolvedValue({ data: 'job-1' });
+    subscribeToAnalysisJob.mockImplementation((_id: string, handlers: AnalysisJobHandlers<FileChangeAnalysis>) => {
+      jobHandlers = handlers;
+      Promise.resolve().then(() => handlers.onResult(jobResult));
+      return () => {};
     });
   });
 
@@ -149,22 +133,25 @@ describe('MostChangedFiles', () => {
 
     expect(screen.getByText('Most Changed Files')).toBeInTheDocument();
     expect(screen.getByText('Analyze file change patterns and identify code churn hotspots')).toBeInTheDocument();
-    
+
     // Should show loading state initially
     expect(screen.getByText('Loading: true')).toBeInTheDocument();
+
+    await waitFor(() => {
+      expect(screen.getByText('Loading: false')).toBeInTheDocument();
+    });
   });
 
-  it('fetches and displays file change data', async () => {
-    render(<MostChangedFiles owner="test-owner" repo="test-repo" />);
+  it('starts the analysis job and displays its result', async () => {
+    render(<MostChangedFiles owner="test-owner" repo="test-repo" host="github.example.com" />);
 
     await waitFor(() => {
-      expect(mockFetchCommitsWithFiles).toHaveBeenCalledWith(
+      expect(startRepositoryAnalysisJob).toHaveBeenCalledWith(
         'test-owner',
         'test-repo',
-        undefined,
-        undefined,
-        1,
-        100
+        'file-changes',
+        { period: '90d' },
+        { signal: expect.any(AbortSignal), host: 'github.example.com' }
       );
     });
 
@@ -172,15 +159,13 @@ describe('MostChangedFiles', () => {
       expect(screen.getByText('Loading: false')).toBeInTheDocument();
     });
 
+    expect(subscribeToAnalysisJob).toHaveBeenCalledWith('job-1', expect.any(Object));
     expect(screen.getByText('Files count: 2')).toBeInTheDocument();
     expect(screen.getByText('Type data count: 2')).toBeInTheDocument();
   });
 
-  it('handles API errors gracefully', async () => {
-    mockFetchCommitsWithFiles.mockResolvedValue({
-      error: 'Repository not found',
-      rateLimit: { remaining: 100, reset: Date.now() + 3600000, limit: 5000 },
-    });
+  it('handles errors starting the job gracefully', async () => {
+    startRepositoryAnalysisJob.mockResolvedValue({ error: 'Repository not found' });
 
     render(<MostChangedFiles owner="test-owner" repo="test-repo" />);
 
@@ -190,6 +175,28 @@ describe('MostChangedFiles', () => {
     });
 
     expect(screen.getByText('Try Again')).toBeInTheDocument();
+    expect(subscribeToAnalysisJob).not.toHaveBeenCalled();
+  });
+
+  it('handles a failed analysis job', async () => {
+    jobResult = { error: 'Server error' };
+
+    render(<MostChangedFiles owner="test-owner" repo="test-repo" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Error Loading File Change Data')).toBeInTheDocument();
+      expect(screen.getByText('Server error')).toBeInTheDocument();
+    });
+  });
+
+  it('reports a cancelled job', async () => {
+    jobResult = { error: 'Cancelled', errorInfo: { kind: 'cancelled', message: 'Cancelled' } };
+
+    render(<MostChangedFiles owner="test-owner" repo="test-repo" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('The analysis was cancelled.')).toBeInTheDocument();
+    });
   });
 
   it('handles time period changes', async () => {
@@ -204,6 +211,32 @@ describe('MostChangedFiles', () => {
 
     expect(screen.getByText('Selected: 30d')).toBeInTheDocument();
     expect(screen.getByText('Time period: 30d')).toBeInTheDocument();
+
+    // Should start a job for the new period; the finished job needs no cancelling
+    await waitFor(() => {
+      expect(startRepositoryAnalysisJob).toHaveBeenLastCalledWith(
+        'test-owner',
+        'test-repo',
+        'file-changes',
+        { period: '30d' },
+        expect.any(Object)
+      );
+    });
+    expect(cancelAnalysisJob).not.toHaveBeenCalled();
+  });
+
+  it('cancels the running job when the time period changes', async () => {
+    followJobs();
+
+    render(<MostChangedFiles owner="test-owner" repo="test-repo" />);
+
+    await waitFor(() => {
+      expect(jobHandlers).toBeDefined();
+    });
+
+    fireEvent.click(screen.getByText('Change to 30d'));
+
+    expect(cancelAnalysisJob).toHaveBeenCalledWith('job-1');
   });
 
   it('handles file selection', async () => {
@@ -213,19 +246,16 @@ describe('MostChangedFiles', () => {
       expect(screen.getByText('Loading: false')).toBeInTheDocument();
     });
 
-    const selectFileButton = screen.getByText('Select test.js');
+    const selectFileButton = screen.getByText('Select helper.js');
     fireEvent.click(selectFileButton);
 
-    expect(screen.getByText('Selected: test.js')).toBeInTheDocument();
-    expect(screen.getByText('Filename: test.js')).toBeInTheDocument();
+    expect(screen.getByText('Selected file: src/utils/helper.js')).toBeInTheDocument();
+    expect(screen.getByText('Filename: src/utils/helper.js')).toBeInTheDocument();
+    expect(screen.getByText('Trend data points: 2')).toBeInTheDocument();
   });
 
   it('displays rate limit warning when appropriate', async () => {
-    mockFetchCommitsWithFiles.mockResolvedValue({
-      data: mockCommitFileData,
-      rateLimit: { remaining: 10, reset: Date.now() + 3600000, limit: 5000 }, // Low remaining
-      rateLimitWarning: true,
-    });
+    jobResult = { data: mockAnalysis, rateLimitWarning: true };
 
     render(<MostChangedFiles owner="test-owner" repo="test-repo" />);
 
@@ -235,54 +265,77 @@ describe('MostChangedFiles', () => {
     });
   });
 
-  it('displays progress indicator during loading', async () => {
-    let progressCallback: ((processed: number, total: number) => void) | undefined;
-    
-    mockFetchCommitsWithFiles.mockImplementation((...args: any[]) => {
-      const options = args[5] || {};
-      progressCallback = options.onProgress;
-      
-      // Simulate progress
-      setTimeout(() => {
-        if (progressCallback) {
-          progressCallback(25, 100);
-        }
-      }, 100);
-      
-      return new Promise(resolve => {
-        setTimeout(() => {
-          resolve({
-            data: mockCommitFileData,
-            rateLimit: { remaining: 100, reset: Date.now() + 3600000, limit: 5000 },
-          });
-        }, 200);
-      });
-    });
+  it('shows partial results while the job waits for the rate limit', async () => {
+    followJobs();
 
     render(<MostChangedFiles owner="test-owner" repo="test-repo" />);
 
-    // Should show progress indicator
     await waitFor(() => {
-      expect(screen.getByText(/Processing commits/)).toBeInTheDocument();
+      expect(jobHandlers).toBeDefined();
+    });
+
+    act(() => {
+      jobHandlers!.onPartialResult?.({ data: mockAnalysis, rateLimitWarning: true });
     });
+
+    expect(screen.getByText('Files count: 2')).toBeInTheDocument();
+    expect(screen.getByText('Rate limit warning')).toBeInTheDocument();
   });
 
-  it('handles request cancellation', async () => {
-    mockFetchCommitsWithFiles.mockImplementation(() => {
-      return new Promise((resolve) => {
-        setTimeout(() => {
-          resolve({ error: 'Request was cancelled' });
-        }, 100);
-      });
+  it('displays the job progress during loading', async () => {
+    followJobs();
+
+    render(<MostChangedFiles owner="test-owner" repo="test-repo" />);
+
+    await waitFor(() => {
+      expect(jobHandlers).toBeDefined();
+    });
+
+    act(() => {
+      jobHandlers!.onProgress?.({ status: 'running', phase: 'fetching-commits', progress: 25, processed: 25, total: 100 });
     });
 
+    expect(screen.getByText('Fetching commits...')).toBeInTheDocument();
+    expect(screen.getByText('25 of 100 processed')).toBeInTheDocument();
+
+    act(() => {
+      jobHandlers!.onResult(jobResult);
+    });
+
+    expect(screen.queryByText('Fetching commits...')).not.toBeInTheDocument();
+    expect(screen.getByText('Files count: 2')).toBeInTheDocument();
+  });
+
+  it('cancels the running job on unmount', async () => {
+    followJobs();
+
     const { unmount } = render(<MostChangedFiles owner="test-owner" repo="test-repo" />);
-    
+
+    await waitFor(() => {
+      expect(jobHandlers).toBeDefined();
+    });
+
     // Unmount component to trigger cancellation
     unmount();
-    
-    // Should not throw any errors
-    expect(true).toBe(true);
+
+    expect(cancelAnalysisJob).toHaveBeenCalledWith('job-1');
+  });
+
+  it('cancels a job that started after unmounting', async () => {
+    let startJob: (response: { data: string }) => void = () => {};
+    startRepositoryAnalysisJob.mockImplementation(() => new Promise(resolve => {
+      startJob = resolve;
+    }));
+
+    const { unmount } = render(<MostChangedFiles owner="test-owner" repo="test-repo" />);
+    unmount();
+
+    await act(async () => {
+      startJob({ data: 'job-1' });
+    });
+
+    expect(cancelAnalysisJob).toHaveBeenCalledWith('job-1');
+    expect(subscribeToAnalysisJob).not.toHaveBeenCalled();
   });
 
   it('displays summary statistics when data is loaded', async () => {
@@ -297,12 +350,13 @@ describe('MostChangedFiles', () => {
     expect(screen.getByText('Total Changes')).toBeInTheDocument();
     expect(screen.getByText('File Types')).toBeInTheDocument();
     expect(screen.getByText('Time Period')).toBeInTheDocument();
+    expect(screen.getByText('90 Days')).toBeInTheDocument();
   });
 
   it('handles retry functionality', async () => {
-    mockFetchCommitsWithFiles.mockResolvedValueOnce({
-      error: 'Network error',
-    });
+    startRepositoryAnalysisJob
+      .mockResolvedValueOnce({ error: 'Network error' })
+      .mockResolvedValueOnce({ data: 'job-2' });
 
     render(<MostChangedFiles owner="test-owner" repo="test-repo" />);
 
@@ -310,33 +364,25 @@ describe('MostChangedFiles', () => {
       expect(screen.getByText('Network error')).toBeInTheDocument();
     });
 
-    // Reset mock to return successful response
-    mockFetchCommitsWithFiles.mockResolvedValue({
-      data: mockCommitFileData,
-      rateLimit: { remaining: 100, reset: Date.now() + 3600000, limit: 5000 },
-    });
-
     const retryButton = screen.getByText('Try Again');
     fireEvent.click(retryButton);
 
     await waitFor(() => {
       expect(screen.getByText('Files count: 2')).toBeInTheDocument();
     });
+    expect(subscribeToAnalysisJob).toHaveBeenCalledWith('job-2', expect.any(Object));
   });
 
   it('handles empty data gracefully', async () => {
-    mockFetchCommitsWithFiles.mockResolvedValue({
-      data: [],
-      rateLimit: { remaining: 100, reset: Date.now() + 3600000, limit: 5000 },
-    });
-
-    mockProcessFileChangeData.mockReturnValue({
-      files: [],
-      totalChanges: 0,
-      analysisDate: '2024-01-20T00:00:00Z',
-      timePeriod: '90d' as const,
-      fileTypeBreakdown: [],
-    });
+    jobResult = {
+      data: {
+        files: [],
+        totalChanges: 0,
+        analysisDate: '2024-01-20T00:00:00Z',
+        timePeriod: '90d',
+        fileTypeBreakdown: [],
+      } as unknown as FileChangeAnalysis,
+    };
 
     render(<MostChangedFiles owner="test-owner" repo="test-repo" />);
 
@@ -350,6 +396,13 @@ describe('MostChangedFiles', () => {
     render(<MostChangedFiles owner="test-owner" repo="test-repo" timePeriod="1y" />);
 
     expect(screen.getByText('Selected: 1y')).toBeInTheDocument();
+    expect(startRepositoryAnalysisJob).toHaveBeenCalledWith(
+      'test-owner',
+      'test-repo',
+      'file-changes',
+      { period: '1y' },
+      expect.any(Object)
+    );
   });
 
   it('resets selected file when time period changes', async () => {
@@ -360,34 +413,15 @@ describe('MostChangedFiles', () => {
     });
 
     // Select a file first
-    const selectFileButton = screen.getByText('Select test.js');
+    const selectFileButton = screen.getByText('Select helper.js');
     fireEvent.click(selectFileButton);
-    expect(screen.getByText('Selected: test.js')).toBeInTheDocument();
+    expect(screen.getByText('Selected file: src/utils/helper.js')).toBeInTheDocument();
 
     // Change time period
     const changePeriodButton = screen.getByText('Change to 30d');
     fireEvent.click(changePeriodButton);
 
     // Selected file should be reset
-    expect(screen.getByText('Selected: none')).toBeInTheDocument();
-  });
-
-  it('handles multiple pages of commits', async () => {
-    // Mock multiple pages
-    mockFetchCommitsWithFiles
-      .mockResolvedValueOnce({
-        data: new Array(100).fill(mockCommitFileData[0]), // Full page
-        rateLimit: { remaining: 100, reset: Date.now() + 3600000, limit: 5000 },
-      })
-      .mockResolvedValueOnce({
-        data: [mockCommitFileData[1]], // Partial page
-        rateLimit: { remaining: 90, reset: Date.now() + 3600000, limit: 5000 },
-      });
-
-    render(<MostChangedFiles owner="test-owner" repo="test-repo" />);
-
-    await waitFor(() => {
-      expect(mockFetchCommitsWithFiles).toHaveBeenCalledTimes(2);
-    });
+    expect(screen.getByText('Selected file: none')).toBeInTheDocument();
   });
-});
\ No newline at end of file
+});
@@ -1,25 +1,22 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { TimePeriod, FileChangeAnalysis } from '@/lib/github-api';
 import {
-  TimePeriod,
-  FileChangeAnalysis,
-  fetchCommitsWithFiles,
-  getTimePeriodBounds,
-  processFileChangeData,
-  filterCommitsByTimePeriod,
-  GitHubApiResponse,
-  CommitFileData,
-} from '@/lib/github-api';
+  cancelAnalysisJob,
+  startRepositoryAnalysisJob,
+  type AnalysisRouteResponse,
+} from '@/lib/analysis-client';
+import { ProgressIndicator } from './ProgressIndicator';
 import { TimePeriodFilter } from './TimePeriodFilter';
 import { FileChangeList } from './FileChangeList';
 import { FileChangeTrend } from './FileChangeTrend';
 import { FileTypeBreakdown } from './FileTypeBreakdown';
-import { ProgressIndicator } from './ProgressIndicator';
 
 interface MostChangedFilesProps {
   owner: string;
   repo: string;
+  host?: string;
   timePeriod?: TimePeriod;
 }
 
@@ -28,18 +25,14 @@ interface MostChangedFilesState {
   loading: boolean;
   error: string | null;
   selectedFile: string | null;
-  rawCommits: CommitFileData[];
   rateLimitWarning: boolean;
-  progress: {
-    current: number;
-    total: number;
-    message: string;
-  } | null;
+  jobId: string | null;
 }
 
 export function MostChangedFiles({ 
   owner, 
   repo, 
+  host,
   timePeriod: initialTimePeriod = '90d' 
 }: MostChangedFilesProps) {
   const [timePeriod, setTimePeriod] = useState<TimePeriod>(initialTimePeriod);
@@ -48,127 +41,91 @@ export function MostChangedFiles({
     loading: true,
     error: null,
     selectedFile: null,
-    rawCommits: [],
     rateLimitWarning: false,
-    progress: null,
+    jobId: null,
   });
 
-  // Memoize the filtered analysis based on time period
-  const filteredAnalysis = useMemo(() => {
-    if (!state.rawCommits.length) return null;
-    
-    const filteredCommits = filterCommitsByTimePeriod(state.rawCommits, timePeriod);
-    return processFileChangeData(filteredCommits, timePeriod);
-  }, [state.rawCommits, timePeriod]);
+  const jobIdRef = useRef<string | null>(null);
 
-  // Fetch commit data with file information
+  // Start the analysis for the period as a server job; ProgressIndicator follows
+  // its progress and hands over the result
   const fetchFileChangeData = useCallback(async (abortSignal?: AbortSignal) => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
-
-    try {
-      // Fetch commits in batches to handle large repositories
-      const allCommits: CommitFileData[] = [];
-      let page = 1;
-      const perPage = 100;
-      let hasMore = true;
-      let rateLimitWarning = false;
-
-      while (hasMore && page <= 10) { // Limit to 10 pages (1000 commits) for performance
-        const response: GitHubApiResponse<CommitFileData[]> = await fetchCommitsWithFiles(
-          owner,
-          repo,
-          undefined, // We'll filter by time period after fetching
-          undefined,
-          page,
-          perPage,
-          {
-            maxCommits: 100, // Limit per page for performance
-            rateLimitThreshold: 50,
-            batchDelay: 100,
-            onProgress: (processed, total) => {
-              setState(prev => ({
-                ...prev,
-                progress: {
-                  current: processed,
-                  total,
-                  message: `Processing commits (page ${page})...`,
-                },
-              }));
-            },
-            signal: abortSignal,
-          }
-        );
-
-        if (response.error) {
-          if (response.error === 'Request was cancelled') {
-            return; // Don't update state if cancelled
-          }
-          setState(prev => ({
-            ...prev,
-            loading: false,
-            error: response.error || 'Failed to fetch commit data',
-          }));
-          return;
-        }
-
-        if (response.data && response.data.length > 0) {
-          allCommits.push(...response.data);
-          hasMore = response.data.length === perPage;
-          page++;
-
-          // Check rate limit
-          if (response.rateLimit && response.rateLimit.remaining < 50) {
-            rateLimitWarning = true;
-            hasMore = false; // Stop fetching to preserve rate limit
-          }
-
-          // Check for rate limit warning from the API
-          if ((response as any).rateLimitWarning) {
-            rateLimitWarning = true;
-            hasMore = false;
-          }
-        } else {
-          hasMore = false;
-        }
-
-        // Check if cancelled between requests
-        if (abortSignal?.aborted) {
-          return;
-        }
+    setState(prev => ({ ...prev, loading: true, error: null, jobId: null }));
+
+    // The server syncs commits incrementally, so switching to a shorter
+    // period does not fetch them again
+    const response = await startRepositoryAnalysisJob(owner, repo, 'file-changes', { period: timePeriod }, {
+      signal: abortSignal,
+      host,
+    });
+
+    // Check if cancelled while starting
+    if (abortSignal?.aborted) {
+      if (response.data) cancelAnalysisJob(response.data);
+      return;
+    }
 
-        // Add a small delay between requests to be respectful
-        if (hasMore) {
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
+    if (response.error || !response.data) {
+      if (response.errorInfo?.kind === 'cancelled') {
+        return; // Don't update state if cancelled
       }
-
       setState(prev => ({
         ...prev,
-        rawCommits: allCommits,
         loading: false,
-        rateLimitWarning,
-        progress: null, // Clear progress when done
+        error: response.error || 'Failed to fetch file change data',
       }));
+      return;
+    }
 
-    } catch (error) {
-      if (abortSignal?.aborted) {
-        return; // Don't update state if cancelled
-      }
+    jobIdRef.current = response.data;
+    setState(prev => ({ ...prev, jobId: response.data || null }));
+  }, [owner, repo, host, timePeriod]);
+
+  const handleJobResult = useCallback((response: AnalysisRouteResponse<FileChangeAnalysis>) => {
+    jobIdRef.current = null;
+
+    if (response.error || !response.data) {
       setState(prev => ({
         ...prev,
+        jobId: null,
         loading: false,
-        error: 'An unexpected error occurred while fetching file change data.',
+        error: response.errorInfo?.kind === 'cancelled'
+          ? 'The analysis was cancelled.'
+          : response.error || 'Failed to fetch file change data',
       }));
+      return;
     }
-  }, [owner, repo]);
 
-  // Initial data fetch with cleanup
+    setState(prev => ({
+      ...prev,
+      jobId: null,
+      analysis: response.data || null,
+      loading: false,
+      rateLimitWarning: Boolean(response.rateLimitWarning),
+    }));
+  }, []);
+
+  // Show what the job has so far while it waits for the rate limit to reset
+  const handlePartialResult = useCallback((response: AnalysisRouteResponse<FileChangeAnalysis>) => {
+    setState(prev => ({
+      ...prev,
+      analysis: response.data || prev.analysis,
+      loading: false,
+      rateLimitWarning: true,
+    }));
+  }, []);
+
+  // Fetch on mount and when the period changes; cleanup cancels the job
   useEffect(() => {
     const abortController = new AbortController();
     fetchFileChangeData(abortController.signal);
     
     return () => {
       abortController.abort();
+      if (jobIdRef.current) {
+        cancelAnalysisJob(jobIdRef.current);
+        jobIdRef.current = null;
+      }
     };
   }, [fetchFileChangeData]);
 
@@ -188,9 +145,9 @@ export function MostChangedFiles({
 
   // Get selected file data
   const selectedFileData = useMemo(() => {
-    if (!state.selectedFile || !filteredAnalysis) return null;
-    return filteredAnalysis.files.find(file => file.filename === state.selectedFile);
-  }, [state.selectedFile, filteredAnalysis]);
+    if (!state.selectedFile || !state.analysis) return null;
+    return state.analysis.files.find(file => file.filename === state.selectedFile);
+  }, [state.selectedFile, state.analysis]);
 
   // Handle retry
   const handleRetry = useCallback(() => {
@@ -261,16 +218,12 @@ export function MostChangedFiles({
         )}
       </div>
 
-      {/* Progress Indicator */}
-      {state.progress && state.loading && (
+      {/* Progress of the analysis job */}
+      {state.jobId && (
         <ProgressIndicator
-          progress={state.progress.current}
-          total={state.progress.total}
-          message={state.progress.message}
-          onCancel={() => {
-            // Cancel will be handled by the AbortController cleanup
-            setState(prev => ({ ...prev, loading: false, progress: null }));
-          }}
+          jobId={state.jobId}
+          onPartialResult={handlePartialResult}
+          onResult={handleJobResult}
         />
       )}
 
@@ -286,7 +239,7 @@ export function MostChangedFiles({
         {/* File List - Takes up 1 column */}
         <div className="xl:col-span-1">
           <FileChangeList
-            files={filteredAnalysis?.files || []}
+            files={state.analysis?.files || []}
             isLoading={state.loading}
             onFileSelect={handleFileSelect}
             selectedFile={state.selectedFile || undefined}
@@ -304,14 +257,14 @@ export function MostChangedFiles({
 
           {/* File Type Breakdown */}
           <FileTypeBreakdown
-            typeData={filteredAnalysis?.fileTypeBreakdown || []}
+            typeData={state.analysis?.fileTypeBreakdown || []}
             isLoading={state.loading}
           />
         </div>
       </div>
 
       {/* Summary Statistics */}
-      {filteredAnalysis && !state.loading && (
+      {state.analysis && !state.loading && (
         <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-6">
           <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
             Analysis Summary
@@ -320,19 +273,19 @@ export function MostChangedFiles({
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
             <SummaryCard
               title="Total Files"
-              value={filteredAnalysis.files.length.toString()}
+              value={state.analysis.files.length.toString()}
               icon="📁"
               description="Files with changes"
             />
             <SummaryCard
               title="Total Changes"
-              value={filteredAnalysis.totalChanges.toString()}
+              value={state.analysis.totalChanges.toString()}
               icon="📊"
               description="Across all files"
             />
             <SummaryCard
               title="File Types"
-              value={filteredAnalysis.fileTypeBreakdown.length.toString()}
+              value={state.analysis.fileTypeBreakdown.length.toString()}
               icon="🏷️"
               description="Different categories"
             />
@@ -1,6 +1,6 @@
 'use client';
 
-import { PRData, PRAnalyticsData, TimePeriod, categorizePRSize } from '@/lib/github-api';
+import { PRData, PRAnalyticsData, TimePeriod, categorizePRSize, summarizeDurations } from '@/lib/github-api';
 import { useMemo } from 'react';
 
 interface PRAnalyticsProps {
@@ -36,6 +36,10 @@ export function PRAnalytics({
       ? Math.round(pullRequests.reduce((sum, pr) => sum + pr.linesChanged, 0) / pullRequests.length)
       : 0;
 
+    const reviewTime = summarizeDurations(
+      pullRequests.flatMap(pr => pr.timeToFirstReview !== undefined ? [pr.timeToFirstReview] : [])
+    );
+
     // Size distribution
     const sizeDistribution = { XS: 0, S: 0, M: 0, L: 0, XL: 0 };
     pullRequests.forEach(pr => {
@@ -71,6 +75,7 @@ export function PRAnalytics({
       draftPRs,
       averageTimeToMerge,
       averagePRSize,
+      reviewTime,
       sizeDistribution,
       topContributors,
       mergeRate,
@@ -85,8 +90,8 @@ export function PRAnalytics({
         </h3>
         
         {/* Loading skeleton */}
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-          {Array.from({ length: 4 }).map((_, index) => (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+          {Array.from({ length: 5 }).map((_, index) => (
             <div key={index} className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg animate-pulse">
               <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded mb-2"></div>
               <div className="h-8 bg-gray-200 dark:bg-gray-700 rounded mb-1"></div>
@@ -143,7 +148,7 @@ export function PRAnalytics({
       </div>
 
       {/* Statistics Cards */}
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
         <StatCard
           title="Total PRs"
           value={analytics.totalPRs.toString()}
@@ -171,6 +176,15 @@ export function PRAnalytics({
           color="purple"
           subtitle="Hours to merge"
         />
+        <StatCard
+          title="Time to First Review"
+          value={`${analytics.reviewTime.mean}h`}
+          icon="👀"
+          color="blue"
+          subtitle={analytics.reviewTime.count > 0
+            ? `median ${analytics.reviewTime.median}h · p90 ${analytics.reviewTime.p90}h`
+            : 'No reviews yet'}
+        />
       </div>
 
       {/* Additional Metrics */}
@@ -370,6 +384,11 @@ function PRItem({ pr, rank, isSelected, onSelect }: PRItemProps) {
               {pr.timeToMerge && (
                 <span>{pr.timeToMerge}h to merge</span>
               )}
+              {pr.reviewCount > 0 && (
+                <span title={pr.reviewers.join(', ')}>
+                  {pr.reviewCount} {pr.reviewCount === 1 ? 'review' : 'reviews'}
+                </span>
+              )}
             </div>
           </div>
         </div>
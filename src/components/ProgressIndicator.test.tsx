@@ -1,5 +1,15 @@
-import { render, screen, fireEvent } from '@testing-library/react';
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { vi } from 'vitest';
 import { ProgressIndicator } from './ProgressIndicator';
+import type { AnalysisJobHandlers } from '@/lib/analysis-client';
+
+const { subscribeToAnalysisJob, cancelAnalysisJob } = vi.hoisted(() => ({
+  subscribeToAnalysisJob: vi.fn(),
+  cancelAnalysisJob: vi.fn(),
+}));
+
+vi.mock('@/lib/analysis-client', () => ({ subscribeToAnalysisJob, cancelAnalysisJob }));
 
 describe('ProgressIndicator', () => {
   it('renders progress information correctly', () => {
@@ -169,4 +179,67 @@ describe('ProgressIndicator', () => {
     expect(screen.getByText('33.7 of 100 processed')).toBeInTheDocument();
     expect(screen.getByText('34%')).toBeInTheDocument(); // Rounded
   });
-});
\ No newline at end of file
+
+  describe('following an analysis job', () => {
+    let handlers: AnalysisJobHandlers<unknown>;
+    const unsubscribe = vi.fn();
+
+    beforeEach(() => {
+      subscribeToAnalysisJob.mockReset().mockImplementation((_id: string, jobHandlers: AnalysisJobHandlers<unknown>) => {
+        handlers = jobHandlers;
+        return unsubscribe;
+      });
+      cancelAnalysisJob.mockReset();
+    });
+
+    it('shows the phase, counts, rate limit and ETA of the job', () => {
+      render(<ProgressIndicator jobId="job-1" />);
+
+      act(() => {
+        handlers.onProgress?.({
+          status: 'running',
+          phase: 'fetching-prs',
+          progress: 55,
+          processed: 120,
+          total: 300,
+          rateLimitRemaining: 4200,
+          eta: 75,
+        });
+      });
+
+      expect(subscribeToAnalysisJob).toHaveBeenCalledWith('job-1', expect.any(Object));
+      expect(screen.getByText('Fetching pull requests...')).toBeInTheDocument();
+      expect(screen.getByText('120 of 300 processed')).toBeInTheDocument();
+      expect(screen.getByText('55%')).toBeInTheDocument();
+      expect(screen.getByText('4200 API requests remaining')).toBeInTheDocument();
+      expect(screen.getByText('about 1 min left')).toBeInTheDocument();
+    });
+
+    it('shows partial results while the job waits for the rate limit', () => {
+      const onPartialResult = vi.fn();
+      render(<ProgressIndicator jobId="job-1" onPartialResult={onPartialResult} />);
+
+      act(() => {
+        handlers.onPartialResult?.({ data: { files: [] }, rateLimitWarning: true });
+        handlers.onProgress?.({ status: 'paused', phase: 'fetching-prs', progress: 40, resumesAt: Date.now() + 60_000 });
+      });
+
+      expect(onPartialResult).toHaveBeenCalledWith({ data: { files: [] }, rateLimitWarning: true });
+      expect(screen.getByText(/^Partial results, 40% complete, resumes at /)).toBeInTheDocument();
+    });
+
+    it('hands over the result and cancels the job', () => {
+      const onResult = vi.fn();
+      const { unmount } = render(<ProgressIndicator jobId="job-1" onResult={onResult} />);
+
+      fireEvent.click(screen.getByText('Cancel'));
+      expect(cancelAnalysisJob).toHaveBeenCalledWith('job-1');
+
+      handlers.onResult({ data: { files: [] } });
+      expect(onResult).toHaveBeenCalledWith({ data: { files: [] } });
+
+      unmount();
+      expect(unsubscribe).toHaveBeenCalled();
+    });
+  });
+});
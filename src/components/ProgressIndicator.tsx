@@ -1,14 +1,95 @@
 'use client';
 
-interface ProgressIndicatorProps {
-  progress: number;
-  total: number;
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  cancelAnalysisJob,
+  subscribeToAnalysisJob,
+  type AnalysisRouteResponse,
+} from '@/lib/analysis-client';
+import type { AnalysisJobProgress } from '@/lib/analysis-jobs';
+import type { AnalysisPhase } from '@/lib/github-analysis';
+
+interface ProgressIndicatorProps<T> {
+  progress?: number;
+  total?: number;
   message?: string;
   onCancel?: () => void;
+  // Follow a server analysis job instead of the progress and total given
+  jobId?: string;
+  onPartialResult?: (response: AnalysisRouteResponse<T>) => void;
+  onResult?: (response: AnalysisRouteResponse<T>) => void;
 }
 
-export function ProgressIndicator({ progress, total, message, onCancel }: ProgressIndicatorProps) {
-  const percentage = total > 0 ? Math.round((progress / total) * 100) : 0;
+const PHASE_MESSAGES: Record<AnalysisPhase, string> = {
+  'fetching-repo': 'Loading repository...',
+  'fetching-commits': 'Fetching commits...',
+  'fetching-branches': 'Fetching branches...',
+  'fetching-prs': 'Fetching pull requests...',
+  'fetching-reviews': 'Fetching reviews...',
+  processing: 'Analyzing...',
+  complete: 'Analysis complete',
+};
+
+function formatResumeTime(resumesAt: number): string {
+  return new Date(resumesAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function getJobMessage(progress: AnalysisJobProgress): string {
+  if (progress.status === 'paused' && progress.resumesAt !== undefined) {
+    return `Partial results, ${Math.round(progress.progress)}% complete, resumes at ${formatResumeTime(progress.resumesAt)}`;
+  }
+  if (progress.status === 'queued') {
+    return 'Waiting for other analyses to finish...';
+  }
+  return PHASE_MESSAGES[progress.phase];
+}
+
+function formatEta(seconds: number): string {
+  if (seconds < 60) {
+    return `about ${seconds}s left`;
+  }
+  return `about ${Math.round(seconds / 60)} min left`;
+}
+
+export function ProgressIndicator<T = unknown>({
+  progress = 0,
+  total = 0,
+  message,
+  onCancel,
+  jobId,
+  onPartialResult,
+  onResult,
+}: ProgressIndicatorProps<T>) {
+  const [jobProgress, setJobProgress] = useState<AnalysisJobProgress | null>(null);
+  const handlersRef = useRef({ onPartialResult, onResult });
+
+  useEffect(() => {
+    handlersRef.current = { onPartialResult, onResult };
+  });
+
+  useEffect(() => {
+    if (!jobId) return;
+    setJobProgress(null);
+    return subscribeToAnalysisJob<T>(jobId, {
+      onProgress: setJobProgress,
+      onPartialResult: response => handlersRef.current.onPartialResult?.(response),
+      onResult: response => handlersRef.current.onResult?.(response),
+    });
+  }, [jobId]);
+
+  const handleCancel = () => {
+    if (jobId) {
+      cancelAnalysisJob(jobId);
+    }
+    onCancel?.();
+  };
+
+  const percentage = jobId
+    ? Math.round(jobProgress?.progress ?? 0)
+    : total > 0 ? Math.round((progress / total) * 100) : 0;
+  const processed = jobId ? jobProgress?.processed : progress;
+  const processedTotal = jobId ? jobProgress?.total : total;
+  const label = message || (jobProgress ? getJobMessage(jobProgress) : 'Processing...');
 
   return (
     <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
@@ -16,32 +97,47 @@ export function ProgressIndicator({ progress, total, message, onCancel }: Progre
         <div className="flex items-center gap-2">
           <div className="w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
           <span className="text-sm font-medium text-blue-800 dark:text-blue-200">
-            {message || 'Processing...'}
+            {label}
           </span>
         </div>
-        {onCancel && (
+        {(onCancel || jobId) && (
           <button
-            onClick={onCancel}
+            onClick={handleCancel}
             className="text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-200 font-medium"
           >
             Cancel
           </button>
         )}
       </div>
-      
+
       <div className="space-y-2">
         <div className="flex justify-between text-xs text-blue-700 dark:text-blue-300">
-          <span>{progress} of {total} processed</span>
+          <span>
+            {processed !== undefined && processedTotal !== undefined
+              ? `${processed} of ${processedTotal} processed`
+              : ''}
+          </span>
           <span>{percentage}%</span>
         </div>
-        
+
         <div className="w-full bg-blue-200 dark:bg-blue-800 rounded-full h-2">
           <div
             className="bg-blue-600 h-2 rounded-full transition-all duration-300 ease-out"
             style={{ width: `${percentage}%` }}
           />
         </div>
+
+        {jobProgress && (jobProgress.rateLimitRemaining !== undefined || jobProgress.eta !== undefined) && (
+          <div className="flex justify-between text-xs text-blue-700 dark:text-blue-300">
+            <span>
+              {jobProgress.rateLimitRemaining !== undefined
+                ? `${jobProgress.rateLimitRemaining} API requests remaining`
+                : ''}
+            </span>
+            <span>{jobProgress.eta !== undefined ? formatEta(jobProgress.eta) : ''}</span>
+          </div>
+        )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
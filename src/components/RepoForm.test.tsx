@@ -157,6 +157,82 @@ describe('RepoForm', () => {
     });
   });
 
+  describe('GitHub Enterprise Server', () => {
+    it('carries enterprise hosts through the analysis route', async () => {
+      const user = userEvent.setup();
+      render(<RepoForm />);
+      
+      const input = screen.getByLabelText(/github repository url/i);
+      await user.type(input, 'https://ghe.example.com/platform/api.git');
+      
+      const submitButton = screen.getByRole('button', { name: /analyze repository/i });
+      await user.click(submitButton);
+      
+      await waitFor(() => {
+        expect(mockPush).toHaveBeenCalledWith('/analyze/platform/api?host=ghe.example.com');
+      });
+    });
+
+    it('passes the enterprise host to a custom onSubmit handler', async () => {
+      const user = userEvent.setup();
+      const mockOnSubmit = vi.fn();
+      render(<RepoForm onSubmit={mockOnSubmit} />);
+      
+      const input = screen.getByLabelText(/github repository url/i);
+      await user.type(input, 'https://ghe.example.com/platform/api');
+      await user.click(screen.getByRole('button', { name: /analyze repository/i }));
+      
+      await waitFor(() => {
+        expect(mockOnSubmit).toHaveBeenCalledWith('platform', 'api', 'ghe.example.com');
+      });
+    });
+
+    it('prefills the enterprise URL from initial values', () => {
+      render(<RepoForm initialOwner="platform" initialRepo="api" initialHost="ghe.example.com" />);
+      
+      expect(screen.getByLabelText(/github repository url/i)).toHaveValue('https://ghe.example.com/platform/api');
+    });
+
+    it('shows error for invalid host names', async () => {
+      const user = userEvent.setup();
+      render(<RepoForm />);
+      
+      const input = screen.getByLabelText(/github repository url/i);
+      await user.type(input, 'https://bad_host!/owner/repo');
+      await user.click(screen.getByRole('button', { name: /analyze repository/i }));
+      
+      expect(screen.getByText(/invalid host name format/i)).toBeInTheDocument();
+    });
+  });
+
+  describe('GitLab and Gitea', () => {
+    it('routes gitlab.com URLs to the GitLab provider', async () => {
+      const user = userEvent.setup();
+      render(<RepoForm />);
+
+      const input = screen.getByLabelText(/github repository url/i);
+      await user.type(input, 'https://gitlab.com/gitlab-org/gitlab-runner');
+      await user.click(screen.getByRole('button', { name: /analyze repository/i }));
+
+      await waitFor(() => {
+        expect(mockPush).toHaveBeenCalledWith('/analyze/gitlab-org/gitlab-runner?host=gitlab.com');
+      });
+    });
+
+    it('accepts Gitea owners with dots and underscores', async () => {
+      const user = userEvent.setup();
+      render(<RepoForm />);
+
+      const input = screen.getByLabelText(/github repository url/i);
+      await user.type(input, 'https://codeberg.org/forgejo_contrib.tools/runner');
+      await user.click(screen.getByRole('button', { name: /analyze repository/i }));
+
+      await waitFor(() => {
+        expect(mockPush).toHaveBeenCalledWith('/analyze/forgejo_contrib.tools/runner?host=codeberg.org');
+      });
+    });
+  });
+
   describe('Form Submission', () => {
     it('navigates to analysis page on successful submission', async () => {
       const user = userEvent.setup();
@@ -2,42 +2,51 @@
 
 import React, { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import {
+  buildAnalyzePath,
+  getGitHubWebUrl,
+  isDefaultGitHubHost,
+  isValidHostname,
+  normalizeGitHubHost,
+} from '@/lib/github-hosts';
+import { getProviderKind } from '@/lib/provider-hosts';
 
 interface RepoFormProps {
   initialOwner?: string;
   initialRepo?: string;
-  onSubmit?: (owner: string, repo: string) => void;
+  initialHost?: string;
+  onSubmit?: (owner: string, repo: string, host?: string) => void;
 }
 
-export function RepoForm({ initialOwner = '', initialRepo = '', onSubmit }: RepoFormProps) {
+export function RepoForm({ initialOwner = '', initialRepo = '', initialHost, onSubmit }: RepoFormProps) {
   const [url, setUrl] = useState(
-    initialOwner && initialRepo ? `https://github.com/${initialOwner}/${initialRepo}` : ''
+    initialOwner && initialRepo ? `${getGitHubWebUrl(initialHost)}/${initialOwner}/${initialRepo}` : ''
   );
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const router = useRouter();
 
-  const parseGitHubUrl = (inputUrl: string): { owner: string; repo: string } | null => {
+  const parseGitHubUrl = (inputUrl: string): { owner: string; repo: string; host: string } | null => {
     // Remove whitespace and normalize URL
     const cleanUrl = inputUrl.trim();
     
     // Handle various GitHub URL formats
     const patterns = [
-      // https://github.com/owner/repo
-      /^https?:\/\/github\.com\/([^\/]+)\/([^\/]+)\/?$/,
-      // github.com/owner/repo
-      /^github\.com\/([^\/]+)\/([^\/]+)\/?$/,
+      // https://github.com/owner/repo or https://ghe.example.com/owner/repo
+      /^https?:\/\/([^\/]+)\/([^\/]+)\/([^\/]+)\/?$/,
+      // github.com/owner/repo or ghe.example.com/owner/repo
+      /^([^\/]+)\/([^\/]+)\/([^\/]+)\/?$/,
       // owner/repo
-      /^([^\/]+)\/([^\/]+)$/
+      /^()([^\/]+)\/([^\/]+)$/
     ];
 
     for (const pattern of patterns) {
       const match = cleanUrl.match(pattern);
       if (match) {
-        const [, owner, repo] = match;
+        const [, host, owner, repo] = match;
         // Remove .git suffix if present
         const cleanRepo = repo.replace(/\.git$/, '');
-        return { owner, repo: cleanRepo };
+        return { owner, repo: cleanRepo, host: normalizeGitHubHost(host) };
       }
     }
 
@@ -54,15 +63,25 @@ export function RepoForm({ initialOwner = '', initialRepo = '', onSubmit }: Repo
       return 'Please enter a valid GitHub repository URL (e.g., github.com/owner/repo)';
     }
 
-    const { owner, repo } = parsed;
+    const { owner, repo, host } = parsed;
     
     // Basic validation for owner and repo names
     if (!owner || !repo) {
       return 'Invalid repository format';
     }
 
-    // GitHub username/org name validation (basic)
-    if (!/^[a-zA-Z0-9]([a-zA-Z0-9-]*[a-zA-Z0-9])?$/.test(owner)) {
+    // GitHub Enterprise Server hostname validation
+    if (!isValidHostname(host)) {
+      return 'Invalid host name format';
+    }
+
+    // GitHub username/org name validation (basic); GitLab and Gitea namespaces
+    // may also contain dots and underscores
+    const kind = getProviderKind(host);
+    const ownerPattern = kind === 'gitlab' || kind === 'gitea'
+      ? /^[a-zA-Z0-9_]([a-zA-Z0-9._-]*[a-zA-Z0-9_])?$/
+      : /^[a-zA-Z0-9]([a-zA-Z0-9-]*[a-zA-Z0-9])?$/;
+    if (!ownerPattern.test(owner)) {
       return 'Invalid owner name format';
     }
 
@@ -94,14 +113,19 @@ export function RepoForm({ initialOwner = '', initialRepo = '', onSubmit }: Repo
         return;
       }
 
-      const { owner, repo } = parsed;
+      const { owner, repo, host } = parsed;
 
       // Call custom onSubmit handler if provided
       if (onSubmit) {
-        onSubmit(owner, repo);
+        if (isDefaultGitHubHost(host)) {
+          onSubmit(owner, repo);
+        } else {
+          onSubmit(owner, repo, host);
+        }
       } else {
-        // Default behavior: navigate to analysis page
-        router.push(`/analyze/${owner}/${repo}`);
+        // Default behavior: navigate to analysis page, keeping non-github.com hosts in the URL
+        // so the page can pick the GitHub, GitLab or Gitea provider for them
+        router.push(buildAnalyzePath(owner, repo, host));
       }
     } catch (err) {
       setError('An error occurred while processing the URL');
@@ -133,7 +157,7 @@ export function RepoForm({ initialOwner = '', initialRepo = '', onSubmit }: Repo
             autoComplete="url"
           />
           <div id="url-help" className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-            Enter a GitHub repository URL (e.g., github.com/owner/repo)
+            Enter a GitHub repository URL (e.g., github.com/owner/repo or an Enterprise Server host), or a GitLab or Gitea URL (e.g., gitlab.com/group/project)
           </div>
           {error && (
             <p id="url-error" className="mt-2 text-sm text-red-600 dark:text-red-400" role="alert" aria-live="polite">
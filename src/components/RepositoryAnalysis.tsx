@@ -0,0 +1,137 @@
+'use client';
+
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { useCallback, useMemo, useState } from 'react';
+import { BranchStatistics } from './BranchStatistics';
+import { CommitActivityHeatmap } from './CommitActivityHeatmap';
+import { ContributorTrendlines } from './ContributorTrendlines';
+import { FileChangeList } from './FileChangeList';
+import { FileChangeTrend } from './FileChangeTrend';
+import { FileTypeBreakdown } from './FileTypeBreakdown';
+import { PRAnalytics } from './PRAnalytics';
+import { ReviewStatistics } from './ReviewStatistics';
+import { TimePeriodFilter } from './TimePeriodFilter';
+import {
+  type BranchData,
+  type FileChangeAnalysis,
+  type PRData,
+  type ReviewAnalyticsData,
+  type TimePeriod,
+} from '@/lib/github-api';
+import { type ContributorTrendData, type TimeRange, type WeeklyCommitData } from '@/lib/commit-activity-data';
+
+interface RepositoryAnalysisProps {
+  owner: string;
+  repo: string;
+  timePeriod: TimePeriod;
+  timeRange: TimeRange;
+  analysis: FileChangeAnalysis;
+  commitDays: WeeklyCommitData[];
+  contributorTrends: ContributorTrendData[];
+  branches: BranchData[];
+  pullRequests?: PRData[];
+  reviewData?: ReviewAnalyticsData;
+  changeRequestLabel?: string;
+}
+
+/**
+ * Analysis view for data read on the server (local clones, GitLab and Gitea)
+ * Every chart receives its data, so nothing is fetched from the browser
+ */
+export function RepositoryAnalysis({
+  owner,
+  repo,
+  timePeriod,
+  timeRange,
+  analysis,
+  commitDays,
+  contributorTrends,
+  branches,
+  pullRequests,
+  reviewData,
+  changeRequestLabel = 'Pull request',
+}: RepositoryAnalysisProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [selectedFile, setSelectedFile] = useState<string | null>(null);
+  const [isNavigating, setIsNavigating] = useState(false);
+
+  // Data is read on the server, so a new time period reloads the page
+  // (other params such as ?host= are kept)
+  const handleTimePeriodChange = useCallback((newPeriod: TimePeriod) => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.set('period', newPeriod);
+    setSelectedFile(null);
+    setIsNavigating(true);
+    router.push(`${pathname}?${params.toString()}`, { scroll: false });
+  }, [pathname, router, searchParams]);
+
+  const handleFileSelect = useCallback((filename: string) => {
+    setSelectedFile(prev => (prev === filename ? null : filename));
+  }, []);
+
+  const selectedFileData = useMemo(() => {
+    if (!selectedFile) return null;
+    return analysis.files.find(file => file.filename === selectedFile);
+  }, [selectedFile, analysis]);
+
+  return (
+    <div className="space-y-6">
+      <TimePeriodFilter
+        selectedPeriod={timePeriod}
+        onPeriodChange={handleTimePeriodChange}
+        isLoading={isNavigating}
+      />
+
+      {/* File Changes */}
+      <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 sm:p-6" aria-label="File change analysis">
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+          <div className="xl:col-span-1">
+            <FileChangeList
+              files={analysis.files}
+              isLoading={false}
+              onFileSelect={handleFileSelect}
+              selectedFile={selectedFile || undefined}
+            />
+          </div>
+          <div className="xl:col-span-2 space-y-6">
+            <FileChangeTrend
+              filename={selectedFile || ''}
+              trendData={selectedFileData?.trendData || []}
+              timePeriod={timePeriod}
+            />
+            <FileTypeBreakdown typeData={analysis.fileTypeBreakdown} isLoading={false} />
+          </div>
+        </div>
+      </section>
+
+      {/* Commit Activity */}
+      <section className="grid grid-cols-1 lg:grid-cols-2 gap-6" aria-label="Commit activity visualizations">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 sm:p-6">
+          <CommitActivityHeatmap owner={owner} repo={repo} timeRange={timeRange} data={commitDays} />
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 sm:p-6">
+          <ContributorTrendlines owner={owner} repo={repo} timeRange={timeRange} data={contributorTrends} />
+        </div>
+      </section>
+
+      {/* Branches */}
+      <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 sm:p-6" aria-label="Branch statistics">
+        <BranchStatistics branches={branches} isLoading={false} timePeriod={timePeriod} />
+      </section>
+
+      {/* Pull / Merge Requests */}
+      {pullRequests && (
+        <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 sm:p-6" aria-label={`${changeRequestLabel} analytics`}>
+          <PRAnalytics pullRequests={pullRequests} isLoading={false} timePeriod={timePeriod} />
+        </section>
+      )}
+      {reviewData && (
+        <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 sm:p-6" aria-label="Review statistics">
+          <ReviewStatistics reviewData={reviewData} isLoading={false} />
+        </section>
+      )}
+    </div>
+  );
+}
@@ -24,12 +24,15 @@ const mockReviewData: ReviewAnalyticsData = {
   averageReviewsPerPR: 2.5,
   averageTimeToFirstReview: 8.5, // 8.5 hours
   averageTimeToApproval: 24.0, // 24 hours
+  timeToFirstReview: { mean: 8.5, median: 8.5, p90: 8.5, count: 1 },
+  timeToApproval: { mean: 24.0, median: 24.0, p90: 24.0, count: 1 },
   topReviewers: [
     {
       username: 'alice',
       reviewCount: 45,
       approvalRate: 85.5,
       averageResponseTime: 6.0,
+      responseTime: { mean: 6.0, median: 6.0, p90: 6.0, count: 45 },
       changeRequestRate: 14.5,
     },
     {
@@ -37,6 +40,7 @@ const mockReviewData: ReviewAnalyticsData = {
       reviewCount: 38,
       approvalRate: 92.1,
       averageResponseTime: 4.5,
+      responseTime: { mean: 4.5, median: 4.5, p90: 4.5, count: 38 },
       changeRequestRate: 7.9,
     },
     {
@@ -44,6 +48,7 @@ const mockReviewData: ReviewAnalyticsData = {
       reviewCount: 32,
       approvalRate: 78.3,
       averageResponseTime: 12.0,
+      responseTime: { mean: 12.0, median: 12.0, p90: 12.0, count: 32 },
       changeRequestRate: 21.7,
     },
     {
@@ -51,6 +56,7 @@ const mockReviewData: ReviewAnalyticsData = {
       reviewCount: 25,
       approvalRate: 88.0,
       averageResponseTime: 8.0,
+      responseTime: { mean: 8.0, median: 8.0, p90: 8.0, count: 25 },
       changeRequestRate: 12.0,
     },
     {
@@ -58,6 +64,7 @@ const mockReviewData: ReviewAnalyticsData = {
       reviewCount: 10,
       approvalRate: 90.0,
       averageResponseTime: 5.5,
+      responseTime: { mean: 5.5, median: 5.5, p90: 5.5, count: 10 },
       changeRequestRate: 10.0,
     },
   ],
@@ -67,30 +74,35 @@ const mockReviewData: ReviewAnalyticsData = {
       reviewsGiven: 12,
       approvalsGiven: 8,
       changeRequestsGiven: 4,
+      reviewsByReviewer: { alice: 6, bob: 6 },
     },
     {
       date: '2024-01-02',
       reviewsGiven: 15,
       approvalsGiven: 12,
       changeRequestsGiven: 3,
+      reviewsByReviewer: { alice: 8, bob: 7 },
     },
     {
       date: '2024-01-03',
       reviewsGiven: 8,
       approvalsGiven: 6,
       changeRequestsGiven: 2,
+      reviewsByReviewer: { alice: 4, bob: 4 },
     },
     {
       date: '2024-01-04',
       reviewsGiven: 18,
       approvalsGiven: 14,
       changeRequestsGiven: 4,
+      reviewsByReviewer: { alice: 9, bob: 9 },
     },
     {
       date: '2024-01-05',
       reviewsGiven: 10,
       approvalsGiven: 7,
       changeRequestsGiven: 3,
+      reviewsByReviewer: { alice: 5, bob: 5 },
     },
   ],
 };
@@ -118,6 +130,8 @@ describe('ReviewStatistics', () => {
       averageReviewsPerPR: 0,
       averageTimeToFirstReview: 0,
       averageTimeToApproval: 0,
+      timeToFirstReview: { mean: 0, median: 0, p90: 0, count: 0 },
+      timeToApproval: { mean: 0, median: 0, p90: 0, count: 0 },
       topReviewers: [],
       reviewPatterns: [],
     };
@@ -285,12 +299,15 @@ describe('ReviewStatistics', () => {
       averageReviewsPerPR: 1.0,
       averageTimeToFirstReview: 2.0,
       averageTimeToApproval: 6.0,
+      timeToFirstReview: { mean: 2.0, median: 2.0, p90: 2.0, count: 1 },
+      timeToApproval: { mean: 6.0, median: 6.0, p90: 6.0, count: 1 },
       topReviewers: [
         {
           username: 'solo-reviewer',
           reviewCount: 10,
           approvalRate: 100.0,
           averageResponseTime: 2.0,
+          responseTime: { mean: 2.0, median: 2.0, p90: 2.0, count: 10 },
           changeRequestRate: 0.0,
         },
       ],
@@ -300,6 +317,7 @@ describe('ReviewStatistics', () => {
           reviewsGiven: 10,
           approvalsGiven: 10,
           changeRequestsGiven: 0,
+          reviewsByReviewer: { 'solo-reviewer': 10 },
         },
       ],
     };
@@ -322,12 +340,15 @@ describe('ReviewStatistics', () => {
       averageReviewsPerPR: 0.0,
       averageTimeToFirstReview: 0.0,
       averageTimeToApproval: 0.0,
+      timeToFirstReview: { mean: 0.0, median: 0.0, p90: 0.0, count: 1 },
+      timeToApproval: { mean: 0.0, median: 0.0, p90: 0.0, count: 1 },
       topReviewers: [
         {
           username: 'test-user',
           reviewCount: 1,
           approvalRate: 0.0,
           averageResponseTime: 0.0,
+          responseTime: { mean: 0.0, median: 0.0, p90: 0.0, count: 1 },
           changeRequestRate: 0.0,
         },
       ],
@@ -352,12 +373,15 @@ describe('ReviewStatistics', () => {
       averageReviewsPerPR: 1.0,
       averageTimeToFirstReview: 0.5, // 30 minutes
       averageTimeToApproval: 25.5, // 1 day 1.5 hours
+      timeToFirstReview: { mean: 0.5, median: 0.5, p90: 0.5, count: 1 },
+      timeToApproval: { mean: 25.5, median: 25.5, p90: 25.5, count: 1 },
       topReviewers: [
         {
           username: 'test-user',
           reviewCount: 5,
           approvalRate: 80.0,
           averageResponseTime: 72.0, // 3 days
+          responseTime: { mean: 72.0, median: 72.0, p90: 72.0, count: 5 },
           changeRequestRate: 20.0,
         },
       ],
@@ -1,6 +1,6 @@
 'use client';
 
-import { ReviewAnalyticsData, ReviewerStats, ReviewPatternData } from '@/lib/github-api';
+import { DurationStats, ReviewAnalyticsData, ReviewerStats, ReviewPatternData } from '@/lib/github-api';
 import {
   BarChart,
   Bar,
@@ -18,6 +18,8 @@ import {
 } from 'recharts';
 import { useMemo } from 'react';
 
+const OTHER_REVIEWERS = 'Others';
+
 interface ReviewStatisticsProps {
   reviewData: ReviewAnalyticsData;
   isLoading: boolean;
@@ -39,6 +41,32 @@ export function ReviewStatistics({ reviewData, isLoading }: ReviewStatisticsProp
     }));
   }, [reviewData?.reviewPatterns]);
 
+  // Reviews each of the top reviewers gave per day or week; everyone else is grouped
+  const reviewerLoad = useMemo(() => {
+    if (!reviewData?.reviewPatterns || reviewData.reviewPatterns.length === 0) {
+      return { reviewers: [], data: [] };
+    }
+
+    const reviewers = (reviewData.topReviewers || []).slice(0, 5).map(reviewer => reviewer.username);
+    const data = reviewData.reviewPatterns.map(pattern => {
+      const loads: Record<string, number> = {};
+      let others = 0;
+      Object.entries(pattern.reviewsByReviewer || {}).forEach(([reviewer, count]) => {
+        if (reviewers.includes(reviewer)) {
+          loads[reviewer] = count;
+        } else {
+          others += count;
+        }
+      });
+      return { date: formatDateForDisplay(pattern.date), loads, others };
+    });
+
+    return {
+      reviewers: data.some(entry => entry.others > 0) ? [...reviewers, OTHER_REVIEWERS] : reviewers,
+      data,
+    };
+  }, [reviewData?.reviewPatterns, reviewData?.topReviewers]);
+
   // Process top reviewers data for charts
   const topReviewersData = useMemo(() => {
     if (!reviewData?.topReviewers || reviewData.topReviewers.length === 0) {
@@ -52,6 +80,7 @@ export function ReviewStatistics({ reviewData, isLoading }: ReviewStatisticsProp
         reviews: reviewer.reviewCount,
         approvalRate: reviewer.approvalRate,
         avgResponseTime: reviewer.averageResponseTime,
+        medianResponseTime: reviewer.responseTime?.median ?? reviewer.averageResponseTime,
         changeRequestRate: reviewer.changeRequestRate,
       }));
   }, [reviewData?.topReviewers]);
@@ -162,14 +191,14 @@ export function ReviewStatistics({ reviewData, isLoading }: ReviewStatisticsProp
           value={formatDuration(reviewData.averageTimeToFirstReview)}
           icon="⏱️"
           color="green"
-          subtitle="average response time"
+          subtitle={formatDurationSpread(reviewData.timeToFirstReview, 'average response time')}
         />
         <MetricCard
           title="Time to Approval"
           value={formatDuration(reviewData.averageTimeToApproval)}
           icon="✅"
           color="purple"
-          subtitle="average approval time"
+          subtitle={formatDurationSpread(reviewData.timeToApproval, 'average approval time')}
         />
         <MetricCard
           title="Active Reviewers"
@@ -314,6 +343,47 @@ export function ReviewStatistics({ reviewData, isLoading }: ReviewStatisticsProp
         </div>
       )}
 
+      {/* Reviewer Load */}
+      {reviewerLoad.data.length > 0 && reviewerLoad.reviewers.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg border border-gray-200 dark:border-gray-700">
+          <h4 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+            Reviewer Load Over Time
+          </h4>
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={reviewerLoad.data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+              <XAxis
+                dataKey="date"
+                tick={{ fontSize: 12 }}
+                tickLine={false}
+                axisLine={false}
+                className="text-gray-600 dark:text-gray-400"
+              />
+              <YAxis
+                tick={{ fontSize: 12 }}
+                tickLine={false}
+                axisLine={false}
+                allowDecimals={false}
+                className="text-gray-600 dark:text-gray-400"
+              />
+              <Tooltip content={<TimelineTooltip />} />
+              <Legend />
+              {reviewerLoad.reviewers.map((reviewer, index) => (
+                <Bar
+                  key={reviewer}
+                  dataKey={(entry: typeof reviewerLoad.data[number]) =>
+                    reviewer === OTHER_REVIEWERS ? entry.others : entry.loads[reviewer] || 0
+                  }
+                  stackId="load"
+                  fill={reviewer === OTHER_REVIEWERS ? '#6b7280' : getReviewerColor(index)}
+                  name={reviewer}
+                />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
       {/* Top Reviewers Table */}
       <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
@@ -452,6 +522,10 @@ function ReviewerTooltip({ active, payload, label }: ReviewerTooltipProps) {
             <span className="text-gray-600 dark:text-gray-400">Avg Response:</span>
             <span className="font-medium text-gray-900 dark:text-gray-100">{formatDuration(data.avgResponseTime)}</span>
           </div>
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-gray-600 dark:text-gray-400">Median Response:</span>
+            <span className="font-medium text-gray-900 dark:text-gray-100">{formatDuration(data.medianResponseTime)}</span>
+          </div>
         </div>
       </div>
     );
@@ -612,6 +686,14 @@ function formatDuration(hours: number): string {
   return `${days}d ${remainingHours}h`;
 }
 
+// Median and p90 behind an average; analyses cached before review timings were measured have none
+function formatDurationSpread(stats: DurationStats | undefined, fallback: string): string {
+  if (!stats?.count) {
+    return fallback;
+  }
+  return `median ${formatDuration(stats.median)} · p90 ${formatDuration(stats.p90)}`;
+}
+
 function formatDateForDisplay(dateString: string): string {
   const date = new Date(dateString);
   return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
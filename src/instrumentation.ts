@@ -0,0 +1,23 @@
+/**
+ * Next.js server startup hook
+ * Installs the GitHub transport selected by GITFLUX_TRANSPORT, the analysis
+ * cache selected by GITFLUX_CACHE_DIR, the SQLite snapshot store and GitHub App
+ * authentication when GITHUB_APP_ID is set (record/replay fixtures, the filesystem
+ * cache, the snapshot database and the app's key file use the filesystem, native
+ * modules and Node's crypto, so they are only loaded in the Node.js runtime)
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { configureGitHubTransportFromEnv } = await import('./lib/github-fixture-transport');
+    configureGitHubTransportFromEnv();
+
+    const { configureAnalysisCacheFromEnv } = await import('./lib/analysis-cache-fs');
+    configureAnalysisCacheFromEnv();
+
+    const { configureSnapshotStoreFromEnv } = await import('./lib/snapshot-store-sqlite');
+    await configureSnapshotStoreFromEnv();
+
+    const { configureGitHubAppAuthFromEnv } = await import('./lib/github-app-auth');
+    configureGitHubAppAuthFromEnv();
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Filesystem analysis cache (server-only)
+ * Each entry is a JSON file under <dir>/<owner%2Frepo>/, named after what it holds
+ * and the credential that may read it, so entries survive
+ * restarts, several server instances can share one directory, and a repository
+ * is invalidated by removing its directory. Files are written to a temporary
+ * name and renamed, so readers never see a partial entry.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+    AnalysisCacheBackend,
+    AnalysisCacheKey,
+    getCacheEntryId,
+    getCacheResourceId,
+    canReadCacheEntry,
+    getCacheMaxBytes,
+    getReadableCacheKeys,
+    getRepositoryScope,
+    setAnalysisCache,
+} from './analysis-cache';
+
+export const DEFAULT_CACHE_DIR = '.cache/gitflux';
+export const DEFAULT_FS_CACHE_BYTES = 512 * 1024 * 1024;
+
+interface StoredEntry {
+    id: string;
+    access?: string;
+    expiresAt: number;
+    value: unknown;
+}
+
+interface IndexEntry {
+    size: number;
+    lastUsed: number;
+    expiresAt?: number; // Unknown for entries written by other instances until read
+}
+
+/**
+ * Create a cache that stores entries as files in a directory
+ */
+export function createFileSystemCache(options: { dir?: string; maxBytes?: number } = {}): AnalysisCacheBackend {
+    const { dir = DEFAULT_CACHE_DIR, maxBytes = DEFAULT_FS_CACHE_BYTES } = options;
+    const index = new Map<string, IndexEntry>();
+    let bytes = 0;
+
+    const hash = (value: string) => createHash('sha1').update(value).digest('hex');
+    const scopeDir = (owner: string, repo: string) => path.join(dir, encodeURIComponent(getRepositoryScope(owner, repo)));
+    // <resource>.json for the shared entry, <resource>.<access>.json for a credential's own
+    const resourcePrefix = (key: AnalysisCacheKey) => `${hash(getCacheResourceId(key))}.`;
+    const entryFile = (key: AnalysisCacheKey) => path.join(
+        scopeDir(key.owner, key.repo),
+        `${resourcePrefix(key)}${key.access !== undefined ? `${hash(key.access)}.` : ''}json`
+    );
+
+    const track = (file: string, entry: IndexEntry) => {
+        bytes += entry.size - (index.get(file)?.size || 0);
+        index.set(file, entry);
+    };
+
+    const untrack = (file: string) => {
+        bytes -= index.get(file)?.size || 0;
+        index.delete(file);
+    };
+
+    const removeFile = async (file: string) => {
+        untrack(file);
+        await fs.rm(file, { force: true }).catch(() => undefined);
+    };
+
+    // Entries already on disk count towards the size limit, oldest first
+    const ready = (async () => {
+        const scopes = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+        for (const scope of scopes) {
+            if (!scope.isDirectory()) continue;
+            const scopePath = path.join(dir, scope.name);
+            const files = await fs.readdir(scopePath).catch(() => []);
+            for (const name of files) {
+                if (!name.endsWith('.json')) continue;
+                const stat = await fs.stat(path.join(scopePath, name)).catch(() => undefined);
+                if (stat) {
+                    track(path.join(scopePath, name), { size: stat.size, lastUsed: stat.mtimeMs });
+                }
+            }
+        }
+    })();
+
+    const evict = async () => {
+        const now = Date.now();
+        for (const [file, entry] of Array.from(index.entries())) {
+            if (entry.expiresAt !== undefined && entry.expiresAt <= now) {
+                await removeFile(file);
+            }
+        }
+
+        const byAge = Array.from(index.entries()).sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+        for (const [file] of byAge) {
+            if (bytes <= maxBytes) break;
+            await removeFile(file);
+        }
+    };
+
+    const read = async (key: AnalysisCacheKey): Promise<StoredEntry | undefined> => {
+        const file = entryFile(key);
+
+        let stored: StoredEntry;
+        try {
+            stored = JSON.parse(await fs.readFile(file, 'utf8'));
+        } catch {
+            // Missing, or removed by another instance
+            untrack(file);
+            return undefined;
+        }
+
+        if (stored.id !== getCacheEntryId(key) || stored.expiresAt <= Date.now()) {
+            await removeFile(file);
+            return undefined;
+        }
+        if (!canReadCacheEntry(stored.access, key)) {
+            return undefined;
+        }
+
+        const entry = index.get(file);
+        track(file, { size: entry?.size || 0, lastUsed: Date.now(), expiresAt: stored.expiresAt });
+        return stored;
+    };
+
+    return {
+        async get<T>(key: AnalysisCacheKey) {
+            await ready;
+            for (const readable of getReadableCacheKeys(key)) {
+                const stored = await read(readable);
+                if (stored) {
+                    return stored.value as T;
+                }
+            }
+            return undefined;
+        },
+
+        async set<T>(key: AnalysisCacheKey, value: T, ttl: number) {
+            await ready;
+            const file = entryFile(key);
+            const expiresAt = Date.now() + ttl;
+            const body = JSON.stringify({ id: getCacheEntryId(key), access: key.access, expiresAt, value } satisfies StoredEntry);
+            const size = Buffer.byteLength(body);
+            if (size > maxBytes) {
+                return;
+            }
+
+            try {
+                const temporary = `${file}.${process.pid}.${Date.now()}.tmp`;
+                await fs.mkdir(path.dirname(file), { recursive: true });
+                await fs.writeFile(temporary, body);
+                await fs.rename(temporary, file);
+            } catch (error) {
+                // A failed write only costs a cache miss later
+                console.warn('Failed to write analysis cache entry:', error);
+                return;
+            }
+
+            track(file, { size, lastUsed: Date.now(), expiresAt });
+            await evict();
+        },
+
+        async delete(key: AnalysisCacheKey) {
+            await ready;
+            const scopePath = scopeDir(key.owner, key.repo);
+            const prefix = resourcePrefix(key);
+            // Other instances may have written entries this one does not track
+            const names = await fs.readdir(scopePath).catch(() => []);
+            for (const name of names) {
+                if (name.startsWith(prefix) && name.endsWith('.json')) {
+                    await removeFile(path.join(scopePath, name));
+                }
+            }
+        },
+
+        async invalidate(owner: string, repo: string) {
+            await ready;
+            const scopePath = scopeDir(owner, repo);
+            Array.from(index.keys())
+                .filter(file => path.dirname(file) === scopePath)
+                .forEach(untrack);
+            await fs.rm(scopePath, { recursive: true, force: true }).catch(() => undefined);
+        },
+
+        async clear() {
+            await ready;
+            index.clear();
+            bytes = 0;
+            await fs.rm(dir, { recursive: true, force: true }).catch(() => undefined);
+        },
+
+        stats() {
+            const now = Date.now();
+            let expiredEntries = 0;
+            index.forEach(entry => {
+                if (entry.expiresAt !== undefined && entry.expiresAt <= now) expiredEntries++;
+            });
+            return { entries: index.size, expiredEntries, bytes, maxBytes };
+        },
+    };
+}
+
+/**
+ * Install the filesystem cache when GITFLUX_CACHE_DIR is set
+ */
+export function configureAnalysisCacheFromEnv(): void {
+    const dir = process.env.GITFLUX_CACHE_DIR;
+    if (dir) {
+        setAnalysisCache(createFileSystemCache({ dir, maxBytes: getCacheMaxBytes(DEFAULT_FS_CACHE_BYTES) }));
+    }
+}
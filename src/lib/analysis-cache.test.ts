@@ -0,0 +1,191 @@
+/**
+ * Unit tests for the analysis cache backends
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createMemoryCache, getAnalysisCache, setAnalysisCache, type AnalysisCacheBackend } from './analysis-cache';
+import { createFileSystemCache } from './analysis-cache-fs';
+import { clearCommitActivityCache, fetchContributorCommits, getCommitActivityCacheStats } from './github-api';
+
+const key = (endpoint: string, extra: { owner?: string; repo?: string; host?: string; window?: string; access?: string } = {}) => ({
+  owner: 'owner',
+  repo: 'repo',
+  endpoint,
+  ...extra,
+});
+
+const MINUTE = 60 * 1000;
+
+describe('analysis cache', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'gitflux-cache-'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    setAnalysisCache(undefined);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const backends: [string, () => AnalysisCacheBackend][] = [
+    ['memory', () => createMemoryCache()],
+    ['filesystem', () => createFileSystemCache({ dir })],
+  ];
+
+  describe.each(backends)('%s backend', (_name, create) => {
+    it('stores entries by repository, endpoint and time window', async () => {
+      const cache = create();
+      await cache.set(key('commit-activity', { window: '30d' }), { commits: 1 }, MINUTE);
+      await cache.set(key('commit-activity', { window: '1y' }), { commits: 12 }, MINUTE);
+
+      expect(await cache.get(key('commit-activity', { window: '30d' }))).toEqual({ commits: 1 });
+      expect(await cache.get(key('commit-activity', { window: '1y' }))).toEqual({ commits: 12 });
+      expect(await cache.get(key('commit-activity', { window: '6m' }))).toBeUndefined();
+      expect(await cache.get(key('commit-activity', { window: '30d', host: 'ghe.example.com' }))).toBeUndefined();
+    });
+
+    it('serves entries fetched with a credential only to that credential', async () => {
+      const cache = create();
+      await cache.set(key('commit-activity', { access: 'alice' }), { commits: 1 }, MINUTE);
+      await cache.set(key('contributors'), ['ann'], MINUTE);
+
+      expect(await cache.get(key('commit-activity', { access: 'alice' }))).toEqual({ commits: 1 });
+      expect(await cache.get(key('commit-activity', { access: 'bob' }))).toBeUndefined();
+      expect(await cache.get(key('commit-activity'))).toBeUndefined();
+      // Entries fetched with the server's credentials are shared
+      expect(await cache.get(key('contributors', { access: 'bob' }))).toEqual(['ann']);
+    });
+
+    it('keeps the shared entry and each credential\'s own entry of a resource apart', async () => {
+      const cache = create();
+      await cache.set(key('pulls', { window: '30d' }), ['public'], MINUTE);
+      await cache.set(key('pulls', { window: '30d', access: 'alice' }), ['alice'], MINUTE);
+      await cache.set(key('pulls', { window: '30d', access: 'bob' }), ['bob'], MINUTE);
+
+      expect(await cache.get(key('pulls', { window: '30d' }))).toEqual(['public']);
+      expect(await cache.get(key('pulls', { window: '30d', access: 'alice' }))).toEqual(['alice']);
+      expect(await cache.get(key('pulls', { window: '30d', access: 'bob' }))).toEqual(['bob']);
+      expect(await cache.get(key('pulls', { window: '30d', access: 'carol' }))).toEqual(['public']);
+      expect(cache.stats().entries).toBe(3);
+
+      // Deleting a resource removes it for every credential
+      await cache.delete(key('pulls', { window: '30d' }));
+
+      expect(await cache.get(key('pulls', { window: '30d', access: 'alice' }))).toBeUndefined();
+      expect(cache.stats().entries).toBe(0);
+    });
+
+    it('expires entries after their TTL', async () => {
+      const cache = create();
+      const now = Date.now();
+      await cache.set(key('short'), 'a', MINUTE);
+      await cache.set(key('long'), 'b', 60 * MINUTE);
+
+      vi.spyOn(Date, 'now').mockReturnValue(now + 2 * MINUTE);
+
+      expect(await cache.get(key('short'))).toBeUndefined();
+      expect(await cache.get(key('long'))).toBe('b');
+    });
+
+    it('deletes single entries', async () => {
+      const cache = create();
+      await cache.set(key('a'), 1, MINUTE);
+      await cache.set(key('b'), 2, MINUTE);
+
+      await cache.delete(key('a'));
+      await cache.delete(key('missing'));
+
+      expect(await cache.get(key('a'))).toBeUndefined();
+      expect(await cache.get(key('b'))).toBe(2);
+      expect(cache.stats().entries).toBe(1);
+    });
+
+    it('invalidates one repository on every host', async () => {
+      const cache = create();
+      await cache.set(key('a'), 1, MINUTE);
+      await cache.set(key('a', { host: 'ghe.example.com' }), 2, MINUTE);
+      await cache.set(key('a', { repo: 'other' }), 3, MINUTE);
+
+      await cache.invalidate('Owner', 'Repo');
+
+      expect(await cache.get(key('a'))).toBeUndefined();
+      expect(await cache.get(key('a', { host: 'ghe.example.com' }))).toBeUndefined();
+      expect(await cache.get(key('a', { repo: 'other' }))).toBe(3);
+      expect(cache.stats().entries).toBe(1);
+    });
+
+    it('clears every entry', async () => {
+      const cache = create();
+      await cache.set(key('a'), 1, MINUTE);
+      await cache.set(key('a', { repo: 'other' }), 2, MINUTE);
+
+      await cache.clear();
+
+      expect(cache.stats()).toMatchObject({ entries: 0, bytes: 0 });
+      expect(await cache.get(key('a'))).toBeUndefined();
+    });
+  });
+
+  it('evicts least recently used memory entries beyond the size limit', async () => {
+    const cache = createMemoryCache({ maxBytes: 30 });
+    await cache.set(key('a'), 'x'.repeat(10), MINUTE);
+    await cache.set(key('b'), 'x'.repeat(10), MINUTE);
+    await cache.get(key('a'));
+    await cache.set(key('c'), 'x'.repeat(10), MINUTE);
+
+    expect(await cache.get(key('a'))).toBeDefined();
+    expect(await cache.get(key('b'))).toBeUndefined();
+    expect(await cache.get(key('c'))).toBeDefined();
+  });
+
+  it('evicts least recently used files beyond the size limit', async () => {
+    const payload = 'x'.repeat(100);
+    const cache = createFileSystemCache({ dir, maxBytes: 400 });
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now);
+    await cache.set(key('a'), payload, MINUTE);
+    vi.spyOn(Date, 'now').mockReturnValue(now + 1);
+    await cache.set(key('b'), payload, MINUTE);
+    vi.spyOn(Date, 'now').mockReturnValue(now + 2);
+    await cache.get(key('a'));
+    vi.spyOn(Date, 'now').mockReturnValue(now + 3);
+    await cache.set(key('c'), payload, MINUTE);
+
+    expect(cache.stats().bytes).toBeLessThanOrEqual(400);
+    expect(await cache.get(key('a'))).toBe(payload);
+    expect(await cache.get(key('b'))).toBeUndefined();
+    expect(await cache.get(key('c'))).toBe(payload);
+  });
+
+  it('shares filesystem entries between instances and restarts', async () => {
+    await createFileSystemCache({ dir }).set(key('commit-activity', { window: '3m' }), { commits: 3 }, MINUTE);
+
+    const restarted = createFileSystemCache({ dir });
+
+    expect(await restarted.get(key('commit-activity', { window: '3m' }))).toEqual({ commits: 3 });
+    expect(restarted.stats().entries).toBe(1);
+    expect(readdirSync(dir)).toEqual([encodeURIComponent('owner/repo')]);
+  });
+
+  it('serves GitHub fetchers from the installed backend', async () => {
+    const cache = createFileSystemCache({ dir });
+    setAnalysisCache(cache);
+    clearCommitActivityCache();
+    const commits = [{ sha: 'abc', commit: { author: { name: 'Ann', email: '', date: '2024-01-01T00:00:00Z' }, message: 'm' }, author: null }];
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(JSON.stringify(commits), { status: 200 }));
+
+    const first = await fetchContributorCommits('owner', 'repo', 'ann', '30d');
+    const second = await fetchContributorCommits('owner', 'repo', 'ann', '30d');
+
+    expect(getAnalysisCache()).toBe(cache);
+    expect(first.data).toEqual(commits);
+    expect(second.data).toEqual(commits);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(getCommitActivityCacheStats()).toMatchObject({ totalEntries: 1, hits: 1 });
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Analysis cache
+ * Raw API payloads and computed analyses are cached through a pluggable backend,
+ * keyed by repository, endpoint and time window. The default backend keeps entries
+ * in memory; the filesystem backend in analysis-cache-fs.ts survives restarts and
+ * can be shared by several server instances (see src/instrumentation.ts).
+ *
+ * Entries fetched with a signed-in user's token, for a repository not known to be
+ * public, are only served to that token (see `access`), so data of a private
+ * repository never reaches callers who cannot read it.
+ *
+ * Environment:
+ * - GITFLUX_CACHE_DIR: directory for the filesystem cache (in-memory cache if unset)
+ * - GITFLUX_CACHE_MAX_BYTES: size limit; expired, then least recently used entries
+ *   are evicted beyond it
+ */
+
+import { normalizeGitHubHost } from './github-hosts';
+
+export interface AnalysisCacheKey {
+    owner: string;
+    repo: string;
+    host?: string;
+    endpoint: string; // REST path or analysis name, e.g. "commit-activity"
+    window?: string; // Time range the entry covers, e.g. "3m"
+    access?: string; // Credential id that may read the entry; readable by every caller when unset
+}
+
+export interface AnalysisCacheStats {
+    entries: number;
+    expiredEntries: number;
+    bytes: number;
+    maxBytes: number;
+}
+
+export interface AnalysisCacheBackend {
+    // The entry of the key's credential, or else the entry shared by every caller
+    get<T>(key: AnalysisCacheKey): Promise<T | undefined>;
+    // ttl in milliseconds
+    set<T>(key: AnalysisCacheKey, value: T, ttl: number): Promise<void>;
+    // Remove the entries of a host, endpoint and window, whichever credential fetched them
+    delete(key: AnalysisCacheKey): Promise<void>;
+    // Remove every entry of a repository, on every host
+    invalidate(owner: string, repo: string): Promise<void>;
+    clear(): Promise<void>;
+    stats(): AnalysisCacheStats;
+}
+
+export const DEFAULT_MEMORY_CACHE_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Get the scope shared by every entry of a repository
+ * Owner and repository names are case-insensitive on GitHub, GitLab and Gitea
+ */
+export function getRepositoryScope(owner: string, repo: string): string {
+    return `${owner}/${repo}`.toLowerCase();
+}
+
+/**
+ * Get the identifier of what an entry holds within its repository scope: host,
+ * endpoint and time window, whichever credential fetched it
+ */
+export function getCacheResourceId(key: AnalysisCacheKey): string {
+    return `${normalizeGitHubHost(key.host)}:${key.endpoint}:${key.window || ''}`;
+}
+
+/**
+ * Get the identifier of an entry within its repository scope
+ * The shared entry and each credential's own entry of a resource are kept apart,
+ * so they do not replace each other.
+ */
+export function getCacheEntryId(key: AnalysisCacheKey): string {
+    return `${getCacheResourceId(key)}:${key.access || ''}`;
+}
+
+/**
+ * Get the keys of the entries a key may read, its own entry first
+ */
+export function getReadableCacheKeys(key: AnalysisCacheKey): AnalysisCacheKey[] {
+    return key.access === undefined ? [key] : [key, { ...key, access: undefined }];
+}
+
+/**
+ * Check whether a stored entry may be read with a key
+ * Entries without an access credential were fetched with the server's credentials,
+ * which every caller can use, so they are readable by every caller.
+ */
+export function canReadCacheEntry(entryAccess: string | undefined, key: AnalysisCacheKey): boolean {
+    return entryAccess === undefined || entryAccess === key.access;
+}
+
+/**
+ * Read the cache size limit from GITFLUX_CACHE_MAX_BYTES
+ */
+export function getCacheMaxBytes(fallback: number): number {
+    const maxBytes = parseInt(process.env.GITFLUX_CACHE_MAX_BYTES || '');
+    return maxBytes > 0 ? maxBytes : fallback;
+}
+
+interface MemoryCacheEntry {
+    scope: string;
+    resource: string; // See getCacheResourceId
+    access?: string;
+    value: unknown;
+    size: number;
+    expiresAt: number;
+}
+
+/**
+ * Create an in-process cache
+ * Entries are kept in access order, so the least recently used are evicted first
+ */
+export function createMemoryCache(options: { maxBytes?: number } = {}): AnalysisCacheBackend {
+    const { maxBytes = DEFAULT_MEMORY_CACHE_BYTES } = options;
+    const entries = new Map<string, MemoryCacheEntry>();
+    let bytes = 0;
+
+    const remove = (id: string) => {
+        const entry = entries.get(id);
+        if (entry) {
+            bytes -= entry.size;
+            entries.delete(id);
+        }
+    };
+
+    const evict = () => {
+        const now = Date.now();
+        entries.forEach((entry, id) => {
+            if (entry.expiresAt <= now) remove(id);
+        });
+        while (bytes > maxBytes) {
+            const oldest = entries.keys().next().value;
+            if (oldest === undefined) break;
+            remove(oldest);
+        }
+    };
+
+    const read = (key: AnalysisCacheKey) => {
+        const id = `${getRepositoryScope(key.owner, key.repo)}|${getCacheEntryId(key)}`;
+        const entry = entries.get(id);
+        if (!entry) {
+            return undefined;
+        }
+        if (entry.expiresAt <= Date.now()) {
+            remove(id);
+            return undefined;
+        }
+        if (!canReadCacheEntry(entry.access, key)) {
+            return undefined;
+        }
+
+        // Re-insert so the Map keeps the most recently used entries last
+        entries.delete(id);
+        entries.set(id, entry);
+        return entry;
+    };
+
+    // Methods never await, so changes are visible as soon as they are called
+    return {
+        async get<T>(key: AnalysisCacheKey) {
+            for (const readable of getReadableCacheKeys(key)) {
+                const entry = read(readable);
+                if (entry) {
+                    return entry.value as T;
+                }
+            }
+            return undefined;
+        },
+
+        async set<T>(key: AnalysisCacheKey, value: T, ttl: number) {
+            const scope = getRepositoryScope(key.owner, key.repo);
+            const id = `${scope}|${getCacheEntryId(key)}`;
+            const size = JSON.stringify(value)?.length || 0;
+
+            remove(id);
+            if (size > maxBytes) {
+                return;
+            }
+            entries.set(id, { scope, resource: getCacheResourceId(key), access: key.access, value, size, expiresAt: Date.now() + ttl });
+            bytes += size;
+            evict();
+        },
+
+        async delete(key: AnalysisCacheKey) {
+            const scope = getRepositoryScope(key.owner, key.repo);
+            const resource = getCacheResourceId(key);
+            entries.forEach((entry, id) => {
+                if (entry.scope === scope && entry.resource === resource) remove(id);
+            });
+        },
+
+        async invalidate(owner: string, repo: string) {
+            const scope = getRepositoryScope(owner, repo);
+            entries.forEach((entry, id) => {
+                if (entry.scope === scope) remove(id);
+            });
+        },
+
+        async clear() {
+            entries.clear();
+            bytes = 0;
+        },
+
+        stats() {
+            const now = Date.now();
+            let expiredEntries = 0;
+            entries.forEach(entry => {
+                if (entry.expiresAt <= now) expiredEntries++;
+            });
+            return { entries: entries.size, expiredEntries, bytes, maxBytes };
+        },
+    };
+}
+
+// Stored on globalThis so the backend configured at server startup is shared by
+// every bundle (instrumentation, server components and route handlers)
+const globalCache = globalThis as typeof globalThis & { __gitfluxAnalysisCache?: AnalysisCacheBackend };
+
+/**
+ * Get the cache backend, creating the in-memory cache on first use
+ */
+export function getAnalysisCache(): AnalysisCacheBackend {
+    if (!globalCache.__gitfluxAnalysisCache) {
+        globalCache.__gitfluxAnalysisCache = createMemoryCache({
+            maxBytes: getCacheMaxBytes(DEFAULT_MEMORY_CACHE_BYTES),
+        });
+    }
+    return globalCache.__gitfluxAnalysisCache;
+}
+
+/**
+ * Replace the cache backend; pass undefined to restore the in-memory cache
+ */
+export function setAnalysisCache(cache?: AnalysisCacheBackend): void {
+    globalCache.__gitfluxAnalysisCache = cache;
+}
@@ -0,0 +1,78 @@
+/**
+ * Unit tests for the analysis API client
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { fetchBranchPRAnalysis, fetchFileChangeAnalysis, getAnalysisRoute } from './analysis-client';
+
+const stubFetch = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+  const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+describe('analysis client', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('builds analysis routes', () => {
+    expect(getAnalysisRoute('acme', 'widgets', 'file-changes', { period: '90d' }))
+      .toBe('/api/repos/acme/widgets/file-changes?period=90d');
+    expect(getAnalysisRoute('acme', 'widgets', 'commit-activity', { range: '3m', host: undefined }))
+      .toBe('/api/repos/acme/widgets/commit-activity?range=3m');
+  });
+
+  it('reads the analysis with the rate limit and warnings from the headers', async () => {
+    const fetchMock = stubFetch(200, { files: [], totalChanges: 0 }, {
+      'X-RateLimit-Limit': '5000',
+      'X-RateLimit-Remaining': '12',
+      'X-RateLimit-Reset': '1700000000',
+      'X-GitFlux-Rate-Limit-Warning': 'true',
+    });
+
+    const result = await fetchFileChangeAnalysis('acme', 'widgets', '30d', { host: 'ghe.example.com' });
+
+    expect(fetchMock.mock.calls[0][0]).toBe('/api/repos/acme/widgets/file-changes?period=30d&host=ghe.example.com');
+    expect(result.data).toEqual({ files: [], totalChanges: 0 });
+    expect(result.rateLimit).toEqual({ limit: 5000, remaining: 12, reset: 1700000000 });
+    expect(result.rateLimitWarning).toBe(true);
+  });
+
+  it('passes on branch and pull request analysis metadata', async () => {
+    const fetchMock = stubFetch(200, { analysisDate: '2024-01-01' }, {
+      'X-GitFlux-Data-Points': '42',
+      'X-GitFlux-Large-Repository': 'true',
+    });
+
+    const result = await fetchBranchPRAnalysis('acme', 'widgets', '90d', { reducedScope: true });
+
+    expect(fetchMock.mock.calls[0][0]).toBe('/api/repos/acme/widgets/branch-pr?period=90d&scope=reduced');
+    expect(result.dataPoints).toBe(42);
+    expect(result.largeRepository).toBe(true);
+  });
+
+  it('keeps the error kind of failed analyses', async () => {
+    stubFetch(429, {
+      message: 'GitHub API rate limit exceeded. Please try again later.',
+      error: { kind: 'rate_limited', message: 'GitHub API rate limit exceeded. Please try again later.', resetAt: 1700000000000 },
+    });
+
+    const result = await fetchFileChangeAnalysis('acme', 'widgets', '30d');
+
+    expect(result.data).toBeUndefined();
+    expect(result.error).toMatch(/rate limit/);
+    expect(result.errorInfo).toMatchObject({ kind: 'rate_limited', resetAt: 1700000000000 });
+  });
+
+  it('reports network failures', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+
+    const result = await fetchFileChangeAnalysis('acme', 'widgets', '30d');
+
+    expect(result.errorInfo?.kind).toBe('network');
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Analysis API client
+ * Browser components load their analyses from the JSON routes under
+ * /api/repos/[owner]/[repo] (see github-analysis.ts) instead of calling GitHub,
+ * so tokens stay on the server and every analysis shares the server's caches.
+ * Long analyses can instead run as server jobs (see analysis-jobs.ts) whose
+ * progress is followed over Server-Sent Events. Failures keep the kinds of
+ * github-errors.ts.
+ */
+
+import type { BranchPRAnalysis, FileChangeAnalysis, GitHubApiResponse, RateLimitInfo, TimePeriod } from './github-api';
+import type { ContributorAnalysis, HeatmapData, TimeRange } from './commit-activity-data';
+import type { AnalysisJobProgress } from './analysis-jobs';
+import { createGitHubError, errorResponse, getStatusErrorKind, toGitHubError, type GitHubError } from './github-errors';
+import { isDefaultGitHubHost } from './github-hosts';
+
+export type RepositoryAnalysisName = 'file-changes' | 'branch-pr' | 'commit-activity' | 'contributor-trends';
+
+export interface AnalysisRequestOptions {
+    host?: string;
+    signal?: AbortSignal;
+}
+
+export interface AnalysisRouteResponse<T> extends GitHubApiResponse<T> {
+    rateLimitWarning?: boolean;
+    dataPoints?: number;
+    largeRepository?: boolean;
+}
+
+/**
+ * Build the route of an analysis, e.g. /api/repos/acme/widgets/file-changes?period=90d
+ */
+export function getAnalysisRoute(
+    owner: string,
+    repo: string,
+    analysis: RepositoryAnalysisName,
+    params: Record<string, string | undefined> = {}
+): string {
+    const search = new URLSearchParams();
+    Object.entries(params).forEach(([name, value]) => {
+        if (value) search.set(name, value);
+    });
+    const query = search.toString();
+    return `/api/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/${analysis}${query ? `?${query}` : ''}`;
+}
+
+export interface AnalysisJobHandlers<T> {
+    onProgress?: (progress: AnalysisJobProgress) => void;
+    // The result so far, when the job pauses for the rate limit
+    onPartialResult?: (response: AnalysisRouteResponse<T>) => void;
+    onResult: (response: AnalysisRouteResponse<T>) => void;
+}
+
+/**
+ * Read the rate limit passed on by the route
+ */
+function readRateLimit(headers: Headers): RateLimitInfo | undefined {
+    const remaining = headers.get('x-ratelimit-remaining');
+    if (remaining === null) {
+        return undefined;
+    }
+    return {
+        remaining: parseInt(remaining),
+        limit: parseInt(headers.get('x-ratelimit-limit') || '0'),
+        reset: parseInt(headers.get('x-ratelimit-reset') || '0'),
+    };
+}
+
+/**
+ * Read the { message, error } body of a failed route response
+ */
+function readRouteError(response: Response, body: { message?: string; error?: GitHubError } | undefined): GitHubError {
+    return body?.error?.kind
+        ? body.error
+        : createGitHubError(getStatusErrorKind(response.status), { message: body?.message, status: response.status });
+}
+
+function analysisRouteFor(
+    owner: string,
+    repo: string,
+    analysis: RepositoryAnalysisName,
+    params: Record<string, string | undefined>,
+    options: AnalysisRequestOptions
+): string {
+    const host = options.host && !isDefaultGitHubHost(options.host) ? options.host : undefined;
+    return getAnalysisRoute(owner, repo, analysis, { ...params, host });
+}
+
+/**
+ * Load an analysis from its route
+ */
+export async function fetchRepositoryAnalysis<T>(
+    owner: string,
+    repo: string,
+    analysis: RepositoryAnalysisName,
+    params: Record<string, string | undefined>,
+    options: AnalysisRequestOptions = {}
+): Promise<AnalysisRouteResponse<T>> {
+    const url = analysisRouteFor(owner, repo, analysis, params, options);
+
+    let response: Response;
+    try {
+        response = await fetch(url, { signal: options.signal, headers: { Accept: 'application/json' } });
+    } catch (error) {
+        return errorResponse(toGitHubError(error) || createGitHubError('network'));
+    }
+
+    const rateLimit = readRateLimit(response.headers);
+    const body = await response.json().catch(() => undefined);
+
+    if (!response.ok) {
+        return errorResponse(readRouteError(response, body), rateLimit);
+    }
+
+    if (body === undefined) {
+        return errorResponse(createGitHubError('server', { message: 'The analysis response could not be read' }), rateLimit);
+    }
+
+    const dataPoints = response.headers.get('x-gitflux-data-points');
+    return {
+        data: body as T,
+        rateLimit,
+        ...(response.headers.get('x-gitflux-rate-limit-warning') === 'true' ? { rateLimitWarning: true } : {}),
+        ...(dataPoints !== null ? { dataPoints: parseInt(dataPoints) } : {}),
+        ...(response.headers.get('x-gitflux-large-repository') === 'true' ? { largeRepository: true } : {}),
+    };
+}
+
+/**
+ * Start an analysis as a server job and return the job's id
+ */
+export async function startRepositoryAnalysisJob(
+    owner: string,
+    repo: string,
+    analysis: RepositoryAnalysisName,
+    params: Record<string, string | undefined>,
+    options: AnalysisRequestOptions = {}
+): Promise<GitHubApiResponse<string>> {
+    const url = analysisRouteFor(owner, repo, analysis, params, options);
+
+    let response: Response;
+    try {
+        response = await fetch(url, { method: 'POST', signal: options.signal, headers: { Accept: 'application/json' } });
+    } catch (error) {
+        return errorResponse(toGitHubError(error) || createGitHubError('network'));
+    }
+
+    const body = await response.json().catch(() => undefined);
+    if (!response.ok || typeof body?.id !== 'string') {
+        return errorResponse(readRouteError(response, body));
+    }
+    return { data: body.id };
+}
+
+/**
+ * Follow a job's progress and result over Server-Sent Events
+ * Returns a function that stops following; the job keeps running until it
+ * finishes or is cancelled with cancelAnalysisJob.
+ */
+export function subscribeToAnalysisJob<T>(id: string, handlers: AnalysisJobHandlers<T>): () => void {
+    const source = new EventSource(`/api/jobs/${encodeURIComponent(id)}`);
+
+    source.addEventListener('progress', event => {
+        handlers.onProgress?.(JSON.parse((event as MessageEvent<string>).data));
+    });
+    source.addEventListener('partial', event => {
+        handlers.onPartialResult?.(JSON.parse((event as MessageEvent<string>).data));
+    });
+    source.addEventListener('result', event => {
+        source.close();
+        handlers.onResult(JSON.parse((event as MessageEvent<string>).data));
+    });
+    // EventSource reconnects after dropped connections; it only closes for good
+    // when the job is gone or the route fails
+    source.addEventListener('error', () => {
+        if (source.readyState === EventSource.CLOSED) {
+            handlers.onResult(errorResponse(createGitHubError('network', {
+                message: 'Lost the connection to the analysis job',
+            })));
+        }
+    });
+
+    return () => source.close();
+}
+
+/**
+ * Cancel a running job
+ */
+export async function cancelAnalysisJob(id: string): Promise<void> {
+    await fetch(`/api/jobs/${encodeURIComponent(id)}`, { method: 'DELETE' }).catch(() => undefined);
+}
+
+/**
+ * Load the file change analysis for a time period
+ */
+export function fetchFileChangeAnalysis(
+    owner: string,
+    repo: string,
+    timePeriod: TimePeriod,
+    options: AnalysisRequestOptions = {}
+): Promise<AnalysisRouteResponse<FileChangeAnalysis>> {
+    return fetchRepositoryAnalysis(owner, repo, 'file-changes', { period: timePeriod }, options);
+}
+
+/**
+ * Load the branch and pull request analysis for a time period
+ */
+export function fetchBranchPRAnalysis(
+    owner: string,
+    repo: string,
+    timePeriod: TimePeriod,
+    options: AnalysisRequestOptions & { reducedScope?: boolean } = {}
+): Promise<AnalysisRouteResponse<BranchPRAnalysis>> {
+    const { reducedScope, ...requestOptions } = options;
+    return fetchRepositoryAnalysis(owner, repo, 'branch-pr', {
+        period: timePeriod,
+        scope: reducedScope ? 'reduced' : undefined,
+    }, requestOptions);
+}
+
+/**
+ * Load the commit activity heatmap for a time range
+ */
+export function fetchCommitActivityAnalysis(
+    owner: string,
+    repo: string,
+    timeRange: TimeRange,
+    options: AnalysisRequestOptions = {}
+): Promise<AnalysisRouteResponse<HeatmapData>> {
+    return fetchRepositoryAnalysis(owner, repo, 'commit-activity', { range: timeRange }, options);
+}
+
+/**
+ * Load contributor commit trends for a time range
+ */
+export function fetchContributorTrendAnalysis(
+    owner: string,
+    repo: string,
+    timeRange: TimeRange,
+    options: AnalysisRequestOptions = {}
+): Promise<AnalysisRouteResponse<ContributorAnalysis>> {
+    return fetchRepositoryAnalysis(owner, repo, 'contributor-trends', { range: timeRange }, options);
+}
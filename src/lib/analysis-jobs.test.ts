@@ -0,0 +1,145 @@
+/**
+ * Unit tests for analysis jobs
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  cancelAnalysisJob,
+  clearAnalysisJobs,
+  startAnalysisJob,
+  subscribeToAnalysisJob,
+  type AnalysisJobEvent,
+} from './analysis-jobs';
+import type { AnalysisCheckpoint, AnalysisOptions } from './github-analysis';
+import { recordRateLimit } from './github-api';
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(done => {
+    resolve = done;
+  });
+  return { promise, resolve };
+};
+
+describe('analysis jobs', () => {
+  afterEach(() => {
+    clearAnalysisJobs();
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('streams progress with the remaining rate limit and an ETA, then the result', async () => {
+    vi.useFakeTimers({ now: 0 });
+    recordRateLimit('rest', { limit: 5000, remaining: 4321, reset: 0 });
+    const finished = deferred<{ data: string }>();
+    let report: AnalysisOptions['onProgress'];
+
+    const id = startAnalysisJob(({ onProgress }) => {
+      report = onProgress;
+      return finished.promise;
+    });
+    const events: AnalysisJobEvent[] = [];
+    subscribeToAnalysisJob(id, event => events.push(event));
+
+    vi.setSystemTime(10_000);
+    report?.({ phase: 'fetching-commits', progress: 25, processed: 50, total: 200 });
+    finished.resolve({ data: 'analysis' });
+    await vi.runAllTimersAsync();
+
+    expect(events[1]).toEqual({
+      type: 'progress',
+      data: {
+        status: 'running',
+        phase: 'fetching-commits',
+        progress: 25,
+        processed: 50,
+        total: 200,
+        rateLimitRemaining: 4321,
+        eta: 30,
+      },
+    });
+    expect(events.slice(-2)).toEqual([
+      { type: 'progress', data: expect.objectContaining({ phase: 'complete', progress: 100 }) },
+      { type: 'result', data: { data: 'analysis' } },
+    ]);
+  });
+
+  it('replays the latest progress and the result to late subscribers', async () => {
+    const id = startAnalysisJob(async ({ onProgress }) => {
+      onProgress?.({ phase: 'processing', progress: 90 });
+      return { data: 42 };
+    });
+    await Promise.resolve();
+    await Promise.resolve();
+
+    const events: AnalysisJobEvent[] = [];
+    subscribeToAnalysisJob(id, event => events.push(event));
+
+    expect(events.map(event => event.type)).toEqual(['progress', 'result']);
+    expect(events[0].data).toMatchObject({ phase: 'complete' });
+    expect(subscribeToAnalysisJob('unknown', () => {})).toBeUndefined();
+  });
+
+  it('aborts cancelled jobs and ends them with a cancelled result', () => {
+    let signal: AbortSignal | undefined;
+    const id = startAnalysisJob<string>(options => {
+      signal = options.signal;
+      return new Promise(() => {});
+    });
+    const events: AnalysisJobEvent[] = [];
+    subscribeToAnalysisJob(id, event => events.push(event));
+
+    expect(cancelAnalysisJob(id)).toBe(true);
+
+    expect(signal?.aborted).toBe(true);
+    expect(events.at(-1)).toMatchObject({ type: 'result', data: { errorInfo: { kind: 'cancelled' } } });
+    expect(cancelAnalysisJob('unknown')).toBe(false);
+  });
+
+  it('pauses runs cut short by the rate limit and resumes them from the checkpoint after the reset', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const runs: AnalysisCheckpoint[] = [];
+    const id = startAnalysisJob<string[]>(async ({ checkpoint }) => {
+      runs.push({ ...checkpoint });
+      if (!checkpoint?.branchPR) {
+        checkpoint!.branchPR = { branchDetails: {}, reviews: {} };
+        return { data: ['first half'], rateLimitWarning: true, rateLimit: { limit: 60, remaining: 0, reset: 600 } };
+      }
+      return { data: ['first half', 'second half'] };
+    });
+    const events: AnalysisJobEvent[] = [];
+    subscribeToAnalysisJob(id, event => events.push(event));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(events.find(event => event.type === 'partial')?.data).toMatchObject({ data: ['first half'] });
+    expect(events.at(-1)).toEqual({
+      type: 'progress',
+      data: expect.objectContaining({ status: 'paused', resumesAt: 605_000 }),
+    });
+
+    await vi.advanceTimersByTimeAsync(605_000);
+
+    expect(runs).toHaveLength(2);
+    expect(runs[1].branchPR).toBeDefined();
+    expect(events.at(-1)).toEqual({ type: 'result', data: { data: ['first half', 'second half'] } });
+  });
+
+  it('runs a limited number of jobs at once and shares jobs by key', async () => {
+    vi.stubEnv('GITFLUX_MAX_CONCURRENT_JOBS', '1');
+    const first = deferred<{ data: number }>();
+    const run = vi.fn().mockReturnValueOnce(first.promise).mockResolvedValue({ data: 2 });
+
+    const firstId = startAnalysisJob(run, { key: 'acme/widgets' });
+    const secondId = startAnalysisJob(run, { key: 'acme/gadgets' });
+    expect(startAnalysisJob(run, { key: 'acme/widgets' })).toBe(firstId);
+
+    const events: AnalysisJobEvent[] = [];
+    subscribeToAnalysisJob(secondId, event => events.push(event));
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(events[0].data).toMatchObject({ status: 'queued' });
+
+    first.resolve({ data: 1 });
+    await vi.waitFor(() => expect(events.at(-1)?.type).toBe('result'));
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+});
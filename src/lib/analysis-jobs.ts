@@ -0,0 +1,323 @@
+/**
+ * Analysis jobs
+ * Long analyses run on the server as queued jobs that report their progress while
+ * they work. POST /api/repos/[owner]/[repo]/... starts a job, GET /api/jobs/[id]
+ * streams its progress events (status, phase, percentage, processed and total
+ * counts, remaining rate limit and an estimated time left) as Server-Sent Events
+ * followed by a final result event, and DELETE /api/jobs/[id] cancels it.
+ *
+ * A run cut short by the rate limit pauses its job: the partial result is sent as
+ * a `partial` event and the job is queued again once the limit resets. The job's
+ * checkpoint (see AnalysisCheckpoint) keeps what was already fetched, so the next
+ * run continues where the last one stopped.
+ *
+ * Jobs live in memory until they finish and for a few minutes after, so a browser
+ * that reconnects still gets the result. Job ids are random UUIDs; only the caller
+ * that started a job learns its id. Starting an analysis that is already queued,
+ * running or paused for the same caller returns the existing job.
+ *
+ * Environment:
+ * - GITFLUX_MAX_CONCURRENT_JOBS: jobs that run at once (default 2); the others wait
+ */
+
+import { randomUUID } from 'crypto';
+import { getRateLimitStatus } from './github-api';
+import type { AnalysisCheckpoint, AnalysisOptions, AnalysisProgress, AnalysisResponse } from './github-analysis';
+import { createGitHubError, errorResponse, isRateLimitError, toGitHubError } from './github-errors';
+
+const JOB_RETENTION_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_CONCURRENT_JOBS = 2;
+
+// A paused job gives up and keeps its partial result after this many resumes
+const MAX_RESUMES = 10;
+
+// Wait a little past the reset, and this long when GitHub gave no reset time
+const RESUME_MARGIN_MS = 5 * 1000;
+const DEFAULT_RESUME_DELAY_MS = 60 * 1000;
+
+// ETAs are only estimated once enough of the work is done to extrapolate from
+const MIN_PROGRESS_FOR_ETA = 5;
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export type AnalysisJobResult<T = unknown> = AnalysisResponse<T> & {
+    dataPoints?: number;
+    largeRepository?: boolean;
+};
+
+export interface AnalysisJobProgress extends AnalysisProgress {
+    status: AnalysisJobStatus;
+    rateLimitRemaining?: number;
+    eta?: number; // Seconds
+    resumesAt?: number; // Epoch milliseconds, while paused
+}
+
+export type AnalysisJobEvent =
+    | { type: 'progress'; data: AnalysisJobProgress }
+    | { type: 'partial'; data: AnalysisJobResult }
+    | { type: 'result'; data: AnalysisJobResult };
+
+export type RunAnalysis<T> = (
+    options: Pick<AnalysisOptions, 'signal' | 'onProgress' | 'checkpoint'>
+) => Promise<AnalysisJobResult<T>>;
+
+interface AnalysisJob {
+    id: string;
+    key?: string;
+    status: AnalysisJobStatus;
+    run: RunAnalysis<unknown>;
+    runStartedAt: number;
+    resumes: number;
+    progress: AnalysisJobProgress;
+    partial?: AnalysisJobResult;
+    result?: AnalysisJobResult;
+    checkpoint: AnalysisCheckpoint;
+    controller: AbortController;
+    resumeTimer?: ReturnType<typeof setTimeout>;
+    listeners: Set<(event: AnalysisJobEvent) => void>;
+}
+
+interface JobRegistry {
+    jobs: Map<string, AnalysisJob>;
+    queue: AnalysisJob[];
+    running: number;
+}
+
+// Stored on globalThis so jobs started by one route handler bundle can be
+// followed and cancelled from another
+const globalJobs = globalThis as typeof globalThis & { __gitfluxAnalysisJobs?: JobRegistry };
+
+function getRegistry(): JobRegistry {
+    if (!globalJobs.__gitfluxAnalysisJobs) {
+        globalJobs.__gitfluxAnalysisJobs = { jobs: new Map(), queue: [], running: 0 };
+    }
+    return globalJobs.__gitfluxAnalysisJobs;
+}
+
+function getMaxConcurrentJobs(): number {
+    const max = parseInt(process.env.GITFLUX_MAX_CONCURRENT_JOBS || '');
+    return max > 0 ? max : DEFAULT_MAX_CONCURRENT_JOBS;
+}
+
+/**
+ * Estimate the seconds left from the time the current run has taken so far
+ */
+function estimateRemaining(startedAt: number, progress: number): number | undefined {
+    if (progress < MIN_PROGRESS_FOR_ETA || progress >= 100) {
+        return undefined;
+    }
+    const elapsed = (Date.now() - startedAt) / 1000;
+    return Math.round((elapsed * (100 - progress)) / progress);
+}
+
+/**
+ * Get when a run cut short by the rate limit can continue, or undefined if it was not
+ */
+function getResumeTime(result: AnalysisJobResult): number | undefined {
+    const now = Date.now();
+    let resumeAt: number | undefined;
+
+    if (isRateLimitError(result.errorInfo)) {
+        const { resetAt, retryAfter } = result.errorInfo!;
+        resumeAt = resetAt ?? (retryAfter !== undefined ? now + retryAfter * 1000 : undefined);
+    } else if (!result.rateLimitWarning) {
+        return undefined;
+    }
+
+    resumeAt ??= result.rateLimit?.reset ? result.rateLimit.reset * 1000 : now + DEFAULT_RESUME_DELAY_MS;
+    return Math.max(resumeAt, now) + RESUME_MARGIN_MS;
+}
+
+function notify(job: AnalysisJob, event: AnalysisJobEvent): void {
+    job.listeners.forEach(listener => listener(event));
+}
+
+function setProgress(job: AnalysisJob, progress: AnalysisJobProgress): void {
+    job.progress = progress;
+    notify(job, { type: 'progress', data: progress });
+}
+
+/**
+ * Start queued jobs while fewer than the maximum are running
+ */
+function runQueuedJobs(): void {
+    const registry = getRegistry();
+    while (registry.running < getMaxConcurrentJobs() && registry.queue.length > 0) {
+        runJob(registry.queue.shift()!);
+    }
+}
+
+function enqueue(job: AnalysisJob): void {
+    job.status = 'queued';
+    setProgress(job, { ...job.progress, status: 'queued', eta: undefined, resumesAt: undefined });
+    getRegistry().queue.push(job);
+    runQueuedJobs();
+}
+
+function runJob(job: AnalysisJob): void {
+    const registry = getRegistry();
+    registry.running++;
+    job.status = 'running';
+    job.runStartedAt = Date.now();
+    setProgress(job, { ...job.progress, status: 'running' });
+
+    const onProgress = (progress: AnalysisProgress) => {
+        if (job.status !== 'running') return;
+        const { rest, graphql } = getRateLimitStatus();
+        setProgress(job, {
+            ...progress,
+            status: 'running',
+            rateLimitRemaining: (rest || graphql)?.remaining,
+            eta: estimateRemaining(job.runStartedAt, progress.progress),
+        });
+    };
+
+    job.run({ signal: job.controller.signal, onProgress, checkpoint: job.checkpoint })
+        .catch(error => errorResponse(toGitHubError(error) || createGitHubError('server')) as AnalysisJobResult)
+        .then(result => {
+            registry.running--;
+            settle(job, result);
+            runQueuedJobs();
+        });
+}
+
+/**
+ * Pause a run cut short by the rate limit until it resets, or finish the job
+ */
+function settle(job: AnalysisJob, result: AnalysisJobResult): void {
+    if (job.status !== 'running') {
+        return;
+    }
+
+    const resumeAt = getResumeTime(result);
+    if (resumeAt === undefined || job.resumes >= MAX_RESUMES) {
+        // A failed resume keeps the partial result of the runs before it
+        const final = result.error && job.partial ? job.partial : result;
+        finish(job, final.error ? 'failed' : 'completed', final);
+        return;
+    }
+
+    job.status = 'paused';
+    job.resumes++;
+    if (result.data !== undefined) {
+        job.partial = result;
+        notify(job, { type: 'partial', data: result });
+    }
+    setProgress(job, { ...job.progress, status: 'paused', eta: undefined, resumesAt: resumeAt });
+
+    job.resumeTimer = setTimeout(() => {
+        job.resumeTimer = undefined;
+        if (job.status === 'paused') enqueue(job);
+    }, resumeAt - Date.now());
+    job.resumeTimer.unref?.();
+}
+
+/**
+ * Record a job's result, tell its listeners and forget it after the retention time
+ */
+function finish(job: AnalysisJob, status: AnalysisJobStatus, result: AnalysisJobResult): void {
+    job.status = status;
+    job.result = result;
+    if (job.resumeTimer) {
+        clearTimeout(job.resumeTimer);
+        job.resumeTimer = undefined;
+    }
+
+    const progress: AnalysisJobProgress = { ...job.progress, status, eta: undefined, resumesAt: undefined };
+    setProgress(job, status === 'completed' ? { ...progress, phase: 'complete', progress: 100 } : progress);
+    notify(job, { type: 'result', data: result });
+    job.listeners.clear();
+
+    const timer = setTimeout(() => getRegistry().jobs.delete(job.id), JOB_RETENTION_MS);
+    timer.unref?.();
+}
+
+/**
+ * Queue an analysis as a job and return its id
+ * Jobs with a key are shared: while one with the same key is queued, running or
+ * paused, its id is returned instead of starting another.
+ */
+export function startAnalysisJob<T>(run: RunAnalysis<T>, options: { key?: string } = {}): string {
+    const { jobs } = getRegistry();
+    if (options.key) {
+        const existing = Array.from(jobs.values()).find(job => job.key === options.key && !job.result);
+        if (existing) {
+            return existing.id;
+        }
+    }
+
+    const job: AnalysisJob = {
+        id: randomUUID(),
+        key: options.key,
+        status: 'queued',
+        run: run as RunAnalysis<unknown>,
+        runStartedAt: Date.now(),
+        resumes: 0,
+        progress: { status: 'queued', phase: 'fetching-repo', progress: 0 },
+        checkpoint: {},
+        controller: new AbortController(),
+        listeners: new Set(),
+    };
+    jobs.set(job.id, job);
+    enqueue(job);
+
+    return job.id;
+}
+
+/**
+ * Follow a job's events, starting with its latest progress, its partial result
+ * while paused and its result if it has finished. Returns the unsubscribe
+ * function, or undefined for unknown jobs.
+ */
+export function subscribeToAnalysisJob(
+    id: string,
+    listener: (event: AnalysisJobEvent) => void
+): (() => void) | undefined {
+    const job = getRegistry().jobs.get(id);
+    if (!job) {
+        return undefined;
+    }
+
+    if (job.partial && !job.result) {
+        listener({ type: 'partial', data: job.partial });
+    }
+    listener({ type: 'progress', data: job.progress });
+    if (job.result) {
+        listener({ type: 'result', data: job.result });
+        return () => {};
+    }
+
+    job.listeners.add(listener);
+    return () => {
+        job.listeners.delete(listener);
+    };
+}
+
+/**
+ * Cancel a job that has not finished; returns false for unknown jobs
+ */
+export function cancelAnalysisJob(id: string): boolean {
+    const registry = getRegistry();
+    const job = registry.jobs.get(id);
+    if (!job) {
+        return false;
+    }
+    if (!job.result) {
+        job.controller.abort();
+        registry.queue = registry.queue.filter(queued => queued !== job);
+        finish(job, 'cancelled', errorResponse(createGitHubError('cancelled')));
+    }
+    return true;
+}
+
+/**
+ * Forget all jobs, cancelling the ones that have not finished
+ */
+export function clearAnalysisJobs(): void {
+    const registry = getRegistry();
+    registry.jobs.forEach(job => {
+        job.controller.abort();
+        if (job.resumeTimer) clearTimeout(job.resumeTimer);
+    });
+    globalJobs.__gitfluxAnalysisJobs = undefined;
+}
@@ -0,0 +1,185 @@
+/**
+ * Unit tests for incremental commit sync
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as githubApi from './github-api';
+import type { CommitFileData } from './github-api';
+import { clearCommitSyncStore, COMMIT_SYNC_INTERVAL, getCommitSyncState, syncCommitsWithFiles } from './commit-sync';
+
+vi.mock('./github-api', async importOriginal => ({
+  ...(await importOriginal<typeof import('./github-api')>()),
+  fetchCommitsWithFiles: vi.fn(),
+}));
+
+const mockFetchCommitsWithFiles = vi.mocked(githubApi.fetchCommitsWithFiles);
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2024-06-01T12:00:00Z');
+
+const daysAgo = (days: number) => new Date(NOW - days * DAY).toISOString();
+
+const commit = (sha: string, days: number): CommitFileData => ({
+  sha,
+  date: daysAgo(days),
+  author: 'Ann',
+  message: sha,
+  files: [{ filename: `${sha}.ts`, status: 'modified', changes: 1, additions: 1, deletions: 0 }],
+});
+
+describe('commit sync', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    mockFetchCommitsWithFiles.mockReset();
+    clearCommitSyncStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves shorter windows from stored commits without API calls', async () => {
+    mockFetchCommitsWithFiles.mockResolvedValueOnce({ data: [commit('c', 1), commit('b', 40), commit('a', 200)] });
+
+    const year = await syncCommitsWithFiles('owner', 'repo', { since: daysAgo(365) });
+    const month = await syncCommitsWithFiles('owner', 'repo', { since: daysAgo(30) });
+    const quarter = await syncCommitsWithFiles('owner', 'repo', { since: daysAgo(90) });
+
+    expect(year.data!.map(c => c.sha)).toEqual(['c', 'b', 'a']);
+    expect(month.data!.map(c => c.sha)).toEqual(['c']);
+    expect(quarter.data!.map(c => c.sha)).toEqual(['c', 'b']);
+    expect(mockFetchCommitsWithFiles).toHaveBeenCalledTimes(1);
+  });
+
+  it('fetches only the history a longer window reaches past', async () => {
+    mockFetchCommitsWithFiles
+      .mockResolvedValueOnce({ data: [commit('c', 1)] })
+      .mockResolvedValueOnce({ data: [commit('b', 40)] });
+
+    await syncCommitsWithFiles('owner', 'repo', { since: daysAgo(30) });
+    const quarter = await syncCommitsWithFiles('owner', 'repo', { since: daysAgo(90) });
+
+    expect(quarter.data!.map(c => c.sha)).toEqual(['c', 'b']);
+    expect(mockFetchCommitsWithFiles).toHaveBeenLastCalledWith('owner', 'repo', daysAgo(90), daysAgo(30), 1, 100, {});
+    expect(getCommitSyncState('owner', 'repo')).toMatchObject({ commitCount: 2, coveredSince: daysAgo(90) });
+  });
+
+  it('fetches commits since the newest one stored once the sync interval passed', async () => {
+    mockFetchCommitsWithFiles
+      .mockResolvedValueOnce({ data: [commit('b', 1), commit('a', 2)] })
+      .mockResolvedValueOnce({ data: [commit('c', 0), commit('b', 1)] });
+
+    await syncCommitsWithFiles('owner', 'repo', { since: daysAgo(30) });
+    vi.setSystemTime(NOW + COMMIT_SYNC_INTERVAL);
+    const result = await syncCommitsWithFiles('owner', 'repo', { since: daysAgo(30) });
+
+    expect(mockFetchCommitsWithFiles.mock.calls[1][2]).toBe(daysAgo(1));
+    expect(result.data!.map(c => c.sha)).toEqual(['c', 'b', 'a']);
+    expect(getCommitSyncState('owner', 'repo')).toMatchObject({ newestSha: 'c', newestDate: daysAgo(0) });
+  });
+
+  it('keeps stored commits when a sync is cut short by the rate limit', async () => {
+    mockFetchCommitsWithFiles
+      .mockResolvedValueOnce({ data: [commit('b', 1)] })
+      .mockResolvedValueOnce({ data: [commit('d', 0)], rateLimitWarning: true });
+
+    await syncCommitsWithFiles('owner', 'repo', { since: daysAgo(30) });
+    vi.setSystemTime(NOW + COMMIT_SYNC_INTERVAL);
+    const result = await syncCommitsWithFiles('owner', 'repo', { since: daysAgo(30) });
+
+    expect(result.rateLimitWarning).toBe(true);
+    expect(result.data!.map(c => c.sha)).toEqual(['b']);
+  });
+
+  it('keeps the coverage it had when a longer window is cut short before any commit', async () => {
+    mockFetchCommitsWithFiles
+      .mockResolvedValueOnce({ data: [commit('c', 1)] })
+      .mockResolvedValueOnce({ data: [], rateLimitWarning: true });
+
+    await syncCommitsWithFiles('owner', 'repo', { since: daysAgo(30) });
+    const quarter = await syncCommitsWithFiles('owner', 'repo', { since: daysAgo(90) });
+    const month = await syncCommitsWithFiles('owner', 'repo', { since: daysAgo(30) });
+
+    expect(quarter.rateLimitWarning).toBe(true);
+    expect(getCommitSyncState('owner', 'repo')).toMatchObject({ coveredSince: daysAgo(30) });
+    expect(month.data!.map(c => c.sha)).toEqual(['c']);
+    expect(mockFetchCommitsWithFiles).toHaveBeenCalledTimes(2);
+  });
+
+  it('fetches commits whose details failed again on the next sync', async () => {
+    mockFetchCommitsWithFiles
+      .mockResolvedValueOnce({ data: [commit('c', 1), commit('a', 5)], failedCommits: [{ sha: 'b', date: daysAgo(3) }] })
+      .mockResolvedValueOnce({ data: [commit('c', 1), commit('b', 3)] })
+      .mockResolvedValueOnce({ data: [commit('c', 1)] });
+
+    await syncCommitsWithFiles('owner', 'repo', { since: daysAgo(30) });
+    vi.setSystemTime(NOW + COMMIT_SYNC_INTERVAL);
+    const retried = await syncCommitsWithFiles('owner', 'repo', { since: daysAgo(30) });
+    vi.setSystemTime(NOW + 2 * COMMIT_SYNC_INTERVAL);
+    await syncCommitsWithFiles('owner', 'repo', { since: daysAgo(30) });
+
+    expect(mockFetchCommitsWithFiles.mock.calls[1][2]).toBe(daysAgo(3));
+    expect(retried.data!.map(c => c.sha)).toEqual(['c', 'b', 'a']);
+    // Once every commit is in, new commits are looked for from the newest one again
+    expect(mockFetchCommitsWithFiles.mock.calls[2][2]).toBe(daysAgo(1));
+  });
+
+  it('runs concurrent syncs for a repository one after another', async () => {
+    mockFetchCommitsWithFiles.mockResolvedValueOnce({ data: [commit('b', 10), commit('a', 60)] });
+
+    const [quarter, month] = await Promise.all([
+      syncCommitsWithFiles('owner', 'repo', { since: daysAgo(90) }),
+      syncCommitsWithFiles('owner', 'repo', { since: daysAgo(30) }),
+    ]);
+
+    expect(quarter.data).toHaveLength(2);
+    expect(month.data).toHaveLength(1);
+    expect(mockFetchCommitsWithFiles).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves commits synced with a user token only to that token', async () => {
+    mockFetchCommitsWithFiles
+      .mockResolvedValueOnce({ data: [commit('a', 1)] })
+      .mockResolvedValueOnce({ data: [commit('a', 1)] });
+
+    await syncCommitsWithFiles('owner', 'repo', { since: daysAgo(30), token: 'alice' });
+    await syncCommitsWithFiles('owner', 'repo', { since: daysAgo(30), token: 'alice' });
+    expect(mockFetchCommitsWithFiles).toHaveBeenCalledTimes(1);
+
+    // Another caller syncs the history with its own credentials
+    await syncCommitsWithFiles('owner', 'repo', { since: daysAgo(30) });
+    expect(mockFetchCommitsWithFiles).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares commits of public repositories', async () => {
+    mockFetchCommitsWithFiles.mockResolvedValueOnce({ data: [commit('a', 1)] });
+
+    await syncCommitsWithFiles('owner', 'repo', { since: daysAgo(30), token: 'alice', publicRepository: true });
+    await syncCommitsWithFiles('owner', 'repo', { since: daysAgo(30), token: 'bob' });
+
+    expect(mockFetchCommitsWithFiles).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not store failed syncs', async () => {
+    mockFetchCommitsWithFiles.mockResolvedValueOnce({ error: 'Repository not found' });
+
+    const result = await syncCommitsWithFiles('owner', 'missing', { since: daysAgo(30) });
+
+    expect(result.error).toBe('Repository not found');
+    expect(getCommitSyncState('owner', 'missing')).toBeUndefined();
+  });
+
+  it('clears one repository on every host', async () => {
+    mockFetchCommitsWithFiles.mockResolvedValue({ data: [commit('a', 1)] });
+    await syncCommitsWithFiles('owner', 'repo');
+    await syncCommitsWithFiles('owner', 'repo', { host: 'ghe.example.com' });
+    await syncCommitsWithFiles('owner', 'other');
+
+    clearCommitSyncStore('owner', 'repo');
+
+    expect(getCommitSyncState('owner', 'repo')).toBeUndefined();
+    expect(getCommitSyncState('owner', 'repo', 'ghe.example.com')).toBeUndefined();
+    expect(getCommitSyncState('owner', 'other')).toMatchObject({ fullHistory: true });
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Incremental commit sync
+ * Remembers the commits (with changed files) already ingested for each repository,
+ * including the newest SHA and date seen, so later requests only fetch commits
+ * since that point and time window changes are served by filtering locally. Older
+ * history is fetched only when a window reaches past what has been ingested.
+ * Commits whose details failed to load are fetched again on the next sync.
+ * Commits synced with a signed-in user's token, for a repository not known to be
+ * public, are only served to that token; other callers sync the history again.
+ */
+
+import {
+    CommitFileData,
+    FailedCommit,
+    fetchCommitsWithFiles,
+    getCacheAccess,
+    GitHubApiResponse,
+    RateLimitInfo,
+} from './github-api';
+import { forwardError } from './github-errors';
+import { normalizeGitHubHost } from './github-hosts';
+
+interface CommitStoreEntry {
+    commits: CommitFileData[]; // Newest first, one entry per SHA
+    newestSha?: string;
+    newestDate?: string;
+    coveredSince?: number; // Start of the oldest window ingested without gaps
+    fullHistory: boolean; // The whole history (up to the commit budget) has been ingested
+    failedCommits: FailedCommit[]; // Listed without their details; new commits are looked for from the oldest
+    syncedAt: number;
+    access?: string; // Credential id that may read the commits; every caller when unset
+}
+
+export interface CommitSyncOptions {
+    since?: string;
+    maxCommits?: number;
+    rateLimitThreshold?: number;
+    batchDelay?: number;
+    onProgress?: (processed: number, total: number) => void;
+    signal?: AbortSignal;
+    host?: string;
+    token?: string; // Signed-in user's token
+    publicRepository?: boolean; // Synced commits are shared by every caller
+}
+
+// New commits are looked for at most this often; window changes in between are local
+export const COMMIT_SYNC_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+const DEFAULT_MAX_COMMITS = 1000;
+
+const commitStore = new Map<string, CommitStoreEntry>();
+const pendingSyncs = new Map<string, Promise<unknown>>();
+
+/**
+ * Build the store key for a repository
+ */
+function getStoreKey(owner: string, repo: string, host?: string): string {
+    return `${normalizeGitHubHost(host)}/${owner}/${repo}`.toLowerCase();
+}
+
+/**
+ * Merge commits into a newest-first list without duplicates
+ * `since` is inclusive on the API, so the newest known commit comes back on every sync
+ */
+function mergeCommits(existing: CommitFileData[], incoming: CommitFileData[]): CommitFileData[] {
+    const bySha = new Map(existing.map(commit => [commit.sha, commit]));
+    incoming.forEach(commit => bySha.set(commit.sha, commit));
+    return Array.from(bySha.values()).sort((a, b) => Date.parse(b.date) - Date.parse(a.date));
+}
+
+/**
+ * Get the start of the window a newest-first batch covers
+ * A batch cut short (e.g. by the rate limit) only covers back to its oldest commit;
+ * without commits it adds nothing to what `covered` (the coverage so far) reaches.
+ * A batch that reached maxCommits covers its whole window, as windows were capped
+ * at maxCommits before incremental sync.
+ */
+function getCoveredSince(
+    commits: CommitFileData[],
+    since: number | undefined,
+    cutShort: boolean,
+    covered?: number
+): number | undefined {
+    if (!cutShort) {
+        return since;
+    }
+    const oldest = commits[commits.length - 1];
+    return oldest ? Date.parse(oldest.date) : covered ?? Date.now();
+}
+
+/**
+ * Start a store entry from a batch of commits
+ */
+function createEntry(
+    commits: CommitFileData[],
+    since: number | undefined,
+    cutShort: boolean,
+    failedCommits: FailedCommit[] = []
+): CommitStoreEntry {
+    const sorted = mergeCommits([], commits);
+
+    return {
+        commits: sorted,
+        newestSha: sorted[0]?.sha,
+        newestDate: sorted[0]?.date,
+        coveredSince: getCoveredSince(sorted, since, cutShort),
+        fullHistory: !cutShort && since === undefined,
+        failedCommits,
+        syncedAt: Date.now(),
+    };
+}
+
+/**
+ * Get the date to look for new commits from
+ * That is the newest commit ingested, or the oldest one whose details failed, so
+ * those are fetched again.
+ */
+function getSyncFrom(entry: CommitStoreEntry): string | undefined {
+    if (entry.failedCommits.length === 0) {
+        return entry.newestDate;
+    }
+    const oldestFailed = Math.min(...entry.failedCommits.map(commit => Date.parse(commit.date)));
+    return entry.newestDate && Date.parse(entry.newestDate) < oldestFailed
+        ? entry.newestDate
+        : new Date(oldestFailed).toISOString();
+}
+
+/**
+ * Check whether every commit since a time has been ingested
+ */
+function coversWindow(entry: CommitStoreEntry, since: number | undefined): boolean {
+    if (entry.fullHistory) {
+        return true;
+    }
+    return since !== undefined && entry.coveredSince !== undefined && since >= entry.coveredSince;
+}
+
+/**
+ * Get commits with changed files since a date, fetching only what is not stored yet
+ * Syncs for the same repository run one after another, so concurrent components
+ * reuse each other's results instead of fetching the same commits twice.
+ */
+export function syncCommitsWithFiles(
+    owner: string,
+    repo: string,
+    options: CommitSyncOptions = {}
+): Promise<GitHubApiResponse<CommitFileData[]> & { rateLimitWarning?: boolean }> {
+    const key = getStoreKey(owner, repo, options.host);
+    const previous = pendingSyncs.get(key) || Promise.resolve();
+    const sync = previous.catch(() => undefined).then(() => runSync(key, owner, repo, options));
+
+    pendingSyncs.set(key, sync);
+    const cleanup = () => {
+        if (pendingSyncs.get(key) === sync) pendingSyncs.delete(key);
+    };
+    sync.then(cleanup, cleanup);
+
+    return sync;
+}
+
+/**
+ * Bring the stored commits of a repository up to date and cover the requested window
+ */
+async function runSync(
+    key: string,
+    owner: string,
+    repo: string,
+    options: CommitSyncOptions
+): Promise<GitHubApiResponse<CommitFileData[]> & { rateLimitWarning?: boolean }> {
+    const { since, ...fetchOptions } = options;
+    const { maxCommits = DEFAULT_MAX_COMMITS } = fetchOptions;
+    const sinceTime = since ? Date.parse(since) : undefined;
+    const access = await getCacheAccess(options.token, options.publicRepository);
+    const stored = commitStore.get(key);
+    let entry = stored && (stored.access === undefined || stored.access === access) ? stored : undefined;
+    let rateLimit: RateLimitInfo | undefined;
+    let rateLimitWarning = false;
+    let fetched = false;
+
+    const fetchRange = async (from?: string, to: string = new Date().toISOString()) => {
+        fetched = true;
+        const response = await fetchCommitsWithFiles(owner, repo, from, to, 1, 100, fetchOptions);
+        rateLimit = response.rateLimit || rateLimit;
+        rateLimitWarning = rateLimitWarning || Boolean(response.rateLimitWarning);
+        return {
+            ...response,
+            cutShort: Boolean(response.rateLimitWarning),
+            capped: (response.data?.length || 0) >= maxCommits,
+        };
+    };
+
+    if (!entry) {
+        const response = await fetchRange(since);
+        if (response.error || !response.data) {
+            return forwardError(response);
+        }
+        entry = createEntry(response.data, sinceTime, response.cutShort, response.failedCommits);
+    } else {
+        // Commits newer than the newest one ingested; a sync cut short by the
+        // rate limit keeps the stored commits and is retried next time
+        if (Date.now() - entry.syncedAt >= COMMIT_SYNC_INTERVAL) {
+            const response = await fetchRange(getSyncFrom(entry));
+            if (response.error || !response.data) {
+                return forwardError(response);
+            }
+
+            if (response.capped) {
+                // The new commits do not reach the ones stored; start over from this batch
+                entry = createEntry(response.data, undefined, true, response.failedCommits);
+            } else if (!response.cutShort) {
+                const commits = mergeCommits(entry.commits, response.data);
+                entry = {
+                    ...entry,
+                    commits,
+                    newestSha: commits[0]?.sha,
+                    newestDate: commits[0]?.date,
+                    failedCommits: response.failedCommits || [],
+                    syncedAt: Date.now(),
+                };
+            }
+        }
+
+        // Older commits the requested window reaches past
+        if (!coversWindow(entry, sinceTime)) {
+            const until = entry.coveredSince !== undefined ? new Date(entry.coveredSince).toISOString() : undefined;
+            const response = await fetchRange(since, until);
+            if (response.error || !response.data) {
+                return forwardError(response);
+            }
+
+            entry = {
+                ...entry,
+                commits: mergeCommits(entry.commits, response.data),
+                coveredSince: getCoveredSince(response.data, sinceTime, response.cutShort, entry.coveredSince),
+                fullHistory: !response.cutShort && sinceTime === undefined,
+                failedCommits: [...entry.failedCommits, ...(response.failedCommits || [])],
+            };
+        }
+    }
+
+    // Commits fetched with a user's token are only served to that token from now on
+    commitStore.set(key, fetched ? { ...entry, access } : entry);
+
+    const commits = sinceTime === undefined
+        ? entry.commits
+        : entry.commits.filter(commit => Date.parse(commit.date) >= sinceTime);
+
+    return {
+        data: commits,
+        rateLimit,
+        ...(rateLimitWarning ? { rateLimitWarning } : {}),
+    };
+}
+
+/**
+ * Get what has been ingested for a repository (for monitoring and tests)
+ */
+export function getCommitSyncState(owner: string, repo: string, host?: string): {
+    commitCount: number;
+    newestSha?: string;
+    newestDate?: string;
+    coveredSince?: string;
+    fullHistory: boolean;
+} | undefined {
+    const entry = commitStore.get(getStoreKey(owner, repo, host));
+    if (!entry) {
+        return undefined;
+    }
+
+    return {
+        commitCount: entry.commits.length,
+        newestSha: entry.newestSha,
+        newestDate: entry.newestDate,
+        coveredSince: entry.coveredSince !== undefined ? new Date(entry.coveredSince).toISOString() : undefined,
+        fullHistory: entry.fullHistory,
+    };
+}
+
+/**
+ * Make the next sync of a repository look for new commits right away instead of
+ * after COMMIT_SYNC_INTERVAL, e.g. when a push was reported
+ */
+export function markCommitSyncStale(owner: string, repo: string, host?: string): void {
+    const entry = commitStore.get(getStoreKey(owner, repo, host));
+    if (entry) {
+        entry.syncedAt = 0;
+    }
+}
+
+/**
+ * Forget stored commits for one repository (on every host) or for all repositories
+ * Later syncs no longer wait for syncs that were still running
+ */
+export function clearCommitSyncStore(owner?: string, repo?: string): void {
+    if (owner && repo) {
+        const suffix = `/${owner}/${repo}`.toLowerCase();
+        Array.from(commitStore.keys()).forEach(key => {
+            if (key.endsWith(suffix)) commitStore.delete(key);
+        });
+        Array.from(pendingSyncs.keys()).forEach(key => {
+            if (key.endsWith(suffix)) pendingSyncs.delete(key);
+        });
+    } else {
+        commitStore.clear();
+        pendingSyncs.clear();
+    }
+}
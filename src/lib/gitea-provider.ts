@@ -0,0 +1,249 @@
+/**
+ * Gitea repository provider
+ * Gitea's API is modelled on GitHub's, so repositories, pull requests and reviews
+ * map closely. Gitea has no contributors endpoint (contributors are derived from
+ * the commit list) and reports changed files per commit without line counts.
+ */
+
+import {
+    CommitFileData,
+    Contributor,
+    GitHubBranchPayload,
+    GitHubPullRequestPayload,
+    processBranchData,
+    processPRData,
+} from './github-api';
+import { forwardError } from './github-errors';
+import { getGiteaApiBase, getProviderToken } from './provider-hosts';
+import { fetchAllProviderPages, makeProviderRequest, ProviderApiConfig } from './provider-request';
+import type { ChangeRequestReview, RepositoryProvider } from './repository-provider';
+
+// Gitea API payloads (fields used by the analysis)
+interface GiteaRepository {
+    name: string;
+    full_name: string;
+    description: string;
+    html_url: string;
+    default_branch: string;
+    stars_count: number;
+    forks_count: number;
+    language?: string;
+    private: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
+interface GiteaUser {
+    login: string;
+    avatar_url?: string;
+    html_url?: string;
+}
+
+interface GiteaCommit {
+    sha: string;
+    commit: {
+        author: { name: string; date: string };
+        message: string;
+    };
+    author: GiteaUser | null;
+    files?: { filename: string; status: string }[];
+}
+
+interface GiteaBranch {
+    name: string;
+    commit: {
+        id: string;
+        message: string;
+        timestamp: string;
+        author: { name: string };
+    };
+}
+
+interface GiteaReview {
+    user: GiteaUser | null;
+    state: 'APPROVED' | 'REQUEST_CHANGES' | 'COMMENT' | 'PENDING' | 'REQUEST_REVIEW';
+    submitted_at: string;
+}
+
+const DEFAULT_MAX_COMMITS = 1000;
+const DEFAULT_MAX_ITEMS = 1000;
+const PAGE_LIMIT = 50; // Gitea's default maximum page size
+
+const REVIEW_STATES: Partial<Record<GiteaReview['state'], ChangeRequestReview['state']>> = {
+    APPROVED: 'APPROVED',
+    REQUEST_CHANGES: 'CHANGES_REQUESTED',
+    COMMENT: 'COMMENTED',
+};
+
+/**
+ * Map Gitea's file status names to the shared ones
+ */
+function toFileStatus(status: string): CommitFileData['files'][number]['status'] {
+    if (status === 'added') return 'added';
+    if (status === 'removed' || status === 'deleted') return 'removed';
+    return 'modified';
+}
+
+/**
+ * Create the provider for a Gitea host
+ */
+export function createGiteaProvider(host: string): RepositoryProvider {
+    const token = getProviderToken('gitea', host);
+    const config: ProviderApiConfig = {
+        name: 'Gitea',
+        apiBase: getGiteaApiBase(host),
+        headers: token ? { 'Authorization': `token ${token}` } : {},
+    };
+
+    const listCommits = (owner: string, repo: string, options: { since?: string; until?: string; files: boolean; maxItems: number; signal?: AbortSignal }) => {
+        let endpoint = `/repos/${owner}/${repo}/commits?limit=${PAGE_LIMIT}&stat=false&verification=false&files=${options.files}`;
+        if (options.since) endpoint += `&since=${options.since}`;
+        if (options.until) endpoint += `&until=${options.until}`;
+        return fetchAllProviderPages<GiteaCommit>(config, endpoint, { maxItems: options.maxItems, signal: options.signal });
+    };
+
+    return {
+        kind: 'gitea',
+        host,
+        changeRequestLabel: 'Pull request',
+
+        async getRepository(owner, repo, options = {}) {
+            const response = await makeProviderRequest<GiteaRepository>(config, `/repos/${owner}/${repo}`, options);
+            if (!response.data) {
+                return forwardError(response);
+            }
+
+            const repository = response.data;
+            return {
+                data: {
+                    name: repository.name,
+                    fullName: repository.full_name,
+                    description: repository.description || null,
+                    htmlUrl: repository.html_url,
+                    defaultBranch: repository.default_branch,
+                    stars: repository.stars_count,
+                    forks: repository.forks_count,
+                    language: repository.language || null,
+                    private: repository.private,
+                    createdAt: repository.created_at,
+                    updatedAt: repository.updated_at,
+                },
+                rateLimit: response.rateLimit,
+            };
+        },
+
+        async getContributors(owner, repo, options = {}) {
+            const { maxItems = DEFAULT_MAX_COMMITS, signal } = options;
+            const response = await listCommits(owner, repo, { files: false, maxItems, signal });
+            if (!response.data) {
+                return forwardError(response);
+            }
+
+            const contributors = new Map<string, Contributor>();
+            response.data.forEach(commit => {
+                const login = commit.author?.login || commit.commit.author.name;
+                const contributor = contributors.get(login) || {
+                    login,
+                    avatar_url: commit.author?.avatar_url || '',
+                    contributions: 0,
+                    html_url: commit.author?.html_url || '',
+                    type: 'User',
+                };
+                contributor.contributions++;
+                contributors.set(login, contributor);
+            });
+
+            return {
+                data: Array.from(contributors.values()).sort((a, b) => b.contributions - a.contributions),
+                rateLimit: response.rateLimit,
+            };
+        },
+
+        async getCommitsWithFiles(owner, repo, options = {}) {
+            const { since, until, maxCommits = DEFAULT_MAX_COMMITS, onProgress, signal } = options;
+            const response = await listCommits(owner, repo, { since, until, files: true, maxItems: maxCommits, signal });
+            if (!response.data) {
+                return forwardError(response);
+            }
+
+            // Changed files come with the commit list; line counts are not available
+            const commits: CommitFileData[] = response.data.map(commit => ({
+                sha: commit.sha,
+                date: commit.commit.author.date,
+                author: commit.commit.author.name,
+                message: commit.commit.message,
+                files: (commit.files || []).map(file => ({
+                    filename: file.filename,
+                    status: toFileStatus(file.status),
+                    changes: 0,
+                    additions: 0,
+                    deletions: 0,
+                })),
+            }));
+            onProgress?.(commits.length, commits.length);
+
+            return { data: commits, rateLimit: response.rateLimit };
+        },
+
+        async getBranches(owner, repo, timePeriod, options = {}) {
+            const { maxItems = DEFAULT_MAX_ITEMS, signal } = options;
+            const [repository, response] = await Promise.all([
+                this.getRepository(owner, repo, { signal }),
+                fetchAllProviderPages<GiteaBranch>(config, `/repos/${owner}/${repo}/branches?limit=${PAGE_LIMIT}`, { maxItems, signal }),
+            ]);
+            if (!repository.data || !response.data) {
+                return forwardError(repository.data ? response : repository);
+            }
+
+            const payloads: GitHubBranchPayload[] = response.data.map(branch => ({
+                name: branch.name,
+                commit: {
+                    sha: branch.commit.id,
+                    commit: {
+                        author: { name: branch.commit.author.name, date: branch.commit.timestamp },
+                        message: branch.commit.message,
+                    },
+                },
+            }));
+
+            return {
+                data: processBranchData(payloads, repository.data.defaultBranch, timePeriod),
+                rateLimit: response.rateLimit,
+            };
+        },
+
+        async getChangeRequests(owner, repo, timePeriod, options = {}) {
+            const { maxItems = DEFAULT_MAX_ITEMS, signal } = options;
+            const response = await fetchAllProviderPages<GitHubPullRequestPayload>(
+                config,
+                `/repos/${owner}/${repo}/pulls?state=all&sort=recentupdate&limit=${PAGE_LIMIT}`,
+                { maxItems, signal }
+            );
+            if (!response.data) {
+                return forwardError(response);
+            }
+            return { data: processPRData(response.data, timePeriod), rateLimit: response.rateLimit };
+        },
+
+        async getReviews(owner, repo, number, options = {}) {
+            const response = await fetchAllProviderPages<GiteaReview>(
+                config,
+                `/repos/${owner}/${repo}/pulls/${number}/reviews?limit=${PAGE_LIMIT}`,
+                options
+            );
+            if (!response.data) {
+                return forwardError(response);
+            }
+
+            const reviews: ChangeRequestReview[] = [];
+            response.data.forEach(review => {
+                const state = REVIEW_STATES[review.state];
+                if (state && review.submitted_at) {
+                    reviews.push({ prNumber: number, reviewer: review.user?.login || 'ghost', state, submittedAt: review.submitted_at });
+                }
+            });
+
+            return { data: reviews, rateLimit: response.rateLimit };
+        },
+    };
+}
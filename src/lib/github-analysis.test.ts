@@ -0,0 +1,176 @@
+/**
+ * Unit tests for the server-side analyses, against the mock GitHub server
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  analyzeBranchPRs,
+  analyzeCommitActivity,
+  analyzeContributorTrends,
+  analyzeFileChanges,
+  type AnalysisCheckpoint,
+} from './github-analysis';
+import { fetchBranchComparisons, fetchBranchDetails, fetchBranches } from './github-api';
+import { setRequestScheduler } from './github-scheduler';
+import { exampleSeed as seed, useMockGitHubServer } from '@/test/mock-github/fixture';
+
+describe('GitHub analyses', () => {
+  const server = useMockGitHubServer();
+
+  it('analyzes file changes and activity from the same synced commits', async () => {
+    const fileChanges = await analyzeFileChanges('acme', 'widgets', '90d');
+
+    expect(fileChanges.error).toBeUndefined();
+    expect(fileChanges.data?.files.map(file => file.filename)).toContain('src/widgets/resize.ts');
+    expect(fileChanges.data?.timePeriod).toBe('90d');
+
+    const commitListRequests = server().requests.filter(request => request.startsWith('/repos/acme/widgets/commits?')).length;
+    const heatmap = await analyzeCommitActivity('acme', 'widgets', '30d');
+    const trends = await analyzeContributorTrends('acme', 'widgets', '30d');
+
+    expect(heatmap.data?.totalCommits).toBeGreaterThan(0);
+    expect(trends.data?.contributors.map(contributor => contributor.contributor)).toContain('Alice Example');
+    // Shorter windows are served from the commits already synced
+    expect(server().requests.filter(request => request.startsWith('/repos/acme/widgets/commits?'))).toHaveLength(commitListRequests);
+  });
+
+  it('analyzes branches and pull requests with the REST API without a token', async () => {
+    const result = await analyzeBranchPRs('acme', 'widgets', 'all');
+
+    expect(result.error).toBeUndefined();
+    expect(result.data?.branches.totalBranches).toBe(seed.repositories[0].branches!.length);
+    expect(result.data?.pullRequests.totalPRs).toBe(seed.repositories[0].pullRequests!.length);
+    expect(result.dataPoints).toBeGreaterThan(0);
+    expect(result.largeRepository).toBe(false);
+    expect(server().requests).not.toContain('/graphql');
+  });
+
+  it('reports the progress of each phase', async () => {
+    const onProgress = vi.fn();
+
+    await analyzeBranchPRs('acme', 'widgets', 'all', { onProgress });
+
+    const phases = onProgress.mock.calls.map(([progress]) => progress.phase);
+    expect([...new Set(phases)]).toEqual(['fetching-repo', 'fetching-branches', 'fetching-prs', 'fetching-reviews', 'processing']);
+    const percentages = onProgress.mock.calls.map(([progress]) => progress.progress);
+    expect(percentages).toEqual([...percentages].sort((a, b) => a - b));
+  });
+
+  it('continues from its checkpoint after being cut short by the rate limit', async () => {
+    const checkpoint: AnalysisCheckpoint = {};
+    server().simulate({ kind: 'rate_limit', path: '/pulls', times: 1 });
+
+    const partial = await analyzeBranchPRs('acme', 'widgets', 'all', { checkpoint });
+
+    expect(partial.rateLimitWarning).toBe(true);
+    expect(partial.data?.pullRequests.totalPRs).toBe(0);
+    expect(checkpoint.branchPR?.branches).toHaveLength(seed.repositories[0].branches!.length);
+
+    // A fresh scheduler no longer waits for the reset
+    setRequestScheduler(undefined);
+    server().requests.length = 0;
+    const resumed = await analyzeBranchPRs('acme', 'widgets', 'all', { checkpoint });
+
+    expect(resumed.rateLimitWarning).toBe(false);
+    expect(resumed.data?.pullRequests.totalPRs).toBe(seed.repositories[0].pullRequests!.length);
+    // Branches and their details come from the checkpoint
+    expect(server().requests.filter(request => request.includes('/branches'))).toEqual([]);
+  });
+
+  describe('with a token', () => {
+    beforeEach(() => {
+      vi.stubEnv('GITHUB_TOKEN', 'token');
+      vi.stubEnv('GITHUB_GRAPHQL_URL', `${server().url}/graphql`);
+    });
+
+    it('falls back to the REST API when GraphQL is not available', async () => {
+      const result = await analyzeBranchPRs('acme', 'widgets', 'all');
+
+      expect(server().requests).toContain('/graphql');
+      expect(result.data?.pullRequests.totalPRs).toBe(seed.repositories[0].pullRequests!.length);
+    });
+
+    it('stops at the GraphQL checkpoint instead of falling back when rate limited', async () => {
+      server().simulate({ kind: 'rate_limit', path: '/graphql', times: 1 });
+      const checkpoint: AnalysisCheckpoint = {};
+
+      const result = await analyzeBranchPRs('acme', 'widgets', 'all', { checkpoint });
+
+      expect(result.data).toBeUndefined();
+      expect(result.errorInfo?.kind).toBe('rate_limited');
+      expect(checkpoint.branchPR?.graphql).toBeDefined();
+      expect(server().requests.filter(request => request.includes('/pulls'))).toEqual([]);
+    });
+  });
+
+  it('passes on failures with their kind', async () => {
+    const result = await analyzeBranchPRs('acme', 'missing', '30d');
+
+    expect(result.data).toBeUndefined();
+    expect(result.errorInfo?.kind).toBe('not_found');
+  });
+});
+
+describe('branch comparisons', () => {
+  // Branches pointing at different commits, so each comparison has its own SHAs
+  const repository = seed.repositories[0];
+  const commits = repository.commits!.map((commit, index) => ({ ...commit, sha: String(index + 1).repeat(40) }));
+  const branchSeed = {
+    repositories: [{
+      ...repository,
+      commits,
+      branches: [
+        { name: 'main', sha: commits[1].sha, protected: true },
+        { name: 'feature/resizing', sha: commits[0].sha, aheadBy: 2 },
+        { name: 'fix/alignment', sha: commits[2].sha, aheadBy: 1, behindBy: 3 },
+        { name: 'docs', sha: commits[3].sha, behindBy: 60 },
+      ],
+    }],
+  };
+  const server = useMockGitHubServer(branchSeed);
+
+  const compareRequests = () => server().requests.filter(request => request.includes('/compare/'));
+
+  it('compares the most recently active branches within the budget and caches them by SHA', async () => {
+    const details = await fetchBranchDetails('acme', 'widgets', (await fetchBranches('acme', 'widgets')).data!);
+    const main = { name: 'main', sha: commits[1].sha };
+
+    const first = await fetchBranchComparisons('acme', 'widgets', main, details.data!, { maxComparisons: 2 });
+
+    expect(first.data).toEqual({
+      'feature/resizing': { ahead: 2, behind: 0, commitCount: 2 },
+      'fix/alignment': { ahead: 1, behind: 3, commitCount: 1 },
+    });
+    // Head SHAs are compared, asking for a single commit of the comparison
+    expect(compareRequests()).toEqual([
+      `/repos/acme/widgets/compare/${main.sha}...${commits[0].sha}?per_page=1`,
+      `/repos/acme/widgets/compare/${main.sha}...${commits[2].sha}?per_page=1`,
+    ]);
+
+    // Cached comparisons do not use the budget
+    const second = await fetchBranchComparisons('acme', 'widgets', main, details.data!, { maxComparisons: 2 });
+
+    expect(Object.keys(second.data!).sort()).toEqual(['docs', 'feature/resizing', 'fix/alignment']);
+    expect(compareRequests()).toHaveLength(3);
+  });
+
+  it('fills ahead, behind and commit counts of analyzed branches', async () => {
+    const result = await analyzeBranchPRs('acme', 'widgets', 'all');
+    const branches = result.data!.branches.branches;
+    const branch = (name: string) => branches.find(candidate => candidate.name === name);
+
+    expect(branch('fix/alignment')).toMatchObject({ ahead: 1, behind: 3, commitCount: 1, compared: true });
+    expect(branch('docs')).toMatchObject({ behind: 60, compared: true });
+    expect(branch('main')).toMatchObject({ ahead: 0, behind: 0, compared: false });
+  });
+
+  it('marks branches reachable from the default branch or merged through a pull request as merged', async () => {
+    const result = await analyzeBranchPRs('acme', 'widgets', 'all');
+    const status = Object.fromEntries(result.data!.branches.branches.map(branch => [branch.name, branch.status]));
+
+    // docs has no commits ahead of main; fix/alignment is the head of merged pull request #11
+    expect(status).toEqual({ 'main': 'active', 'feature/resizing': 'active', 'fix/alignment': 'merged', 'docs': 'merged' });
+    expect(result.data!.branches.branches.find(branch => branch.name === 'fix/alignment')?.mergedPullRequest).toBe(11);
+    expect(result.data!.branches.mergedBranches).toBe(2);
+  });
+});
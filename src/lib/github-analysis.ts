@@ -0,0 +1,372 @@
+/**
+ * GitHub repository analyses
+ * Computes the analyses served by the JSON routes under /api/repos/[owner]/[repo]
+ * on the server, so every chart uses the same token (the signed-in user's, or the
+ * server's) and the same caches: commits with changed files come from the
+ * incremental commit sync, branch and pull request data from GraphQL when
+ * authenticated and from the REST API otherwise.
+ */
+
+import {
+    fetchBranchComparisons,
+    fetchBranchDetails,
+    fetchBranches,
+    fetchPRReviews,
+    fetchPullRequests,
+    fetchRepository,
+    filterCommitsByTimePeriod,
+    generateBranchPRAnalysis,
+    getTimePeriodBounds,
+    hasGitHubToken,
+    processFileChangeData,
+    type BranchPRAnalysis,
+    type FileChangeAnalysis,
+    type GitHubApiResponse,
+    type GitHubHostOptions,
+    type Repository,
+    type TimePeriod,
+} from './github-api';
+import {
+    calculateContributorTrends,
+    filterCommitsByTimeRange,
+    transformToHeatmapData,
+    type ContributorAnalysis,
+    type HeatmapData,
+    type TimeRange,
+} from './commit-activity-data';
+import { syncCommitsWithFiles } from './commit-sync';
+import { createGitHubError, errorResponse, forwardError, isRateLimitError, type GitHubErrorKind } from './github-errors';
+import { fetchBranchPRAnalysisGraphQL, type GraphQLBranchPRCheckpoint } from './github-graphql';
+import type {
+    GitHubBranchListPayload,
+    GitHubBranchPayload,
+    GitHubPullRequestPayload,
+    GitHubReviewPayload,
+} from './github-models';
+import { toActivityCommits } from './repository-analysis';
+
+export type AnalysisPhase =
+    | 'fetching-repo'
+    | 'fetching-commits'
+    | 'fetching-branches'
+    | 'fetching-prs'
+    | 'fetching-reviews'
+    | 'processing'
+    | 'complete';
+
+export interface AnalysisProgress {
+    phase: AnalysisPhase;
+    progress: number; // 0-100
+    processed?: number; // Items of the current phase
+    total?: number;
+}
+
+/**
+ * What an analysis has fetched so far, kept by its job (see analysis-jobs.ts) so
+ * a run cut short by the rate limit resumes where it stopped. Commit analyses
+ * need none: the commit sync store remembers how far back it has ingested.
+ */
+export interface AnalysisCheckpoint {
+    branchPR?: BranchPRCheckpoint;
+}
+
+/**
+ * Branch and pull request data fetched so far; lists are only kept once fetched
+ * completely, as their pages come back as free 304s when fetched again
+ */
+export interface BranchPRCheckpoint {
+    graphql?: GraphQLBranchPRCheckpoint;
+    branches?: GitHubBranchListPayload[];
+    branchDetails: Record<string, GitHubBranchPayload>; // By branch name
+    pullRequests?: GitHubPullRequestPayload[];
+    reviews: Record<number, GitHubReviewPayload[]>; // By pull request number
+}
+
+export interface AnalysisOptions extends GitHubHostOptions {
+    signal?: AbortSignal;
+    onProgress?: (progress: AnalysisProgress) => void;
+    checkpoint?: AnalysisCheckpoint;
+    repository?: Repository; // Already fetched by the caller
+}
+
+export type AnalysisResponse<T> = GitHubApiResponse<T> & { rateLimitWarning?: boolean };
+
+export interface BranchPRAnalysisOptions extends AnalysisOptions {
+    reducedScope?: boolean; // Analyze fewer branches, pull requests and reviews of large repositories
+}
+
+export interface BranchPRAnalysisResponse extends AnalysisResponse<BranchPRAnalysis> {
+    dataPoints?: number;
+    largeRepository?: boolean;
+}
+
+const TIME_RANGE_DAYS: Record<TimeRange, number> = {
+    '30d': 30,
+    '3m': 90,
+    '6m': 180,
+    '1y': 365,
+};
+
+// Repositories above this size (in KB) are analyzed with a reduced scope on request
+const LARGE_REPOSITORY_SIZE = 100000;
+
+// GraphQL failures the REST API may not have: the token cannot use GraphQL, or the
+// query is not supported by the host (GitHub Enterprise Server versions)
+const GRAPHQL_FALLBACK_ERRORS: GitHubErrorKind[] = ['auth_required', 'forbidden', 'not_found', 'validation'];
+
+/**
+ * Report the progress of one phase, mapped onto its share of the whole analysis
+ */
+function reportPhase(
+    options: AnalysisOptions,
+    phase: AnalysisPhase,
+    [from, to]: [number, number]
+): (processed: number, total: number) => void {
+    return (processed, total) => options.onProgress?.({
+        phase,
+        progress: Math.round(from + (total > 0 ? (processed / total) * (to - from) : 0)),
+        processed,
+        total,
+    });
+}
+
+/**
+ * Sync the commits of a repository since a date
+ */
+async function syncCommits(owner: string, repo: string, since: string | undefined, options: AnalysisOptions) {
+    const { onProgress: _onProgress, checkpoint: _checkpoint, repository, ...requestOptions } = options;
+    const response = await syncCommitsWithFiles(owner, repo, {
+        since,
+        maxCommits: 1000,
+        rateLimitThreshold: 50,
+        ...requestOptions,
+        publicRepository: repository?.private === false,
+        onProgress: reportPhase(options, 'fetching-commits', [5, 90]),
+    });
+    options.onProgress?.({ phase: 'processing', progress: 90 });
+    return response;
+}
+
+/**
+ * Sync the commits of an activity time range, in the shape the activity charts use
+ */
+async function syncActivityCommits(owner: string, repo: string, timeRange: TimeRange, options: AnalysisOptions) {
+    const since = new Date(Date.now() - TIME_RANGE_DAYS[timeRange] * 24 * 60 * 60 * 1000).toISOString();
+    const response = await syncCommits(owner, repo, since, options);
+    return {
+        ...response,
+        data: response.data && filterCommitsByTimeRange(toActivityCommits(response.data), timeRange),
+    };
+}
+
+/**
+ * Most changed files, file type breakdown and change trends for a time period
+ */
+export async function analyzeFileChanges(
+    owner: string,
+    repo: string,
+    timePeriod: TimePeriod,
+    options: AnalysisOptions = {}
+): Promise<AnalysisResponse<FileChangeAnalysis>> {
+    const response = await syncCommits(owner, repo, getTimePeriodBounds(timePeriod).since, options);
+    if (response.error || !response.data) {
+        return forwardError(response);
+    }
+
+    return {
+        data: processFileChangeData(filterCommitsByTimePeriod(response.data, timePeriod), timePeriod),
+        rateLimit: response.rateLimit,
+        rateLimitWarning: Boolean(response.rateLimitWarning || (response.rateLimit && response.rateLimit.remaining < 50)),
+    };
+}
+
+/**
+ * Commits per day for the activity heatmap
+ */
+export async function analyzeCommitActivity(
+    owner: string,
+    repo: string,
+    timeRange: TimeRange,
+    options: AnalysisOptions = {}
+): Promise<AnalysisResponse<HeatmapData>> {
+    const response = await syncActivityCommits(owner, repo, timeRange, options);
+    if (response.error || !response.data) {
+        return forwardError(response);
+    }
+
+    return {
+        data: transformToHeatmapData(response.data, timeRange),
+        rateLimit: response.rateLimit,
+        rateLimitWarning: response.rateLimitWarning,
+    };
+}
+
+/**
+ * Commit trends of the most active contributors
+ */
+export async function analyzeContributorTrends(
+    owner: string,
+    repo: string,
+    timeRange: TimeRange,
+    options: AnalysisOptions = {}
+): Promise<AnalysisResponse<ContributorAnalysis>> {
+    const response = await syncActivityCommits(owner, repo, timeRange, options);
+    if (response.error || !response.data) {
+        return forwardError(response);
+    }
+
+    return {
+        data: calculateContributorTrends(response.data, timeRange),
+        rateLimit: response.rateLimit,
+        rateLimitWarning: response.rateLimitWarning,
+    };
+}
+
+/**
+ * Branch, pull request and review analytics for a time period
+ * Uses GraphQL when authenticated, which fetches pull requests together with their
+ * reviews, and falls back to the REST API (reviews of the 50 latest pull requests).
+ */
+export async function analyzeBranchPRs(
+    owner: string,
+    repo: string,
+    timePeriod: TimePeriod,
+    options: BranchPRAnalysisOptions = {}
+): Promise<BranchPRAnalysisResponse> {
+    const {
+        reducedScope = false,
+        repository: knownRepository,
+        onProgress,
+        checkpoint: jobCheckpoint = {},
+        ...requestOptions
+    } = options;
+    const checkpoint = jobCheckpoint.branchPR ??= { branchDetails: {}, reviews: {} };
+
+    let repository = knownRepository;
+    if (!repository) {
+        onProgress?.({ phase: 'fetching-repo', progress: 5 });
+        const repoResponse = await fetchRepository(owner, repo, requestOptions);
+        if (repoResponse.error || !repoResponse.data) {
+            return forwardError(repoResponse);
+        }
+        repository = repoResponse.data;
+    }
+
+    const largeRepository = (repository.size || 0) > LARGE_REPOSITORY_SIZE;
+    const reduced = largeRepository && reducedScope;
+
+    // The repository has been looked up, so a GitHub App installation for it is known
+    if (hasGitHubToken(options.host, options.token, { owner, repo })) {
+        const graphqlResponse = await fetchBranchPRAnalysisGraphQL(owner, repo, timePeriod, {
+            ...requestOptions,
+            maxPullRequests: reduced ? 250 : 1000,
+            maxComparisons: reduced ? 10 : 30,
+            publicRepository: !repository.private,
+            onProgress: reportPhase(options, 'fetching-prs', [15, 90]),
+            checkpoint: checkpoint.graphql ??= { branches: [], pullRequests: [], reviews: [] },
+        });
+        // Only what GraphQL cannot do falls back to REST; a rate limit pauses the job,
+        // which resumes from the GraphQL checkpoint once the limit is lifted
+        const kind = graphqlResponse.errorInfo?.kind;
+        if (graphqlResponse.data || !kind || !GRAPHQL_FALLBACK_ERRORS.includes(kind)) {
+            return { ...graphqlResponse, largeRepository };
+        }
+
+        console.warn('GraphQL analysis failed, falling back to REST API:', graphqlResponse.error);
+    }
+
+    // Branch list, with the latest commit of a limited number of branches (the
+    // list has no commit dates)
+    const branchResponse = checkpoint.branches
+        ? { data: checkpoint.branches }
+        : await fetchBranches(owner, repo, {
+            ...requestOptions,
+            maxItems: reduced ? 500 : 1000,
+            rateLimitThreshold: 10,
+            pageDelay: 100,
+            onProgress: reportPhase(options, 'fetching-branches', [15, 30]),
+        });
+    if (branchResponse.data && !branchResponse.rateLimitWarning) {
+        checkpoint.branches = branchResponse.data;
+    }
+
+    const detailedBranches = (branchResponse.data || []).slice(0, reduced ? 50 : 100);
+    const branchDetails = await fetchBranchDetails(
+        owner,
+        repo,
+        detailedBranches.filter(branch => !checkpoint.branchDetails[branch.name]),
+        { ...requestOptions, onProgress: reportPhase(options, 'fetching-branches', [30, 36]) }
+    );
+    branchDetails.data?.forEach(branch => {
+        checkpoint.branchDetails[branch.name] = branch;
+    });
+
+    // Ahead/behind counts of the most recently active branches; comparisons are
+    // cached by SHA, so a resumed job does not compare them again
+    const defaultBranch = repository.default_branch || 'main';
+    const branches = detailedBranches.flatMap(branch => checkpoint.branchDetails[branch.name] || []);
+    const defaultBranchSha = branchResponse.data?.find(branch => branch.name === defaultBranch)?.commit.sha;
+    const comparisonResponse = defaultBranchSha
+        ? await fetchBranchComparisons(owner, repo, { name: defaultBranch, sha: defaultBranchSha }, branches, {
+            ...requestOptions,
+            maxComparisons: reduced ? 10 : 30,
+            publicRepository: !repository.private,
+            onProgress: reportPhase(options, 'fetching-branches', [36, 40]),
+        })
+        : { data: {}, rateLimitWarning: false };
+
+    const prResponse = checkpoint.pullRequests
+        ? { data: checkpoint.pullRequests }
+        : await fetchPullRequests(owner, repo, 'all', {
+            ...requestOptions,
+            maxItems: reduced ? 500 : 1000,
+            rateLimitThreshold: 5,
+            pageDelay: 150,
+            onProgress: reportPhase(options, 'fetching-prs', [40, 70]),
+        });
+    if (prResponse.data && !prResponse.rateLimitWarning) {
+        checkpoint.pullRequests = prResponse.data;
+    }
+    if (prResponse.error && branchResponse.error) {
+        return forwardError(prResponse);
+    }
+
+    // Reviews are requested all at once; the request scheduler limits how many run
+    // in parallel and pauses them on secondary rate limits
+    const pullRequests = prResponse.data || [];
+    const reviewedPRs = pullRequests.slice(0, reduced ? 25 : 50);
+    const reportReviews = reportPhase(options, 'fetching-reviews', [70, 90]);
+    let reviewsFetched = 0;
+    const reviewResponses = await Promise.all(reviewedPRs.map(async pr => {
+        const response = checkpoint.reviews[pr.number]
+            ? { data: checkpoint.reviews[pr.number] }
+            : await fetchPRReviews(owner, repo, pr.number, requestOptions);
+        if (response.data) {
+            checkpoint.reviews[pr.number] = response.data;
+        }
+        reportReviews(++reviewsFetched, reviewedPRs.length);
+        return response;
+    }));
+
+    if (options.signal?.aborted) {
+        return errorResponse(createGitHubError('cancelled'));
+    }
+
+    onProgress?.({ phase: 'processing', progress: 90 });
+    const reviews = reviewResponses.flatMap(response => response.data || []);
+    const rateLimitWarning = Boolean(
+        branchResponse.rateLimitWarning ||
+        comparisonResponse.rateLimitWarning ||
+        prResponse.rateLimitWarning ||
+        [branchResponse, prResponse, ...reviewResponses].some(response => isRateLimitError(response.errorInfo)) ||
+        (prResponse.rateLimit && prResponse.rateLimit.remaining < 30)
+    );
+
+    return {
+        data: generateBranchPRAnalysis(branches, pullRequests, reviews, defaultBranch, timePeriod, comparisonResponse.data),
+        rateLimit: prResponse.rateLimit || branchResponse.rateLimit,
+        rateLimitWarning,
+        dataPoints: branches.length + pullRequests.length + reviews.length,
+        largeRepository,
+    };
+}
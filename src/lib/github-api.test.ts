@@ -1,3 +1,4 @@
+import { vi } from 'vitest';
 import {
   categorizeFileType,
   getTimePeriodBounds,
@@ -16,8 +17,22 @@ import {
   getCommitActivityCacheStats,
   handleCommitActivityError,
   retryWithBackoff,
+  fetchRepository,
+  fetchBranches,
+  parseLinkHeader,
+  paginateGitHubRequest,
+  summarizeDurations,
+  processPRData,
+  attachReviewData,
+  processReviewData,
+  calculatePRAnalytics,
+  analyzePRPatterns,
+  generateReviewPatterns,
+  markMergedBranches,
+  processBranchData,
 } from './github-api';
-import type { CommitFileData, FileChangeData, TimePeriod } from './github-api';
+import type { BranchData, CommitFileData, FileChangeData, PRData, TimePeriod } from './github-api';
+import type { GitHubPullRequestPayload, GitHubReviewPayload } from './github-models';
 
 describe('GitHub API Utilities', () => {
   describe('categorizeFileType', () => {
@@ -82,12 +97,12 @@ describe('GitHub API Utilities', () => {
 
   describe('getTimePeriodBounds', () => {
     beforeEach(() => {
-      jest.useFakeTimers();
-      jest.setSystemTime(new Date('2024-01-15T12:00:00Z'));
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-01-15T12:00:00Z'));
     });
 
     afterEach(() => {
-      jest.useRealTimers();
+      vi.useRealTimers();
     });
 
     it('calculates 30 day bounds correctly', () => {
@@ -137,12 +152,12 @@ describe('GitHub API Utilities', () => {
     ];
 
     beforeEach(() => {
-      jest.useFakeTimers();
-      jest.setSystemTime(new Date('2024-01-15T12:00:00Z'));
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-01-15T12:00:00Z'));
     });
 
     afterEach(() => {
-      jest.useRealTimers();
+      vi.useRealTimers();
     });
 
     it('filters commits by 30 day period', () => {
@@ -274,9 +289,22 @@ describe('GitHub API Utilities', () => {
       expect(result).toEqual({ owner: 'owner', repo: 'repo' });
     });
 
+    it('parses GitHub Enterprise Server URLs with their host', () => {
+      expect(parseGitHubUrl('https://ghe.example.com/owner/repo')).toEqual({
+        owner: 'owner',
+        repo: 'repo',
+        host: 'ghe.example.com',
+      });
+      expect(parseGitHubUrl('GHE.example.com/owner/repo.git')).toEqual({
+        owner: 'owner',
+        repo: 'repo',
+        host: 'ghe.example.com',
+      });
+    });
+
     it('returns null for invalid URLs', () => {
       expect(parseGitHubUrl('invalid-url')).toBeNull();
-      expect(parseGitHubUrl('https://example.com/owner/repo')).toBeNull();
+      expect(parseGitHubUrl('https://not a host/owner/repo')).toBeNull();
     });
   });
 
@@ -296,12 +324,12 @@ describe('GitHub API Utilities', () => {
 
   describe('getRateLimitResetTime', () => {
     beforeEach(() => {
-      jest.useFakeTimers();
-      jest.setSystemTime(new Date('2024-01-15T12:00:00Z'));
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-01-15T12:00:00Z'));
     });
 
     afterEach(() => {
-      jest.useRealTimers();
+      vi.useRealTimers();
     });
 
     it('returns time until reset', () => {
@@ -417,12 +445,12 @@ describe('GitHub API Utilities', () => {
     ];
 
     beforeEach(() => {
-      jest.useFakeTimers();
-      jest.setSystemTime(new Date('2024-01-15T12:00:00Z'));
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-01-15T12:00:00Z'));
     });
 
     afterEach(() => {
-      jest.useRealTimers();
+      vi.useRealTimers();
     });
 
     it('identifies hotspots correctly', () => {
@@ -449,11 +477,144 @@ describe('GitHub API Utilities', () => {
       expect(patterns.deletedFiles[0].filename).toBe('deleted.js');
     });
   });
+
+  describe('review timings', () => {
+    const pullRequest = (number: number, createdAt: string): GitHubPullRequestPayload => ({
+      number,
+      title: `PR ${number}`,
+      state: 'open',
+      created_at: createdAt,
+      user: { login: 'author' },
+    });
+    const review = (prNumber: number, login: string, state: GitHubReviewPayload['state'], submittedAt: string): GitHubReviewPayload => ({
+      pull_request_number: prNumber,
+      user: { login },
+      state,
+      submitted_at: submittedAt,
+    });
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-05-10T12:00:00Z'));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const pullRequests = [
+      pullRequest(1, '2024-05-01T00:00:00Z'),
+      pullRequest(2, '2024-05-01T00:00:00Z'),
+      pullRequest(3, '2024-05-01T00:00:00Z'),
+    ];
+    const reviews = [
+      // PR 1: the author's own comment does not count, first review after 2h, approval after 6h
+      review(1, 'author', 'COMMENTED', '2024-05-01T01:00:00Z'),
+      review(1, 'alice', 'CHANGES_REQUESTED', '2024-05-01T02:00:00Z'),
+      review(1, 'bob', 'APPROVED', '2024-05-01T06:00:00Z'),
+      review(1, 'alice', 'APPROVED', '2024-05-01T08:00:00Z'),
+      // PR 2: approved after 4h
+      review(2, 'alice', 'APPROVED', '2024-05-01T04:00:00Z'),
+      // PR 3: first review after 30h, not approved
+      review(3, 'bob', 'COMMENTED', '2024-05-02T06:00:00Z'),
+      review(3, 'carol', 'PENDING', '2024-05-01T01:00:00Z'),
+    ];
+
+    it('summarizes durations with interpolated percentiles', () => {
+      expect(summarizeDurations([4, 1, 2, 3, 10])).toEqual({ mean: 4, median: 3, p90: 7.6, count: 5 });
+      expect(summarizeDurations([])).toEqual({ mean: 0, median: 0, p90: 0, count: 0 });
+    });
+
+    it('attaches review counts, reviewers and timings to pull requests', () => {
+      const [first, second, third] = attachReviewData(processPRData(pullRequests, '30d'), reviews);
+
+      expect(first).toMatchObject({ reviewCount: 3, reviewers: ['alice', 'bob'], timeToFirstReview: 2, timeToApproval: 6 });
+      expect(second).toMatchObject({ reviewCount: 1, reviewers: ['alice'], timeToFirstReview: 4, timeToApproval: 4 });
+      expect(third).toMatchObject({ reviewCount: 1, reviewers: ['bob'], timeToFirstReview: 30, timeToApproval: undefined });
+    });
+
+    it('measures time to first review and approval overall and per reviewer', () => {
+      const analytics = processReviewData(reviews, processPRData(pullRequests, '30d'));
+
+      expect(analytics.timeToFirstReview).toEqual({ mean: 12, median: 4, p90: 24.8, count: 3 });
+      expect(analytics.averageTimeToFirstReview).toBe(12);
+      expect(analytics.timeToApproval).toEqual({ mean: 5, median: 5, p90: 5.8, count: 2 });
+      expect(analytics.averageTimeToApproval).toBe(5);
+
+      const alice = analytics.topReviewers.find(reviewer => reviewer.username === 'alice');
+      const bob = analytics.topReviewers.find(reviewer => reviewer.username === 'bob');
+      expect(alice).toMatchObject({ averageResponseTime: 3, responseTime: { mean: 3, median: 3, p90: 3.8, count: 2 } });
+      expect(bob).toMatchObject({ averageResponseTime: 18, responseTime: { mean: 18, median: 18, p90: 27.6, count: 2 } });
+    });
+
+    it('only counts reviews of the pull requests in the period', () => {
+      const outside = [
+        review(4, 'alice', 'APPROVED', '2024-05-01T03:00:00Z'),
+        review(4, 'dave', 'CHANGES_REQUESTED', '2024-05-01T05:00:00Z'),
+      ];
+      const analytics = processReviewData([...reviews, ...outside], processPRData(pullRequests, '30d'));
+
+      // The six submitted reviews of pull requests 1 to 3; pull request 4 is outside the period
+      expect(analytics.totalReviews).toBe(6);
+      expect(analytics.averageReviewsPerPR).toBe(2);
+      expect(analytics.topReviewers.map(reviewer => reviewer.username)).not.toContain('dave');
+      const alice = analytics.topReviewers.find(reviewer => reviewer.username === 'alice');
+      expect(alice).toMatchObject({ reviewCount: 3, approvalRate: (2 / 3) * 100, responseTime: { count: 2 } });
+    });
+
+    it('uses the attached timings for review time and review cycle', () => {
+      const processed = attachReviewData(processPRData(pullRequests, '30d'), reviews);
+
+      expect(calculatePRAnalytics(processed, '30d')).toMatchObject({
+        averageReviewTime: 12,
+        reviewTime: { median: 4, p90: 24.8, count: 3 },
+      });
+      // PR 1 waited 4h from first review to approval, PR 2 was approved in its first review
+      expect(analyzePRPatterns(processed).averageReviewCycle).toBe(2);
+    });
+
+    it('buckets review activity by day with each reviewer\'s load', () => {
+      expect(generateReviewPatterns(reviews, '30d')).toEqual([
+        {
+          date: '2024-05-01',
+          reviewsGiven: 5,
+          approvalsGiven: 3,
+          changeRequestsGiven: 1,
+          reviewsByReviewer: { author: 1, alice: 3, bob: 1 },
+        },
+        {
+          date: '2024-05-02',
+          reviewsGiven: 1,
+          approvalsGiven: 0,
+          changeRequestsGiven: 0,
+          reviewsByReviewer: { bob: 1 },
+        },
+      ]);
+    });
+
+    it('leaves out reviews submitted before the time period', () => {
+      // 2024-05-01 and 2024-05-02 are more than 30 days back
+      vi.setSystemTime(new Date('2024-06-15T12:00:00Z'));
+
+      expect(generateReviewPatterns(reviews, '30d')).toEqual([]);
+      expect(generateReviewPatterns(reviews, '90d').map(pattern => pattern.date)).toEqual(['2024-05-01', '2024-05-02']);
+      expect(processReviewData(reviews, [], '30d').reviewPatterns).toEqual([]);
+    });
+
+    it('buckets review activity by week for longer periods', () => {
+      // 2024-05-01 is a Wednesday; its week starts on Sunday 2024-04-28
+      const patterns = generateReviewPatterns([...reviews, review(2, 'carol', 'APPROVED', '2024-05-06T09:00:00Z')], '6m');
+
+      expect(patterns.map(pattern => [pattern.date, pattern.reviewsGiven])).toEqual([['2024-04-28', 6], ['2024-05-05', 1]]);
+      expect(patterns[0].reviewsByReviewer).toEqual({ author: 1, alice: 3, bob: 2 });
+      expect(processReviewData(reviews, [], '6m').reviewPatterns).toHaveLength(1);
+    });
+  });
 });
 
 describe('Commit Activity API Functions', () => {
   // Mock fetch function
-  const mockFetch = jest.fn();
+  const mockFetch = vi.fn();
   global.fetch = mockFetch;
 
   beforeEach(() => {
@@ -580,11 +741,17 @@ describe('Commit Activity API Functions', () => {
     });
 
     it('should handle network errors', async () => {
-      mockFetch.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+      vi.useFakeTimers();
+      mockFetch.mockRejectedValue(new TypeError('Failed to fetch'));
 
-      const result = await fetchCommitActivityData('owner', 'repo', '30d');
+      // Network errors are retried with exponential backoff before giving up
+      const pending = fetchCommitActivityData('owner', 'repo', '30d');
+      await vi.runAllTimersAsync();
+      const result = await pending;
+      vi.useRealTimers();
 
       expect(result.error).toContain('Network error');
+      expect(mockFetch).toHaveBeenCalledTimes(4);
     });
 
     it('should respect maxCommits option', async () => {
@@ -655,7 +822,7 @@ describe('Commit Activity API Functions', () => {
     });
 
     it('should call progress callback', async () => {
-      const progressCallback = jest.fn();
+      const progressCallback = vi.fn();
 
       mockFetch
         .mockResolvedValueOnce({
@@ -720,7 +887,156 @@ describe('Commit Activity API Functions', () => {
     });
   });
 
+  describe('Pagination', () => {
+    const page = (items: unknown[], link?: string, remaining = '4999') => ({
+      ok: true,
+      status: 200,
+      headers: new Headers({
+        'x-ratelimit-remaining': remaining,
+        'x-ratelimit-reset': '1640995200',
+        'x-ratelimit-limit': '5000',
+        ...(link && { link }),
+      }),
+      json: () => Promise.resolve(items),
+    });
+
+    const branch = (name: string) => ({ name, commit: { sha: `${name}1f2e3d` }, protected: false });
+
+    const nextLink = (pageNumber: number, last = 3) =>
+      `<https://api.github.com/repositories/1/branches?per_page=2&page=${pageNumber}>; rel="next", ` +
+      `<https://api.github.com/repositories/1/branches?per_page=2&page=${last}>; rel="last"`;
+
+    beforeEach(() => {
+      mockFetch.mockReset();
+    });
+
+    it('should parse Link headers into endpoints', () => {
+      expect(parseLinkHeader(nextLink(2))).toEqual({
+        next: '/repositories/1/branches?per_page=2&page=2',
+        last: '/repositories/1/branches?per_page=2&page=3',
+      });
+      expect(parseLinkHeader(null)).toEqual({});
+    });
+
+    it('should follow rel="next" until the last page', async () => {
+      mockFetch
+        .mockResolvedValueOnce(page([branch('a'), branch('b')], nextLink(2)))
+        .mockResolvedValueOnce(page([branch('c'), branch('d')], nextLink(3)))
+        .mockResolvedValueOnce(page([branch('e')]));
+
+      const result = await fetchBranches('owner', 'repo');
+
+      expect(result.data?.map(branch => branch.name)).toEqual(['a', 'b', 'c', 'd', 'e']);
+      expect(mockFetch.mock.calls[1][0]).toBe('https://api.github.com/repositories/1/branches?per_page=2&page=2');
+    });
+
+    it('should keep going after a short page when a next link exists', async () => {
+      mockFetch
+        .mockResolvedValueOnce(page([branch('a')], nextLink(2)))
+        .mockResolvedValueOnce(page([branch('b')]));
+
+      const result = await fetchBranches('owner', 'repo');
+
+      expect(result.data).toHaveLength(2);
+    });
+
+    it('should stop at the max-items budget', async () => {
+      mockFetch
+        .mockResolvedValueOnce(page([branch('a'), branch('b')], nextLink(2)))
+        .mockResolvedValueOnce(page([branch('c'), branch('d')], nextLink(3)));
+
+      const result = await fetchBranches('owner', 'repo', { maxItems: 3 });
+
+      expect(result.data?.map(branch => branch.name)).toEqual(['a', 'b', 'c']);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop and warn when the rate limit threshold is reached', async () => {
+      mockFetch.mockResolvedValueOnce(page([branch('a'), branch('b')], nextLink(2), '5'));
+
+      const result = await fetchBranches('owner', 'repo', { rateLimitThreshold: 10 });
+
+      expect(result.data).toHaveLength(2);
+      expect(result.rateLimitWarning).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report progress using the last page estimate', async () => {
+      const onProgress = vi.fn();
+      mockFetch
+        .mockResolvedValueOnce(page([branch('a'), branch('b')], nextLink(2)))
+        .mockResolvedValueOnce(page([branch('c')]));
+
+      await fetchBranches('owner', 'repo', { onProgress });
+
+      expect(onProgress).toHaveBeenNthCalledWith(1, 2, 6);
+      expect(onProgress).toHaveBeenNthCalledWith(2, 3, 3);
+    });
+
+    it('should honor AbortSignal between pages', async () => {
+      const controller = new AbortController();
+      mockFetch.mockImplementationOnce(async () => {
+        controller.abort();
+        return page([branch('a')], nextLink(2));
+      });
+
+      const pages = [];
+      for await (const result of paginateGitHubRequest('/repos/owner/repo/branches', { signal: controller.signal })) {
+        pages.push(result);
+      }
+
+      expect(pages).toHaveLength(2);
+      expect(pages[0].data).toHaveLength(1);
+      expect(pages[1].error).toBe('Request was cancelled');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should request enterprise hosts and follow their links', async () => {
+      vi.stubEnv('GITHUB_TOKEN_GHE_EXAMPLE_COM', 'ghe-token');
+      const enterpriseLink = '<https://ghe.example.com/api/v3/repositories/1/branches?per_page=2&page=2>; rel="next"';
+      mockFetch
+        .mockResolvedValueOnce(page([branch('a')], enterpriseLink))
+        .mockResolvedValueOnce(page([branch('b')]));
+
+      const result = await fetchBranches('owner', 'repo', { host: 'ghe.example.com' });
+
+      expect(result.data).toHaveLength(2);
+      expect(mockFetch.mock.calls[0][0]).toBe('https://ghe.example.com/api/v3/repos/owner/repo/branches?per_page=100');
+      expect(mockFetch.mock.calls[1][0]).toBe('https://ghe.example.com/api/v3/repositories/1/branches?per_page=2&page=2');
+      expect((mockFetch.mock.calls[0][1]?.headers as Record<string, string>).Authorization).toBe('Bearer ghe-token');
+      vi.unstubAllEnvs();
+    });
+
+    it('should surface errors from any page', async () => {
+      mockFetch
+        .mockResolvedValueOnce(page([branch('a')], nextLink(2)))
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 404,
+          headers: new Headers(),
+          json: () => Promise.resolve({ message: 'Not Found' }),
+        });
+
+      const result = await fetchBranches('owner', 'repo');
+
+      expect(result.error).toBe('Repository not found');
+    });
+
+    it('should report list items with an unexpected shape as errors', async () => {
+      mockFetch.mockResolvedValueOnce(page([branch('a'), { name: 'b' }]));
+
+      const result = await fetchBranches('owner', 'repo');
+
+      expect(result.data).toBeUndefined();
+      expect(result.error).toBe('Unexpected response from GitHub: response[1].commit should be an object');
+    });
+  });
+
   describe('Cache Management', () => {
+    beforeEach(() => {
+      mockFetch.mockReset();
+    });
+
     it('should clear cache for specific repository', () => {
       // Populate cache with test data
       clearCommitActivityCache();
@@ -744,6 +1060,95 @@ describe('Commit Activity API Functions', () => {
       expect(stats.expiredEntries).toBe(0);
     });
 
+    it('should revalidate with ETag and serve the stored body on 304', async () => {
+      const repository = { name: 'repo', full_name: 'owner/repo' };
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          headers: new Headers({ 'etag': '"abc"', 'x-ratelimit-remaining': '4999' }),
+          json: async () => repository,
+        })
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 304,
+          headers: new Headers({ 'x-ratelimit-remaining': '4999' }),
+          json: async () => { throw new Error('304 has no body'); },
+        });
+
+      const first = await fetchRepository('owner', 'repo');
+      const second = await fetchRepository('owner', 'repo');
+
+      expect(first.data).toEqual(repository);
+      expect(second.data).toEqual(repository);
+      expect(mockFetch.mock.calls[0][1].headers['If-None-Match']).toBeUndefined();
+      expect(mockFetch.mock.calls[1][1].headers['If-None-Match']).toBe('"abc"');
+
+      const stats = getCommitActivityCacheStats();
+      expect(stats.misses).toBe(1);
+      expect(stats.revalidated).toBe(1);
+      expect(stats.validatorEntries).toBe(1);
+      expect(stats.cacheHitRate).toBe(0.5);
+    });
+
+    it('should send If-Modified-Since when only Last-Modified is available', async () => {
+      const lastModified = 'Mon, 15 Jan 2024 10:00:00 GMT';
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          headers: new Headers({ 'last-modified': lastModified }),
+          json: async () => ({ name: 'repo' }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          headers: new Headers(),
+          json: async () => ({ name: 'repo-renamed' }),
+        });
+
+      await fetchRepository('owner', 'repo');
+      const second = await fetchRepository('owner', 'repo');
+
+      expect(mockFetch.mock.calls[1][1].headers['If-Modified-Since']).toBe(lastModified);
+      expect(second.data).toEqual({ name: 'repo-renamed' });
+      expect(getCommitActivityCacheStats().misses).toBe(2);
+    });
+
+    it('should drop stored validators when clearing a repository', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'etag': '"abc"' }),
+        json: async () => ({ name: 'repo' }),
+      });
+
+      await fetchRepository('owner', 'repo');
+      expect(getCommitActivityCacheStats().validatorEntries).toBe(1);
+
+      clearCommitActivityCache('owner', 'repo');
+
+      await fetchRepository('owner', 'repo');
+      expect(mockFetch.mock.calls[1][1].headers['If-None-Match']).toBeUndefined();
+    });
+
+    it('should count in-memory cache hits', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: async () => [],
+      });
+
+      await fetchContributorCommits('owner', 'repo', 'johndoe', '30d');
+      await fetchContributorCommits('owner', 'repo', 'johndoe', '30d');
+
+      const stats = getCommitActivityCacheStats();
+      expect(stats.hits).toBe(1);
+      expect(stats.misses).toBe(1);
+      expect(stats.cacheHitRate).toBe(0.5);
+    });
+
     it('should provide cache statistics', () => {
       clearCommitActivityCache();
       
@@ -800,12 +1205,17 @@ describe('Commit Activity API Functions', () => {
   });
 
   describe('Retry Mechanism', () => {
+    const unavailable = {
+      error: 'GitHub API is temporarily unavailable',
+      errorInfo: { kind: 'server' as const, message: 'GitHub API is temporarily unavailable', status: 503 },
+    };
+
     it('should retry failed operations with exponential backoff', async () => {
       let attemptCount = 0;
-      const mockOperation = jest.fn().mockImplementation(() => {
+      const mockOperation = vi.fn().mockImplementation(() => {
         attemptCount++;
         if (attemptCount < 3) {
-          return Promise.resolve({ error: 'GitHub API is temporarily unavailable' });
+          return Promise.resolve(unavailable);
         }
         return Promise.resolve({ data: 'success' });
       });
@@ -818,7 +1228,10 @@ describe('Commit Activity API Functions', () => {
     });
 
     it('should not retry client errors', async () => {
-      const mockOperation = jest.fn().mockResolvedValue({ error: 'Repository not found' });
+      const mockOperation = vi.fn().mockResolvedValue({
+        error: 'Repository not found',
+        errorInfo: { kind: 'not_found', message: 'Repository not found', status: 404 },
+      });
 
       const result = await retryWithBackoff(mockOperation, 3, 100);
 
@@ -828,7 +1241,7 @@ describe('Commit Activity API Functions', () => {
 
     it('should respect cancellation signal', async () => {
       const controller = new AbortController();
-      const mockOperation = jest.fn().mockResolvedValue({ error: 'Server error' });
+      const mockOperation = vi.fn().mockResolvedValue({ error: 'Server error' });
 
       // Cancel immediately
       controller.abort();
@@ -840,7 +1253,7 @@ describe('Commit Activity API Functions', () => {
     });
 
     it('should return last error after max retries', async () => {
-      const mockOperation = jest.fn().mockResolvedValue({ error: 'GitHub API is temporarily unavailable' });
+      const mockOperation = vi.fn().mockResolvedValue(unavailable);
 
       const result = await retryWithBackoff(mockOperation, 2, 50);
 
@@ -849,7 +1262,7 @@ describe('Commit Activity API Functions', () => {
     });
 
     it('should handle exceptions during retry', async () => {
-      const mockOperation = jest.fn().mockRejectedValue(new Error('Network failure'));
+      const mockOperation = vi.fn().mockRejectedValue(new Error('Network failure'));
 
       const result = await retryWithBackoff(mockOperation, 2, 50);
 
@@ -857,4 +1270,88 @@ describe('Commit Activity API Functions', () => {
       expect(result.error).toBe('Network error occurred during retry attempt');
     });
   });
-});
\ No newline at end of file
+});
+
+describe('markMergedBranches', () => {
+  const branch = (name: string, lastCommitSha: string, isDefault = false): BranchData => ({
+    name,
+    lastCommitDate: '2024-05-01T00:00:00Z',
+    commitCount: 0,
+    status: 'active',
+    isDefault,
+    ahead: 0,
+    behind: 0,
+    author: 'alice',
+    lastCommitSha,
+    lastCommitMessage: 'Work',
+  });
+  const pullRequest = (number: number, state: PRData['state'], headBranch: string, headSha?: string): PRData => ({
+    number,
+    title: `PR ${number}`,
+    state,
+    createdAt: '2024-04-01T00:00:00Z',
+    author: 'alice',
+    reviewCount: 0,
+    linesChanged: 0,
+    additions: 0,
+    deletions: 0,
+    reviewers: [],
+    labels: [],
+    isDraft: false,
+    headBranch,
+    headSha,
+  });
+
+  it('marks the heads of merged pull requests that have not moved since', () => {
+    const branches = markMergedBranches(
+      [branch('main', 'a', true), branch('squashed', 'b'), branch('moved-on', 'c'), branch('open', 'd'), branch('no-sha', 'e')],
+      [
+        pullRequest(1, 'merged', 'main', 'a'),
+        pullRequest(2, 'merged', 'squashed', 'b'),
+        pullRequest(3, 'merged', 'moved-on', 'old'),
+        pullRequest(4, 'open', 'open', 'd'),
+        pullRequest(5, 'merged', 'no-sha'),
+      ]
+    );
+
+    expect(branches.map(({ name, status, mergedPullRequest }) => [name, status, mergedPullRequest])).toEqual([
+      ['main', 'active', undefined],
+      ['squashed', 'merged', 2],
+      ['moved-on', 'active', undefined],
+      ['open', 'active', undefined],
+      ['no-sha', 'merged', 5],
+    ]);
+  });
+});
+
+describe('processBranchData', () => {
+  const payload = (name: string) => ({
+    name,
+    commit: {
+      sha: `${name}-sha`,
+      commit: { author: { name: 'alice', date: new Date().toISOString() }, message: 'Work' },
+    },
+  });
+
+  it('marks branches the default branch has moved past as merged', () => {
+    const branches = processBranchData(
+      [payload('main'), payload('merged'), payload('new'), payload('ahead'), payload('uncompared')],
+      'main',
+      'all',
+      {
+        main: { ahead: 0, behind: 0, commitCount: 0 },
+        merged: { ahead: 0, behind: 2, commitCount: 0 },
+        new: { ahead: 0, behind: 0, commitCount: 0 },
+        ahead: { ahead: 1, behind: 2, commitCount: 1 },
+      }
+    );
+
+    expect(branches.map(({ name, status }) => [name, status])).toEqual([
+      ['main', 'active'],
+      ['merged', 'merged'],
+      ['new', 'active'],
+      ['ahead', 'active'],
+      ['uncompared', 'active'],
+    ]);
+  });
+});
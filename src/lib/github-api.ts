@@ -3,6 +3,64 @@
  * Handles repository data fetching with proper error handling and rate limiting
  */
 
+import {
+    DEFAULT_GITHUB_HOST,
+    getGitHubApiBase,
+    getGitHubToken,
+    isDefaultGitHubHost,
+    isValidHostname,
+    normalizeGitHubHost,
+} from './github-hosts';
+import { getGitHubTransport, hasBrowserSession } from './github-transport';
+import { getCredentialId, getEndpointRepository, getGitHubAuthStrategy, getRequestToken } from './github-auth-strategy';
+import { getAnalysisCache } from './analysis-cache';
+import { getRequestScheduler, RequestPausedError } from './github-scheduler';
+import {
+    createGitHubError,
+    errorResponse,
+    forwardError,
+    getStatusErrorKind,
+    isRateLimitError,
+    RATE_LIMIT_ERROR,
+    toGitHubError,
+} from './github-errors';
+import type { GitHubError } from './github-errors';
+import {
+    parseBranch,
+    parseBranchListItem,
+    parseCommit,
+    parseCommitDetail,
+    parseComparison,
+    parseList,
+    parsePullRequest,
+    parseReview,
+    parseUserAccount,
+    PayloadValidationError,
+} from './github-models';
+import type {
+    GitHubBranchListPayload,
+    GitHubBranchPayload,
+    GitHubCommit,
+    GitHubComparePayload,
+    GitHubPullRequestPayload,
+    GitHubReviewPayload,
+    GitHubUserPayload,
+} from './github-models';
+
+export type {
+    GitHubBranchListPayload,
+    GitHubBranchPayload,
+    GitHubCommit,
+    GitHubCommitDetailPayload,
+    GitHubCommitFilePayload,
+    GitHubCommitFileStatus,
+    GitHubComparePayload,
+    GitHubPullRequestPayload,
+    GitHubReviewPayload,
+    GitHubReviewState,
+    GitHubUserPayload,
+} from './github-models';
+
 // GitHub API Response Types
 export interface Repository {
     name: string;
@@ -15,6 +73,16 @@ export interface Repository {
     updated_at: string;
     private: boolean;
     html_url: string;
+    default_branch?: string;
+    size?: number; // KB
+    // Access of the authenticated user; only sent for authenticated requests
+    permissions?: {
+        admin: boolean;
+        maintain?: boolean;
+        push: boolean;
+        triage?: boolean;
+        pull: boolean;
+    };
 }
 
 export interface Contributor {
@@ -31,6 +99,22 @@ export interface CommitActivity {
     days: number[]; // Array of 7 numbers (Sun-Sat)
 }
 
+// Weekly activity of one contributor from /stats/contributors
+export interface ContributorActivity {
+    author: { login: string; avatar_url: string; html_url: string } | null;
+    total: number;
+    weeks: { w: number; a: number; d: number; c: number }[]; // Week (Unix timestamp), additions, deletions, commits
+}
+
+// [week (Unix timestamp), additions, deletions (negative)] from /stats/code_frequency
+export type CodeFrequencyWeek = [number, number, number];
+
+// Weekly commit counts for the last 52 weeks from /stats/participation
+export interface ParticipationStats {
+    all: number[];
+    owner: number[];
+}
+
 export interface CommitData {
     date: string;
     count: number;
@@ -66,6 +150,12 @@ export interface CommitFileData {
     }[];
 }
 
+// Commit listed without its details, which failed to load
+export interface FailedCommit {
+    sha: string;
+    date: string;
+}
+
 export interface FileChangeAnalysis {
     files: FileChangeData[];
     totalChanges: number;
@@ -94,11 +184,13 @@ export interface FileChangeApiResponse extends GitHubApiResponse<FileChangeAnaly
 export interface BranchData {
     name: string;
     lastCommitDate: string;
-    commitCount: number;
+    commitCount: number; // Commits on the branch since it left the default branch
     status: 'active' | 'merged' | 'stale';
     isDefault: boolean;
     ahead: number;
     behind: number;
+    compared?: boolean; // commitCount, ahead and behind come from a comparison with the default branch
+    mergedPullRequest?: number; // Merged pull request the branch is the head of
     author: string;
     lastCommitSha: string;
     lastCommitMessage: string;
@@ -114,12 +206,17 @@ export interface PRData {
     author: string;
     reviewCount: number;
     timeToMerge?: number;
+    timeToFirstReview?: number; // Hours from opening to the first review by someone other than the author
+    timeToApproval?: number; // Hours from opening to the first approval
     linesChanged: number;
     additions: number;
     deletions: number;
     reviewers: string[];
+    requestedReviewers?: string[];
     labels: string[];
     isDraft: boolean;
+    headBranch?: string;
+    headSha?: string;
 }
 
 export interface ReviewData {
@@ -160,7 +257,8 @@ export interface PRAnalyticsData {
     closedPRs: number;
     mergedPRs: number;
     averageTimeToMerge: number;
-    averageReviewTime: number;
+    averageReviewTime: number; // Mean time to first review, in hours
+    reviewTime: DurationStats;
     averagePRSize: number;
     pullRequests: PRData[];
     timeline: PRTimelineData[];
@@ -187,6 +285,8 @@ export interface ReviewAnalyticsData {
     averageReviewsPerPR: number;
     averageTimeToFirstReview: number;
     averageTimeToApproval: number;
+    timeToFirstReview: DurationStats;
+    timeToApproval: DurationStats;
     topReviewers: ReviewerStats[];
     reviewPatterns: ReviewPatternData[];
 }
@@ -195,15 +295,25 @@ export interface ReviewerStats {
     username: string;
     reviewCount: number;
     approvalRate: number;
-    averageResponseTime: number;
+    averageResponseTime: number; // Hours from a PR opening to this reviewer's first review of it
+    responseTime: DurationStats;
     changeRequestRate: number;
 }
 
+// Spread of durations in hours, rounded to a tenth; zeros when nothing was measured
+export interface DurationStats {
+    mean: number;
+    median: number;
+    p90: number;
+    count: number;
+}
+
 export interface ReviewPatternData {
-    date: string;
+    date: string; // Day, or first day (Sunday) of the week for periods longer than 90 days
     reviewsGiven: number;
     approvalsGiven: number;
     changeRequestsGiven: number;
+    reviewsByReviewer: Record<string, number>;
 }
 
 export interface BranchPRAnalysis {
@@ -223,7 +333,8 @@ export interface BranchPRApiResponse extends GitHubApiResponse<BranchPRAnalysis>
 // API Response wrapper
 export interface GitHubApiResponse<T> {
     data?: T;
-    error?: string;
+    error?: string; // Message to show
+    errorInfo?: GitHubError; // Kind of failure, see github-errors.ts
     rateLimit?: {
         remaining: number;
         reset: number;
@@ -232,30 +343,119 @@ export interface GitHubApiResponse<T> {
 }
 
 // Error types
-export class GitHubApiError extends Error {
-    constructor(
-        message: string,
-        public status?: number,
-        public rateLimit?: GitHubApiResponse<unknown>['rateLimit']
-    ) {
-        super(message);
-        this.name = 'GitHubApiError';
-    }
-}
+export {
+    createGitHubError,
+    GitHubApiError,
+    isRateLimitError,
+    isTransientError,
+    toGitHubError,
+} from './github-errors';
+export type { GitHubError, GitHubErrorKind } from './github-errors';
 
 // Rate limit information from response headers
-interface RateLimitInfo {
+export interface RateLimitInfo {
     remaining: number;
     reset: number;
     limit: number;
 }
 
-const GITHUB_API_BASE = 'https://api.github.com';
+// GraphQL rate limits are measured in points, and each query reports its own cost
+export interface GraphQLRateLimitInfo extends RateLimitInfo {
+    cost: number;
+}
+
+export interface RateLimitStatus {
+    rest?: RateLimitInfo;
+    graphql?: GraphQLRateLimitInfo;
+}
+
+// Latest rate limit seen for each API, shared by all requests in this process
+const rateLimitStatus: RateLimitStatus = {};
+
+// Response validators (ETag / Last-Modified) and bodies keyed by request URL.
+// Revalidating with a conditional request returns 304 Not Modified when nothing
+// changed, and GitHub does not count 304 responses against the rate limit.
+interface ResponseValidatorEntry {
+    etag?: string;
+    lastModified?: string;
+    data: unknown;
+    links: PaginationLinks;
+}
+
+const responseValidators = new Map<string, ResponseValidatorEntry>();
+const MAX_RESPONSE_VALIDATORS = 500;
+
+// Counters reported through getCommitActivityCacheStats
+const cacheCounters = {
+    hits: 0, // Served from the in-memory cache without a request
+    misses: 0, // Full response downloaded
+    revalidated: 0, // 304 Not Modified, served from the validator store
+};
+
+/**
+ * Build If-None-Match / If-Modified-Since headers for a previously seen endpoint
+ */
+function getConditionalHeaders(validator?: ResponseValidatorEntry): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (validator?.etag) {
+        headers['If-None-Match'] = validator.etag;
+    }
+    if (validator?.lastModified) {
+        headers['If-Modified-Since'] = validator.lastModified;
+    }
+    return headers;
+}
+
+/**
+ * Remember the validators and body of a successful response for later revalidation
+ */
+function storeResponseValidator(url: string, headers: Headers, data: unknown, links: PaginationLinks): void {
+    const etag = headers.get('etag') || undefined;
+    const lastModified = headers.get('last-modified') || undefined;
+
+    // Re-insert so the Map keeps the most recently stored URLs last
+    responseValidators.delete(url);
+    if (!etag && !lastModified) {
+        return;
+    }
+
+    responseValidators.set(url, { etag, lastModified, data, links });
+
+    // Evict the oldest entries once the store is full
+    while (responseValidators.size > MAX_RESPONSE_VALIDATORS) {
+        const oldest = responseValidators.keys().next().value;
+        if (oldest === undefined) break;
+        responseValidators.delete(oldest);
+    }
+}
+
+/**
+ * Record the latest rate limit information reported by the REST or GraphQL API
+ */
+export function recordRateLimit(api: 'rest', rateLimit: RateLimitInfo): void;
+export function recordRateLimit(api: 'graphql', rateLimit: GraphQLRateLimitInfo): void;
+export function recordRateLimit(api: keyof RateLimitStatus, rateLimit: RateLimitInfo | GraphQLRateLimitInfo): void {
+    if (api === 'graphql') {
+        rateLimitStatus.graphql = rateLimit as GraphQLRateLimitInfo;
+    } else {
+        rateLimitStatus.rest = rateLimit;
+    }
+}
+
+/**
+ * Get the latest known REST and GraphQL rate limit status
+ */
+export function getRateLimitStatus(): RateLimitStatus {
+    return {
+        ...(rateLimitStatus.rest && { rest: { ...rateLimitStatus.rest } }),
+        ...(rateLimitStatus.graphql && { graphql: { ...rateLimitStatus.graphql } }),
+    };
+}
 
 /**
  * Extract rate limit information from GitHub API response headers
  */
-function extractRateLimit(headers: Headers): RateLimitInfo {
+export function extractRateLimit(headers: Headers): RateLimitInfo {
     return {
         remaining: parseInt(headers.get('x-ratelimit-remaining') || '0'),
         reset: parseInt(headers.get('x-ratelimit-reset') || '0'),
@@ -263,17 +463,89 @@ function extractRateLimit(headers: Headers): RateLimitInfo {
     };
 }
 
+// Pagination links parsed from the Link response header, as API endpoints
+export interface PaginationLinks {
+    next?: string;
+    prev?: string;
+    first?: string;
+    last?: string;
+}
+
+// Internal request result that also carries pagination links
+interface GitHubRequestResult<T> extends GitHubApiResponse<T> {
+    links?: PaginationLinks;
+    accepted?: boolean; // 202 Accepted: statistics are still being computed
+}
+
 /**
- * Get GitHub API headers with optional authentication
+ * Convert an absolute API URL from a Link header into an endpoint path
  */
-function getGitHubHeaders(): Record<string, string> {
+function toEndpoint(url: string, apiBase: string): string {
+    if (url.startsWith(apiBase)) {
+        return url.slice(apiBase.length);
+    }
+
+    try {
+        const parsed = new URL(url);
+        // Relative bases (the /api/github proxy) only match on the path
+        const basePath = apiBase.startsWith('/') ? apiBase : '';
+        const pathname = basePath && parsed.pathname.startsWith(basePath)
+            ? parsed.pathname.slice(basePath.length)
+            : parsed.pathname;
+        return `${pathname}${parsed.search}`;
+    } catch {
+        return url;
+    }
+}
+
+/**
+ * Parse a GitHub Link header (RFC 8288) into next/prev/first/last endpoints
+ * relative to the given API base URL
+ */
+export function parseLinkHeader(header: string | null, apiBase: string = getGitHubApiBase()): PaginationLinks {
+    const links: PaginationLinks = {};
+    if (!header) {
+        return links;
+    }
+
+    header.split(',').forEach(part => {
+        const match = part.match(/<([^>]+)>\s*;\s*rel="([^"]+)"/);
+        if (!match) {
+            return;
+        }
+
+        const [, url, rel] = match;
+        if (rel === 'next' || rel === 'prev' || rel === 'first' || rel === 'last') {
+            links[rel] = toEndpoint(url, apiBase);
+        }
+    });
+
+    return links;
+}
+
+/**
+ * Check whether requests to a host (about a repository, if given) are authenticated
+ * (required by the GraphQL API), by the user's token, the auth strategy (configured
+ * token or GitHub App installation) or, in the browser, the session
+ */
+export function hasGitHubToken(host?: string, token?: string, repository?: { owner: string; repo?: string }): boolean {
+    return Boolean(token)
+        || getGitHubAuthStrategy().hasCredentials(normalizeGitHubHost(host), repository)
+        || (hasBrowserSession() && isDefaultGitHubHost(host));
+}
+
+/**
+ * Get GitHub API headers with optional authentication for a host
+ * A user's token takes precedence over the token configured for the host
+ */
+export function getGitHubHeaders(host?: string, userToken?: string): Record<string, string> {
     const headers: Record<string, string> = {
         'Accept': 'application/vnd.github.v3+json',
         'User-Agent': 'GitFlux-Analyzer/1.0',
     };
 
     // Add authentication if token is available
-    const token = process.env.GITHUB_TOKEN || process.env.GITHUB_ACCESS_TOKEN;
+    const token = userToken || getGitHubToken(host);
     if (token) {
         headers['Authorization'] = `Bearer ${token}`;
         // Log authentication status in development
@@ -290,83 +562,193 @@ function getGitHubHeaders(): Record<string, string> {
     return headers;
 }
 
+// Secondary rate limits without a retry-after header: GitHub asks to wait at least a minute
+const SECONDARY_RATE_LIMIT_PAUSE = 60 * 1000;
+
+/**
+ * Classify a 403 or 429 response as a primary or secondary rate limit
+ * Returns undefined for a 403 that is not caused by a rate limit.
+ */
+export function getRateLimitError(status: number, headers: Headers, rateLimit: RateLimitInfo, message: string = ''): GitHubError | undefined {
+    // Secondary limits can come as a 403 without "rate limit" in the message
+    const retryAfter = parseInt(headers.get('retry-after') || '');
+    if (retryAfter >= 0) {
+        return createGitHubError('secondary_limit', { status, retryAfter });
+    }
+    if (status === 429 || /secondary rate limit/i.test(message)) {
+        return createGitHubError('secondary_limit', { status, retryAfter: SECONDARY_RATE_LIMIT_PAUSE / 1000 });
+    }
+    if (headers.get('x-ratelimit-remaining') === '0' || message.includes('rate limit')) {
+        return createGitHubError('rate_limited', { status, resetAt: rateLimit.reset * 1000 });
+    }
+    return undefined;
+}
+
+/**
+ * Get when a rate-limited request may be retried (epoch milliseconds)
+ */
+export function getResumeAt(error: GitHubError): number {
+    return error.retryAfter !== undefined ? Date.now() + error.retryAfter * 1000 : error.resetAt || 0;
+}
+
+/**
+ * Get the rate limit pool of requests to a host with an Authorization header
+ * Every token has its own rate limit; unauthenticated requests share the host's
+ */
+export async function getRateLimitPool(host: string | undefined, authorization: string | undefined): Promise<string> {
+    return `${normalizeGitHubHost(host)} ${authorization ? await getCredentialId(authorization) : 'anonymous'}`;
+}
+
 /**
  * Make a request to the GitHub API with proper error handling and retry mechanism
+ * Requests go through the request scheduler; identical requests already in flight
+ * (same URL and credentials) share one response, and a rate limit only holds back
+ * requests made with the same credentials. A rate-limited request gives up its
+ * slot and is scheduled again for when its credentials' pause ends.
  */
 async function makeGitHubRequest<T>(
     endpoint: string, 
-    options: { 
+    options: GitHubHostOptions & {
         retries?: number; 
         retryDelay?: number;
         signal?: AbortSignal;
     } = {}
-): Promise<GitHubApiResponse<T>> {
-    const { retries = 3, retryDelay = 1000, signal } = options;
+): Promise<GitHubRequestResult<T>> {
+    const { signal, host, token, retries = 3 } = options;
+    const url = `${getGitHubApiBase(host)}${endpoint}`;
+    // Without a user token, the auth strategy picks the credentials for the repository
+    const headers = getGitHubHeaders(host, token || await getRequestToken({ host, ...getEndpointRepository(endpoint) }));
+
+    // Check if request was cancelled
+    if (signal?.aborted) {
+        return errorResponse(createGitHubError('cancelled'));
+    }
+
+    const pool = await getRateLimitPool(host, headers['Authorization']);
+    let result: GitHubRequestResult<T> | undefined;
+    for (let attempt = 0; attempt <= retries; attempt++) {
+        try {
+            result = await getRequestScheduler().schedule(
+                sharedSignal => sendGitHubRequest<T>(url, headers, { ...options, pool, signal: sharedSignal }),
+                { key: `${url} ${headers['Authorization'] || ''}`, pool, signal }
+            );
+        } catch (error) {
+            if (error instanceof RequestPausedError) {
+                // The pause lasts longer than requests may wait: keep the error of the last attempt
+                return result || errorResponse(createGitHubError('rate_limited', { resetAt: error.resumeAt }), getRateLimitStatus().rest);
+            }
+            return errorResponse(createGitHubError('cancelled'));
+        }
+
+        // The scheduler holds the next attempt back until the pool's pause ends
+        if (!isRateLimitError(result.errorInfo) || getResumeAt(result.errorInfo!) <= Date.now()) {
+            return result;
+        }
+    }
+    return result!;
+}
+
+/**
+ * Send a scheduled request, retrying server errors and network errors
+ * A rate limit pauses the pool of the credentials and is returned, so the task
+ * releases its slot instead of waiting in it.
+ */
+async function sendGitHubRequest<T>(
+    url: string,
+    headers: Record<string, string>,
+    options: {
+        retries?: number;
+        retryDelay?: number;
+        signal?: AbortSignal;
+        host?: string;
+        pool?: string; // Rate limit pool of the credentials (see getRateLimitPool)
+    }
+): Promise<GitHubRequestResult<T>> {
+    const { retries = 3, retryDelay = 1000, signal, host, pool } = options;
+    const apiBase = getGitHubApiBase(host);
+    const scheduler = getRequestScheduler();
     for (let attempt = 0; attempt <= retries; attempt++) {
         try {
             // Check if request was cancelled
             if (signal?.aborted) {
-                return { error: 'Request was cancelled' };
+                return errorResponse(createGitHubError('cancelled'));
             }
 
-            const response = await fetch(`${GITHUB_API_BASE}${endpoint}`, {
-                headers: getGitHubHeaders(),
+            const validator = responseValidators.get(url);
+            const response = await getGitHubTransport().request({
+                url,
+                method: 'GET',
+                headers: {
+                    ...headers,
+                    ...getConditionalHeaders(validator),
+                },
                 signal,
             });
 
             const rateLimit = extractRateLimit(response.headers);
+            recordRateLimit('rest', rateLimit);
+            if (response.headers.has('x-ratelimit-remaining')) {
+                scheduler.updateBudget(rateLimit.remaining, rateLimit.reset, pool);
+            }
+
+            // Statistics are computed in the background; the body is empty until they are ready
+            if (response.status === 202) {
+                return { rateLimit, accepted: true };
+            }
+
+            // Unchanged since the last request: serve the stored body
+            if (response.status === 304 && validator) {
+                cacheCounters.revalidated++;
+                return {
+                    data: validator.data as T,
+                    rateLimit,
+                    links: validator.links,
+                };
+            }
 
             if (!response.ok) {
-                if (response.status === 404) {
-                    return {
-                        error: 'Repository not found',
-                        rateLimit,
-                    };
-                }
+                const status = response.status;
 
-                if (response.status === 403) {
+                if (status === 403 || status === 429) {
                     const errorData = await response.json().catch(() => ({}));
-                    if (errorData.message?.includes('rate limit')) {
-                        return {
-                            error: 'GitHub API rate limit exceeded. Please try again later.',
-                            rateLimit,
-                        };
+                    const rateLimitError = getRateLimitError(status, response.headers, rateLimit, errorData.message);
+                    if (!rateLimitError) {
+                        return errorResponse(createGitHubError('forbidden', { status }), rateLimit);
                     }
-                    return {
-                        error: 'Access forbidden. Repository may be private or require authentication.',
-                        rateLimit,
-                    };
+
+                    // Hold back every request with these credentials, not only this one
+                    scheduler.pause(getResumeAt(rateLimitError), pool);
+                    return errorResponse(rateLimitError, rateLimit);
                 }
 
-                if (response.status >= 500 && attempt < retries) {
+                if (status >= 500 && attempt < retries) {
                     // Retry on server errors with exponential backoff
                     const delay = retryDelay * Math.pow(2, attempt);
                     await new Promise(resolve => setTimeout(resolve, delay));
                     continue;
                 }
 
-                if (response.status >= 500) {
-                    return {
-                        error: 'GitHub API is currently unavailable. Please try again later.',
-                        rateLimit,
-                    };
-                }
-
-                return {
-                    error: `GitHub API error: ${response.status} ${response.statusText}`,
-                    rateLimit,
-                };
+                const kind = getStatusErrorKind(status);
+                return errorResponse(createGitHubError(kind, {
+                    status,
+                    // Other client errors keep the status text, which tells more than a generic message
+                    ...(kind === 'validation' ? { message: `GitHub API error: ${status} ${response.statusText}` } : {}),
+                }), rateLimit);
             }
 
             const data = await response.json();
+            const links = parseLinkHeader(response.headers.get('link'), apiBase);
+            cacheCounters.misses++;
+            storeResponseValidator(url, response.headers, data, links);
             return {
                 data,
                 rateLimit,
+                links,
             };
         } catch (error) {
             // Check if it's an abort error
             if (error instanceof Error && error.name === 'AbortError') {
-                return { error: 'Request was cancelled' };
+                return errorResponse(createGitHubError('cancelled'));
             }
 
             // Retry on network errors
@@ -377,15 +759,13 @@ async function makeGitHubRequest<T>(
             }
 
             if (error instanceof TypeError && error.message.includes('fetch')) {
-                return {
-                    error: 'Network error. Please check your internet connection and try again.',
-                };
+                return errorResponse(createGitHubError('network'));
             }
 
             if (attempt === retries) {
-                return {
-                    error: 'An unexpected error occurred while fetching data from GitHub.',
-                };
+                return errorResponse(createGitHubError('network', {
+                    message: 'An unexpected error occurred while fetching data from GitHub.',
+                }));
             }
 
             // Wait before retrying
@@ -394,31 +774,265 @@ async function makeGitHubRequest<T>(
         }
     }
 
+    return errorResponse(createGitHubError('server', { message: 'Maximum retry attempts exceeded.' }));
+}
+
+// Selects the GitHub host (github.com or an Enterprise Server) to query,
+// and the credentials to query it with
+export interface GitHubHostOptions {
+    host?: string; // Hostname, defaults to github.com
+    token?: string; // Token of the signed-in user, instead of the token configured for the host
+}
+
+/**
+ * Get the credential that may read what a request caches (see AnalysisCacheKey.access)
+ * A signed-in user's token may read private repositories the server's credentials
+ * cannot, so unless the repository is known to be public, what it fetched is only
+ * served to the same token. Data fetched with the server's credentials is shared.
+ */
+export async function getCacheAccess(token?: string, publicRepository?: boolean): Promise<string | undefined> {
+    return token && !publicRepository ? getCredentialId(token) : undefined;
+}
+
+// Options shared by every paginated list fetcher
+export interface PaginationOptions extends GitHubHostOptions {
+    maxItems?: number; // Stop once this many items have been collected
+    rateLimitThreshold?: number; // Stop when fewer requests than this remain
+    pageDelay?: number; // Delay in ms before requesting each following page
+    onProgress?: (fetched: number, total: number) => void;
+    signal?: AbortSignal;
+}
+
+export interface PaginatedPage<T> extends GitHubApiResponse<T[]> {
+    page: number;
+    rateLimitWarning?: boolean;
+}
+
+/**
+ * Estimate the total number of items from the rel="last" link
+ */
+function estimatePaginatedTotal(links: PaginationLinks | undefined, fetched: number, pageSize: number, maxItems: number): number {
+    if (!links?.next) {
+        return fetched;
+    }
+
+    const lastQuery = links.last?.split('?')[1];
+    if (lastQuery) {
+        const params = new URLSearchParams(lastQuery);
+        const lastPage = parseInt(params.get('page') || '0');
+        const perPage = parseInt(params.get('per_page') || String(pageSize));
+        if (lastPage > 0) {
+            return Math.min(maxItems, Math.max(fetched, lastPage * perPage));
+        }
+    }
+
+    return Math.min(maxItems, fetched + pageSize);
+}
+
+/**
+ * Iterate over every page of a GitHub list endpoint by following Link: rel="next"
+ * Stops at the item budget, on cancellation, on errors, or when the rate limit
+ * drops below the threshold (the last page is then flagged with rateLimitWarning)
+ */
+export async function* paginateGitHubRequest<T>(
+    endpoint: string,
+    options: PaginationOptions = {}
+): AsyncGenerator<PaginatedPage<T>> {
+    const { maxItems = Infinity, rateLimitThreshold = 0, pageDelay = 0, onProgress, signal, host, token } = options;
+    let next: string | undefined = endpoint;
+    let fetched = 0;
+    let page = 0;
+
+    while (next && fetched < maxItems) {
+        if (page > 0 && pageDelay > 0) {
+            await new Promise(resolve => setTimeout(resolve, pageDelay));
+        }
+
+        if (signal?.aborted) {
+            yield { ...errorResponse(createGitHubError('cancelled')), page };
+            return;
+        }
+
+        page++;
+        const response: GitHubRequestResult<T[]> = await makeGitHubRequest<T[]>(next, { signal, host, token });
+
+        if (response.error || !response.data) {
+            yield { ...missingDataError(response), page };
+            return;
+        }
+
+        const items = response.data.slice(0, maxItems - fetched);
+        fetched += items.length;
+
+        const rateLimitWarning = Boolean(response.rateLimit && response.rateLimit.remaining < rateLimitThreshold);
+        next = rateLimitWarning || response.data.length === 0 ? undefined : response.links?.next;
+
+        if (onProgress) {
+            onProgress(fetched, next ? estimatePaginatedTotal(response.links, fetched, response.data.length, maxItems) : fetched);
+        }
+
+        yield {
+            data: items,
+            rateLimit: response.rateLimit,
+            page,
+            ...(rateLimitWarning && { rateLimitWarning }),
+        };
+    }
+}
+
+/**
+ * Collect every page of a GitHub list endpoint into a single array
+ */
+export async function fetchAllPages<T>(
+    endpoint: string,
+    options: PaginationOptions = {}
+): Promise<GitHubApiResponse<T[]> & { rateLimitWarning?: boolean }> {
+    const items: T[] = [];
+    let rateLimit: RateLimitInfo | undefined;
+    let rateLimitWarning = false;
+
+    for await (const page of paginateGitHubRequest<T>(endpoint, options)) {
+        if (page.error) {
+            return { ...forwardError(page), rateLimit: page.rateLimit || rateLimit };
+        }
+
+        items.push(...(page.data || []));
+        rateLimit = page.rateLimit;
+        rateLimitWarning = rateLimitWarning || Boolean(page.rateLimitWarning);
+    }
+
     return {
-        error: 'Maximum retry attempts exceeded.',
+        data: items,
+        rateLimit,
+        ...(rateLimitWarning && { rateLimitWarning }),
     };
 }
 
+/**
+ * Forward the error of a failed response, or report a response without data
+ */
+function missingDataError<T>(response: GitHubApiResponse<unknown>): GitHubApiResponse<T> {
+    if (response.error) {
+        return forwardError(response);
+    }
+    return errorResponse(createGitHubError('validation', { message: 'No data returned from GitHub' }), response.rateLimit);
+}
+
+/**
+ * Validate and normalize the payload of a response (see github-models.ts)
+ * Payloads that do not have the expected shape are returned as errors.
+ */
+function parsePayload<T>(
+    response: GitHubApiResponse<unknown> & { rateLimitWarning?: boolean },
+    parse: (data: unknown) => T
+): GitHubApiResponse<T> & { rateLimitWarning?: boolean } {
+    const { data, error, rateLimit, rateLimitWarning } = response;
+    if (error || data === undefined) {
+        return missingDataError(response);
+    }
+
+    try {
+        return {
+            data: parse(data),
+            rateLimit,
+            ...(rateLimitWarning && { rateLimitWarning }),
+        };
+    } catch (parseError) {
+        if (parseError instanceof PayloadValidationError) {
+            return errorResponse(createGitHubError('validation', { message: parseError.message }), rateLimit);
+        }
+        throw parseError;
+    }
+}
+
 /**
  * Fetch repository information from GitHub API
  */
 export async function fetchRepository(
     owner: string, 
     repo: string,
-    options?: { signal?: AbortSignal }
+    options?: GitHubHostOptions & { signal?: AbortSignal }
 ): Promise<GitHubApiResponse<Repository>> {
     return makeGitHubRequest<Repository>(`/repos/${owner}/${repo}`, options);
 }
 
+/**
+ * Fetch the account the request is authenticated as
+ */
+export async function fetchAuthenticatedUser(
+    options: GitHubHostOptions & { signal?: AbortSignal } = {}
+): Promise<GitHubApiResponse<GitHubUserPayload>> {
+    return parsePayload(await makeGitHubRequest<unknown>('/user', options), data => parseUserAccount(data));
+}
+
+/**
+ * Fetch the REST rate limit status of the credentials a request is sent with
+ * Requests to /rate_limit do not count against the limit
+ */
+export async function fetchRateLimit(
+    options: GitHubHostOptions & { signal?: AbortSignal } = {}
+): Promise<GitHubApiResponse<RateLimitInfo>> {
+    const response = await makeGitHubRequest<unknown>('/rate_limit', options);
+    if (response.error || !response.rateLimit) {
+        return missingDataError(response);
+    }
+    return { data: response.rateLimit, rateLimit: response.rateLimit };
+}
+
 /**
  * Fetch repository contributors from GitHub API
  */
 export async function fetchContributors(
     owner: string, 
     repo: string,
-    options?: { signal?: AbortSignal }
+    options: PaginationOptions = {}
 ): Promise<GitHubApiResponse<Contributor[]>> {
-    return makeGitHubRequest<Contributor[]>(`/repos/${owner}/${repo}/contributors`, options);
+    return fetchAllPages<Contributor>(`/repos/${owner}/${repo}/contributors?per_page=100`, {
+        maxItems: 500,
+        ...options,
+    });
+}
+
+// Options for the statistics endpoints, which answer 202 Accepted while GitHub
+// computes the statistics in the background
+export interface GitHubStatsOptions extends GitHubHostOptions {
+    signal?: AbortSignal;
+    timeout?: number; // Stop polling after this many milliseconds (default 15 seconds)
+    pollInterval?: number; // First delay between polls, doubled after each poll (default 1 second)
+}
+
+export interface GitHubStatsResponse<T> extends GitHubApiResponse<T> {
+    // Still being computed when polling stopped; the request can be repeated later
+    status?: 'ready' | 'computing';
+}
+
+export const STATS_POLL_TIMEOUT = 15 * 1000; // 15 seconds
+export const STATS_POLL_INTERVAL = 1000;
+
+/**
+ * Fetch a statistics endpoint, polling with exponential backoff while GitHub computes it
+ */
+async function fetchGitHubStats<T>(endpoint: string, options: GitHubStatsOptions = {}): Promise<GitHubStatsResponse<T>> {
+    const { timeout = STATS_POLL_TIMEOUT, pollInterval = STATS_POLL_INTERVAL, signal, host, token } = options;
+    const deadline = Date.now() + timeout;
+    let delay = pollInterval;
+
+    let response = await makeGitHubRequest<T>(endpoint, { signal, host, token });
+    while (response.accepted) {
+        if (Date.now() + delay > deadline) {
+            return { status: 'computing', rateLimit: response.rateLimit };
+        }
+        await new Promise(resolve => setTimeout(resolve, delay));
+        delay *= 2;
+
+        // Check if request was cancelled
+        if (signal?.aborted) {
+            return errorResponse(createGitHubError('cancelled'));
+        }
+        response = await makeGitHubRequest<T>(endpoint, { signal, host, token });
+    }
+
+    return response.error ? response : { ...response, status: 'ready' };
 }
 
 /**
@@ -427,9 +1041,42 @@ export async function fetchContributors(
 export async function fetchCommitActivity(
     owner: string, 
     repo: string,
-    options?: { signal?: AbortSignal }
-): Promise<GitHubApiResponse<CommitActivity[]>> {
-    return makeGitHubRequest<CommitActivity[]>(`/repos/${owner}/${repo}/stats/commit_activity`, options);
+    options?: GitHubStatsOptions
+): Promise<GitHubStatsResponse<CommitActivity[]>> {
+    return fetchGitHubStats<CommitActivity[]>(`/repos/${owner}/${repo}/stats/commit_activity`, options);
+}
+
+/**
+ * Fetch weekly additions, deletions and commits of each contributor
+ */
+export async function fetchContributorActivity(
+    owner: string,
+    repo: string,
+    options?: GitHubStatsOptions
+): Promise<GitHubStatsResponse<ContributorActivity[]>> {
+    return fetchGitHubStats<ContributorActivity[]>(`/repos/${owner}/${repo}/stats/contributors`, options);
+}
+
+/**
+ * Fetch weekly additions and deletions
+ */
+export async function fetchCodeFrequency(
+    owner: string,
+    repo: string,
+    options?: GitHubStatsOptions
+): Promise<GitHubStatsResponse<CodeFrequencyWeek[]>> {
+    return fetchGitHubStats<CodeFrequencyWeek[]>(`/repos/${owner}/${repo}/stats/code_frequency`, options);
+}
+
+/**
+ * Fetch weekly commit counts of everyone and of the repository owner
+ */
+export async function fetchParticipation(
+    owner: string,
+    repo: string,
+    options?: GitHubStatsOptions
+): Promise<GitHubStatsResponse<ParticipationStats>> {
+    return fetchGitHubStats<ParticipationStats>(`/repos/${owner}/${repo}/stats/participation`, options);
 }
 
 /**
@@ -444,22 +1091,28 @@ export function transformCommitActivity(activity: CommitActivity[]): CommitData[
 
 /**
  * Validate GitHub repository URL and extract owner/repo
+ * URLs on GitHub Enterprise Server hosts also return the host
  */
-export function parseGitHubUrl(url: string): { owner: string; repo: string } | null {
+export function parseGitHubUrl(url: string): { owner: string; repo: string; host?: string } | null {
     // Handle various GitHub URL formats
     const patterns = [
-        /^https?:\/\/github\.com\/([^\/]+)\/([^\/]+)\/?$/,
-        /^github\.com\/([^\/]+)\/([^\/]+)\/?$/,
-        /^([^\/]+)\/([^\/]+)$/,
+        /^https?:\/\/([^\/]+)\/([^\/]+)\/([^\/]+)\/?$/,
+        /^([^\/]+)\/([^\/]+)\/([^\/]+)\/?$/,
+        /^()([^\/]+)\/([^\/]+)$/,
     ];
 
     for (const pattern of patterns) {
         const match = url.trim().match(pattern);
         if (match) {
-            const [, owner, repo] = match;
+            const [, rawHost, owner, repo] = match;
+            if (rawHost && !isValidHostname(rawHost)) {
+                return null;
+            }
+
             // Remove .git suffix if present
             const cleanRepo = repo.replace(/\.git$/, '');
-            return { owner, repo: cleanRepo };
+            const host = normalizeGitHubHost(rawHost);
+            return host === DEFAULT_GITHUB_HOST ? { owner, repo: cleanRepo } : { owner, repo: cleanRepo, host };
         }
     }
 
@@ -491,8 +1144,12 @@ export function getRateLimitResetTime(rateLimit?: RateLimitInfo): string {
     return hours === 1 ? '1 hour' : `${hours} hours`;
 }
 
+// Commit details are immutable; the TTL only bounds how long unused entries linger
+const COMMIT_DETAILS_CACHE_DURATION = 7 * 24 * 60 * 60 * 1000; // 7 days
+
 /**
  * Fetch commits with file information from GitHub API with performance optimizations
+ * Commits whose details could not be fetched are left out and listed in failedCommits.
  */
 export async function fetchCommitsWithFiles(
     owner: string,
@@ -507,14 +1164,20 @@ export async function fetchCommitsWithFiles(
         batchDelay?: number;
         onProgress?: (processed: number, total: number) => void;
         signal?: AbortSignal;
+        host?: string;
+        token?: string;
+        publicRepository?: boolean; // Cached commit details are shared by every caller
     } = {}
-): Promise<GitHubApiResponse<CommitFileData[]>> {
+): Promise<GitHubApiResponse<CommitFileData[]> & { rateLimitWarning?: boolean; failedCommits?: FailedCommit[] }> {
     const {
         maxCommits = 1000,
         rateLimitThreshold = 50,
-        batchDelay = 100,
+        batchDelay = 0,
         onProgress,
-        signal
+        signal,
+        host,
+        token,
+        publicRepository,
     } = options;
 
     let endpoint = `/repos/${owner}/${repo}/commits?page=${page}&per_page=${perPage}`;
@@ -528,79 +1191,115 @@ export async function fetchCommitsWithFiles(
 
     // Check if request was cancelled
     if (signal?.aborted) {
-        return { error: 'Request was cancelled' };
+        return errorResponse(createGitHubError('cancelled'));
     }
 
-    const response = await makeGitHubRequest<any[]>(endpoint);
+    // List commits across pages, limited to prevent excessive API usage
+    const response = parsePayload(await fetchAllPages<unknown>(endpoint, {
+        maxItems: maxCommits,
+        rateLimitThreshold,
+        signal,
+        host,
+        token,
+    }), data => parseList(data, parseCommit));
 
     if (response.error || !response.data) {
-        return response as GitHubApiResponse<CommitFileData[]>;
+        return forwardError(response);
     }
 
-    // Limit commits to prevent excessive API usage
-    const commitsToProcess = response.data.slice(0, Math.min(response.data.length, maxCommits));
-    const commitDetails: CommitFileData[] = [];
-    let rateLimitWarning = false;
+    const commitsToProcess = response.data;
+    const access = await getCacheAccess(token, publicRepository);
+    const commitDetails: (CommitFileData | undefined)[] = new Array(commitsToProcess.length);
+    const failedCommits: FailedCommit[] = [];
+    let rateLimitWarning = Boolean(response.rateLimitWarning);
+    let nextIndex = 0;
+    let processed = 0;
+
+    const fetchDetails = async (commit: GitHubCommit): Promise<CommitFileData | undefined> => {
+        const toCommitData = (files: CommitFileData['files']): CommitFileData => ({
+            sha: commit.sha,
+            date: commit.commit.author.date,
+            author: commit.commit.author.name,
+            message: commit.commit.message,
+            files,
+        });
 
-    for (let i = 0; i < commitsToProcess.length; i++) {
-        // Check if request was cancelled
-        if (signal?.aborted) {
-            return { error: 'Request was cancelled' };
+        // Commits never change, so their file lists are cached by SHA
+        const detailKey = { owner, repo, host, endpoint: `commits/${commit.sha}`, access };
+        const cachedFiles = await getAnalysisCache().get<CommitFileData['files']>(detailKey);
+        if (cachedFiles) {
+            cacheCounters.hits++;
+            return toCommitData(cachedFiles);
         }
 
-        const commit = commitsToProcess[i];
+        const detailResponse = parsePayload(
+            await makeGitHubRequest<unknown>(`/repos/${owner}/${repo}/commits/${commit.sha}`, { signal, host, token }),
+            data => parseCommitDetail(data)
+        );
 
-        try {
-            const detailResponse = await makeGitHubRequest<any>(`/repos/${owner}/${repo}/commits/${commit.sha}`);
+        // Check rate limit and stop starting new requests if getting close
+        if (detailResponse.rateLimit && detailResponse.rateLimit.remaining < rateLimitThreshold) {
+            rateLimitWarning = true;
+        }
 
-            if (detailResponse.error) {
-                // Log error but continue processing other commits
-                console.warn(`Failed to fetch details for commit ${commit.sha}:`, detailResponse.error);
-                continue;
-            }
+        if (!detailResponse.data) {
+            // Log error but continue processing other commits
+            console.warn(`Failed to fetch details for commit ${commit.sha}:`, detailResponse.error);
+            return undefined;
+        }
 
-            if (detailResponse.data && detailResponse.data.files) {
-                commitDetails.push({
-                    sha: commit.sha,
-                    date: commit.commit.author.date,
-                    author: commit.commit.author.name,
-                    message: commit.commit.message,
-                    files: detailResponse.data.files.map((file: any) => ({
-                        filename: file.filename,
-                        status: file.status,
-                        changes: file.changes || 0,
-                        additions: file.additions || 0,
-                        deletions: file.deletions || 0,
-                    })),
-                });
-            }
+        const files: CommitFileData['files'] = detailResponse.data.files.map(file => ({
+            filename: file.filename,
+            // Renames and copies count as modifications
+            status: file.status === 'added' || file.status === 'removed' ? file.status : 'modified',
+            changes: file.changes,
+            additions: file.additions,
+            deletions: file.deletions,
+        }));
+        await getAnalysisCache().set(detailKey, files, COMMIT_DETAILS_CACHE_DURATION);
+        return toCommitData(files);
+    };
 
-            // Report progress
-            if (onProgress) {
-                onProgress(i + 1, commitsToProcess.length);
+    // Commit details are fetched by as many workers as the request scheduler runs
+    // requests at once; it also pauses them all on secondary rate limits
+    const worker = async () => {
+        while (nextIndex < commitsToProcess.length && !rateLimitWarning && !signal?.aborted) {
+            const index = nextIndex++;
+            const commit = commitsToProcess[index];
+
+            try {
+                commitDetails[index] = await fetchDetails(commit);
+            } catch (error) {
+                console.warn(`Error processing commit ${commit.sha}:`, error);
             }
-
-            // Check rate limit and break if getting close
-            if (detailResponse.rateLimit && detailResponse.rateLimit.remaining < rateLimitThreshold) {
-                rateLimitWarning = true;
-                break;
+            if (!commitDetails[index]) {
+                failedCommits.push({ sha: commit.sha, date: commit.commit.author.date });
             }
 
-            // Add delay between requests to be respectful
-            if (i < commitsToProcess.length - 1 && batchDelay > 0) {
+            // Report progress
+            processed++;
+            onProgress?.(processed, commitsToProcess.length);
+
+            // Optional extra delay between requests
+            if (batchDelay > 0 && nextIndex < commitsToProcess.length) {
                 await new Promise(resolve => setTimeout(resolve, batchDelay));
             }
-
-        } catch (error) {
-            console.warn(`Error processing commit ${commit.sha}:`, error);
-            continue;
         }
+    };
+
+    const workers = Math.min(getRequestScheduler().concurrency, commitsToProcess.length);
+    await Promise.all(Array.from({ length: workers }, worker));
+
+    // Check if request was cancelled
+    if (signal?.aborted) {
+        return errorResponse(createGitHubError('cancelled'));
     }
 
     return {
-        data: commitDetails,
+        data: commitDetails.filter((commit): commit is CommitFileData => commit !== undefined),
         rateLimit: response.rateLimit,
         ...(rateLimitWarning && { rateLimitWarning }),
+        ...(failedCommits.length > 0 && { failedCommits }),
     };
 }
 
@@ -951,50 +1650,196 @@ export function processFileChangeData(
 export async function fetchBranches(
     owner: string,
     repo: string,
-    page: number = 1,
-    perPage: number = 100
-): Promise<GitHubApiResponse<any[]>> {
-    const endpoint = `/repos/${owner}/${repo}/branches?page=${page}&per_page=${perPage}`;
-    return makeGitHubRequest<any[]>(endpoint);
+    options: PaginationOptions = {}
+): Promise<GitHubApiResponse<GitHubBranchListPayload[]> & { rateLimitWarning?: boolean }> {
+    const endpoint = `/repos/${owner}/${repo}/branches?per_page=100`;
+    const response = await fetchAllPages<unknown>(endpoint, { maxItems: 1000, ...options });
+    return parsePayload(response, data => parseList(data, parseBranchListItem));
+}
+
+/**
+ * Fetch a single branch with its latest commit details from GitHub API
+ */
+export async function fetchBranch(
+    owner: string,
+    repo: string,
+    branch: string,
+    options: GitHubHostOptions & { signal?: AbortSignal } = {}
+): Promise<GitHubApiResponse<GitHubBranchPayload>> {
+    const response = await makeGitHubRequest<unknown>(`/repos/${owner}/${repo}/branches/${encodeURIComponent(branch)}`, options);
+    return parsePayload(response, data => parseBranch(data));
 }
 
 /**
- * Fetch pull requests from GitHub API
+ * Fetch the latest commit details of listed branches, several branches at once
+ * Branches that fail to load are skipped; cancelling fails the whole fetch.
+ */
+export async function fetchBranchDetails(
+    owner: string,
+    repo: string,
+    branches: GitHubBranchListPayload[],
+    options: GitHubHostOptions & { signal?: AbortSignal; onProgress?: (fetched: number, total: number) => void } = {}
+): Promise<GitHubApiResponse<GitHubBranchPayload[]>> {
+    const { onProgress, ...requestOptions } = options;
+    let fetched = 0;
+    let rateLimit: RateLimitInfo | undefined;
+
+    // The request scheduler limits how many of these run at once
+    const responses = await Promise.all(branches.map(async branch => {
+        const response = await fetchBranch(owner, repo, branch.name, requestOptions);
+        rateLimit = response.rateLimit || rateLimit;
+        onProgress?.(++fetched, branches.length);
+        return response;
+    }));
+
+    if (options.signal?.aborted) {
+        return errorResponse(createGitHubError('cancelled'));
+    }
+
+    return {
+        data: responses.flatMap(response => response.data ? [response.data] : []),
+        rateLimit,
+    };
+}
+
+/**
+ * Fetch pull requests from GitHub API, most recently updated first
  */
 export async function fetchPullRequests(
     owner: string,
     repo: string,
     state: 'open' | 'closed' | 'all' = 'all',
-    page: number = 1,
-    perPage: number = 100
-): Promise<GitHubApiResponse<any[]>> {
-    const endpoint = `/repos/${owner}/${repo}/pulls?state=${state}&page=${page}&per_page=${perPage}&sort=updated&direction=desc`;
-    return makeGitHubRequest<any[]>(endpoint);
+    options: PaginationOptions = {}
+): Promise<GitHubApiResponse<GitHubPullRequestPayload[]> & { rateLimitWarning?: boolean }> {
+    const endpoint = `/repos/${owner}/${repo}/pulls?state=${state}&per_page=100&sort=updated&direction=desc`;
+    const response = await fetchAllPages<unknown>(endpoint, { maxItems: 1000, ...options });
+    return parsePayload(response, data => parseList(data, parsePullRequest));
 }
 
 /**
- * Fetch pull request reviews from GitHub API
+ * Fetch pull request reviews from GitHub API, tagged with the pull request number
  */
 export async function fetchPRReviews(
     owner: string,
     repo: string,
-    prNumber: number
-): Promise<GitHubApiResponse<any[]>> {
-    const endpoint = `/repos/${owner}/${repo}/pulls/${prNumber}/reviews`;
-    return makeGitHubRequest<any[]>(endpoint);
+    prNumber: number,
+    options: PaginationOptions = {}
+): Promise<GitHubApiResponse<GitHubReviewPayload[]>> {
+    const endpoint = `/repos/${owner}/${repo}/pulls/${prNumber}/reviews?per_page=100`;
+    const response = await fetchAllPages<unknown>(endpoint, options);
+    return parsePayload(response, data => parseList(data, (item, path) => parseReview(item, prNumber, path)));
 }
 
 /**
  * Fetch branch comparison data from GitHub API
+ * The refs are branch names or commit SHAs. Only the first commit of the
+ * comparison is requested; the ahead and behind counts cover all of them.
  */
 export async function fetchBranchComparison(
     owner: string,
     repo: string,
     baseBranch: string,
-    headBranch: string
-): Promise<GitHubApiResponse<any>> {
-    const endpoint = `/repos/${owner}/${repo}/compare/${baseBranch}...${headBranch}`;
-    return makeGitHubRequest<any>(endpoint);
+    headBranch: string,
+    options: GitHubHostOptions & { signal?: AbortSignal } = {}
+): Promise<GitHubApiResponse<GitHubComparePayload>> {
+    const endpoint = `/repos/${owner}/${repo}/compare/${encodeURIComponent(baseBranch)}...${encodeURIComponent(headBranch)}?per_page=1`;
+    const response = await makeGitHubRequest<unknown>(endpoint, options);
+    return parsePayload(response, data => parseComparison(data));
+}
+
+// Comparisons of two SHAs never change; the TTL only bounds how long unused entries linger
+const BRANCH_COMPARISON_CACHE_DURATION = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+export interface BranchComparison {
+    ahead: number; // Commits on the branch that are not on the default branch
+    behind: number; // Commits on the default branch that are not on the branch
+    commitCount: number;
+}
+
+/**
+ * Compare branches with the default branch, most recently active first
+ * Comparisons are cached by the SHAs compared, so only branches (or a default
+ * branch) that moved are compared again. At most `maxComparisons` requests are
+ * made and none are started once the rate limit runs low; branches left out
+ * are missing from the result, which is keyed by branch name.
+ */
+export async function fetchBranchComparisons(
+    owner: string,
+    repo: string,
+    defaultBranch: { name: string; sha: string },
+    branches: GitHubBranchPayload[],
+    options: GitHubHostOptions & {
+        maxComparisons?: number;
+        rateLimitThreshold?: number;
+        signal?: AbortSignal;
+        onProgress?: (compared: number, total: number) => void;
+        publicRepository?: boolean; // Cached comparisons are shared by every caller
+    } = {}
+): Promise<GitHubApiResponse<Record<string, BranchComparison>> & { rateLimitWarning?: boolean }> {
+    const { maxComparisons = 30, rateLimitThreshold = 50, onProgress, publicRepository, ...requestOptions } = options;
+    const { host, token, signal } = requestOptions;
+    const access = await getCacheAccess(token, publicRepository);
+    const candidates = branches
+        .filter(branch => branch.name !== defaultBranch.name)
+        .sort((a, b) => Date.parse(b.commit.commit.author.date) - Date.parse(a.commit.commit.author.date));
+    const comparisons: Record<string, BranchComparison> = {};
+    let rateLimit: RateLimitInfo | undefined;
+    let rateLimitWarning = false;
+    let requests = 0;
+    let nextIndex = 0;
+    let processed = 0;
+
+    const compare = async (branch: GitHubBranchPayload) => {
+        const key = { owner, repo, host, endpoint: `compare/${defaultBranch.sha}...${branch.commit.sha}`, access };
+        const cached = await getAnalysisCache().get<BranchComparison>(key);
+        if (cached) {
+            comparisons[branch.name] = cached;
+            return;
+        }
+        if (requests >= maxComparisons || rateLimitWarning) {
+            return;
+        }
+
+        requests++;
+        // Compare the SHAs the cache key names, not branches that may have moved since
+        const response = await fetchBranchComparison(owner, repo, defaultBranch.sha, branch.commit.sha, requestOptions);
+        rateLimit = response.rateLimit || rateLimit;
+        if (isRateLimitError(response.errorInfo) || (response.rateLimit && response.rateLimit.remaining < rateLimitThreshold)) {
+            rateLimitWarning = true;
+        }
+        if (!response.data) {
+            console.warn(`Failed to compare branch ${branch.name}:`, response.error);
+            return;
+        }
+
+        const comparison = {
+            ahead: response.data.ahead_by,
+            behind: response.data.behind_by,
+            commitCount: response.data.total_commits,
+        };
+        comparisons[branch.name] = comparison;
+        await getAnalysisCache().set(key, comparison, BRANCH_COMPARISON_CACHE_DURATION);
+    };
+
+    const worker = async () => {
+        while (nextIndex < candidates.length && !signal?.aborted) {
+            await compare(candidates[nextIndex++]);
+            onProgress?.(++processed, candidates.length);
+        }
+    };
+
+    const workers = Math.min(getRequestScheduler().concurrency, candidates.length);
+    await Promise.all(Array.from({ length: workers }, worker));
+
+    if (signal?.aborted) {
+        return errorResponse(createGitHubError('cancelled'));
+    }
+
+    return {
+        data: comparisons,
+        rateLimit,
+        ...(rateLimitWarning ? { rateLimitWarning } : {}),
+    };
 }
 
 // Commit activity specific types
@@ -1004,22 +1849,6 @@ export interface CommitActivityResponse {
     dateRange: { start: string; end: string };
 }
 
-export interface GitHubCommit {
-    sha: string;
-    commit: {
-        author: {
-            name: string;
-            email: string;
-            date: string;
-        };
-        message: string;
-    };
-    author: {
-        login: string;
-        avatar_url: string;
-    } | null;
-}
-
 export interface GitHubContributor {
     login: string;
     avatar_url: string;
@@ -1028,33 +1857,9 @@ export interface GitHubContributor {
     type: string;
 }
 
-// Cache interface for commit activity data
-interface CommitActivityCache {
-    [key: string]: {
-        data: CommitActivityResponse;
-        timestamp: number;
-        expiresAt: number;
-    };
-}
-
-// In-memory cache for commit activity data
-const commitActivityCache: CommitActivityCache = {};
+// Commit activity is cached through the analysis cache (see analysis-cache.ts)
 const CACHE_DURATION = 15 * 60 * 1000; // 15 minutes
 
-/**
- * Generate cache key for commit activity data
- */
-function generateCacheKey(owner: string, repo: string, timeRange: string, since?: string, until?: string): string {
-    return `${owner}/${repo}:${timeRange}:${since || 'all'}:${until || 'now'}`;
-}
-
-/**
- * Check if cached data is still valid
- */
-function isCacheValid(cacheEntry: CommitActivityCache[string]): boolean {
-    return Date.now() < cacheEntry.expiresAt;
-}
-
 /**
  * Fetch commits with contributor information for specified time ranges
  * Includes caching mechanism and enhanced error handling for commit activity endpoints
@@ -1070,6 +1875,9 @@ export async function fetchCommitActivityData(
         onProgress?: (processed: number, total: number) => void;
         signal?: AbortSignal;
         useCache?: boolean;
+        host?: string;
+        token?: string;
+        publicRepository?: boolean; // Cached activity is shared by every caller
     } = {}
 ): Promise<GitHubApiResponse<CommitActivityResponse>> {
     const {
@@ -1078,85 +1886,70 @@ export async function fetchCommitActivityData(
         batchDelay = 100,
         onProgress,
         signal,
-        useCache = true
+        useCache = true,
+        host,
+        token,
+        publicRepository,
     } = options;
 
     // Calculate time bounds
     const bounds = getTimePeriodBounds(timeRange);
-    const cacheKey = generateCacheKey(owner, repo, timeRange, bounds.since, bounds.until);
+    // Relative bounds move with the clock, so key by the time range itself;
+    // entries expire after CACHE_DURATION, which bounds the drift
+    const cacheKey = {
+        owner,
+        repo,
+        host,
+        endpoint: 'commit-activity',
+        window: timeRange,
+        access: await getCacheAccess(token, publicRepository),
+    };
 
     // Check cache first
-    if (useCache && commitActivityCache[cacheKey] && isCacheValid(commitActivityCache[cacheKey])) {
+    const cached = useCache ? await getAnalysisCache().get<CommitActivityResponse>(cacheKey) : undefined;
+    if (cached) {
+        cacheCounters.hits++;
         return {
-            data: commitActivityCache[cacheKey].data,
+            data: cached,
             rateLimit: undefined // Cache hit doesn't consume rate limit
         };
     }
 
     // Check if request was cancelled
     if (signal?.aborted) {
-        return { error: 'Request was cancelled' };
+        return errorResponse(createGitHubError('cancelled'));
     }
 
     try {
         // Fetch commits with pagination
         const commits: GitHubCommit[] = [];
-        let page = 1;
-        const perPage = 100;
-        let hasMorePages = true;
         let rateLimitWarning = false;
 
-        while (hasMorePages && commits.length < maxCommits) {
-            if (signal?.aborted) {
-                return { error: 'Request was cancelled' };
-            }
-
-            let endpoint = `/repos/${owner}/${repo}/commits?page=${page}&per_page=${perPage}`;
-            if (bounds.since) endpoint += `&since=${bounds.since}`;
-            if (bounds.until) endpoint += `&until=${bounds.until}`;
-
-            const response = await makeGitHubRequest<GitHubCommit[]>(endpoint);
-
-            if (response.error) {
-                return response as GitHubApiResponse<CommitActivityResponse>;
-            }
-
-            if (!response.data || response.data.length === 0) {
-                hasMorePages = false;
-                break;
-            }
-
-            commits.push(...response.data);
-
-            // Check rate limit
-            if (response.rateLimit && response.rateLimit.remaining < rateLimitThreshold) {
-                rateLimitWarning = true;
-                break;
-            }
-
-            // Report progress
-            if (onProgress) {
-                onProgress(commits.length, Math.min(maxCommits, commits.length + response.data.length));
-            }
+        let endpoint = `/repos/${owner}/${repo}/commits?per_page=100`;
+        if (bounds.since) endpoint += `&since=${bounds.since}`;
+        if (bounds.until) endpoint += `&until=${bounds.until}`;
 
-            // Check if we got fewer results than requested (last page)
-            if (response.data.length < perPage) {
-                hasMorePages = false;
+        for await (const page of paginateGitHubRequest<GitHubCommit>(endpoint, {
+            maxItems: maxCommits,
+            rateLimitThreshold,
+            pageDelay: batchDelay,
+            onProgress,
+            signal,
+            host,
+            token,
+        })) {
+            if (page.error) {
+                return forwardError(page);
             }
 
-            page++;
-
-            // Add delay between requests
-            if (hasMorePages && batchDelay > 0) {
-                await new Promise(resolve => setTimeout(resolve, batchDelay));
-            }
+            commits.push(...(page.data || []));
+            rateLimitWarning = rateLimitWarning || Boolean(page.rateLimitWarning);
         }
 
-        // Limit commits to maxCommits
-        const limitedCommits = commits.slice(0, maxCommits);
+        const limitedCommits = commits;
 
         // Fetch contributors separately for better performance
-        const contributorsResponse = await fetchContributors(owner, repo);
+        const contributorsResponse = await fetchContributors(owner, repo, { host, token });
         const contributors = contributorsResponse.data || [];
 
         const activityData: CommitActivityResponse = {
@@ -1170,11 +1963,7 @@ export async function fetchCommitActivityData(
 
         // Cache the result
         if (useCache) {
-            commitActivityCache[cacheKey] = {
-                data: activityData,
-                timestamp: Date.now(),
-                expiresAt: Date.now() + CACHE_DURATION
-            };
+            await getAnalysisCache().set(cacheKey, activityData, CACHE_DURATION);
         }
 
         return {
@@ -1185,14 +1974,14 @@ export async function fetchCommitActivityData(
 
     } catch (error) {
         if (error instanceof TypeError && error.message.includes('fetch')) {
-            return {
-                error: 'Network error while fetching commit activity data. Please check your internet connection and try again.',
-            };
+            return errorResponse(createGitHubError('network', {
+                message: 'Network error while fetching commit activity data. Please check your internet connection and try again.',
+            }));
         }
 
-        return {
-            error: 'An unexpected error occurred while fetching commit activity data from GitHub.',
-        };
+        return errorResponse(createGitHubError('network', {
+            message: 'An unexpected error occurred while fetching commit activity data from GitHub.',
+        }));
     }
 }
 
@@ -1209,22 +1998,34 @@ export async function fetchContributorCommits(
         maxCommits?: number;
         signal?: AbortSignal;
         useCache?: boolean;
+        host?: string;
+        token?: string;
+        publicRepository?: boolean; // Cached commits are shared by every caller
     } = {}
 ): Promise<GitHubApiResponse<GitHubCommit[]>> {
-    const { maxCommits = 500, signal, useCache = true } = options;
+    const { maxCommits = 500, signal, useCache = true, host, token, publicRepository } = options;
 
     const bounds = getTimePeriodBounds(timeRange);
-    const cacheKey = generateCacheKey(owner, repo, `contributor-${contributor}`, bounds.since, bounds.until);
+    const cacheKey = {
+        owner,
+        repo,
+        host,
+        endpoint: `commits?author=${contributor}`,
+        window: timeRange,
+        access: await getCacheAccess(token, publicRepository),
+    };
 
     // Check cache first
-    if (useCache && commitActivityCache[cacheKey] && isCacheValid(commitActivityCache[cacheKey])) {
+    const cached = useCache ? await getAnalysisCache().get<GitHubCommit[]>(cacheKey) : undefined;
+    if (cached) {
+        cacheCounters.hits++;
         return {
-            data: commitActivityCache[cacheKey].data.commits,
+            data: cached,
         };
     }
 
     if (signal?.aborted) {
-        return { error: 'Request was cancelled' };
+        return errorResponse(createGitHubError('cancelled'));
     }
 
     try {
@@ -1232,28 +2033,17 @@ export async function fetchContributorCommits(
         if (bounds.since) endpoint += `&since=${bounds.since}`;
         if (bounds.until) endpoint += `&until=${bounds.until}`;
 
-        const response = await makeGitHubRequest<GitHubCommit[]>(endpoint);
+        const response = await fetchAllPages<GitHubCommit>(endpoint, { maxItems: maxCommits, signal, host, token });
 
         if (response.error || !response.data) {
-            return response as GitHubApiResponse<GitHubCommit[]>;
+            return response;
         }
 
-        const limitedCommits = response.data.slice(0, maxCommits);
+        const limitedCommits = response.data;
 
         // Cache the result
         if (useCache) {
-            commitActivityCache[cacheKey] = {
-                data: {
-                    commits: limitedCommits,
-                    contributors: [],
-                    dateRange: {
-                        start: bounds.since || new Date().toISOString(),
-                        end: bounds.until || new Date().toISOString()
-                    }
-                },
-                timestamp: Date.now(),
-                expiresAt: Date.now() + CACHE_DURATION
-            };
+            await getAnalysisCache().set(cacheKey, limitedCommits, CACHE_DURATION);
         }
 
         return {
@@ -1263,37 +2053,78 @@ export async function fetchContributorCommits(
 
     } catch (error) {
         if (error instanceof TypeError && error.message.includes('fetch')) {
-            return {
-                error: 'Network error while fetching contributor commits. Please check your internet connection and try again.',
-            };
+            return errorResponse(createGitHubError('network', {
+                message: 'Network error while fetching contributor commits. Please check your internet connection and try again.',
+            }));
         }
 
-        return {
-            error: 'An unexpected error occurred while fetching contributor commits from GitHub.',
-        };
+        return errorResponse(createGitHubError('network', {
+            message: 'An unexpected error occurred while fetching contributor commits from GitHub.',
+        }));
     }
 }
 
 /**
  * Clear commit activity cache (useful for testing or manual cache invalidation)
+ * Clearing a repository removes its entries on every host, including cached
+ * commit details and entries of a persistent cache backend
  */
 export function clearCommitActivityCache(owner?: string, repo?: string): void {
     if (owner && repo) {
         // Clear cache for specific repository
-        const prefix = `${owner}/${repo}:`;
-        Object.keys(commitActivityCache).forEach(key => {
-            if (key.startsWith(prefix)) {
-                delete commitActivityCache[key];
+        void getAnalysisCache().invalidate(owner, repo);
+
+        const repoPath = `/repos/${owner}/${repo}`;
+        Array.from(responseValidators.keys()).forEach(url => {
+            const path = url.split('?')[0];
+            if (path.includes(`${repoPath}/`) || path.endsWith(repoPath)) {
+                responseValidators.delete(url);
             }
         });
     } else {
         // Clear entire cache
-        Object.keys(commitActivityCache).forEach(key => {
-            delete commitActivityCache[key];
-        });
+        void getAnalysisCache().clear();
+        responseValidators.clear();
+        cacheCounters.hits = 0;
+        cacheCounters.misses = 0;
+        cacheCounters.revalidated = 0;
     }
 }
 
+/**
+ * Drop the cached commit activity of a repository after commits were pushed
+ * Commit details never change and are kept; contributor commit lists are
+ * dropped for the given authors (logins).
+ */
+export async function invalidateCommitActivity(
+    owner: string,
+    repo: string,
+    options: { host?: string; authors?: string[] } = {}
+): Promise<void> {
+    const { host, authors = [] } = options;
+    const endpoints = ['commit-activity', ...authors.map(author => `commits?author=${author}`)];
+    const windows = ['30d', '3m', '6m', '1y'];
+
+    await Promise.all(endpoints.flatMap(endpoint =>
+        windows.map(window => getAnalysisCache().delete({ owner, repo, host, endpoint, window }))
+    ));
+}
+
+/**
+ * Forget stored responses of a repository's resources (e.g. "branches" or "pulls",
+ * which includes reviews) on every host, so the next request downloads them
+ * instead of revalidating a copy GitHub may still consider fresh
+ */
+export function clearResponseValidators(owner: string, repo: string, resources: string[]): void {
+    const prefixes = resources.map(resource => `/repos/${owner}/${repo}/${resource}`.toLowerCase());
+    Array.from(responseValidators.keys()).forEach(url => {
+        const path = new URL(url, 'http://localhost').pathname.toLowerCase();
+        if (prefixes.some(prefix => path.includes(`${prefix}/`) || path.endsWith(prefix))) {
+            responseValidators.delete(url);
+        }
+    });
+}
+
 /**
  * Get cache statistics for monitoring and debugging
  */
@@ -1301,60 +2132,69 @@ export function getCommitActivityCacheStats(): {
     totalEntries: number;
     validEntries: number;
     expiredEntries: number;
+    validatorEntries: number;
+    hits: number;
+    misses: number;
+    revalidated: number;
     cacheHitRate?: number;
 } {
-    const totalEntries = Object.keys(commitActivityCache).length;
-    let validEntries = 0;
-    let expiredEntries = 0;
-
-    Object.values(commitActivityCache).forEach(entry => {
-        if (isCacheValid(entry)) {
-            validEntries++;
-        } else {
-            expiredEntries++;
-        }
-    });
+    const { entries: totalEntries, expiredEntries } = getAnalysisCache().stats();
+    const validEntries = totalEntries - expiredEntries;
+
+    // Responses served without downloading a body count as hits
+    const { hits, misses, revalidated } = cacheCounters;
+    const totalLookups = hits + misses + revalidated;
 
     return {
         totalEntries,
         validEntries,
-        expiredEntries
+        expiredEntries,
+        validatorEntries: responseValidators.size,
+        hits,
+        misses,
+        revalidated,
+        ...(totalLookups > 0 && { cacheHitRate: (hits + revalidated) / totalLookups }),
     };
 }
 
 /**
  * Enhanced error handling specifically for commit activity endpoints
- * Provides more specific error messages and retry suggestions
+ * Provides more specific error messages and retry suggestions. Accepts a
+ * GitHubError, a GitHubApiError, a thrown network error or a { status } object.
  */
-export function handleCommitActivityError(error: any, context: string): string {
-    if (error?.status === 403) {
-        if (error.message?.includes('rate limit')) {
-            return `GitHub API rate limit exceeded while ${context}. The limit resets in ${getRateLimitResetTime(error.rateLimit)}. Consider using authentication to increase your rate limit.`;
+export function handleCommitActivityError(error: unknown, context: string): string {
+    const githubError = toGitHubError(error);
+
+    switch (githubError?.kind) {
+        case 'rate_limited':
+        case 'secondary_limit': {
+            const resumeAt = getResumeAt(githubError);
+            const resetTime = getRateLimitResetTime(resumeAt ? { remaining: 0, limit: 0, reset: resumeAt / 1000 } : undefined);
+            return `GitHub API rate limit exceeded while ${context}. The limit resets in ${resetTime}. Consider using authentication to increase your rate limit.`;
         }
-        return `Access forbidden while ${context}. The repository may be private or require authentication.`;
-    }
-
-    if (error?.status === 404) {
-        return `Repository not found while ${context}. Please verify the repository exists and is accessible.`;
-    }
-
-    if (error?.status === 422) {
-        return `Invalid request parameters while ${context}. Please check the repository name and time range.`;
-    }
-
-    if (error?.status >= 500) {
-        return `GitHub API is temporarily unavailable while ${context}. Please try again in a few minutes.`;
-    }
-
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-        return `Network error while ${context}. Please check your internet connection and try again.`;
+        case 'forbidden':
+            return `Access forbidden while ${context}. The repository may be private or require authentication.`;
+        case 'auth_required':
+            return `Authentication failed while ${context}. Please check your GitHub token.`;
+        case 'not_found':
+            return `Repository not found while ${context}. Please verify the repository exists and is accessible.`;
+        case 'validation':
+            return `Invalid request parameters while ${context}. Please check the repository name and time range.`;
+        case 'server':
+            return `GitHub API is temporarily unavailable while ${context}. Please try again in a few minutes.`;
+        case 'network':
+            return `Network error while ${context}. Please check your internet connection and try again.`;
+        case 'cancelled':
+            return `Request was cancelled while ${context}.`;
+        default:
+            return `An unexpected error occurred while ${context}. Please try again.`;
     }
-
-    return `An unexpected error occurred while ${context}. Please try again.`;
 }
 
 /**
  * Retry mechanism with exponential backoff for failed API requests
+ * Only server and network failures are retried: rate limits are waited out by the
+ * request scheduler, and other failures would fail again.
  */
 export async function retryWithBackoff<T>(
     operation: () => Promise<GitHubApiResponse<T>>,
@@ -1366,14 +2206,15 @@ export async function retryWithBackoff<T>(
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
         if (signal?.aborted) {
-            return { error: 'Request was cancelled' };
+            return errorResponse(createGitHubError('cancelled'));
         }
 
         try {
             const result = await operation();
-            
-            // If successful or it's a client error (4xx), don't retry
-            if (!result.error || (result.error && !result.error.includes('temporarily unavailable'))) {
+            const kind = result.error ? (result.errorInfo || toGitHubError(result.error))?.kind : undefined;
+
+            // If successful or it's not a server or network failure, don't retry
+            if (kind !== 'server' && kind !== 'network') {
                 return result;
             }
 
@@ -1386,7 +2227,9 @@ export async function retryWithBackoff<T>(
             }
 
         } catch (error) {
-            lastError = { error: 'Network error occurred during retry attempt' };
+            lastError = errorResponse(toGitHubError(error) || createGitHubError('network', {
+                message: 'Network error occurred during retry attempt',
+            }));
             
             if (attempt < maxRetries) {
                 const delay = baseDelay * Math.pow(2, attempt);
@@ -1395,16 +2238,21 @@ export async function retryWithBackoff<T>(
         }
     }
 
-    return lastError || { error: 'Maximum retry attempts exceeded' };
+    return lastError || errorResponse(createGitHubError('server', { message: 'Maximum retry attempts exceeded' }));
 }
 
 /**
  * Process branch data and categorize by status
+ * A branch with no commits ahead of the default branch that the default branch
+ * has moved past is merged: its head is reachable from the default branch. A new
+ * branch with no commits of its own is neither ahead nor behind, so it only counts
+ * as merged through a merged pull request.
  */
 export function processBranchData(
-    branches: any[],
+    branches: GitHubBranchPayload[],
     defaultBranch: string,
-    timePeriod: TimePeriod
+    timePeriod: TimePeriod,
+    comparisons: Record<string, BranchComparison> = {}
 ): BranchData[] {
     const now = new Date();
     const staleThreshold = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000); // 90 days ago
@@ -1422,14 +2270,21 @@ export function processBranchData(
             status = 'stale';
         }
 
+        // Branches left out of the comparison budget keep zeros
+        const comparison = comparisons[branch.name];
+        if (comparison && comparison.ahead === 0 && comparison.behind > 0 && branch.name !== defaultBranch) {
+            status = 'merged';
+        }
+
         return {
             name: branch.name,
             lastCommitDate: branch.commit.commit.author.date,
-            commitCount: 0, // Will be populated by additional API calls if needed
+            commitCount: comparison?.commitCount ?? 0,
             status,
             isDefault: branch.name === defaultBranch,
-            ahead: 0, // Will be populated by comparison API if needed
-            behind: 0, // Will be populated by comparison API if needed
+            ahead: comparison?.ahead ?? 0,
+            behind: comparison?.behind ?? 0,
+            compared: Boolean(comparison),
             author: branch.commit.commit.author.name,
             lastCommitSha: branch.commit.sha,
             lastCommitMessage: branch.commit.commit.message,
@@ -1440,7 +2295,7 @@ export function processBranchData(
 /**
  * Process pull request data and calculate metrics
  */
-export function processPRData(pullRequests: any[], timePeriod: TimePeriod): PRData[] {
+export function processPRData(pullRequests: GitHubPullRequestPayload[], timePeriod: TimePeriod): PRData[] {
     return pullRequests.map(pr => {
         const createdAt = new Date(pr.created_at);
         const mergedAt = pr.merged_at ? new Date(pr.merged_at) : undefined;
@@ -1456,17 +2311,20 @@ export function processPRData(pullRequests: any[], timePeriod: TimePeriod): PRDa
             title: pr.title,
             state: pr.merged_at ? 'merged' : pr.state,
             createdAt: pr.created_at,
-            mergedAt: pr.merged_at,
-            closedAt: pr.closed_at,
+            mergedAt: pr.merged_at || undefined,
+            closedAt: pr.closed_at || undefined,
             author: pr.user.login,
-            reviewCount: 0, // Will be populated by review API calls
+            reviewCount: 0, // See attachReviewData
             timeToMerge,
             linesChanged: (pr.additions || 0) + (pr.deletions || 0),
             additions: pr.additions || 0,
             deletions: pr.deletions || 0,
-            reviewers: [], // Will be populated by review API calls
-            labels: pr.labels?.map((label: any) => label.name) || [],
+            reviewers: [], // See attachReviewData
+            requestedReviewers: pr.requested_reviewers?.map(reviewer => reviewer.login) || [],
+            labels: pr.labels?.map(label => label.name) || [],
             isDraft: pr.draft || false,
+            headBranch: pr.head?.ref,
+            headSha: pr.head?.sha,
         };
     });
 }
@@ -1493,6 +2351,9 @@ export function calculatePRAnalytics(
         ? pullRequests.reduce((sum, pr) => sum + pr.linesChanged, 0) / pullRequests.length
         : 0;
 
+    // Time to first review, for PRs with reviews attached (see attachReviewData)
+    const reviewTime = summarizeDurations(pullRequests.flatMap(pr => pr.timeToFirstReview !== undefined ? [pr.timeToFirstReview] : []));
+
     // Generate timeline data
     const timeline = generatePRTimeline(pullRequests, timePeriod);
 
@@ -1526,7 +2387,8 @@ export function calculatePRAnalytics(
         closedPRs,
         mergedPRs,
         averageTimeToMerge: Math.round(averageTimeToMerge),
-        averageReviewTime: 0, // Will be calculated with review data
+        averageReviewTime: reviewTime.mean,
+        reviewTime,
         averagePRSize: Math.round(averagePRSize),
         pullRequests,
         timeline,
@@ -1587,6 +2449,28 @@ export function generatePRTimeline(
         .sort((a, b) => a.date.localeCompare(b.date));
 }
 
+/**
+ * Mark branches that are the head of a merged pull request as merged, which also
+ * catches squash and rebase merges the default branch cannot reach.
+ * When both SHAs are known, the branch must not have moved since the pull request.
+ */
+export function markMergedBranches(branches: BranchData[], pullRequests: PRData[]): BranchData[] {
+    const mergedHeads = new Map<string, PRData>();
+    pullRequests.forEach(pr => {
+        if (pr.state === 'merged' && pr.headBranch && !mergedHeads.has(pr.headBranch)) {
+            mergedHeads.set(pr.headBranch, pr);
+        }
+    });
+
+    return branches.map(branch => {
+        const pr = mergedHeads.get(branch.name);
+        if (branch.isDefault || !pr || (pr.headSha && branch.lastCommitSha && pr.headSha !== branch.lastCommitSha)) {
+            return branch;
+        }
+        return { ...branch, status: 'merged', mergedPullRequest: pr.number };
+    });
+}
+
 /**
  * Calculate branch analytics from processed data
  */
@@ -1612,12 +2496,165 @@ export function calculateBranchAnalytics(
     };
 }
 
+/**
+ * Summarize durations in hours as mean, median and 90th percentile
+ * Percentiles interpolate between the nearest measurements.
+ */
+export function summarizeDurations(hours: number[]): DurationStats {
+    if (hours.length === 0) {
+        return { mean: 0, median: 0, p90: 0, count: 0 };
+    }
+
+    const sorted = [...hours].sort((a, b) => a - b);
+    const percentile = (fraction: number) => {
+        const rank = (sorted.length - 1) * fraction;
+        const lower = Math.floor(rank);
+        return sorted[lower] + (sorted[Math.ceil(rank)] - sorted[lower]) * (rank - lower);
+    };
+    const round = (value: number) => Math.round(value * 10) / 10;
+
+    return {
+        mean: round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+        median: round(percentile(0.5)),
+        p90: round(percentile(0.9)),
+        count: sorted.length,
+    };
+}
+
+/**
+ * Get submitted reviews, oldest first
+ * Pending reviews are ignored and dismissed reviews count as comments.
+ */
+function getSubmittedReviews(payloads: GitHubReviewPayload[]) {
+    return payloads
+        .flatMap(review => review.state === 'PENDING' || !review.submitted_at ? [] : [{
+            ...review,
+            state: review.state === 'DISMISSED' ? 'COMMENTED' as const : review.state,
+            submitted_at: review.submitted_at,
+        }])
+        .sort((a, b) => Date.parse(a.submitted_at) - Date.parse(b.submitted_at));
+}
+
+type SubmittedReview = ReturnType<typeof getSubmittedReviews>[number];
+
+/**
+ * Time a pull request waited for reviews, in hours from when it was opened
+ * Reviews by the author do not count. `reviews` are the PR's reviews, oldest first.
+ */
+function getReviewTimings(pullRequest: Pick<PRData, 'createdAt' | 'author'>, reviews: SubmittedReview[]) {
+    const createdAt = Date.parse(pullRequest.createdAt);
+    const hoursSinceCreated = (submittedAt: string) => Math.max(0, (Date.parse(submittedAt) - createdAt) / (1000 * 60 * 60));
+    const reviewed = reviews.filter(review => review.user.login !== pullRequest.author);
+    const firstReview = reviewed[0];
+    const firstApproval = reviewed.find(review => review.state === 'APPROVED');
+
+    // Each reviewer's first review of the PR
+    const responseTimes = new Map<string, number>();
+    reviewed.forEach(review => {
+        if (!responseTimes.has(review.user.login)) {
+            responseTimes.set(review.user.login, hoursSinceCreated(review.submitted_at));
+        }
+    });
+
+    return {
+        reviewCount: reviewed.length,
+        timeToFirstReview: firstReview ? hoursSinceCreated(firstReview.submitted_at) : undefined,
+        timeToApproval: firstApproval ? hoursSinceCreated(firstApproval.submitted_at) : undefined,
+        responseTimes,
+    };
+}
+
+/**
+ * Group submitted reviews by pull request number, oldest first
+ */
+function groupReviewsByPR(reviews: SubmittedReview[]): Map<number, SubmittedReview[]> {
+    const byPR = new Map<number, SubmittedReview[]>();
+    reviews.forEach(review => {
+        byPR.set(review.pull_request_number, [...(byPR.get(review.pull_request_number) || []), review]);
+    });
+    return byPR;
+}
+
+/**
+ * Add review counts, reviewers and review timings to processed pull requests
+ */
+export function attachReviewData(pullRequests: PRData[], payloads: GitHubReviewPayload[]): PRData[] {
+    const reviewsByPR = groupReviewsByPR(getSubmittedReviews(payloads));
+
+    return pullRequests.map(pr => {
+        const reviews = reviewsByPR.get(pr.number);
+        if (!reviews) {
+            return pr;
+        }
+
+        const { reviewCount, timeToFirstReview, timeToApproval, responseTimes } = getReviewTimings(pr, reviews);
+        return {
+            ...pr,
+            reviewCount,
+            reviewers: Array.from(responseTimes.keys()),
+            timeToFirstReview,
+            timeToApproval,
+        };
+    });
+}
+
+/**
+ * Generate review activity over time, bucketed by day for periods up to 90 days
+ * and by week for longer ones, with the reviews each reviewer gave per bucket
+ * Reviews submitted before the time period are left out.
+ */
+export function generateReviewPatterns(payloads: GitHubReviewPayload[], timePeriod: TimePeriod): ReviewPatternData[] {
+    const weekly = timePeriod !== '30d' && timePeriod !== '90d';
+    const { since } = getTimePeriodBounds(timePeriod);
+    const sinceDate = since ? new Date(since) : undefined;
+    const patternMap = new Map<string, ReviewPatternData>();
+
+    getSubmittedReviews(payloads).forEach(review => {
+        const submittedAt = new Date(review.submitted_at);
+        if (sinceDate && submittedAt < sinceDate) {
+            return;
+        }
+        if (weekly) {
+            submittedAt.setUTCDate(submittedAt.getUTCDate() - submittedAt.getUTCDay());
+        }
+        const date = submittedAt.toISOString().split('T')[0];
+
+        const entry = patternMap.get(date) || {
+            date,
+            reviewsGiven: 0,
+            approvalsGiven: 0,
+            changeRequestsGiven: 0,
+            reviewsByReviewer: {},
+        };
+        entry.reviewsGiven += 1;
+        if (review.state === 'APPROVED') {
+            entry.approvalsGiven += 1;
+        } else if (review.state === 'CHANGES_REQUESTED') {
+            entry.changeRequestsGiven += 1;
+        }
+        entry.reviewsByReviewer[review.user.login] = (entry.reviewsByReviewer[review.user.login] || 0) + 1;
+        patternMap.set(date, entry);
+    });
+
+    return Array.from(patternMap.values())
+        .sort((a, b) => a.date.localeCompare(b.date));
+}
+
 /**
  * Process review data and calculate review metrics
+ * Pending reviews are ignored and dismissed reviews count as comments. Only reviews
+ * of the given pull requests are counted and timed; review patterns cover every
+ * review submitted in the time period.
  */
-export function processReviewData(reviews: any[], pullRequests: PRData[]): ReviewAnalyticsData {
+export function processReviewData(
+    payloads: GitHubReviewPayload[],
+    pullRequests: PRData[],
+    timePeriod: TimePeriod = '30d'
+): ReviewAnalyticsData {
     const reviewMap = new Map<number, ReviewData>();
     const reviewerStatsMap = new Map<string, ReviewerStats>();
+    const prByNumber = new Map(pullRequests.map(pr => [pr.number, pr]));
+    const reviews = getSubmittedReviews(payloads).filter(review => prByNumber.has(review.pull_request_number));
 
     // Process reviews for each PR
     reviews.forEach(review => {
@@ -1635,7 +2672,7 @@ export function processReviewData(reviews: any[], pullRequests: PRData[]): Revie
         existing.reviewCount += 1;
         existing.reviews.push({
             reviewer: review.user.login,
-            state: review.state as 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED',
+            state: review.state,
             submittedAt: review.submitted_at,
         });
 
@@ -1663,6 +2700,7 @@ export function processReviewData(reviews: any[], pullRequests: PRData[]): Revie
             reviewCount: 0,
             approvalRate: 0,
             averageResponseTime: 0,
+            responseTime: summarizeDurations([]),
             changeRequestRate: 0,
         };
 
@@ -1670,34 +2708,61 @@ export function processReviewData(reviews: any[], pullRequests: PRData[]): Revie
         reviewerStatsMap.set(review.user.login, reviewerStats);
     });
 
+    // Join reviews to when their pull request was opened
+    const timesToFirstReview: number[] = [];
+    const timesToApproval: number[] = [];
+    const responseTimesByReviewer = new Map<string, number[]>();
+
+    groupReviewsByPR(reviews).forEach((prReviews, prNumber) => {
+        const pullRequest = prByNumber.get(prNumber)!;
+        const { timeToFirstReview, timeToApproval, responseTimes } = getReviewTimings(pullRequest, prReviews);
+        const reviewData = reviewMap.get(prNumber)!;
+        if (timeToFirstReview !== undefined) {
+            reviewData.timeToFirstReview = timeToFirstReview;
+            timesToFirstReview.push(timeToFirstReview);
+        }
+        if (timeToApproval !== undefined) {
+            reviewData.timeToApproval = timeToApproval;
+            timesToApproval.push(timeToApproval);
+        }
+        responseTimes.forEach((hours, reviewer) => {
+            responseTimesByReviewer.set(reviewer, [...(responseTimesByReviewer.get(reviewer) || []), hours]);
+        });
+    });
+
     // Calculate reviewer statistics
     const topReviewers = Array.from(reviewerStatsMap.values())
         .map(reviewer => {
             const reviewerReviews = reviews.filter(r => r.user.login === reviewer.username);
             const approvals = reviewerReviews.filter(r => r.state === 'APPROVED').length;
             const changeRequests = reviewerReviews.filter(r => r.state === 'CHANGES_REQUESTED').length;
+            const responseTime = summarizeDurations(responseTimesByReviewer.get(reviewer.username) || []);
 
             return {
                 ...reviewer,
                 approvalRate: reviewer.reviewCount > 0 ? (approvals / reviewer.reviewCount) * 100 : 0,
                 changeRequestRate: reviewer.reviewCount > 0 ? (changeRequests / reviewer.reviewCount) * 100 : 0,
-                averageResponseTime: 0, // Would need PR creation times to calculate
+                averageResponseTime: responseTime.mean,
+                responseTime,
             };
         })
         .sort((a, b) => b.reviewCount - a.reviewCount)
         .slice(0, 10);
 
     const totalReviews = reviews.length;
-    const reviewsArray = Array.from(reviewMap.values());
     const averageReviewsPerPR = pullRequests.length > 0 ? totalReviews / pullRequests.length : 0;
+    const timeToFirstReview = summarizeDurations(timesToFirstReview);
+    const timeToApproval = summarizeDurations(timesToApproval);
 
     return {
         totalReviews,
         averageReviewsPerPR,
-        averageTimeToFirstReview: 0, // Would need detailed timing data
-        averageTimeToApproval: 0, // Would need detailed timing data
+        averageTimeToFirstReview: timeToFirstReview.mean,
+        averageTimeToApproval: timeToApproval.mean,
+        timeToFirstReview,
+        timeToApproval,
         topReviewers,
-        reviewPatterns: [], // Would be generated from timeline data
+        reviewPatterns: generateReviewPatterns(payloads, timePeriod),
     };
 }
 
@@ -1778,7 +2843,7 @@ export function analyzePRPatterns(pullRequests: PRData[]): {
     peakActivity: { day: string; count: number };
     sizeDistribution: Record<string, number>;
     mergeRate: number;
-    averageReviewCycle: number;
+    averageReviewCycle: number; // Hours from the first review to the first approval
 } {
     // Calculate PRs per week
     const weeklyPRs = new Map<string, number>();
@@ -1815,12 +2880,19 @@ export function analyzePRPatterns(pullRequests: PRData[]): {
     const mergedCount = pullRequests.filter(pr => pr.state === 'merged').length;
     const mergeRate = pullRequests.length > 0 ? (mergedCount / pullRequests.length) * 100 : 0;
 
+    // Review cycle, for PRs with reviews attached (see attachReviewData)
+    const reviewCycles = pullRequests.flatMap(pr =>
+        pr.timeToFirstReview !== undefined && pr.timeToApproval !== undefined
+            ? [Math.max(0, pr.timeToApproval - pr.timeToFirstReview)]
+            : []
+    );
+
     return {
         averagePRsPerWeek: Math.round(averagePRsPerWeek * 10) / 10,
         peakActivity,
         sizeDistribution,
         mergeRate: Math.round(mergeRate * 10) / 10,
-        averageReviewCycle: 0, // Would need review timing data
+        averageReviewCycle: summarizeDurations(reviewCycles).mean,
     };
 }
 
@@ -1828,15 +2900,19 @@ export function analyzePRPatterns(pullRequests: PRData[]): {
  * Generate comprehensive branch and PR analysis
  */
 export function generateBranchPRAnalysis(
-    branches: any[],
-    pullRequests: any[],
-    reviews: any[],
+    branches: GitHubBranchPayload[],
+    pullRequests: GitHubPullRequestPayload[],
+    reviews: GitHubReviewPayload[],
     defaultBranch: string,
-    timePeriod: TimePeriod
+    timePeriod: TimePeriod,
+    comparisons: Record<string, BranchComparison> = {}
 ): BranchPRAnalysis {
     // Process raw data
-    const processedBranches = processBranchData(branches, defaultBranch, timePeriod);
-    const processedPRs = processPRData(pullRequests, timePeriod);
+    const processedPRs = attachReviewData(processPRData(pullRequests, timePeriod), reviews);
+    const processedBranches = markMergedBranches(
+        processBranchData(branches, defaultBranch, timePeriod, comparisons),
+        processedPRs
+    );
 
     // Filter by time period
     const filteredBranches = filterBranchPRDataByTimePeriod(processedBranches, timePeriod, 'lastCommitDate');
@@ -1845,7 +2921,7 @@ export function generateBranchPRAnalysis(
     // Calculate analytics
     const branchAnalytics = calculateBranchAnalytics(filteredBranches, timePeriod);
     const prAnalytics = calculatePRAnalytics(filteredPRs, timePeriod);
-    const reviewAnalytics = processReviewData(reviews, filteredPRs);
+    const reviewAnalytics = processReviewData(reviews, filteredPRs, timePeriod);
 
     return {
         branches: branchAnalytics,
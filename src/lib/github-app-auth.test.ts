@@ -0,0 +1,124 @@
+/**
+ * Unit tests for GitHub App authentication, against the mock server's
+ * installation and token endpoints
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createVerify, generateKeyPairSync } from 'crypto';
+import { createAppJwt, createGitHubAppAuthStrategy } from './github-app-auth';
+import { setGitHubAuthStrategy } from './github-auth-strategy';
+import { clearCommitActivityCache, fetchRepository, hasGitHubToken } from './github-api';
+import { exampleSeed, useMockGitHubServer } from '@/test/mock-github/fixture';
+import { nodeHttpTransport } from '@/test/mock-github/http-transport';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+
+describe('GitHub App authentication', () => {
+  let now: number;
+
+  const installStrategy = () => {
+    const strategy = createGitHubAppAuthStrategy({
+      appId: '42',
+      privateKey,
+      transport: nodeHttpTransport,
+      now: () => now,
+    });
+    setGitHubAuthStrategy(strategy);
+    return strategy;
+  };
+
+  const server = useMockGitHubServer({
+    ...exampleSeed,
+    app: {
+      id: 42,
+      publicKey,
+      installations: [{ id: 7, account: 'acme' }, { id: 8, account: 'globex', repositories: ['gizmos'] }],
+      tokenLifetime: 60 * 60,
+    },
+  });
+
+  beforeEach(() => {
+    now = Date.now();
+  });
+
+  afterEach(() => {
+    setGitHubAuthStrategy(undefined);
+  });
+
+  it('signs app JWTs with the private key', () => {
+    const [header, payload, signature] = createAppJwt('42', privateKey, 1_700_000_000_000).split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+
+    expect(claims).toEqual({ iat: 1_699_999_940, exp: 1_700_000_480, iss: '42' });
+    expect(createVerify('RSA-SHA256').update(`${header}.${payload}`).verify(publicKey, Buffer.from(signature, 'base64url'))).toBe(true);
+  });
+
+  it('authenticates requests with the installation token of the owner', async () => {
+    const strategy = installStrategy();
+
+    await fetchRepository('acme', 'widgets');
+    await fetchRepository('acme', 'widgets');
+
+    expect(server().requests).toEqual([
+      '/repos/acme/widgets/installation',
+      '/app/installations/7/access_tokens',
+      '/repos/acme/widgets',
+      '/repos/acme/widgets',
+    ]);
+    expect(server().authorizations[2]).toBe('Bearer ghs_mock_7_1');
+    expect(server().authorizations[3]).toBe('Bearer ghs_mock_7_1');
+    expect(strategy.stats()).toEqual({ installations: 1, tokens: 1 });
+    expect(hasGitHubToken(undefined, undefined, { owner: 'acme', repo: 'widgets' })).toBe(true);
+  });
+
+  it('looks installations up per repository', async () => {
+    installStrategy();
+    expect(hasGitHubToken()).toBe(false);
+
+    // The installation on globex only covers gizmos
+    await fetchRepository('globex', 'sprockets');
+    await fetchRepository('globex', 'gizmos');
+
+    expect(server().requests).toEqual([
+      '/repos/globex/sprockets/installation',
+      '/repos/globex/sprockets',
+      '/repos/globex/gizmos/installation',
+      '/app/installations/8/access_tokens',
+      '/repos/globex/gizmos',
+    ]);
+    expect(server().authorizations[1]).toBe('');
+    expect(server().authorizations[4]).toMatch(/^Bearer ghs_mock_8_\d+$/);
+    expect(hasGitHubToken(undefined, undefined, { owner: 'globex', repo: 'gizmos' })).toBe(true);
+    expect(hasGitHubToken(undefined, undefined, { owner: 'globex', repo: 'sprockets' })).toBe(false);
+    expect(hasGitHubToken()).toBe(true);
+  });
+
+  it('refreshes installation tokens before they expire', async () => {
+    installStrategy();
+    await fetchRepository('acme', 'widgets');
+
+    // Within five minutes of the expiry a new token is requested
+    now += 56 * 60 * 1000;
+    clearCommitActivityCache();
+    await fetchRepository('acme', 'widgets');
+
+    const { requests, authorizations } = server();
+    expect(requests.filter(request => request.endsWith('/access_tokens'))).toHaveLength(2);
+    expect(authorizations[authorizations.length - 1]).toMatch(/^Bearer ghs_mock_7_\d+$/);
+    expect(authorizations[authorizations.length - 1]).not.toBe(authorizations[2]);
+  });
+
+  it('falls back to the configured token for owners without an installation', async () => {
+    vi.stubEnv('GITHUB_TOKEN', 'personal-token');
+    installStrategy();
+
+    await fetchRepository('other', 'project');
+
+    expect(server().requests).toEqual(['/repos/other/project/installation', '/repos/other/project']);
+    expect(server().authorizations[1]).toBe('Bearer personal-token');
+  });
+});
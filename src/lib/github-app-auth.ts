@@ -0,0 +1,224 @@
+/**
+ * GitHub App authentication
+ * Runs GitFlux as a GitHub App instead of with a personal token. Requests are
+ * authenticated with installation access tokens:
+ * - a JWT signed with the app's private key identifies the app
+ * - the installation for a repository is looked up once per repository, as an
+ *   app installed on an owner may only have access to some of its repositories
+ * - the JWT is exchanged for an installation token, which is cached and
+ *   refreshed shortly before it expires (installation tokens last an hour)
+ * Requests for repositories without an installation fall back to the personal
+ * token configured for the host, if any.
+ *
+ * Environment:
+ * - GITHUB_APP_ID: the app's ID
+ * - GITHUB_APP_PRIVATE_KEY: the app's PEM private key ("\n" escapes are accepted)
+ * - GITHUB_APP_PRIVATE_KEY_PATH: file with the private key, instead of GITHUB_APP_PRIVATE_KEY
+ * - GITHUB_APP_HOST: host the app is registered on (default github.com); the
+ *   token endpoints follow GITHUB_API_URL, so they can point at a local stand-in
+ */
+
+import { createSign } from 'crypto';
+import { readFileSync } from 'fs';
+import { getGitHubApiBase, getGitHubToken, normalizeGitHubHost } from './github-hosts';
+import { fetchTransport } from './github-transport';
+import type { GitHubTransport } from './github-transport';
+import { setGitHubAuthStrategy } from './github-auth-strategy';
+import type { GitHubAuthStrategy, GitHubTokenRequest } from './github-auth-strategy';
+
+export interface GitHubAppAuthOptions {
+    appId: string;
+    privateKey: string; // PEM
+    host?: string; // Host the app is registered on
+    refreshMargin?: number; // Refresh tokens this many milliseconds before they expire
+    transport?: GitHubTransport; // Transport for the token endpoints; fetch by default, so tokens are never recorded to fixtures
+    now?: () => number;
+}
+
+export interface GitHubAppAuthStrategy extends GitHubAuthStrategy {
+    // Installations and tokens currently cached
+    stats(): { installations: number; tokens: number };
+}
+
+// GitHub rejects JWTs that expire more than 10 minutes after they were issued
+const JWT_LIFETIME = 9 * 60; // Seconds
+const JWT_CLOCK_DRIFT = 60; // Seconds
+const DEFAULT_REFRESH_MARGIN = 5 * 60 * 1000;
+// Repositories without an installation are looked up again after this long
+const MISSING_INSTALLATION_TTL = 5 * 60 * 1000;
+
+interface InstallationToken {
+    token: string;
+    expiresAt: number; // Epoch milliseconds
+}
+
+/**
+ * Create the JWT that authenticates as the app itself
+ */
+export function createAppJwt(appId: string, privateKey: string, now: number = Date.now()): string {
+    const issuedAt = Math.floor(now / 1000) - JWT_CLOCK_DRIFT;
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const unsigned = `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode({
+        iat: issuedAt,
+        exp: issuedAt + JWT_LIFETIME,
+        iss: appId,
+    })}`;
+    const signature = createSign('RSA-SHA256').update(unsigned).sign(privateKey).toString('base64url');
+    return `${unsigned}.${signature}`;
+}
+
+/**
+ * Create a strategy that authenticates requests with installation tokens
+ */
+export function createGitHubAppAuthStrategy(options: GitHubAppAuthOptions): GitHubAppAuthStrategy {
+    const {
+        appId,
+        privateKey,
+        refreshMargin = DEFAULT_REFRESH_MARGIN,
+        transport = fetchTransport,
+        now = Date.now,
+    } = options;
+    const appHost = normalizeGitHubHost(options.host);
+
+    // Installation ID per repository (or owner, for requests about an owner only),
+    // lower-cased, or undefined until checkAgainAt
+    const installations = new Map<string, { id?: number; checkAgainAt: number }>();
+    const getInstallationKey = (owner: string, repo?: string) => (repo ? `${owner}/${repo}` : owner).toLowerCase();
+    const tokens = new Map<number, InstallationToken>();
+    // Lookups and exchanges in flight, shared by concurrent requests (so they are
+    // not cancelled along with any one of them)
+    const pendingInstallations = new Map<string, Promise<number | undefined>>();
+    const pendingTokens = new Map<number, Promise<InstallationToken | undefined>>();
+
+    const appRequest = async (method: 'GET' | 'POST', endpoint: string) => {
+        const response = await transport.request({
+            url: `${getGitHubApiBase(appHost)}${endpoint}`,
+            method,
+            headers: {
+                'Accept': 'application/vnd.github+json',
+                'User-Agent': 'GitFlux-Analyzer/1.0',
+                'Authorization': `Bearer ${createAppJwt(appId, privateKey, now())}`,
+            },
+        });
+        return { status: response.status, body: await response.json().catch(() => ({})) };
+    };
+
+    const lookUpInstallation = async (owner: string, repo?: string): Promise<number | undefined> => {
+        const endpoint = repo
+            ? `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/installation`
+            : `/users/${encodeURIComponent(owner)}/installation`;
+        try {
+            const { status, body } = await appRequest('GET', endpoint);
+            const id = status === 200 && typeof body.id === 'number' ? body.id : undefined;
+            // Only remember answers; network failures are retried with the next request
+            if (id !== undefined || status === 404) {
+                installations.set(getInstallationKey(owner, repo), { id, checkAgainAt: now() + MISSING_INSTALLATION_TTL });
+            }
+            return id;
+        } catch {
+            return undefined;
+        }
+    };
+
+    const findInstallation = async (owner: string, repo?: string): Promise<number | undefined> => {
+        const key = getInstallationKey(owner, repo);
+        const known = installations.get(key);
+        if (known && (known.id !== undefined || known.checkAgainAt > now())) {
+            return known.id;
+        }
+
+        let pending = pendingInstallations.get(key);
+        if (!pending) {
+            pending = lookUpInstallation(owner, repo).finally(() => pendingInstallations.delete(key));
+            pendingInstallations.set(key, pending);
+        }
+        return pending;
+    };
+
+    const createInstallationToken = async (installationId: number): Promise<InstallationToken | undefined> => {
+        try {
+            const { status, body } = await appRequest('POST', `/app/installations/${installationId}/access_tokens`);
+            if (status !== 201 || typeof body.token !== 'string') {
+                // The app was uninstalled: look its repositories up again next time
+                if (status === 404) {
+                    installations.forEach((installation, key) => {
+                        if (installation.id === installationId) {
+                            installations.delete(key);
+                        }
+                    });
+                }
+                return undefined;
+            }
+
+            const token = { token: body.token, expiresAt: new Date(body.expires_at).getTime() };
+            tokens.set(installationId, token);
+            return token;
+        } catch {
+            return undefined;
+        }
+    };
+
+    const getInstallationToken = async (installationId: number): Promise<string | undefined> => {
+        const cached = tokens.get(installationId);
+        if (cached && cached.expiresAt - refreshMargin > now()) {
+            return cached.token;
+        }
+
+        let pending = pendingTokens.get(installationId);
+        if (!pending) {
+            pending = createInstallationToken(installationId).finally(() => pendingTokens.delete(installationId));
+            pendingTokens.set(installationId, pending);
+        }
+        return (await pending)?.token;
+    };
+
+    return {
+        async getToken({ host, owner, repo }: GitHubTokenRequest) {
+            if (normalizeGitHubHost(host) !== appHost || !owner) {
+                return undefined;
+            }
+            const installationId = await findInstallation(owner, repo);
+            return installationId === undefined ? undefined : getInstallationToken(installationId);
+        },
+
+        hasCredentials(host: string, repository?: { owner: string; repo?: string }) {
+            if (getGitHubToken(host)) {
+                return true;
+            }
+            if (normalizeGitHubHost(host) !== appHost) {
+                return false;
+            }
+            // Only installations that were found count; a repository that has not been
+            // looked up yet is not known to be covered
+            return repository
+                ? installations.get(getInstallationKey(repository.owner, repository.repo))?.id !== undefined
+                : Array.from(installations.values()).some(installation => installation.id !== undefined);
+        },
+
+        stats() {
+            return {
+                installations: Array.from(installations.values()).filter(installation => installation.id !== undefined).length,
+                tokens: tokens.size,
+            };
+        },
+    };
+}
+
+/**
+ * Install the GitHub App strategy when GITHUB_APP_ID and a private key are set
+ */
+export function configureGitHubAppAuthFromEnv(): void {
+    const appId = process.env.GITHUB_APP_ID;
+    const keyPath = process.env.GITHUB_APP_PRIVATE_KEY_PATH;
+    const privateKey = keyPath
+        ? readFileSync(keyPath, 'utf8')
+        : process.env.GITHUB_APP_PRIVATE_KEY?.replace(/\\n/g, '\n');
+
+    if (appId && privateKey) {
+        setGitHubAuthStrategy(createGitHubAppAuthStrategy({
+            appId,
+            privateKey,
+            host: process.env.GITHUB_APP_HOST,
+        }));
+    }
+}
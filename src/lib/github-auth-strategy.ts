@@ -0,0 +1,82 @@
+/**
+ * GitHub authentication strategies
+ * REST and GraphQL requests ask the installed strategy for the token of each
+ * request, unless they carry a signed-in user's token. The default strategy
+ * uses the personal access tokens configured for each host (see github-hosts.ts);
+ * deployments running as a GitHub App install the strategy from github-app-auth.ts,
+ * which picks an installation token per repository.
+ */
+
+import { getGitHubToken, normalizeGitHubHost } from './github-hosts';
+
+// What a request is about, for strategies that use different credentials per repository
+export interface GitHubTokenRequest {
+    host: string;
+    owner?: string;
+    repo?: string;
+}
+
+export interface GitHubAuthStrategy {
+    // Token for a request; undefined falls back to the token configured for the host
+    getToken(request: GitHubTokenRequest): Promise<string | undefined>;
+    // Whether requests to a host, or about a repository on it, are authenticated
+    // (GraphQL requires it)
+    hasCredentials(host: string, repository?: { owner: string; repo?: string }): boolean;
+}
+
+/**
+ * Default strategy: the personal access token configured for each host
+ */
+export const personalTokenStrategy: GitHubAuthStrategy = {
+    getToken: async ({ host }) => getGitHubToken(host),
+    hasCredentials: host => Boolean(getGitHubToken(host)),
+};
+
+// Stored on globalThis so the strategy installed at server startup is shared by
+// every bundle (instrumentation, server components and route handlers)
+const globalStrategy = globalThis as typeof globalThis & { __gitfluxAuthStrategy?: GitHubAuthStrategy };
+
+/**
+ * Get the strategy that authenticates GitHub requests
+ */
+export function getGitHubAuthStrategy(): GitHubAuthStrategy {
+    return globalStrategy.__gitfluxAuthStrategy || personalTokenStrategy;
+}
+
+/**
+ * Replace the strategy that authenticates GitHub requests; pass undefined to
+ * restore personal access tokens
+ */
+export function setGitHubAuthStrategy(strategy?: GitHubAuthStrategy): void {
+    globalStrategy.__gitfluxAuthStrategy = strategy;
+}
+
+/**
+ * Identify the credential a token belongs to without keeping the token itself,
+ * e.g. in cache entries written to disk (a SHA-256 of the token)
+ */
+export async function getCredentialId(token: string): Promise<string> {
+    const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Get the repository a REST endpoint belongs to, e.g. /repos/acme/widgets/commits
+ * or /users/acme/installation (owner only)
+ */
+export function getEndpointRepository(endpoint: string): { owner?: string; repo?: string } {
+    const path = endpoint.split('?')[0];
+    const repository = path.match(/^\/repos\/([^/]+)\/([^/]+)/);
+    if (repository) {
+        return { owner: decodeURIComponent(repository[1]), repo: decodeURIComponent(repository[2]) };
+    }
+    const account = path.match(/^\/(?:users|orgs)\/([^/]+)/);
+    return account ? { owner: decodeURIComponent(account[1]) } : {};
+}
+
+/**
+ * Get the token for a request from the installed strategy
+ */
+export async function getRequestToken(request: Omit<GitHubTokenRequest, 'host'> & { host?: string }): Promise<string | undefined> {
+    return getGitHubAuthStrategy().getToken({ ...request, host: normalizeGitHubHost(request.host) });
+}
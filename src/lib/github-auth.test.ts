@@ -0,0 +1,91 @@
+/**
+ * Unit tests for GitHub sign-in and sessions
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  exchangeOAuthCode,
+  getAuthorizeUrl,
+  getReturnPath,
+  openSession,
+  sealSession,
+  SESSION_MARKER_COOKIE,
+} from './github-auth';
+import { getGitHubHeaders, hasGitHubToken } from './github-api';
+import { getGitHubApiBase } from './github-hosts';
+import { setGitHubTransport } from './github-transport';
+
+const session = { token: 'gho_user', login: 'ann', avatarUrl: 'https://avatars.example.com/ann' };
+
+describe('GitHub sign-in', () => {
+  afterEach(() => {
+    setGitHubTransport(undefined);
+    vi.unstubAllEnvs();
+    document.cookie = `${SESSION_MARKER_COOKIE}=; expires=Thu, 01 Jan 1970 00:00:00 GMT`;
+  });
+
+  it('encrypts sessions and rejects tampered cookies', () => {
+    vi.stubEnv('GITFLUX_SESSION_SECRET', 'secret');
+    const sealed = sealSession(session);
+
+    expect(sealed).not.toContain('gho_user');
+    expect(openSession(sealed)).toEqual(session);
+    expect(openSession(`${sealed.slice(0, -2)}AA`)).toBeUndefined();
+
+    vi.stubEnv('GITFLUX_SESSION_SECRET', 'rotated');
+    expect(openSession(sealed)).toBeUndefined();
+  });
+
+  it('builds the authorization URL and exchanges the code', async () => {
+    vi.stubEnv('GITHUB_CLIENT_ID', 'client');
+    vi.stubEnv('GITHUB_CLIENT_SECRET', 'client-secret');
+    const url = new URL(getAuthorizeUrl('state123', 'http://localhost:3000/api/auth/callback'));
+
+    expect(url.origin + url.pathname).toBe('https://github.com/login/oauth/authorize');
+    expect(url.searchParams.get('state')).toBe('state123');
+    expect(url.searchParams.get('scope')).toContain('repo');
+
+    const transport = {
+      request: vi.fn()
+        .mockResolvedValueOnce(new Response(JSON.stringify({ access_token: 'gho_user' }), { status: 200 }))
+        .mockResolvedValueOnce(new Response(JSON.stringify({ error: 'bad_verification_code', error_description: 'The code is incorrect.' }), { status: 200 })),
+    };
+    setGitHubTransport(transport);
+
+    expect((await exchangeOAuthCode('good', 'http://localhost:3000/api/auth/callback')).data).toBe('gho_user');
+    expect(transport.request).toHaveBeenCalledWith(expect.objectContaining({
+      url: 'https://github.com/login/oauth/access_token',
+      method: 'POST',
+    }));
+    expect((await exchangeOAuthCode('bad', 'http://localhost:3000/api/auth/callback')).errorInfo).toMatchObject({
+      kind: 'auth_required',
+      message: 'The code is incorrect.',
+    });
+  });
+
+  it('only returns to local paths', () => {
+    expect(getReturnPath('/analyze/acme/widgets?period=3m')).toBe('/analyze/acme/widgets?period=3m');
+    expect(getReturnPath('https://evil.example.com')).toBe('/');
+    expect(getReturnPath('//evil.example.com')).toBe('/');
+    expect(getReturnPath(null)).toBe('/');
+  });
+
+  it('sends the user token instead of the server token', () => {
+    vi.stubEnv('GITHUB_TOKEN', 'server-token');
+
+    expect(getGitHubHeaders(undefined, 'gho_user').Authorization).toBe('Bearer gho_user');
+    expect(getGitHubHeaders().Authorization).toBe('Bearer server-token');
+  });
+
+  it('routes browser requests of signed-in users through the proxy', () => {
+    vi.stubEnv('GITHUB_TOKEN', '');
+    expect(getGitHubApiBase()).toBe('https://api.github.com');
+    expect(hasGitHubToken()).toBe(false);
+
+    document.cookie = `${SESSION_MARKER_COOKIE}=1`;
+
+    expect(getGitHubApiBase()).toBe('/api/github/github.com');
+    expect(getGitHubApiBase('ghe.example.com')).toBe('https://ghe.example.com/api/v3');
+    expect(hasGitHubToken()).toBe(true);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * GitHub sign-in
+ * Users sign in through GitHub's OAuth web flow, so repositories are analyzed
+ * with their own token: their private repositories become available and requests
+ * count against their own rate limit instead of the shared server token. The
+ * token is kept in an encrypted, httpOnly session cookie and never reaches
+ * browser code; browser requests of signed-in users go through the /api/github
+ * proxy, which adds it (see github-transport.ts).
+ *
+ * Sign-in covers github.com; Enterprise hosts keep using their configured tokens.
+ *
+ * Environment:
+ * - GITHUB_CLIENT_ID / GITHUB_CLIENT_SECRET: OAuth app credentials; sign-in is
+ *   disabled unless both are set
+ * - GITFLUX_SESSION_SECRET: secret the session cookie is encrypted with
+ *   (defaults to the client secret)
+ * - GITHUB_OAUTH_URL: override https://github.com for the OAuth endpoints
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { cookies } from 'next/headers';
+import { fetchAuthenticatedUser } from './github-api';
+import type { GitHubApiResponse } from './github-api';
+import { createGitHubError, errorResponse, forwardError } from './github-errors';
+import { getGitHubWebUrl, isDefaultGitHubHost } from './github-hosts';
+import { getGitHubTransport } from './github-transport';
+
+export { SESSION_MARKER_COOKIE } from './github-transport';
+
+export const SESSION_COOKIE = 'gitflux_session';
+export const OAUTH_STATE_COOKIE = 'gitflux_oauth_state';
+
+export const SESSION_MAX_AGE = 30 * 24 * 60 * 60; // Seconds
+export const OAUTH_STATE_MAX_AGE = 10 * 60; // Seconds
+
+// Read access to private repositories requires the full repo scope
+const OAUTH_SCOPES = 'repo read:user';
+
+export interface GitHubSession {
+    token: string;
+    login: string;
+    avatarUrl: string;
+}
+
+/**
+ * Check whether sign-in with GitHub is configured
+ */
+export function isGitHubSignInEnabled(): boolean {
+    return Boolean(process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET);
+}
+
+function getOAuthBase(): string {
+    return (process.env.GITHUB_OAUTH_URL || getGitHubWebUrl()).replace(/\/+$/, '');
+}
+
+// AES-256 key derived from the session secret
+function getSessionKey(): Buffer | undefined {
+    const secret = process.env.GITFLUX_SESSION_SECRET || process.env.GITHUB_CLIENT_SECRET;
+    return secret ? createHash('sha256').update(secret).digest() : undefined;
+}
+
+/**
+ * Create a random state for an authorization request
+ */
+export function createOAuthState(): string {
+    return randomBytes(16).toString('hex');
+}
+
+/**
+ * Get the GitHub URL that asks the user to authorize GitFlux
+ */
+export function getAuthorizeUrl(state: string, redirectUri: string): string {
+    const params = new URLSearchParams({
+        client_id: process.env.GITHUB_CLIENT_ID || '',
+        redirect_uri: redirectUri,
+        scope: OAUTH_SCOPES,
+        state,
+        allow_signup: 'false',
+    });
+    return `${getOAuthBase()}/login/oauth/authorize?${params}`;
+}
+
+/**
+ * Exchange the code GitHub redirected back with for an access token
+ */
+export async function exchangeOAuthCode(code: string, redirectUri: string): Promise<GitHubApiResponse<string>> {
+    try {
+        const response = await getGitHubTransport().request({
+            url: `${getOAuthBase()}/login/oauth/access_token`,
+            method: 'POST',
+            headers: {
+                'Accept': 'application/json',
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                client_id: process.env.GITHUB_CLIENT_ID,
+                client_secret: process.env.GITHUB_CLIENT_SECRET,
+                code,
+                redirect_uri: redirectUri,
+            }),
+        });
+
+        // GitHub answers failed exchanges with 200 and an error field
+        const body = await response.json().catch(() => ({}));
+        if (!response.ok || typeof body.access_token !== 'string') {
+            return errorResponse(createGitHubError('auth_required', {
+                status: response.status,
+                message: body.error_description || 'GitHub sign-in failed. Please try again.',
+            }));
+        }
+
+        return { data: body.access_token };
+    } catch {
+        return errorResponse(createGitHubError('network'));
+    }
+}
+
+/**
+ * Complete a sign-in: look up the account the token belongs to
+ */
+export async function createSession(token: string): Promise<GitHubApiResponse<GitHubSession>> {
+    const user = await fetchAuthenticatedUser({ token });
+    if (user.error || !user.data) {
+        return forwardError(user);
+    }
+    return { data: { token, login: user.data.login, avatarUrl: user.data.avatar_url } };
+}
+
+/**
+ * Encrypt a session into a cookie value
+ */
+export function sealSession(session: GitHubSession): string {
+    const key = getSessionKey();
+    if (!key) {
+        throw new Error('GITFLUX_SESSION_SECRET or GITHUB_CLIENT_SECRET must be set to sign in');
+    }
+
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const encrypted = Buffer.concat([cipher.update(JSON.stringify(session), 'utf8'), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+}
+
+/**
+ * Decrypt a session cookie value; returns undefined for missing, tampered or
+ * outdated cookies
+ */
+export function openSession(value?: string): GitHubSession | undefined {
+    const key = getSessionKey();
+    if (!value || !key) {
+        return undefined;
+    }
+
+    try {
+        const sealed = Buffer.from(value, 'base64url');
+        const decipher = createDecipheriv('aes-256-gcm', key, sealed.subarray(0, 12));
+        decipher.setAuthTag(sealed.subarray(12, 28));
+        const json = Buffer.concat([decipher.update(sealed.subarray(28)), decipher.final()]).toString('utf8');
+        const session = JSON.parse(json) as Partial<GitHubSession>;
+        if (typeof session.token !== 'string' || typeof session.login !== 'string') {
+            return undefined;
+        }
+        return { token: session.token, login: session.login, avatarUrl: session.avatarUrl || '' };
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Get the session of the signed-in user, in server components and route handlers
+ */
+export async function getGitHubSession(): Promise<GitHubSession | undefined> {
+    const cookieStore = await cookies();
+    return openSession(cookieStore.get(SESSION_COOKIE)?.value);
+}
+
+/**
+ * Get the signed-in user's token for requests to a host
+ * Only github.com requests use it; Enterprise hosts keep their configured tokens
+ */
+export async function getSessionToken(host?: string): Promise<string | undefined> {
+    if (!isDefaultGitHubHost(host)) {
+        return undefined;
+    }
+    return (await getGitHubSession())?.token;
+}
+
+/**
+ * Options of the session cookies; the marker cookie is readable by browser code
+ */
+export function getSessionCookieOptions(httpOnly: boolean = true) {
+    return {
+        httpOnly,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax' as const,
+        path: '/',
+        maxAge: SESSION_MAX_AGE,
+    };
+}
+
+/**
+ * Get a path on this site to return to after signing in or out
+ * Anything but a local path falls back to the home page, so the redirect
+ * cannot be pointed at another site
+ */
+export function getReturnPath(value?: string | null): string {
+    return value && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/\\') ? value : '/';
+}
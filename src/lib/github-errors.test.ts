@@ -0,0 +1,66 @@
+/**
+ * Unit tests for the GitHub error taxonomy
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createGitHubError, GitHubApiError, isTransientError, toGitHubError } from './github-errors';
+import { setGitHubTransport } from './github-transport';
+import { setRequestScheduler } from './github-scheduler';
+import { clearCommitActivityCache, fetchRepository } from './github-api';
+
+const respondWith = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+  clearCommitActivityCache();
+  setGitHubTransport({
+    request: vi.fn(async () => new Response(JSON.stringify(body), { status, headers })),
+  });
+};
+
+describe('GitHub errors', () => {
+  afterEach(() => {
+    setGitHubTransport(undefined);
+    setRequestScheduler(undefined);
+  });
+
+  it('tells the kind of failed requests', async () => {
+    respondWith(404, { message: 'Not Found' });
+    expect((await fetchRepository('owner', 'repo')).errorInfo).toEqual({
+      kind: 'not_found',
+      message: 'Repository not found',
+      status: 404,
+    });
+
+    respondWith(401, { message: 'Bad credentials' });
+    expect((await fetchRepository('owner', 'repo')).errorInfo).toMatchObject({ kind: 'auth_required', status: 401 });
+
+    respondWith(403, { message: 'Resource not accessible by integration' });
+    expect((await fetchRepository('owner', 'repo')).errorInfo).toMatchObject({ kind: 'forbidden', status: 403 });
+
+    respondWith(422, { message: 'Validation Failed' });
+    expect((await fetchRepository('owner', 'repo')).errorInfo).toMatchObject({ kind: 'validation', status: 422 });
+  });
+
+  it('reports when an exhausted rate limit resets', async () => {
+    const reset = Math.floor(Date.now() / 1000) - 1;
+    respondWith(403, { message: 'API rate limit exceeded' }, {
+      'x-ratelimit-limit': '60',
+      'x-ratelimit-remaining': '0',
+      'x-ratelimit-reset': String(reset),
+    });
+
+    const result = await fetchRepository('owner', 'repo');
+
+    expect(result.errorInfo).toMatchObject({ kind: 'rate_limited', status: 403, resetAt: reset * 1000 });
+    expect(isTransientError(result.errorInfo)).toBe(true);
+  });
+
+  it('recovers the kind of thrown errors and plain messages', () => {
+    const thrown = new GitHubApiError(createGitHubError('secondary_limit', { status: 429, retryAfter: 30 }));
+
+    expect(toGitHubError(thrown)).toMatchObject({ kind: 'secondary_limit', retryAfter: 30 });
+    expect(toGitHubError(new TypeError('Failed to fetch'))?.kind).toBe('network');
+    expect(toGitHubError({ status: 503 })?.kind).toBe('server');
+    // Error boundaries only receive the message
+    expect(toGitHubError(new Error('Repository not found'))?.kind).toBe('not_found');
+    expect(toGitHubError('Something else')).toBeUndefined();
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * GitHub API error taxonomy
+ * Failed requests carry a GitHubError next to their message (errorInfo on
+ * GitHubApiResponse), so callers can switch on the kind of failure instead of
+ * matching message text:
+ * - not_found: the repository or resource does not exist (404)
+ * - rate_limited: the primary rate limit is used up until resetAt
+ * - secondary_limit: a secondary rate limit asks to wait retryAfter seconds
+ * - forbidden: the token has no access to the resource (403)
+ * - auth_required: credentials are missing or were rejected (401)
+ * - network: GitHub could not be reached
+ * - server: GitHub failed to handle the request (5xx)
+ * - cancelled: the request was aborted
+ * - validation: the request was rejected as invalid (422 and other 4xx), or the
+ *   response did not have the expected shape
+ */
+
+import type { GitHubApiResponse, RateLimitInfo } from './github-api';
+
+export type GitHubErrorKind =
+    | 'not_found'
+    | 'rate_limited'
+    | 'secondary_limit'
+    | 'forbidden'
+    | 'auth_required'
+    | 'network'
+    | 'server'
+    | 'cancelled'
+    | 'validation';
+
+export interface GitHubError {
+    kind: GitHubErrorKind;
+    message: string;
+    status?: number; // HTTP status, when GitHub responded
+    retryAfter?: number; // Seconds to wait before retrying, for secondary limits
+    resetAt?: number; // When the rate limit resets (epoch milliseconds)
+}
+
+export const RATE_LIMIT_ERROR = 'GitHub API rate limit exceeded. Please try again later.';
+
+// Messages shown when a failure has no more specific message
+const DEFAULT_MESSAGES: Record<GitHubErrorKind, string> = {
+    not_found: 'Repository not found',
+    rate_limited: RATE_LIMIT_ERROR,
+    secondary_limit: RATE_LIMIT_ERROR,
+    forbidden: 'Access forbidden. Repository may be private or require authentication.',
+    auth_required: 'GitHub authentication failed. Please check your GitHub token.',
+    network: 'Network error. Please check your internet connection and try again.',
+    server: 'GitHub API is currently unavailable. Please try again later.',
+    cancelled: 'Request was cancelled',
+    validation: 'GitHub rejected the request.',
+};
+
+const ERROR_KINDS = Object.keys(DEFAULT_MESSAGES) as GitHubErrorKind[];
+
+// Thrown where a failed response has to become an exception, e.g. to reach an error boundary
+export class GitHubApiError extends Error {
+    public readonly kind: GitHubErrorKind;
+    public readonly status?: number;
+    public readonly retryAfter?: number;
+    public readonly resetAt?: number;
+
+    constructor(error: GitHubError, public rateLimit?: RateLimitInfo) {
+        super(error.message);
+        this.name = 'GitHubApiError';
+        this.kind = error.kind;
+        this.status = error.status;
+        this.retryAfter = error.retryAfter;
+        this.resetAt = error.resetAt;
+    }
+
+    /**
+     * Create the error for a failed response
+     */
+    static fromResponse(response: GitHubApiResponse<unknown>): GitHubApiError {
+        const error = response.errorInfo
+            || toGitHubError(response.error)
+            || createGitHubError('validation', { message: response.error });
+        return new GitHubApiError(error, response.rateLimit);
+    }
+}
+
+/**
+ * Create an error of a kind, with the default message unless one is given
+ */
+export function createGitHubError(
+    kind: GitHubErrorKind,
+    details: Partial<Omit<GitHubError, 'kind'>> = {}
+): GitHubError {
+    const { message = DEFAULT_MESSAGES[kind], ...rest } = details;
+    return { kind, message, ...rest };
+}
+
+/**
+ * Response fields of a failed request
+ */
+export function errorResponse<R extends RateLimitInfo>(
+    error: GitHubError,
+    rateLimit?: R
+): { error: string; errorInfo: GitHubError; rateLimit?: R } {
+    return { error: error.message, errorInfo: error, rateLimit };
+}
+
+/**
+ * Carry the error of a failed response over to a response of another type
+ */
+export function forwardError<T>(response: GitHubApiResponse<unknown>): GitHubApiResponse<T> {
+    return { error: response.error, errorInfo: response.errorInfo, rateLimit: response.rateLimit };
+}
+
+/**
+ * Get the error kind of an HTTP status, for responses that are not rate limited
+ */
+export function getStatusErrorKind(status: number): GitHubErrorKind {
+    if (status === 401) return 'auth_required';
+    if (status === 403) return 'forbidden';
+    if (status === 404 || status === 410) return 'not_found';
+    if (status === 429) return 'secondary_limit';
+    if (status >= 500) return 'server';
+    return 'validation';
+}
+
+// Status GitFlux's own routes respond with for each kind of failure
+const ERROR_STATUSES: Record<GitHubErrorKind, number> = {
+    not_found: 404,
+    rate_limited: 429,
+    secondary_limit: 429,
+    forbidden: 403,
+    auth_required: 401,
+    network: 502,
+    server: 502,
+    cancelled: 499,
+    validation: 422,
+};
+
+/**
+ * Get the HTTP status to respond with when passing a failure on to the browser
+ */
+export function getErrorStatus(error: GitHubError): number {
+    return ERROR_STATUSES[error.kind];
+}
+
+/**
+ * Whether a failure is caused by a primary or secondary rate limit
+ */
+export function isRateLimitError(error?: GitHubError): boolean {
+    return error?.kind === 'rate_limited' || error?.kind === 'secondary_limit';
+}
+
+/**
+ * Whether repeating the request later may succeed
+ */
+export function isTransientError(error?: GitHubError): boolean {
+    return error?.kind === 'network' || error?.kind === 'server' || isRateLimitError(error);
+}
+
+/**
+ * Recover a GitHubError from a thrown value, a failed response's error or a
+ * plain { status } object. Returns undefined when the kind cannot be told.
+ */
+export function toGitHubError(error: unknown): GitHubError | undefined {
+    if (error instanceof GitHubApiError) {
+        const { kind, message, status, retryAfter, resetAt } = error;
+        return { kind, message, status, retryAfter, resetAt };
+    }
+
+    if (typeof error === 'string') {
+        // Failures without errorInfo still use the default messages
+        const kind = ERROR_KINDS.find(candidate => DEFAULT_MESSAGES[candidate] === error);
+        return kind ? createGitHubError(kind) : undefined;
+    }
+
+    if (error instanceof Error && error.name === 'AbortError') {
+        return createGitHubError('cancelled');
+    }
+
+    // fetch rejects with a TypeError when the network fails
+    if (error instanceof TypeError) {
+        return createGitHubError('network');
+    }
+
+    if (typeof error !== 'object' || error === null) {
+        return undefined;
+    }
+
+    const candidate = error as Partial<GitHubError> & { rateLimit?: RateLimitInfo };
+    if (candidate.kind && ERROR_KINDS.includes(candidate.kind)) {
+        return createGitHubError(candidate.kind, candidate);
+    }
+
+    if (typeof candidate.status === 'number') {
+        const message = typeof candidate.message === 'string' ? candidate.message : undefined;
+        // A 403 with the rate limit used up is a rate limit, not missing access
+        if (candidate.status === 403 && candidate.rateLimit?.remaining === 0) {
+            return createGitHubError('rate_limited', {
+                status: candidate.status,
+                resetAt: candidate.rateLimit.reset * 1000,
+            });
+        }
+        return createGitHubError(getStatusErrorKind(candidate.status), { status: candidate.status, message });
+    }
+
+    return toGitHubError(candidate.message);
+}
@@ -0,0 +1,152 @@
+/**
+ * Unit tests for the record/replay GitHub transports
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  createRecordingTransport,
+  createReplayTransport,
+  getFixtureKey,
+} from './github-fixture-transport';
+import { GitHubTransport, setGitHubTransport } from './github-transport';
+import { clearCommitActivityCache, fetchRepository } from './github-api';
+
+function githubResponse(body: unknown, status = 200, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'content-type': 'application/json',
+      'x-ratelimit-remaining': '4999',
+      'x-ratelimit-reset': '1640995200',
+      'x-ratelimit-limit': '5000',
+      ...headers,
+    },
+  });
+}
+
+const repository = {
+  name: 'repo',
+  full_name: 'owner/repo',
+  description: null,
+  stargazers_count: 42,
+  forks_count: 1,
+  language: 'TypeScript',
+  html_url: 'https://github.com/owner/repo',
+  created_at: '2020-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+describe('GitHub fixture transports', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'gitflux-fixtures-'));
+    clearCommitActivityCache();
+  });
+
+  afterEach(() => {
+    setGitHubTransport(undefined);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records responses with their headers but without credentials', async () => {
+    const live: GitHubTransport = { request: vi.fn(async () => githubResponse(repository, 200, { etag: '"abc"' })) };
+    const transport = createRecordingTransport({ dir, transport: live });
+
+    const request = {
+      url: 'https://api.github.com/repos/owner/repo',
+      method: 'GET' as const,
+      headers: { Authorization: 'Bearer secret-token' },
+    };
+    const response = await transport.request(request);
+
+    expect(await response.json()).toEqual(repository);
+
+    const [file] = readdirSync(dir);
+    expect(file).toBe(getFixtureKey(request));
+
+    const contents = readFileSync(path.join(dir, file), 'utf8');
+    const fixture = JSON.parse(contents);
+    expect(fixture.request).toEqual({ method: 'GET', url: request.url });
+    expect(fixture.response.status).toBe(200);
+    expect(fixture.response.headers).toMatchObject({ etag: '"abc"', 'x-ratelimit-remaining': '4999' });
+    expect(contents).not.toContain('secret-token');
+  });
+
+  it('does not overwrite recorded bodies with 304 responses', async () => {
+    const live: GitHubTransport = {
+      request: vi.fn()
+        .mockResolvedValueOnce(githubResponse(repository, 200, { etag: '"abc"' }))
+        .mockResolvedValueOnce(new Response(null, { status: 304 })),
+    };
+    const recorder = createRecordingTransport({ dir, transport: live });
+    const request = { url: 'https://api.github.com/repos/owner/repo', method: 'GET' as const, headers: {} };
+
+    await recorder.request(request);
+    await recorder.request(request);
+
+    const replayed = await createReplayTransport({ dir }).request(request);
+    expect(replayed.status).toBe(200);
+    expect(await replayed.json()).toEqual(repository);
+  });
+
+  it('replays recorded requests through the GitHub API functions', async () => {
+    setGitHubTransport(createRecordingTransport({
+      dir,
+      transport: { request: async () => githubResponse(repository) },
+    }));
+    await fetchRepository('owner', 'repo');
+
+    clearCommitActivityCache();
+    setGitHubTransport(createReplayTransport({ dir }));
+    const result = await fetchRepository('owner', 'repo');
+
+    expect(result.data).toEqual(repository);
+    expect(result.rateLimit).toEqual({ remaining: 4999, reset: 1640995200, limit: 5000 });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('matches time-dependent queries recorded at another time', async () => {
+    const recorder = createRecordingTransport({
+      dir,
+      transport: { request: async () => githubResponse([{ sha: 'abc' }]) },
+    });
+    await recorder.request({
+      url: 'https://api.github.com/repos/owner/repo/commits?per_page=100&since=2024-01-01T00:00:00.000Z',
+      method: 'GET',
+      headers: {},
+    });
+
+    const response = await createReplayTransport({ dir }).request({
+      url: 'https://api.github.com/repos/owner/repo/commits?per_page=100&since=2025-06-01T12:34:56.789Z',
+      method: 'GET',
+      headers: {},
+    });
+
+    expect(await response.json()).toEqual([{ sha: 'abc' }]);
+  });
+
+  it('keys GraphQL requests by their body', async () => {
+    const first = { url: 'https://api.github.com/graphql', method: 'POST' as const, headers: {}, body: '{"query":"a"}' };
+    const second = { ...first, body: '{"query":"b"}' };
+
+    expect(getFixtureKey(first)).not.toBe(getFixtureKey(second));
+  });
+
+  it('responds with 404 when no fixture was recorded', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const response = await createReplayTransport({ dir }).request({
+      url: 'https://api.github.com/repos/owner/missing',
+      method: 'GET',
+      headers: {},
+    });
+
+    expect(response.status).toBe(404);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Record/replay transports for GitHub requests (server-only, uses the filesystem)
+ * Fixtures are JSON files holding one request/response pair each, including the
+ * rate limit, ETag and Link headers, so a captured repository can be analyzed offline.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+    GitHubTransport,
+    GitHubTransportRequest,
+    fetchTransport,
+    getGitHubTransportMode,
+    setGitHubTransport,
+} from './github-transport';
+
+export const DEFAULT_FIXTURES_DIR = 'fixtures/github';
+
+export interface GitHubFixture {
+    request: Pick<GitHubTransportRequest, 'method' | 'url' | 'body'>;
+    response: {
+        status: number;
+        statusText: string;
+        headers: Record<string, string>;
+        body: string;
+    };
+}
+
+// Query parameters derived from the current time; replay ignores them when no
+// exact match exists so fixtures keep working after they were recorded
+const TIME_DEPENDENT_PARAMS = ['since', 'until'];
+
+// Responses that must not carry a body
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+/**
+ * Build the fixture file name for a request
+ */
+export function getFixtureKey(request: Pick<GitHubTransportRequest, 'method' | 'url' | 'body'>): string {
+    const hash = createHash('sha1')
+        .update(`${request.method} ${request.url}\n${request.body || ''}`)
+        .digest('hex')
+        .slice(0, 16);
+    const slug = new URL(request.url).pathname
+        .replace(/[^a-zA-Z0-9]+/g, '-')
+        .replace(/^-|-$/g, '')
+        .slice(0, 80);
+    return `${request.method.toLowerCase()}-${slug}-${hash}.json`;
+}
+
+/**
+ * Get the URL a request is matched by when no exact fixture exists
+ */
+function getLooseRequestKey(request: Pick<GitHubTransportRequest, 'method' | 'url' | 'body'>): string {
+    const url = new URL(request.url);
+    TIME_DEPENDENT_PARAMS.forEach(param => url.searchParams.delete(param));
+    return `${request.method} ${url.toString()}\n${request.body || ''}`;
+}
+
+/**
+ * Rebuild a Response from a recorded fixture
+ */
+function fixtureToResponse(fixture: GitHubFixture): Response {
+    const { status, statusText, headers, body } = fixture.response;
+    return new Response(NULL_BODY_STATUSES.includes(status) ? null : body, { status, statusText, headers });
+}
+
+/**
+ * Create a transport that forwards requests and writes every response to the fixtures directory
+ * Authorization headers are never written to disk
+ */
+export function createRecordingTransport(options: {
+    dir?: string;
+    transport?: GitHubTransport;
+} = {}): GitHubTransport {
+    const { dir = DEFAULT_FIXTURES_DIR, transport = fetchTransport } = options;
+
+    return {
+        async request(request) {
+            const response = await transport.request(request);
+            const body = await response.text();
+
+            const headers: Record<string, string> = {};
+            response.headers.forEach((value, name) => {
+                headers[name] = value;
+            });
+
+            const fixture: GitHubFixture = {
+                request: {
+                    method: request.method,
+                    url: request.url,
+                    ...(request.body && { body: request.body }),
+                },
+                response: {
+                    status: response.status,
+                    statusText: response.statusText,
+                    headers,
+                    body,
+                },
+            };
+
+            // A 304 only revalidates the body recorded earlier; keep that fixture
+            if (response.status === 304) {
+                return fixtureToResponse(fixture);
+            }
+
+            try {
+                await fs.mkdir(dir, { recursive: true });
+                await fs.writeFile(path.join(dir, getFixtureKey(request)), JSON.stringify(fixture, null, 2));
+            } catch (error) {
+                console.warn(`Failed to record GitHub fixture for ${request.url}:`, error);
+            }
+
+            return fixtureToResponse(fixture);
+        },
+    };
+}
+
+/**
+ * Create a transport that serves responses from the fixtures directory
+ * Requests without a fixture get a 404 response
+ */
+export function createReplayTransport(options: { dir?: string } = {}): GitHubTransport {
+    const { dir = DEFAULT_FIXTURES_DIR } = options;
+    let looseIndex: Map<string, GitHubFixture> | undefined;
+
+    const readFixture = async (file: string): Promise<GitHubFixture | undefined> => {
+        try {
+            return JSON.parse(await fs.readFile(path.join(dir, file), 'utf8')) as GitHubFixture;
+        } catch {
+            return undefined;
+        }
+    };
+
+    const getLooseIndex = async (): Promise<Map<string, GitHubFixture>> => {
+        if (!looseIndex) {
+            looseIndex = new Map();
+            const files = await fs.readdir(dir).catch(() => [] as string[]);
+            for (const file of files.filter(name => name.endsWith('.json')).sort()) {
+                const fixture = await readFixture(file);
+                if (fixture?.request?.url) {
+                    looseIndex.set(getLooseRequestKey(fixture.request), fixture);
+                }
+            }
+        }
+        return looseIndex;
+    };
+
+    return {
+        async request(request) {
+            if (request.signal?.aborted) {
+                throw new DOMException('The operation was aborted.', 'AbortError');
+            }
+
+            const fixture = await readFixture(getFixtureKey(request))
+                || (await getLooseIndex()).get(getLooseRequestKey(request));
+
+            if (!fixture) {
+                console.warn(`No GitHub fixture recorded for ${request.method} ${request.url}`);
+                return new Response(JSON.stringify({ message: 'Not Found (no recorded fixture)' }), {
+                    status: 404,
+                    statusText: 'Not Found',
+                    headers: { 'content-type': 'application/json' },
+                });
+            }
+
+            return fixtureToResponse(fixture);
+        },
+    };
+}
+
+/**
+ * Install the transport selected by GITFLUX_TRANSPORT and GITFLUX_FIXTURES_DIR
+ */
+export function configureGitHubTransportFromEnv(): void {
+    const mode = getGitHubTransportMode();
+    const dir = process.env.GITFLUX_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+
+    if (mode === 'record') {
+        setGitHubTransport(createRecordingTransport({ dir }));
+    } else if (mode === 'replay') {
+        setGitHubTransport(createReplayTransport({ dir }));
+    } else {
+        setGitHubTransport(undefined);
+    }
+
+    if (mode !== 'live') {
+        console.log(`GitHub API: ${mode === 'record' ? 'Recording' : 'Replaying'} fixtures in ${dir}`);
+    }
+}
@@ -0,0 +1,379 @@
+/**
+ * Unit tests for the GitHub GraphQL data source
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  fetchBranchPRDataGraphQL,
+  fetchBranchPRAnalysisGraphQL,
+  isGraphQLQueryDocument,
+  makeGraphQLRequest,
+  type GraphQLBranchPRCheckpoint,
+} from './github-graphql';
+import { getRateLimitStatus } from './github-api';
+import { getRequestScheduler, setRequestScheduler } from './github-scheduler';
+
+const mockFetch = vi.mocked(fetch);
+
+function graphqlResponse(data: any, errors?: any[]) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    json: async () => ({ data, ...(errors && { errors }) }),
+  } as unknown as Response;
+}
+
+const rateLimit = {
+  limit: 5000,
+  cost: 1,
+  remaining: 4990,
+  resetAt: '2030-01-01T00:00:00Z',
+};
+
+const recent = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString();
+
+const branchesPage = {
+  repository: {
+    defaultBranchRef: { name: 'develop' },
+    refs: {
+      totalCount: 2,
+      pageInfo: { hasNextPage: false, endCursor: null },
+      nodes: [
+        {
+          name: 'develop',
+          target: { oid: 'sha1', message: 'Initial', committedDate: recent, author: { name: 'Alice', date: recent } },
+        },
+        {
+          name: 'feature/login',
+          target: { oid: 'sha2', message: 'Add login', committedDate: recent, author: { name: 'Bob', date: recent } },
+        },
+      ],
+    },
+  },
+  rateLimit,
+};
+
+function pullRequest(number: number, overrides: Record<string, any> = {}) {
+  return {
+    number,
+    title: `PR ${number}`,
+    state: 'MERGED',
+    isDraft: false,
+    createdAt: recent,
+    updatedAt: recent,
+    mergedAt: recent,
+    closedAt: recent,
+    additions: 10,
+    deletions: 5,
+    author: { login: 'alice' },
+    labels: { nodes: [{ name: 'bug' }] },
+    reviewRequests: { nodes: [{ requestedReviewer: { login: 'carol' } }, { requestedReviewer: { name: 'core-team' } }] },
+    reviews: {
+      pageInfo: { hasNextPage: false, endCursor: null },
+      nodes: [
+        { author: { login: 'bob' }, state: 'APPROVED', submittedAt: recent },
+        { author: { login: 'carol' }, state: 'PENDING', submittedAt: null },
+      ],
+    },
+    ...overrides,
+  };
+}
+
+function pullRequestsPage(nodes: any[], hasNextPage = false, totalCount = nodes.length) {
+  return {
+    repository: {
+      pullRequests: {
+        totalCount,
+        pageInfo: { hasNextPage, endCursor: hasNextPage ? 'cursor' : null },
+        nodes,
+      },
+    },
+    rateLimit,
+  };
+}
+
+describe('GitHub GraphQL data source', () => {
+  const originalToken = process.env.GITHUB_TOKEN;
+
+  beforeEach(() => {
+    process.env.GITHUB_TOKEN = 'test-token';
+    mockFetch.mockReset();
+  });
+
+  afterEach(() => {
+    setRequestScheduler(undefined);
+    if (originalToken === undefined) {
+      delete process.env.GITHUB_TOKEN;
+    } else {
+      process.env.GITHUB_TOKEN = originalToken;
+    }
+  });
+
+  describe('makeGraphQLRequest', () => {
+    it('posts the query with authentication and records the point-cost rate limit', async () => {
+      mockFetch.mockResolvedValueOnce(graphqlResponse({ rateLimit: { ...rateLimit, cost: 3 } }));
+
+      const result = await makeGraphQLRequest('query { rateLimit { cost } }', { owner: 'o' });
+
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe('https://api.github.com/graphql');
+      expect(init?.method).toBe('POST');
+      expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer test-token');
+      expect(JSON.parse(init?.body as string).variables).toEqual({ owner: 'o' });
+
+      expect(result.rateLimit).toEqual({
+        limit: 5000,
+        cost: 3,
+        remaining: 4990,
+        reset: Math.floor(new Date(rateLimit.resetAt).getTime() / 1000),
+      });
+      expect(getRateLimitStatus().graphql?.cost).toBe(3);
+    });
+
+    it('reports missing authentication', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 401, statusText: 'Unauthorized' } as Response);
+
+      const result = await makeGraphQLRequest('query {}', {});
+
+      expect(result.error).toContain('requires authentication');
+    });
+
+    it('maps GraphQL errors to error messages', async () => {
+      mockFetch.mockResolvedValueOnce(graphqlResponse(null, [{ type: 'NOT_FOUND', message: 'Could not resolve' }]));
+      expect((await makeGraphQLRequest('query {}', {})).error).toBe('Repository not found');
+
+      mockFetch.mockResolvedValueOnce(graphqlResponse(null, [{ type: 'RATE_LIMITED', message: 'limit' }]));
+      expect((await makeGraphQLRequest('query {}', {})).error).toContain('rate limit');
+    });
+
+    it('detects secondary rate limits the way REST requests do and pauses the pool of the credentials', async () => {
+      const forbidden = (status: number, headers: Record<string, string>, message = 'Forbidden') => ({
+        ok: false,
+        status,
+        statusText: 'Forbidden',
+        headers: new Headers(headers),
+        json: async () => ({ message }),
+      } as unknown as Response);
+
+      mockFetch.mockResolvedValueOnce(forbidden(403, { 'retry-after': '30' }));
+      expect((await makeGraphQLRequest('query {}', {})).errorInfo).toMatchObject({ kind: 'secondary_limit', retryAfter: 30 });
+      expect(getRequestScheduler().stats().pausedUntil).toBeGreaterThan(Date.now());
+
+      setRequestScheduler(undefined);
+      mockFetch.mockResolvedValueOnce(forbidden(429, {}));
+      expect((await makeGraphQLRequest('query {}', {})).errorInfo).toMatchObject({ kind: 'secondary_limit', status: 429 });
+
+      setRequestScheduler(undefined);
+      mockFetch.mockResolvedValueOnce(forbidden(403, {
+        'x-ratelimit-remaining': '0',
+        'x-ratelimit-reset': '1893456000',
+      }));
+      expect((await makeGraphQLRequest('query {}', {})).errorInfo).toMatchObject({ kind: 'rate_limited', resetAt: 1893456000 * 1000 });
+      // The GraphQL point budget does not hold back REST requests
+      expect(getRequestScheduler().stats().pausedUntil).toBeUndefined();
+
+      mockFetch.mockResolvedValueOnce(forbidden(403, {}));
+      expect((await makeGraphQLRequest('query {}', {})).errorInfo?.kind).toBe('forbidden');
+    });
+
+    it('holds queries back while the pool of the credentials is paused', async () => {
+      vi.useFakeTimers();
+      try {
+        const pool = 'github.com anonymous';
+        delete process.env.GITHUB_TOKEN;
+        getRequestScheduler().pause(Date.now() + 5000, pool);
+        mockFetch.mockResolvedValueOnce(graphqlResponse({ rateLimit }));
+
+        const result = makeGraphQLRequest('query {}', {});
+        await vi.advanceTimersByTimeAsync(0);
+        expect(mockFetch).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(5000);
+        expect((await result).error).toBeUndefined();
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('isGraphQLQueryDocument', () => {
+    it('accepts queries, shorthand queries and fragments', () => {
+      expect(isGraphQLQueryDocument('query Branches($owner: String!) { repository(owner: $owner) { name } }')).toBe(true);
+      expect(isGraphQLQueryDocument('{ viewer { login } }')).toBe(true);
+      expect(isGraphQLQueryDocument('query { ...user } fragment user on Query { viewer { login } }')).toBe(true);
+      // Keywords in comments and strings do not count
+      expect(isGraphQLQueryDocument('# mutation\nquery { search(query: "mutation {") { issueCount } }')).toBe(true);
+      expect(isGraphQLQueryDocument('query { search(query: """ } mutation { """) { issueCount } }')).toBe(true);
+    });
+
+    it('rejects mutations, subscriptions and documents without a query', () => {
+      expect(isGraphQLQueryDocument('mutation { addStar(input: { starrableId: "R_1" }) { clientMutationId } }')).toBe(false);
+      expect(isGraphQLQueryDocument('query { viewer { login } } mutation { deleteRepository { id } }')).toBe(false);
+      expect(isGraphQLQueryDocument('subscription { events { id } }')).toBe(false);
+      expect(isGraphQLQueryDocument('query { viewer { login } } } mutation { deleteRepository { id } }')).toBe(false);
+      expect(isGraphQLQueryDocument('fragment user on Query { viewer { login } }')).toBe(false);
+      expect(isGraphQLQueryDocument('')).toBe(false);
+    });
+  });
+
+  describe('fetchBranchPRDataGraphQL', () => {
+    it('maps branches, pull requests and reviews to REST payload shapes', async () => {
+      mockFetch
+        .mockResolvedValueOnce(graphqlResponse(branchesPage))
+        .mockResolvedValueOnce(graphqlResponse(pullRequestsPage([pullRequest(1)])));
+
+      const result = await fetchBranchPRDataGraphQL('owner', 'repo', 'all');
+
+      expect(result.error).toBeUndefined();
+      expect(result.data?.defaultBranch).toBe('develop');
+      expect(result.data?.branches[1]).toEqual({
+        name: 'feature/login',
+        commit: {
+          sha: 'sha2',
+          commit: { author: { name: 'Bob', date: recent }, message: 'Add login' },
+        },
+      });
+      expect(result.data?.pullRequests[0]).toMatchObject({
+        number: 1,
+        state: 'closed',
+        merged_at: recent,
+        user: { login: 'alice' },
+        labels: [{ name: 'bug' }],
+        requested_reviewers: [{ login: 'carol' }, { login: 'core-team' }],
+      });
+      // Pending reviews are not yet submitted and are skipped
+      expect(result.data?.reviews).toEqual([
+        { pull_request_number: 1, user: { login: 'bob' }, state: 'APPROVED', submitted_at: recent },
+      ]);
+    });
+
+    it('follows cursors until the pull request budget is exhausted', async () => {
+      mockFetch
+        .mockResolvedValueOnce(graphqlResponse(branchesPage))
+        .mockResolvedValueOnce(graphqlResponse(pullRequestsPage([pullRequest(1), pullRequest(2)], true, 10)))
+        .mockResolvedValueOnce(graphqlResponse(pullRequestsPage([pullRequest(3), pullRequest(4)], true, 10)));
+
+      const onProgress = vi.fn();
+      const result = await fetchBranchPRDataGraphQL('owner', 'repo', 'all', {
+        pageSize: 2,
+        maxPullRequests: 4,
+        onProgress,
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(JSON.parse(mockFetch.mock.calls[2][1]?.body as string).variables.after).toBe('cursor');
+      expect(result.data?.pullRequests).toHaveLength(4);
+      expect(onProgress).toHaveBeenLastCalledWith(4, 4);
+    });
+
+    it('fetches the reviews of pull requests with more than one page of reviews', async () => {
+      const approval = { author: { login: 'bob' }, state: 'APPROVED', submittedAt: recent };
+      mockFetch
+        .mockResolvedValueOnce(graphqlResponse(branchesPage))
+        .mockResolvedValueOnce(graphqlResponse(pullRequestsPage([pullRequest(1, {
+          reviews: { pageInfo: { hasNextPage: true, endCursor: 'reviews-1' }, nodes: [approval] },
+        })])))
+        .mockResolvedValueOnce(graphqlResponse({
+          repository: { pullRequest: { reviews: { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [approval, approval] } } },
+          rateLimit,
+        }));
+
+      const result = await fetchBranchPRDataGraphQL('owner', 'repo', 'all');
+
+      expect(JSON.parse(mockFetch.mock.calls[2][1]?.body as string).variables).toMatchObject({ number: 1, after: 'reviews-1' });
+      expect(result.data?.reviews).toHaveLength(3);
+    });
+
+    it('stops paging once pull requests fall outside the time period', async () => {
+      const old = '2000-01-01T00:00:00Z';
+      mockFetch
+        .mockResolvedValueOnce(graphqlResponse(branchesPage))
+        .mockResolvedValueOnce(graphqlResponse(pullRequestsPage([
+          pullRequest(1),
+          pullRequest(2, { createdAt: old, updatedAt: old }),
+        ], true)));
+
+      const result = await fetchBranchPRDataGraphQL('owner', 'repo', '30d');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(result.data?.pullRequests).toHaveLength(2);
+    });
+
+    it('stops and flags a warning when the point budget runs low', async () => {
+      mockFetch.mockResolvedValueOnce(graphqlResponse({
+        ...branchesPage,
+        rateLimit: { ...rateLimit, remaining: 10 },
+      }));
+
+      const result = await fetchBranchPRDataGraphQL('owner', 'repo', 'all');
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result.rateLimitWarning).toBe(true);
+      expect(result.data?.pullRequests).toEqual([]);
+    });
+
+    it('continues from the cursors of its checkpoint', async () => {
+      mockFetch
+        .mockResolvedValueOnce(graphqlResponse(branchesPage))
+        .mockResolvedValueOnce(graphqlResponse({
+          ...pullRequestsPage([pullRequest(1), pullRequest(2)], true, 4),
+          rateLimit: { ...rateLimit, remaining: 10 },
+        }));
+
+      const checkpoint: GraphQLBranchPRCheckpoint = { branches: [], pullRequests: [], reviews: [] };
+      const partial = await fetchBranchPRDataGraphQL('owner', 'repo', 'all', { pageSize: 2, checkpoint });
+
+      expect(partial.rateLimitWarning).toBe(true);
+      expect(checkpoint).toMatchObject({ branchesCursor: null, pullRequestsCursor: 'cursor' });
+
+      mockFetch.mockReset().mockResolvedValueOnce(graphqlResponse(pullRequestsPage([pullRequest(3), pullRequest(4)])));
+      const resumed = await fetchBranchPRDataGraphQL('owner', 'repo', 'all', { pageSize: 2, checkpoint });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(mockFetch.mock.calls[0][1]?.body as string).variables.after).toBe('cursor');
+      expect(resumed.rateLimitWarning).toBeUndefined();
+      expect(resumed.data?.defaultBranch).toBe('develop');
+      expect(resumed.data?.branches).toHaveLength(2);
+      expect(resumed.data?.pullRequests.map(pr => pr.number)).toEqual([1, 2, 3, 4]);
+    });
+
+    it('returns an error for a missing repository', async () => {
+      mockFetch.mockResolvedValueOnce(graphqlResponse({ repository: null, rateLimit }));
+
+      const result = await fetchBranchPRDataGraphQL('owner', 'missing', 'all');
+
+      expect(result.error).toBe('Repository not found');
+    });
+  });
+
+  describe('fetchBranchPRAnalysisGraphQL', () => {
+    it('produces a BranchPRAnalysis including review analytics', async () => {
+      mockFetch
+        .mockResolvedValueOnce(graphqlResponse(branchesPage))
+        .mockResolvedValueOnce(graphqlResponse(pullRequestsPage([pullRequest(1), pullRequest(2, { state: 'OPEN', mergedAt: null, closedAt: null })])))
+        // REST comparison of feature/login with develop
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          headers: new Headers({ 'x-ratelimit-remaining': '4999', 'x-ratelimit-reset': '1640995200', 'x-ratelimit-limit': '5000' }),
+          json: async () => ({ status: 'diverged', ahead_by: 3, behind_by: 12, total_commits: 3, commits: [] }),
+        } as unknown as Response);
+
+      const result = await fetchBranchPRAnalysisGraphQL('owner', 'repo', '30d');
+
+      expect(result.error).toBeUndefined();
+      expect(result.data?.branches.totalBranches).toBe(2);
+      expect(result.data?.branches.branches.find(b => b.isDefault)?.name).toBe('develop');
+      expect(result.data?.branches.branches.find(b => b.name === 'feature/login')).toMatchObject({ ahead: 3, behind: 12, commitCount: 3 });
+      expect(result.data?.pullRequests.totalPRs).toBe(2);
+      expect(result.data?.pullRequests.mergedPRs).toBe(1);
+      expect(result.data?.pullRequests.openPRs).toBe(1);
+      expect(result.data?.pullRequests.pullRequests[0].requestedReviewers).toEqual(['carol', 'core-team']);
+      expect(result.data?.reviews.totalReviews).toBe(2);
+      expect(result.data?.reviews.topReviewers[0]).toMatchObject({ username: 'bob', reviewCount: 2, approvalRate: 100 });
+      expect(result.dataPoints).toBe(6);
+    });
+  });
+});
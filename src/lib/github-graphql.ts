@@ -0,0 +1,708 @@
+/**
+ * GitHub GraphQL (v4) API integration module
+ * Fetches branches and pull requests together with their reviews, review requests,
+ * line counts and labels in batched cursor queries instead of one REST call per PR
+ */
+
+import {
+    BranchPRAnalysis,
+    BranchPRApiResponse,
+    GitHubApiResponse,
+    GitHubBranchPayload,
+    GitHubHostOptions,
+    GitHubPullRequestPayload,
+    GitHubReviewPayload,
+    GraphQLRateLimitInfo,
+    TimePeriod,
+    extractRateLimit,
+    fetchBranchComparisons,
+    generateBranchPRAnalysis,
+    getGitHubHeaders,
+    getRateLimitError,
+    getRateLimitPool,
+    getRateLimitStatus,
+    getResumeAt,
+    getTimePeriodBounds,
+    recordRateLimit,
+} from './github-api';
+import { createGitHubError, errorResponse, getStatusErrorKind } from './github-errors';
+import { getGitHubGraphQLEndpoint } from './github-hosts';
+import { getRequestScheduler, RequestPausedError } from './github-scheduler';
+import { getGitHubTransport } from './github-transport';
+import { getRequestToken } from './github-auth-strategy';
+
+// GraphQL response types (only the fields requested by the queries below)
+interface GraphQLRateLimitNode {
+    limit: number;
+    cost: number;
+    remaining: number;
+    resetAt: string;
+}
+
+interface GraphQLPageInfo {
+    hasNextPage: boolean;
+    endCursor: string | null;
+}
+
+interface GraphQLError {
+    type?: string;
+    message: string;
+}
+
+interface GraphQLBranchNode {
+    name: string;
+    target: {
+        oid: string;
+        message?: string;
+        committedDate?: string;
+        author?: { name: string | null; date: string | null } | null;
+    } | null;
+}
+
+interface GraphQLReviewNode {
+    author: { login: string } | null;
+    state: 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'DISMISSED' | 'PENDING';
+    submittedAt: string | null;
+}
+
+interface GraphQLPullRequestNode {
+    number: number;
+    title: string;
+    state: 'OPEN' | 'CLOSED' | 'MERGED';
+    isDraft: boolean;
+    createdAt: string;
+    updatedAt: string;
+    mergedAt: string | null;
+    closedAt: string | null;
+    additions: number;
+    deletions: number;
+    headRefName: string;
+    headRefOid: string;
+    author: { login: string } | null;
+    labels: { nodes: { name: string }[] } | null;
+    reviewRequests: {
+        nodes: { requestedReviewer: { login?: string; name?: string } | null }[];
+    } | null;
+    reviews: GraphQLReviewConnection | null;
+}
+
+interface GraphQLReviewConnection {
+    pageInfo: GraphQLPageInfo;
+    nodes: GraphQLReviewNode[];
+}
+
+interface BranchesQueryResult {
+    repository: {
+        defaultBranchRef: { name: string } | null;
+        refs: {
+            totalCount: number;
+            pageInfo: GraphQLPageInfo;
+            nodes: GraphQLBranchNode[];
+        };
+    } | null;
+    rateLimit: GraphQLRateLimitNode;
+}
+
+interface PullRequestsQueryResult {
+    repository: {
+        pullRequests: {
+            totalCount: number;
+            pageInfo: GraphQLPageInfo;
+            nodes: GraphQLPullRequestNode[];
+        };
+    } | null;
+    rateLimit: GraphQLRateLimitNode;
+}
+
+interface PullRequestReviewsQueryResult {
+    repository: {
+        pullRequest: { reviews: GraphQLReviewConnection } | null;
+    } | null;
+    rateLimit: GraphQLRateLimitNode;
+}
+
+// REST-shaped payloads consumed by generateBranchPRAnalysis
+export interface GraphQLBranchPRData {
+    defaultBranch: string;
+    branches: GitHubBranchPayload[];
+    pullRequests: GitHubPullRequestPayload[];
+    reviews: GitHubReviewPayload[];
+}
+
+const BRANCHES_QUERY = `
+query Branches($owner: String!, $repo: String!, $first: Int!, $after: String) {
+  repository(owner: $owner, name: $repo) {
+    defaultBranchRef { name }
+    refs(refPrefix: "refs/heads/", first: $first, after: $after) {
+      totalCount
+      pageInfo { hasNextPage endCursor }
+      nodes {
+        name
+        target {
+          oid
+          ... on Commit {
+            message
+            committedDate
+            author { name date }
+          }
+        }
+      }
+    }
+  }
+  rateLimit { limit cost remaining resetAt }
+}`;
+
+const PULL_REQUESTS_QUERY = `
+query PullRequests($owner: String!, $repo: String!, $first: Int!, $after: String) {
+  repository(owner: $owner, name: $repo) {
+    pullRequests(first: $first, after: $after, orderBy: { field: UPDATED_AT, direction: DESC }) {
+      totalCount
+      pageInfo { hasNextPage endCursor }
+      nodes {
+        number
+        title
+        state
+        isDraft
+        createdAt
+        updatedAt
+        mergedAt
+        closedAt
+        additions
+        deletions
+        headRefName
+        headRefOid
+        author { login }
+        labels(first: 20) { nodes { name } }
+        reviewRequests(first: 20) {
+          nodes {
+            requestedReviewer {
+              ... on User { login }
+              ... on Team { name }
+            }
+          }
+        }
+        reviews(first: 100) {
+          pageInfo { hasNextPage endCursor }
+          nodes {
+            author { login }
+            state
+            submittedAt
+          }
+        }
+      }
+    }
+  }
+  rateLimit { limit cost remaining resetAt }
+}`;
+
+// Reviews after the first 100 of a pull request
+const PULL_REQUEST_REVIEWS_QUERY = `
+query PullRequestReviews($owner: String!, $repo: String!, $number: Int!, $after: String) {
+  repository(owner: $owner, name: $repo) {
+    pullRequest(number: $number) {
+      reviews(first: 100, after: $after) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          author { login }
+          state
+          submittedAt
+        }
+      }
+    }
+  }
+  rateLimit { limit cost remaining resetAt }
+}`;
+
+/**
+ * Convert the GraphQL rateLimit node into the shared rate limit format
+ */
+function toRateLimitInfo(node: GraphQLRateLimitNode): GraphQLRateLimitInfo {
+    return {
+        limit: node.limit,
+        cost: node.cost,
+        remaining: node.remaining,
+        reset: Math.floor(new Date(node.resetAt).getTime() / 1000),
+    };
+}
+
+/**
+ * Check that a GraphQL document only defines queries (and fragments)
+ * Only the keyword opening each top-level definition is looked at; comments and
+ * strings are skipped, as they may contain any word.
+ */
+export function isGraphQLQueryDocument(document: string): boolean {
+    let depth = 0;
+    let atDefinition = true;
+    let operations = 0;
+
+    for (let index = 0; index < document.length;) {
+        const char = document[index];
+
+        if (char === '#') {
+            const end = document.slice(index).search(/[\n\r]/);
+            index = end < 0 ? document.length : index + end;
+        } else if (document.startsWith('"""', index)) {
+            let end = document.indexOf('"""', index + 3);
+            while (end > 0 && document[end - 1] === '\\') {
+                end = document.indexOf('"""', end + 3);
+            }
+            index = end < 0 ? document.length : end + 3;
+        } else if (char === '"') {
+            index++;
+            while (index < document.length && document[index] !== '"' && document[index] !== '\n') {
+                index += document[index] === '\\' ? 2 : 1;
+            }
+            index++;
+        } else if (/[A-Za-z_]/.test(char)) {
+            const name = document.slice(index).match(/^[A-Za-z_][A-Za-z0-9_]*/)![0];
+            if (depth === 0 && atDefinition) {
+                if (name !== 'query' && name !== 'fragment') {
+                    return false;
+                }
+                operations += name === 'query' ? 1 : 0;
+                atDefinition = false;
+            }
+            index += name.length;
+        } else {
+            if (char === '{') {
+                // A selection set on its own is a query
+                if (depth === 0 && atDefinition) {
+                    operations++;
+                    atDefinition = false;
+                }
+                depth++;
+            } else if (char === '}') {
+                // An unbalanced brace would hide the definitions after it
+                if (--depth < 0) {
+                    return false;
+                }
+                atDefinition = depth === 0;
+            }
+            index++;
+        }
+    }
+
+    return operations > 0;
+}
+
+/**
+ * Make a request to the GitHub GraphQL API with error handling and rate limit tracking
+ * Requests go through the request scheduler in the rate limit pool of their
+ * credentials, like REST requests. A secondary rate limit, which GraphQL and REST
+ * requests share, pauses the pool.
+ */
+export async function makeGraphQLRequest<T extends { rateLimit?: GraphQLRateLimitNode }>(
+    query: string,
+    variables: Record<string, unknown>,
+    options: GitHubHostOptions & { signal?: AbortSignal } = {}
+): Promise<GitHubApiResponse<T> & { rateLimit?: GraphQLRateLimitInfo }> {
+    const { signal, host, token } = options;
+
+    if (signal?.aborted) {
+        return errorResponse(createGitHubError('cancelled'));
+    }
+
+    try {
+        const headers = getGitHubHeaders(host, token || await getRequestToken({
+            host,
+            owner: typeof variables.owner === 'string' ? variables.owner : undefined,
+            repo: typeof variables.repo === 'string' ? variables.repo : undefined,
+        }));
+        const pool = await getRateLimitPool(host, headers['Authorization']);
+        const scheduler = getRequestScheduler();
+        const { response, body } = await scheduler.schedule(async scheduledSignal => {
+            const response = await getGitHubTransport().request({
+                url: getGitHubGraphQLEndpoint(host),
+                method: 'POST',
+                headers: { ...headers, 'Content-Type': 'application/json' },
+                body: JSON.stringify({ query, variables }),
+                signal: scheduledSignal,
+            });
+            const body: { data?: T; errors?: GraphQLError[]; message?: string } = response.status === 401
+                ? {}
+                : await response.json().catch(() => ({}));
+            return { response, body };
+        }, { pool, signal });
+
+        if (response.status === 401) {
+            return errorResponse(createGitHubError('auth_required', {
+                status: 401,
+                message: 'GitHub GraphQL API requires authentication. Please configure a GitHub token.',
+            }));
+        }
+
+        if (!response.ok) {
+            const { status } = response;
+            const rateLimitError = status === 403 || status === 429
+                ? getRateLimitError(status, response.headers, extractRateLimit(response.headers), body.message)
+                : undefined;
+            if (rateLimitError) {
+                // The GraphQL point budget is separate from the REST one; secondary limits are not
+                if (rateLimitError.kind === 'secondary_limit') {
+                    scheduler.pause(getResumeAt(rateLimitError), pool);
+                }
+                return errorResponse(rateLimitError);
+            }
+            const kind = getStatusErrorKind(status);
+            return errorResponse(createGitHubError(kind, {
+                status,
+                ...(kind === 'validation' ? { message: `GitHub API error: ${status} ${response.statusText}` } : {}),
+            }));
+        }
+
+        const rateLimit = body.data?.rateLimit ? toRateLimitInfo(body.data.rateLimit) : undefined;
+        if (rateLimit) {
+            recordRateLimit('graphql', rateLimit);
+        }
+
+        if (Array.isArray(body.errors) && body.errors.length > 0) {
+            const rateLimited = body.errors.some(error => error.type === 'RATE_LIMITED');
+            if (rateLimited) {
+                return errorResponse(createGitHubError('rate_limited', {
+                    ...(rateLimit ? { resetAt: rateLimit.reset * 1000 } : {}),
+                }), rateLimit);
+            }
+            const notFound = body.errors.some(error => error.type === 'NOT_FOUND');
+            if (notFound) {
+                return errorResponse(createGitHubError('not_found'), rateLimit);
+            }
+            return errorResponse(createGitHubError('validation', {
+                message: `GitHub GraphQL error: ${body.errors.map(error => error.message).join('; ')}`,
+            }), rateLimit);
+        }
+
+        return {
+            data: body.data,
+            rateLimit,
+        };
+    } catch (error) {
+        if (error instanceof RequestPausedError) {
+            return errorResponse(createGitHubError('rate_limited', { resetAt: error.resumeAt }), getRateLimitStatus().graphql);
+        }
+
+        if (error instanceof Error && error.name === 'AbortError') {
+            return errorResponse(createGitHubError('cancelled'));
+        }
+
+        if (error instanceof TypeError && error.message.includes('fetch')) {
+            return errorResponse(createGitHubError('network'));
+        }
+
+        return errorResponse(createGitHubError('network', {
+            message: 'An unexpected error occurred while fetching data from GitHub.',
+        }));
+    }
+}
+
+/**
+ * Forward the error of a failed query, or report a query without data
+ */
+function failedQuery<R extends GraphQLRateLimitInfo>(
+    response: GitHubApiResponse<unknown> & { rateLimit?: R },
+    message: string
+): GitHubApiResponse<never> & { rateLimit?: R } {
+    const error = response.errorInfo || createGitHubError('validation', { message: response.error || message });
+    return errorResponse(error, response.rateLimit);
+}
+
+/**
+ * Map a GraphQL branch node to the REST branch payload shape
+ */
+function toRestBranch(node: GraphQLBranchNode): GitHubBranchPayload {
+    const date = node.target?.author?.date || node.target?.committedDate || '';
+    return {
+        name: node.name,
+        commit: {
+            sha: node.target?.oid || '',
+            commit: {
+                author: {
+                    name: node.target?.author?.name || 'Unknown',
+                    date,
+                },
+                message: node.target?.message || '',
+            },
+        },
+    };
+}
+
+/**
+ * Map a GraphQL pull request node to the REST pull request payload shape
+ */
+function toRestPullRequest(node: GraphQLPullRequestNode): GitHubPullRequestPayload {
+    return {
+        number: node.number,
+        title: node.title,
+        state: node.state === 'OPEN' ? 'open' : 'closed',
+        created_at: node.createdAt,
+        updated_at: node.updatedAt,
+        merged_at: node.mergedAt,
+        closed_at: node.closedAt,
+        user: { login: node.author?.login || 'ghost' },
+        additions: node.additions,
+        deletions: node.deletions,
+        labels: node.labels?.nodes.map(label => ({ name: label.name })) || [],
+        requested_reviewers: (node.reviewRequests?.nodes || [])
+            .map(request => request.requestedReviewer?.login || request.requestedReviewer?.name)
+            .filter((login): login is string => Boolean(login))
+            .map(login => ({ login })),
+        draft: node.isDraft,
+        head: { ref: node.headRefName, sha: node.headRefOid },
+    };
+}
+
+/**
+ * Map GraphQL review nodes to REST review payloads tagged with their pull request number
+ */
+function toRestReviews(node: GraphQLPullRequestNode): GitHubReviewPayload[] {
+    return (node.reviews?.nodes || [])
+        .filter(review => review.state !== 'PENDING' && review.submittedAt)
+        .map(review => ({
+            pull_request_number: node.number,
+            user: { login: review.author?.login || 'ghost' },
+            state: review.state,
+            submitted_at: review.submittedAt,
+        }));
+}
+
+/**
+ * Fetch the reviews of a pull request that did not fit on its first page of 100
+ */
+async function fetchRemainingReviews(
+    owner: string,
+    repo: string,
+    node: GraphQLPullRequestNode,
+    options: GitHubHostOptions & { signal?: AbortSignal }
+): Promise<GitHubApiResponse<GraphQLReviewNode[]> & { rateLimit?: GraphQLRateLimitInfo }> {
+    const reviews: GraphQLReviewNode[] = [];
+    let rateLimit: GraphQLRateLimitInfo | undefined;
+    let after = node.reviews?.pageInfo.hasNextPage ? node.reviews.pageInfo.endCursor : null;
+
+    while (after) {
+        const response = await makeGraphQLRequest<PullRequestReviewsQueryResult>(
+            PULL_REQUEST_REVIEWS_QUERY,
+            { owner, repo, number: node.number, after },
+            options
+        );
+
+        if (response.error || !response.data) {
+            return failedQuery(response, `Failed to fetch reviews of pull request #${node.number}`);
+        }
+
+        const connection = response.data.repository?.pullRequest?.reviews;
+        if (!connection) {
+            return errorResponse(createGitHubError('not_found'), response.rateLimit);
+        }
+
+        rateLimit = response.rateLimit;
+        reviews.push(...connection.nodes);
+        after = connection.pageInfo.hasNextPage ? connection.pageInfo.endCursor : null;
+    }
+
+    return { data: reviews, rateLimit };
+}
+
+/**
+ * Pages fetched so far by fetchBranchPRDataGraphQL, to continue a fetch cut short
+ * by the rate limit. A cursor is undefined before the first page, the cursor to
+ * continue after, or null once everything within the budget has been fetched.
+ */
+export interface GraphQLBranchPRCheckpoint {
+    defaultBranch?: string;
+    branches: GitHubBranchPayload[];
+    branchesCursor?: string | null;
+    pullRequests: GitHubPullRequestPayload[];
+    reviews: GitHubReviewPayload[];
+    pullRequestsCursor?: string | null;
+}
+
+/**
+ * Fetch branches, pull requests and reviews for a repository using batched GraphQL queries
+ * Returns REST-shaped payloads so the existing processing functions can be reused.
+ * With a checkpoint, the fetch continues from its cursors and records every page.
+ */
+export async function fetchBranchPRDataGraphQL(
+    owner: string,
+    repo: string,
+    timePeriod: TimePeriod,
+    options: GitHubHostOptions & {
+        maxBranches?: number;
+        maxPullRequests?: number;
+        pageSize?: number;
+        rateLimitThreshold?: number;
+        onProgress?: (processed: number, total: number) => void;
+        signal?: AbortSignal;
+        checkpoint?: GraphQLBranchPRCheckpoint;
+    } = {}
+): Promise<GitHubApiResponse<GraphQLBranchPRData> & { rateLimit?: GraphQLRateLimitInfo; rateLimitWarning?: boolean }> {
+    const {
+        maxBranches = 1000,
+        maxPullRequests = 1000,
+        pageSize = 50,
+        rateLimitThreshold = 100,
+        onProgress,
+        signal,
+        host,
+        token,
+        checkpoint = { branches: [], pullRequests: [], reviews: [] },
+    } = options;
+
+    const { branches, pullRequests, reviews } = checkpoint;
+    let rateLimit: GraphQLRateLimitInfo | undefined;
+    let rateLimitWarning = false;
+
+    // Fetch branches (refs) page by page
+    let after: string | null = checkpoint.branchesCursor ?? null;
+    while (checkpoint.branchesCursor !== null && branches.length < maxBranches) {
+        const response: GitHubApiResponse<BranchesQueryResult> & { rateLimit?: GraphQLRateLimitInfo } =
+            await makeGraphQLRequest<BranchesQueryResult>(
+                BRANCHES_QUERY,
+                { owner, repo, first: Math.min(100, maxBranches - branches.length), after },
+                { signal, host, token }
+            );
+
+        if (response.error || !response.data) {
+            return failedQuery(response, 'Failed to fetch branches');
+        }
+
+        if (!response.data.repository) {
+            return errorResponse(createGitHubError('not_found'), response.rateLimit);
+        }
+
+        rateLimit = response.rateLimit;
+        checkpoint.defaultBranch = response.data.repository.defaultBranchRef?.name || checkpoint.defaultBranch;
+
+        const refs = response.data.repository.refs;
+        branches.push(...refs.nodes.map(toRestBranch));
+        after = refs.pageInfo.hasNextPage ? refs.pageInfo.endCursor : null;
+        checkpoint.branchesCursor = after;
+
+        if (rateLimit && rateLimit.remaining < rateLimitThreshold) {
+            rateLimitWarning = true;
+            break;
+        }
+    }
+    if (!rateLimitWarning) {
+        checkpoint.branchesCursor = null;
+    }
+
+    // Pull requests are ordered by last update, so once a page reaches PRs that
+    // were last updated before the period start, no later page can contain
+    // PRs created inside the period
+    const { since } = getTimePeriodBounds(timePeriod);
+    after = checkpoint.pullRequestsCursor ?? null;
+
+    if (!rateLimitWarning) {
+        while (checkpoint.pullRequestsCursor !== null && pullRequests.length < maxPullRequests) {
+            const response: GitHubApiResponse<PullRequestsQueryResult> & { rateLimit?: GraphQLRateLimitInfo } =
+                await makeGraphQLRequest<PullRequestsQueryResult>(
+                    PULL_REQUESTS_QUERY,
+                    { owner, repo, first: Math.min(pageSize, maxPullRequests - pullRequests.length), after },
+                    { signal, host, token }
+                );
+
+            if (response.error || !response.data) {
+                return failedQuery(response, 'Failed to fetch pull requests');
+            }
+
+            if (!response.data.repository) {
+                return errorResponse(createGitHubError('not_found'), response.rateLimit);
+            }
+
+            rateLimit = response.rateLimit;
+
+            const connection = response.data.repository.pullRequests;
+            for (const node of connection.nodes) {
+                if (node.reviews?.pageInfo.hasNextPage) {
+                    const remaining = await fetchRemainingReviews(owner, repo, node, { signal, host, token });
+                    if (remaining.error || !remaining.data) {
+                        return failedQuery(remaining, 'Failed to fetch pull request reviews');
+                    }
+                    node.reviews.nodes.push(...remaining.data);
+                    rateLimit = remaining.rateLimit || rateLimit;
+                }
+                pullRequests.push(toRestPullRequest(node));
+                reviews.push(...toRestReviews(node));
+            }
+
+            if (onProgress) {
+                onProgress(pullRequests.length, Math.min(connection.totalCount, maxPullRequests));
+            }
+
+            after = connection.pageInfo.hasNextPage ? connection.pageInfo.endCursor : null;
+
+            const oldest = connection.nodes[connection.nodes.length - 1];
+            if (since && oldest && oldest.updatedAt < since) {
+                after = null;
+            }
+
+            checkpoint.pullRequestsCursor = after;
+
+            if (rateLimit && rateLimit.remaining < rateLimitThreshold) {
+                rateLimitWarning = true;
+                break;
+            }
+        }
+        if (!rateLimitWarning) {
+            checkpoint.pullRequestsCursor = null;
+        }
+    }
+
+    return {
+        data: {
+            defaultBranch: checkpoint.defaultBranch || 'main',
+            branches,
+            pullRequests,
+            reviews,
+        },
+        rateLimit,
+        ...(rateLimitWarning && { rateLimitWarning }),
+    };
+}
+
+/**
+ * Generate a complete branch and PR analysis from the GraphQL API
+ * Produces the same BranchPRAnalysis shape as the REST-based flow, including the
+ * REST comparisons of the most recently active branches with the default branch
+ */
+export async function fetchBranchPRAnalysisGraphQL(
+    owner: string,
+    repo: string,
+    timePeriod: TimePeriod,
+    options: Parameters<typeof fetchBranchPRDataGraphQL>[3] & { maxComparisons?: number; publicRepository?: boolean } = {}
+): Promise<BranchPRApiResponse> {
+    const startTime = Date.now();
+    const { maxComparisons, publicRepository, ...fetchOptions } = options;
+    const response = await fetchBranchPRDataGraphQL(owner, repo, timePeriod, fetchOptions);
+
+    if (response.error || !response.data) {
+        return failedQuery(response, 'Failed to fetch branch and pull request data');
+    }
+
+    const { defaultBranch, branches, pullRequests, reviews } = response.data;
+    const defaultBranchSha = branches.find(branch => branch.name === defaultBranch)?.commit.sha;
+    const comparisons = defaultBranchSha
+        ? await fetchBranchComparisons(owner, repo, { name: defaultBranch, sha: defaultBranchSha }, branches, {
+            host: options.host,
+            token: options.token,
+            signal: options.signal,
+            maxComparisons,
+            publicRepository,
+        })
+        : { data: {}, rateLimitWarning: false };
+    const analysis: BranchPRAnalysis = generateBranchPRAnalysis(
+        branches,
+        pullRequests,
+        reviews,
+        defaultBranch,
+        timePeriod,
+        comparisons.data
+    );
+
+    return {
+        data: analysis,
+        rateLimit: response.rateLimit,
+        processingTime: Date.now() - startTime,
+        dataPoints: branches.length + pullRequests.length + reviews.length,
+        ...((response.rateLimitWarning || comparisons.rateLimitWarning) && { rateLimitWarning: true }),
+    };
+}
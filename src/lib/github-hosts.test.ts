@@ -0,0 +1,107 @@
+/**
+ * Unit tests for GitHub host configuration
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  buildAnalyzePath,
+  getGitHubApiBase,
+  getGitHubGraphQLEndpoint,
+  getGitHubToken,
+  isAllowedGitHubHost,
+  isValidHostname,
+  normalizeGitHubHost,
+} from './github-hosts';
+
+describe('GitHub host configuration', () => {
+  beforeEach(() => {
+    vi.unstubAllEnvs();
+    vi.stubEnv('GITHUB_API_URL', '');
+    vi.stubEnv('GITHUB_GRAPHQL_URL', '');
+    vi.stubEnv('GITHUB_ENTERPRISE_HOSTS', '');
+    vi.stubEnv('GITHUB_ENTERPRISE_TOKEN', '');
+  });
+
+  describe('normalizeGitHubHost', () => {
+    it('maps empty values and github.com aliases to github.com', () => {
+      expect(normalizeGitHubHost(undefined)).toBe('github.com');
+      expect(normalizeGitHubHost('')).toBe('github.com');
+      expect(normalizeGitHubHost('api.github.com')).toBe('github.com');
+      expect(normalizeGitHubHost('WWW.GitHub.com')).toBe('github.com');
+    });
+
+    it('lower-cases enterprise hosts', () => {
+      expect(normalizeGitHubHost(' GHE.Example.com/ ')).toBe('ghe.example.com');
+    });
+  });
+
+  describe('isValidHostname', () => {
+    it('accepts hostnames with optional ports', () => {
+      expect(isValidHostname('ghe.example.com')).toBe(true);
+      expect(isValidHostname('localhost:8080')).toBe(true);
+    });
+
+    it('rejects malformed hostnames', () => {
+      expect(isValidHostname('bad_host!')).toBe(false);
+      expect(isValidHostname('-example.com')).toBe(false);
+      expect(isValidHostname('user@example.com')).toBe(false);
+    });
+  });
+
+  describe('endpoints', () => {
+    it('uses the public API for github.com', () => {
+      expect(getGitHubApiBase()).toBe('https://api.github.com');
+      expect(getGitHubGraphQLEndpoint('github.com')).toBe('https://api.github.com/graphql');
+    });
+
+    it('uses /api/v3 and /api/graphql on Enterprise Server', () => {
+      expect(getGitHubApiBase('ghe.example.com')).toBe('https://ghe.example.com/api/v3');
+      expect(getGitHubGraphQLEndpoint('ghe.example.com')).toBe('https://ghe.example.com/api/graphql');
+    });
+
+    it('allows overriding the default endpoints', () => {
+      vi.stubEnv('GITHUB_API_URL', 'https://github.internal/api/v3/');
+      vi.stubEnv('GITHUB_GRAPHQL_URL', 'https://github.internal/api/graphql');
+
+      expect(getGitHubApiBase()).toBe('https://github.internal/api/v3');
+      expect(getGitHubGraphQLEndpoint()).toBe('https://github.internal/api/graphql');
+    });
+  });
+
+  describe('isAllowedGitHubHost', () => {
+    it('only allows configured enterprise hosts', () => {
+      vi.stubEnv('GITHUB_ENTERPRISE_HOSTS', 'ghe.example.com, Git.Corp.Internal');
+
+      expect(isAllowedGitHubHost(undefined)).toBe(true);
+      expect(isAllowedGitHubHost('ghe.example.com')).toBe(true);
+      expect(isAllowedGitHubHost('git.corp.internal')).toBe(true);
+      expect(isAllowedGitHubHost('evil.example.com')).toBe(false);
+    });
+  });
+
+  describe('getGitHubToken', () => {
+    it('keeps github.com and enterprise tokens separate', () => {
+      vi.stubEnv('GITHUB_TOKEN', 'public-token');
+      vi.stubEnv('GITHUB_TOKEN_GHE_EXAMPLE_COM', 'ghe-token');
+
+      expect(getGitHubToken()).toBe('public-token');
+      expect(getGitHubToken('ghe.example.com')).toBe('ghe-token');
+      expect(getGitHubToken('other.example.com')).toBeUndefined();
+    });
+
+    it('falls back to the shared enterprise token', () => {
+      vi.stubEnv('GITHUB_ENTERPRISE_TOKEN', 'shared-token');
+
+      expect(getGitHubToken('other.example.com')).toBe('shared-token');
+    });
+  });
+
+  describe('buildAnalyzePath', () => {
+    it('adds a host parameter only for enterprise hosts', () => {
+      expect(buildAnalyzePath('owner', 'repo')).toBe('/analyze/owner/repo');
+      expect(buildAnalyzePath('owner', 'repo', 'github.com', '/activity')).toBe('/analyze/owner/repo/activity');
+      expect(buildAnalyzePath('owner', 'repo', 'ghe.example.com', '/activity'))
+        .toBe('/analyze/owner/repo/activity?host=ghe.example.com');
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * GitHub host configuration
+ * Resolves REST/GraphQL endpoints and credentials for github.com and
+ * GitHub Enterprise Server hosts, so one deployment can analyze repositories
+ * on several hosts.
+ *
+ * Environment:
+ * - GITHUB_API_URL / GITHUB_GRAPHQL_URL: override the github.com endpoints
+ *   (e.g. to point a single-host deployment at an Enterprise Server or the
+ *   local mock server); GITHUB_API_BASE is accepted as an alias
+ * - GITHUB_ENTERPRISE_HOSTS: comma-separated Enterprise Server hostnames that
+ *   may be analyzed, e.g. "ghe.example.com,git.corp.internal"
+ * - GITHUB_TOKEN_<HOST>: token for one Enterprise host, with the hostname
+ *   upper-cased and non-alphanumerics replaced by "_" (GITHUB_TOKEN_GHE_EXAMPLE_COM)
+ * - GITHUB_ENTERPRISE_TOKEN: fallback token for every Enterprise host
+ */
+
+import { hasBrowserSession, isProxiedTransport } from './github-transport';
+
+export const DEFAULT_GITHUB_HOST = 'github.com';
+
+const DEFAULT_API_BASE = 'https://api.github.com';
+const DEFAULT_GRAPHQL_ENDPOINT = 'https://api.github.com/graphql';
+
+// Hostname with an optional port, e.g. "ghe.example.com" or "localhost:8080"
+const HOSTNAME_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*(:\d{1,5})?$/;
+
+/**
+ * Normalize a hostname; github.com aliases and empty values map to the default host
+ */
+export function normalizeGitHubHost(host?: string | null): string {
+    const normalized = (host || '').trim().toLowerCase().replace(/\/+$/, '');
+    if (!normalized || normalized === 'www.github.com' || normalized === 'api.github.com') {
+        return DEFAULT_GITHUB_HOST;
+    }
+    return normalized;
+}
+
+/**
+ * Check whether a host refers to github.com rather than an Enterprise Server
+ */
+export function isDefaultGitHubHost(host?: string | null): boolean {
+    return normalizeGitHubHost(host) === DEFAULT_GITHUB_HOST;
+}
+
+/**
+ * Check whether a string is a syntactically valid hostname
+ */
+export function isValidHostname(host: string): boolean {
+    return HOSTNAME_PATTERN.test(host.toLowerCase());
+}
+
+/**
+ * Get the Enterprise Server hosts configured for this deployment
+ */
+export function getConfiguredEnterpriseHosts(): string[] {
+    const hosts = process.env.GITHUB_ENTERPRISE_HOSTS || process.env.NEXT_PUBLIC_GITHUB_ENTERPRISE_HOSTS || '';
+    return hosts
+        .split(',')
+        .map(host => normalizeGitHubHost(host))
+        .filter(host => host !== DEFAULT_GITHUB_HOST);
+}
+
+/**
+ * Check whether repositories on a host may be analyzed
+ * github.com is always allowed; Enterprise hosts must be configured, so
+ * server-side requests never go to arbitrary user-supplied hosts
+ */
+export function isAllowedGitHubHost(host?: string | null): boolean {
+    const normalized = normalizeGitHubHost(host);
+    return normalized === DEFAULT_GITHUB_HOST || getConfiguredEnterpriseHosts().includes(normalized);
+}
+
+/**
+ * Get the server-side proxy base for a host, used by browsers while recording or replaying
+ */
+export function getGitHubProxyBase(host?: string | null): string {
+    return `/api/github/${encodeURIComponent(normalizeGitHubHost(host))}`;
+}
+
+// Browser requests go through the proxy while recording or replaying, and for
+// signed-in users, whose token only the server can read
+function isProxiedHost(host: string): boolean {
+    return isProxiedTransport() || (host === DEFAULT_GITHUB_HOST && hasBrowserSession());
+}
+
+/**
+ * Get the REST API base URL for a host (https://<host>/api/v3 on Enterprise Server)
+ */
+export function getGitHubApiBase(host?: string | null): string {
+    const normalized = normalizeGitHubHost(host);
+    if (isProxiedHost(normalized)) {
+        return getGitHubProxyBase(normalized);
+    }
+    if (normalized === DEFAULT_GITHUB_HOST) {
+        const configured = process.env.GITHUB_API_URL
+            || process.env.GITHUB_API_BASE
+            || process.env.NEXT_PUBLIC_GITHUB_API_URL;
+        return (configured || DEFAULT_API_BASE).replace(/\/+$/, '');
+    }
+    return `https://${normalized}/api/v3`;
+}
+
+/**
+ * Get the GraphQL endpoint for a host (https://<host>/api/graphql on Enterprise Server)
+ */
+export function getGitHubGraphQLEndpoint(host?: string | null): string {
+    const normalized = normalizeGitHubHost(host);
+    if (isProxiedHost(normalized)) {
+        return `${getGitHubProxyBase(normalized)}/graphql`;
+    }
+    if (normalized === DEFAULT_GITHUB_HOST) {
+        return process.env.GITHUB_GRAPHQL_URL || process.env.NEXT_PUBLIC_GITHUB_GRAPHQL_URL || DEFAULT_GRAPHQL_ENDPOINT;
+    }
+    return `https://${normalized}/api/graphql`;
+}
+
+/**
+ * Get the access token for a host
+ * The github.com token is never sent to Enterprise hosts and vice versa
+ */
+export function getGitHubToken(host?: string | null): string | undefined {
+    const normalized = normalizeGitHubHost(host);
+    if (normalized === DEFAULT_GITHUB_HOST) {
+        return process.env.GITHUB_TOKEN || process.env.GITHUB_ACCESS_TOKEN || undefined;
+    }
+
+    const hostVariable = `GITHUB_TOKEN_${normalized.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+    return process.env[hostVariable] || process.env.GITHUB_ENTERPRISE_TOKEN || undefined;
+}
+
+/**
+ * Build an /analyze/... path, carrying Enterprise hosts as a ?host= search param
+ */
+export function buildAnalyzePath(owner: string, repo: string, host?: string | null, subpath = ''): string {
+    const path = `/analyze/${owner}/${repo}${subpath}`;
+    return isDefaultGitHubHost(host) ? path : `${path}?host=${encodeURIComponent(normalizeGitHubHost(host))}`;
+}
+
+/**
+ * Get the web URL of a host, e.g. for linking to repositories
+ */
+export function getGitHubWebUrl(host?: string | null): string {
+    return `https://${normalizeGitHubHost(host)}`;
+}
@@ -0,0 +1,132 @@
+/**
+ * Unit tests for GitHub REST payload validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseBranch,
+  parseCommitDetail,
+  parseComparison,
+  parseList,
+  parsePullRequest,
+  parseReview,
+  PayloadValidationError,
+} from './github-models';
+import { processPRData, processReviewData } from './github-api';
+
+const commitSummary = {
+  sha: 'abc123',
+  commit: {
+    author: { name: 'Ann', email: 'ann@example.com', date: '2024-05-01T10:00:00Z' },
+    message: 'Fix widget',
+  },
+  author: { login: 'ann', avatar_url: 'https://avatars.example.com/ann' },
+};
+
+describe('GitHub payload models', () => {
+  it('normalizes commit details', () => {
+    const commit = parseCommitDetail({
+      ...commitSummary,
+      author: null,
+      files: [{ filename: 'a.ts', status: 'renamed', additions: 2, deletions: 1 }],
+    });
+
+    expect(commit.author).toBeNull();
+    expect(commit.files).toEqual([{ filename: 'a.ts', status: 'renamed', additions: 2, deletions: 1, changes: 3 }]);
+    expect(parseCommitDetail(commitSummary).files).toEqual([]);
+  });
+
+  it('names the field that does not match', () => {
+    const payload = [commitSummary, { ...commitSummary, commit: { ...commitSummary.commit, author: { name: 'Bo' } } }];
+
+    expect(() => parseList(payload, parseCommitDetail)).toThrow(
+      new PayloadValidationError('response[1].commit.author.date', 'a string')
+    );
+    expect(() => parseList({ message: 'Not Found' }, parseCommitDetail)).toThrow('response should be an array');
+  });
+
+  it('reduces branches to their head commit', () => {
+    const branch = parseBranch({ name: 'main', commit: commitSummary, protected: true });
+
+    expect(branch).toEqual({
+      name: 'main',
+      commit: {
+        sha: 'abc123',
+        commit: { author: { name: 'Ann', date: '2024-05-01T10:00:00Z' }, message: 'Fix widget' },
+      },
+    });
+    expect(() => parseBranch({ name: 'main', commit: { sha: 'abc123' } })).toThrow('branch.commit.commit should be an object');
+  });
+
+  it('fills in pull request defaults', () => {
+    const pullRequest = parsePullRequest({
+      number: 7,
+      title: 'Add resizing',
+      state: 'closed',
+      created_at: '2024-05-01T10:00:00Z',
+      merged_at: null,
+      user: null,
+      requested_reviewers: [{ login: 'bo' }],
+    });
+
+    expect(pullRequest).toMatchObject({
+      number: 7,
+      merged_at: null,
+      closed_at: null,
+      user: { login: 'ghost' },
+      requested_reviewers: [{ login: 'bo' }],
+      labels: [],
+      draft: false,
+    });
+    expect(() => parsePullRequest({ ...pullRequest, state: 'merged' })).toThrow('pullRequest.state should be one of open, closed');
+  });
+
+  it('tags reviews with their pull request number', () => {
+    const review = parseReview({
+      id: 1,
+      user: { login: 'bo' },
+      state: 'APPROVED',
+      submitted_at: '2024-05-02T10:00:00Z',
+      pull_request_url: 'https://api.github.com/repos/acme/widgets/pulls/7',
+    }, 7);
+
+    expect(review).toEqual({
+      pull_request_number: 7,
+      user: { login: 'bo' },
+      state: 'APPROVED',
+      submitted_at: '2024-05-02T10:00:00Z',
+    });
+  });
+
+  it('defaults comparison totals and commits', () => {
+    expect(parseComparison({ status: 'ahead', ahead_by: 2, behind_by: 0 })).toEqual({
+      status: 'ahead',
+      ahead_by: 2,
+      behind_by: 0,
+      total_commits: 2,
+      commits: [],
+    });
+  });
+
+  it('groups reviews by pull request, skipping pending reviews', () => {
+    const review = (prNumber: number, state: string, submittedAt: string | null) =>
+      parseReview({ user: { login: 'bo' }, state, submitted_at: submittedAt }, prNumber);
+
+    const analytics = processReviewData([
+      review(1, 'APPROVED', '2024-05-02T10:00:00Z'),
+      review(1, 'PENDING', null),
+      review(2, 'DISMISSED', '2024-05-03T10:00:00Z'),
+    ], processPRData([1, 2].map(number => ({
+      number,
+      title: `PR ${number}`,
+      state: 'open',
+      created_at: '2024-05-01T10:00:00Z',
+      user: { login: 'ann' },
+    })), 'all'));
+
+    expect(analytics.totalReviews).toBe(2);
+    expect(analytics.topReviewers).toEqual([
+      expect.objectContaining({ username: 'bo', reviewCount: 2, approvalRate: 50 }),
+    ]);
+  });
+});
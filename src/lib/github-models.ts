@@ -0,0 +1,371 @@
+/**
+ * GitHub REST and webhook payload models
+ * Typed shapes of the REST payloads GitFlux reads, and parsers that validate and
+ * normalize them at the API boundary. A payload that lacks a field the analysis
+ * depends on fails with a PayloadValidationError naming that field, instead of
+ * surfacing later as undefined values. Optional fields get their defaults here,
+ * so processors can rely on every field of the models.
+ */
+
+export class PayloadValidationError extends Error {
+    constructor(public path: string, public expected: string) {
+        super(`Unexpected response from GitHub: ${path} should be ${expected}`);
+        this.name = 'PayloadValidationError';
+    }
+}
+
+export interface GitHubUserPayload {
+    login: string;
+    avatar_url: string;
+}
+
+export interface GitHubCommit {
+    sha: string;
+    commit: {
+        author: {
+            name: string;
+            email: string;
+            date: string;
+        };
+        message: string;
+    };
+    author: GitHubUserPayload | null;
+}
+
+export type GitHubCommitFileStatus = 'added' | 'removed' | 'modified' | 'renamed' | 'copied' | 'changed' | 'unchanged';
+
+export interface GitHubCommitFilePayload {
+    filename: string;
+    status: GitHubCommitFileStatus;
+    additions: number;
+    deletions: number;
+    changes: number;
+}
+
+// Single commit, including the files it changed
+export interface GitHubCommitDetailPayload extends GitHubCommit {
+    files: GitHubCommitFilePayload[];
+}
+
+// Item of the branch list, which carries the head SHA but no commit details
+export interface GitHubBranchListPayload {
+    name: string;
+    commit: { sha: string };
+    protected: boolean;
+}
+
+// GitHub branch payload with commit details (single-branch responses and
+// GraphQL results mapped to the REST shape)
+export interface GitHubBranchPayload {
+    name: string;
+    commit: {
+        sha: string;
+        commit: {
+            author: { name: string; date: string };
+            message: string;
+        };
+    };
+}
+
+// GitHub pull request payload (fields used by the analysis)
+export interface GitHubPullRequestPayload {
+    number: number;
+    title: string;
+    state: 'open' | 'closed';
+    created_at: string;
+    updated_at?: string;
+    merged_at?: string | null;
+    closed_at?: string | null;
+    user: { login: string };
+    additions?: number;
+    deletions?: number;
+    requested_reviewers?: { login: string }[];
+    labels?: { name: string }[];
+    draft?: boolean;
+    head?: { ref: string; sha?: string }; // Branch the changes come from
+}
+
+export type GitHubReviewState = 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'DISMISSED' | 'PENDING';
+
+// Pull request review, tagged with the number of its pull request (the reviews
+// endpoint only sends pull_request_url)
+export interface GitHubReviewPayload {
+    pull_request_number: number;
+    user: { login: string };
+    state: GitHubReviewState;
+    submitted_at: string | null; // Null for pending reviews
+}
+
+export interface GitHubComparePayload {
+    status: 'ahead' | 'behind' | 'identical' | 'diverged';
+    ahead_by: number;
+    behind_by: number;
+    total_commits: number;
+    commits: GitHubCommit[];
+}
+
+// Repository event delivered to a webhook (fields used to refresh cached data)
+export interface GitHubWebhookPayload {
+    repository: {
+        name: string;
+        owner: { login: string };
+        default_branch: string;
+    };
+    ref?: string; // Push: refs/heads/<branch>; create and delete: the branch or tag name
+    ref_type?: 'branch' | 'tag';
+    forced: boolean; // Push that rewrote history
+    commits: { author: { name: string; username?: string } }[];
+}
+
+const FILE_STATUSES: GitHubCommitFileStatus[] = ['added', 'removed', 'modified', 'renamed', 'copied', 'changed', 'unchanged'];
+const REVIEW_STATES: GitHubReviewState[] = ['APPROVED', 'CHANGES_REQUESTED', 'COMMENTED', 'DISMISSED', 'PENDING'];
+const COMPARE_STATUSES: GitHubComparePayload['status'][] = ['ahead', 'behind', 'identical', 'diverged'];
+const REF_TYPES: NonNullable<GitHubWebhookPayload['ref_type']>[] = ['branch', 'tag'];
+
+type Payload = Record<string, unknown>;
+
+function readObject(value: unknown, path: string): Payload {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new PayloadValidationError(path, 'an object');
+    }
+    return value as Payload;
+}
+
+function readString(value: unknown, path: string): string {
+    if (typeof value !== 'string') {
+        throw new PayloadValidationError(path, 'a string');
+    }
+    return value;
+}
+
+function readNumber(value: unknown, path: string): number {
+    if (typeof value !== 'number' || Number.isNaN(value)) {
+        throw new PayloadValidationError(path, 'a number');
+    }
+    return value;
+}
+
+function readOptionalString(value: unknown, path: string): string | null {
+    return value === undefined || value === null ? null : readString(value, path);
+}
+
+function readOptionalNumber(value: unknown, path: string): number | undefined {
+    return value === undefined || value === null ? undefined : readNumber(value, path);
+}
+
+function readOneOf<T extends string>(value: unknown, allowed: T[], path: string): T {
+    if (!allowed.includes(value as T)) {
+        throw new PayloadValidationError(path, `one of ${allowed.join(', ')}`);
+    }
+    return value as T;
+}
+
+/**
+ * Parse an array payload item by item
+ */
+export function parseList<T>(value: unknown, parseItem: (item: unknown, path: string) => T, path: string = 'response'): T[] {
+    if (!Array.isArray(value)) {
+        throw new PayloadValidationError(path, 'an array');
+    }
+    return value.map((item, index) => parseItem(item, `${path}[${index}]`));
+}
+
+// Deleted accounts and unlinked commit emails come back as null users
+function parseLogin(value: unknown, path: string): { login: string } {
+    if (value === null || value === undefined) {
+        return { login: 'ghost' };
+    }
+    return { login: readString(readObject(value, path).login, `${path}.login`) };
+}
+
+function parseUser(value: unknown, path: string): GitHubUserPayload | null {
+    if (value === null || value === undefined) {
+        return null;
+    }
+    const user = readObject(value, path);
+    return {
+        login: readString(user.login, `${path}.login`),
+        avatar_url: readOptionalString(user.avatar_url, `${path}.avatar_url`) || '',
+    };
+}
+
+/**
+ * Parse a user account, e.g. the authenticated user
+ */
+export function parseUserAccount(value: unknown, path: string = 'user'): GitHubUserPayload {
+    const user = parseUser(value, path);
+    if (!user) {
+        throw new PayloadValidationError(path, 'an object');
+    }
+    return user;
+}
+
+/**
+ * Parse a commit from the commits list
+ */
+export function parseCommit(value: unknown, path: string = 'commit'): GitHubCommit {
+    const payload = readObject(value, path);
+    const commit = readObject(payload.commit, `${path}.commit`);
+    const author = readObject(commit.author, `${path}.commit.author`);
+
+    return {
+        sha: readString(payload.sha, `${path}.sha`),
+        commit: {
+            author: {
+                name: readOptionalString(author.name, `${path}.commit.author.name`) || 'Unknown',
+                email: readOptionalString(author.email, `${path}.commit.author.email`) || '',
+                date: readString(author.date, `${path}.commit.author.date`),
+            },
+            message: readOptionalString(commit.message, `${path}.commit.message`) || '',
+        },
+        author: parseUser(payload.author, `${path}.author`),
+    };
+}
+
+/**
+ * Parse a single commit with its changed files
+ */
+export function parseCommitDetail(value: unknown, path: string = 'commit'): GitHubCommitDetailPayload {
+    const payload = readObject(value, path);
+
+    return {
+        ...parseCommit(payload, path),
+        // Merge commits without changes have no files array
+        files: payload.files === undefined ? [] : parseList(payload.files, (item, itemPath) => {
+            const file = readObject(item, itemPath);
+            const additions = readOptionalNumber(file.additions, `${itemPath}.additions`) || 0;
+            const deletions = readOptionalNumber(file.deletions, `${itemPath}.deletions`) || 0;
+            return {
+                filename: readString(file.filename, `${itemPath}.filename`),
+                status: readOneOf(file.status, FILE_STATUSES, `${itemPath}.status`),
+                additions,
+                deletions,
+                changes: readOptionalNumber(file.changes, `${itemPath}.changes`) ?? additions + deletions,
+            };
+        }, `${path}.files`),
+    };
+}
+
+/**
+ * Parse an item of the branch list
+ */
+export function parseBranchListItem(value: unknown, path: string = 'branch'): GitHubBranchListPayload {
+    const payload = readObject(value, path);
+    const commit = readObject(payload.commit, `${path}.commit`);
+
+    return {
+        name: readString(payload.name, `${path}.name`),
+        commit: { sha: readString(commit.sha, `${path}.commit.sha`) },
+        protected: payload.protected === true,
+    };
+}
+
+/**
+ * Parse a single branch with its head commit
+ */
+export function parseBranch(value: unknown, path: string = 'branch'): GitHubBranchPayload {
+    const payload = readObject(value, path);
+    const head = parseCommit(payload.commit, `${path}.commit`);
+
+    return {
+        name: readString(payload.name, `${path}.name`),
+        commit: {
+            sha: head.sha,
+            commit: {
+                author: { name: head.commit.author.name, date: head.commit.author.date },
+                message: head.commit.message,
+            },
+        },
+    };
+}
+
+/**
+ * Parse a pull request from the pull request list
+ */
+export function parsePullRequest(value: unknown, path: string = 'pullRequest'): GitHubPullRequestPayload {
+    const payload = readObject(value, path);
+    const names = (key: string, field: string) => payload[key] === undefined || payload[key] === null
+        ? []
+        : parseList(payload[key], (item, itemPath) => readString(readObject(item, itemPath)[field], `${itemPath}.${field}`), `${path}.${key}`);
+    const head = payload.head === undefined || payload.head === null ? undefined : readObject(payload.head, `${path}.head`);
+
+    return {
+        number: readNumber(payload.number, `${path}.number`),
+        title: readOptionalString(payload.title, `${path}.title`) || '',
+        state: readOneOf(payload.state, ['open', 'closed'], `${path}.state`),
+        created_at: readString(payload.created_at, `${path}.created_at`),
+        updated_at: readOptionalString(payload.updated_at, `${path}.updated_at`) || undefined,
+        merged_at: readOptionalString(payload.merged_at, `${path}.merged_at`),
+        closed_at: readOptionalString(payload.closed_at, `${path}.closed_at`),
+        user: parseLogin(payload.user, `${path}.user`),
+        // Only the single pull request endpoint reports line counts
+        additions: readOptionalNumber(payload.additions, `${path}.additions`),
+        deletions: readOptionalNumber(payload.deletions, `${path}.deletions`),
+        // Teams are requested by name, not login
+        requested_reviewers: names('requested_reviewers', 'login').map(login => ({ login })),
+        labels: names('labels', 'name').map(name => ({ name })),
+        draft: payload.draft === true,
+        head: head && {
+            ref: readString(head.ref, `${path}.head.ref`),
+            sha: readOptionalString(head.sha, `${path}.head.sha`) || undefined,
+        },
+    };
+}
+
+/**
+ * Parse a review of a pull request
+ */
+export function parseReview(value: unknown, pullRequestNumber: number, path: string = 'review'): GitHubReviewPayload {
+    const payload = readObject(value, path);
+
+    return {
+        pull_request_number: pullRequestNumber,
+        user: parseLogin(payload.user, `${path}.user`),
+        state: readOneOf(payload.state, REVIEW_STATES, `${path}.state`),
+        submitted_at: readOptionalString(payload.submitted_at, `${path}.submitted_at`),
+    };
+}
+
+/**
+ * Parse the comparison of two branches
+ */
+export function parseComparison(value: unknown, path: string = 'comparison'): GitHubComparePayload {
+    const payload = readObject(value, path);
+    const aheadBy = readNumber(payload.ahead_by, `${path}.ahead_by`);
+
+    return {
+        status: readOneOf(payload.status, COMPARE_STATUSES, `${path}.status`),
+        ahead_by: aheadBy,
+        behind_by: readNumber(payload.behind_by, `${path}.behind_by`),
+        total_commits: readOptionalNumber(payload.total_commits, `${path}.total_commits`) ?? aheadBy,
+        commits: payload.commits === undefined ? [] : parseList(payload.commits, parseCommit, `${path}.commits`),
+    };
+}
+
+/**
+ * Parse the payload of a repository webhook event
+ */
+export function parseWebhookPayload(value: unknown, path: string = 'payload'): GitHubWebhookPayload {
+    const payload = readObject(value, path);
+    const repository = readObject(payload.repository, `${path}.repository`);
+
+    return {
+        repository: {
+            name: readString(repository.name, `${path}.repository.name`),
+            owner: { login: readString(readObject(repository.owner, `${path}.repository.owner`).login, `${path}.repository.owner.login`) },
+            default_branch: readString(repository.default_branch, `${path}.repository.default_branch`),
+        },
+        ref: readOptionalString(payload.ref, `${path}.ref`) || undefined,
+        ref_type: payload.ref_type === undefined ? undefined : readOneOf(payload.ref_type, REF_TYPES, `${path}.ref_type`),
+        forced: payload.forced === true,
+        commits: payload.commits === undefined || payload.commits === null ? [] : parseList(payload.commits, (item, itemPath) => {
+            const author = readObject(readObject(item, itemPath).author, `${itemPath}.author`);
+            return {
+                author: {
+                    name: readOptionalString(author.name, `${itemPath}.author.name`) || 'Unknown',
+                    username: readOptionalString(author.username, `${itemPath}.author.username`) || undefined,
+                },
+            };
+        }, `${path}.commits`),
+    };
+}
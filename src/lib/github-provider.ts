@@ -0,0 +1,113 @@
+/**
+ * GitHub repository provider
+ * Implements RepositoryProvider on top of the GitHub REST fetchers in github-api.ts
+ * for github.com and GitHub Enterprise Server hosts.
+ */
+
+import {
+    fetchBranchDetails,
+    fetchBranches,
+    fetchCommitsWithFiles,
+    fetchContributors,
+    fetchPRReviews,
+    fetchPullRequests,
+    fetchRepository,
+    processBranchData,
+    processPRData,
+} from './github-api';
+import { forwardError } from './github-errors';
+import type { ChangeRequestReview, RepositoryInfo, RepositoryProvider } from './repository-provider';
+
+const DEFAULT_MAX_BRANCHES = 100;
+
+/**
+ * Create the provider for a GitHub host
+ */
+export function createGitHubProvider(host: string): RepositoryProvider {
+    return {
+        kind: 'github',
+        host,
+        changeRequestLabel: 'Pull request',
+
+        async getRepository(owner, repo, options = {}) {
+            const response = await fetchRepository(owner, repo, { host, signal: options.signal });
+            if (!response.data) {
+                return forwardError(response);
+            }
+
+            const repository = response.data;
+            const info: RepositoryInfo = {
+                name: repository.name,
+                fullName: repository.full_name,
+                description: repository.description,
+                htmlUrl: repository.html_url,
+                defaultBranch: repository.default_branch || 'main',
+                stars: repository.stargazers_count,
+                forks: repository.forks_count,
+                language: repository.language,
+                private: repository.private,
+                createdAt: repository.created_at,
+                updatedAt: repository.updated_at,
+            };
+            return { data: info, rateLimit: response.rateLimit };
+        },
+
+        getContributors(owner, repo, options = {}) {
+            return fetchContributors(owner, repo, { host, ...options });
+        },
+
+        getCommitsWithFiles(owner, repo, options = {}) {
+            const { since, until, ...rest } = options;
+            return fetchCommitsWithFiles(owner, repo, since, until, 1, 100, { host, ...rest });
+        },
+
+        // The branch list has no commit dates, so each branch is read individually
+        async getBranches(owner, repo, timePeriod, options = {}) {
+            const { maxItems = DEFAULT_MAX_BRANCHES, signal } = options;
+            const repository = await this.getRepository(owner, repo, { signal });
+            if (!repository.data) {
+                return forwardError(repository);
+            }
+
+            const list = await fetchBranches(owner, repo, { host, maxItems, signal });
+            if (!list.data) {
+                return forwardError(list);
+            }
+
+            const branches = await fetchBranchDetails(owner, repo, list.data, { host, signal });
+            if (!branches.data) {
+                return forwardError(branches);
+            }
+
+            return {
+                data: processBranchData(branches.data, repository.data.defaultBranch, timePeriod),
+                rateLimit: branches.rateLimit || list.rateLimit,
+            };
+        },
+
+        async getChangeRequests(owner, repo, timePeriod, options = {}) {
+            const response = await fetchPullRequests(owner, repo, 'all', { host, ...options });
+            if (!response.data) {
+                return forwardError(response);
+            }
+            return { data: processPRData(response.data, timePeriod), rateLimit: response.rateLimit };
+        },
+
+        async getReviews(owner, repo, number, options = {}) {
+            const response = await fetchPRReviews(owner, repo, number, { host, signal: options.signal });
+            if (!response.data) {
+                return forwardError(response);
+            }
+
+            const reviews: ChangeRequestReview[] = response.data.flatMap(review =>
+                review.state === 'PENDING' || !review.submitted_at ? [] : [{
+                    prNumber: number,
+                    reviewer: review.user.login,
+                    state: review.state === 'DISMISSED' ? 'COMMENTED' : review.state,
+                    submittedAt: review.submitted_at,
+                }]
+            );
+            return { data: reviews, rateLimit: response.rateLimit };
+        },
+    };
+}
@@ -0,0 +1,214 @@
+/**
+ * Unit tests for the GitHub request scheduler
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createRequestScheduler, getRequestScheduler, RequestPausedError, setRequestScheduler } from './github-scheduler';
+import { setGitHubTransport } from './github-transport';
+import { clearCommitActivityCache, fetchRepository } from './github-api';
+
+// A task that resolves with its value when release() is called
+const deferred = <T,>(value: T) => {
+  let release = () => {};
+  const task = vi.fn(() => new Promise<T>(resolve => {
+    release = () => resolve(value);
+  }));
+  return { task, release: () => release() };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('request scheduler', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    setRequestScheduler(undefined);
+    setGitHubTransport(undefined);
+  });
+
+  it('runs at most `concurrency` tasks at once', async () => {
+    const scheduler = createRequestScheduler({ concurrency: 2 });
+    const tasks = [deferred(1), deferred(2), deferred(3)];
+
+    const results = tasks.map(({ task }) => scheduler.schedule(task));
+
+    expect(tasks.map(({ task }) => task.mock.calls.length)).toEqual([1, 1, 0]);
+    expect(scheduler.stats()).toMatchObject({ active: 2, queued: 1 });
+
+    tasks[0].release();
+    await flush();
+    expect(tasks[2].task).toHaveBeenCalledTimes(1);
+
+    tasks[1].release();
+    tasks[2].release();
+    expect(await Promise.all(results)).toEqual([1, 2, 3]);
+  });
+
+  it('shares identical requests in flight', async () => {
+    const scheduler = createRequestScheduler();
+    const { task, release } = deferred({ id: 1 });
+    const other = deferred({ id: 2 });
+
+    const first = scheduler.schedule(task, { key: 'GET /a' });
+    const second = scheduler.schedule(task, { key: 'GET /a' });
+    const third = scheduler.schedule(other.task, { key: 'GET /b' });
+    release();
+    other.release();
+
+    expect(await first).toBe(await second);
+    expect(await third).toEqual({ id: 2 });
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(scheduler.stats().shared).toBe(0);
+  });
+
+  it('cancels a shared request only once every caller cancelled', async () => {
+    const scheduler = createRequestScheduler();
+    let taskSignal: AbortSignal | undefined;
+    const task = vi.fn((signal?: AbortSignal) => {
+      taskSignal = signal;
+      return new Promise(() => {});
+    });
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const firstResult = scheduler.schedule(task, { key: 'GET /a', signal: first.signal });
+    const secondResult = scheduler.schedule(task, { key: 'GET /a', signal: second.signal });
+
+    first.abort();
+    await expect(firstResult).rejects.toMatchObject({ name: 'AbortError' });
+    expect(taskSignal?.aborted).toBe(false);
+
+    second.abort();
+    await expect(secondResult).rejects.toMatchObject({ name: 'AbortError' });
+    expect(taskSignal?.aborted).toBe(true);
+  });
+
+  it('waits for the rate limit reset once the budget is used up', async () => {
+    vi.useFakeTimers();
+    const scheduler = createRequestScheduler();
+    const reset = Math.floor(Date.now() / 1000) + 30;
+    scheduler.updateBudget(1, reset);
+    const task = vi.fn(async () => 'ok');
+
+    await scheduler.schedule(task);
+    const waiting = scheduler.schedule(task);
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(scheduler.stats()).toMatchObject({ remaining: 0, queued: 1 });
+
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+    expect(await waiting).toBe('ok');
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails queued requests when the pause is longer than maxPause', async () => {
+    const scheduler = createRequestScheduler({ maxPause: 1000 });
+    const resumeAt = Date.now() + 60 * 60 * 1000;
+    scheduler.pause(resumeAt);
+
+    await expect(scheduler.schedule(async () => 'ok')).rejects.toBeInstanceOf(RequestPausedError);
+    expect(await scheduler.waitForResume()).toBe(false);
+    expect(scheduler.stats().pausedUntil).toBe(resumeAt);
+  });
+
+  it('keeps running requests of other pools while one pool is paused', async () => {
+    const scheduler = createRequestScheduler({ maxPause: 1000 });
+    scheduler.updateBudget(0, Math.floor(Date.now() / 1000) + 60 * 60, 'alice');
+
+    await expect(scheduler.schedule(async () => 'alice', { pool: 'alice' })).rejects.toBeInstanceOf(RequestPausedError);
+    expect(await scheduler.schedule(async () => 'bob', { pool: 'bob' })).toBe('bob');
+    expect(scheduler.stats('alice').remaining).toBe(0);
+    expect(scheduler.stats('bob').remaining).toBeUndefined();
+  });
+
+  it('does not hold back requests with another token when one token runs out', async () => {
+    clearCommitActivityCache();
+    const reset = String(Math.floor(Date.now() / 1000) + 60 * 60);
+    const transport = {
+      request: vi.fn(async ({ headers }: { headers: Record<string, string> }) => headers['Authorization'] === 'Bearer exhausted'
+        ? new Response(JSON.stringify({ message: 'API rate limit exceeded' }), {
+          status: 403,
+          headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-limit': '5000', 'x-ratelimit-reset': reset },
+        })
+        : new Response(JSON.stringify({ full_name: 'owner/repo' }), {
+          status: 200,
+          headers: { 'x-ratelimit-remaining': '4999', 'x-ratelimit-limit': '5000', 'x-ratelimit-reset': reset },
+        })),
+    };
+    setGitHubTransport(transport);
+
+    const exhausted = await fetchRepository('owner', 'repo', { token: 'exhausted' });
+    const other = await fetchRepository('owner', 'repo', { token: 'other' });
+
+    expect(exhausted.errorInfo?.kind).toBe('rate_limited');
+    expect(other.data).toEqual({ full_name: 'owner/repo' });
+  });
+
+  it('pauses and retries GitHub requests on a secondary rate limit', async () => {
+    vi.useFakeTimers();
+    clearCommitActivityCache();
+    const transport = {
+      request: vi.fn()
+        .mockResolvedValueOnce(new Response(JSON.stringify({ message: 'You have exceeded a secondary rate limit.' }), {
+          status: 403,
+          headers: { 'retry-after': '5' },
+        }))
+        .mockResolvedValueOnce(new Response(JSON.stringify({ full_name: 'owner/repo' }), { status: 200 })),
+    };
+    setGitHubTransport(transport);
+
+    const result = fetchRepository('owner', 'repo');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(getRequestScheduler().stats().pausedUntil).toBeGreaterThan(Date.now());
+    expect(transport.request).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(5 * 1000);
+    expect((await result).data).toEqual({ full_name: 'owner/repo' });
+    expect(transport.request).toHaveBeenCalledTimes(2);
+  });
+
+  it('frees the slot of a rate-limited GitHub request while its pool is paused', async () => {
+    vi.useFakeTimers();
+    clearCommitActivityCache();
+    setRequestScheduler(createRequestScheduler({ concurrency: 1 }));
+    let throttled = true;
+    const transport = {
+      request: vi.fn(async ({ headers }: { headers: Record<string, string> }) => {
+        if (headers['Authorization'] === 'Bearer throttled' && throttled) {
+          throttled = false;
+          return new Response(JSON.stringify({ message: 'You have exceeded a secondary rate limit.' }), {
+            status: 403,
+            headers: { 'retry-after': '5' },
+          });
+        }
+        return new Response(JSON.stringify({ full_name: 'owner/repo' }), { status: 200 });
+      }),
+    };
+    setGitHubTransport(transport);
+
+    const paused = fetchRepository('owner', 'repo', { token: 'throttled' });
+    await vi.advanceTimersByTimeAsync(0);
+    const other = await fetchRepository('owner', 'repo', { token: 'other' });
+
+    expect(other.data).toEqual({ full_name: 'owner/repo' });
+    expect(getRequestScheduler().stats()).toMatchObject({ active: 0, queued: 1 });
+
+    await vi.advanceTimersByTimeAsync(5 * 1000);
+    expect((await paused).data).toEqual({ full_name: 'owner/repo' });
+    expect(transport.request).toHaveBeenCalledTimes(3);
+  });
+
+  it('sends identical GitHub requests once', async () => {
+    clearCommitActivityCache();
+    const transport = {
+      request: vi.fn(async () => new Response(JSON.stringify({ full_name: 'owner/repo' }), { status: 200 })),
+    };
+    setGitHubTransport(transport);
+
+    const [first, second] = await Promise.all([fetchRepository('owner', 'repo'), fetchRepository('owner', 'repo')]);
+
+    expect(first.data).toEqual({ full_name: 'owner/repo' });
+    expect(second.data).toEqual({ full_name: 'owner/repo' });
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * GitHub request scheduler
+ * Every REST and GraphQL request (makeGitHubRequest, makeGraphQLRequest) is queued
+ * here, so all components share one concurrency limit. Rate limits apply per credential, so requests are
+ * grouped into pools (one per host and token) with their own budget and pause:
+ * - at most `concurrency` requests run at once
+ * - once a pool's budget reported by x-ratelimit-remaining is used up, its
+ *   requests wait for x-ratelimit-reset
+ * - a secondary rate limit (retry-after) pauses every request of the pool, not
+ *   only the one that hit it
+ * - identical requests already in flight share one response
+ * Requests that would have to wait longer than `maxPause` fail instead of waiting;
+ * requests of other pools keep running.
+ *
+ * Environment:
+ * - GITFLUX_MAX_CONCURRENT_REQUESTS: concurrency limit (default 4)
+ */
+
+export interface RequestSchedulerOptions {
+    concurrency?: number;
+    maxPause?: number; // Milliseconds
+}
+
+export interface RequestSchedulerStats {
+    active: number;
+    queued: number;
+    shared: number; // In-flight requests identical requests can join
+    remaining?: number; // Budget left in the current rate limit window, if known
+    pausedUntil?: number;
+}
+
+export interface RequestScheduler {
+    readonly concurrency: number;
+    // Run a task once a slot and the budget of its pool (credential) are available. Tasks
+    // with the same key that are queued or running share one run, which is cancelled once
+    // every caller cancelled.
+    schedule<T>(
+        task: (signal?: AbortSignal) => Promise<T>,
+        options?: { key?: string; pool?: string; signal?: AbortSignal }
+    ): Promise<T>;
+    // Record x-ratelimit-remaining and x-ratelimit-reset (epoch seconds) from a response
+    updateBudget(remaining: number, reset: number, pool?: string): void;
+    // Hold back every request of a pool until a time (epoch milliseconds)
+    pause(until: number, pool?: string): void;
+    // Wait for a pool's pause to end; false when it ends later than maxPause
+    waitForResume(signal?: AbortSignal, pool?: string): Promise<boolean>;
+    // Budget and pause of a pool, or the lowest budget and latest pause of any pool
+    stats(pool?: string): RequestSchedulerStats;
+}
+
+// Rejects queued requests that would have to wait longer than maxPause
+export class RequestPausedError extends Error {
+    constructor(public resumeAt: number) {
+        super('GitHub requests are paused by the rate limit');
+        this.name = 'RequestPausedError';
+    }
+}
+
+export const DEFAULT_MAX_CONCURRENT_REQUESTS = 4;
+export const DEFAULT_MAX_PAUSE = 60 * 1000; // 1 minute
+
+interface QueuedTask {
+    pool: string;
+    start: () => void;
+    fail: (error: unknown) => void;
+}
+
+// Rate limit state of one credential
+interface RateLimitPool {
+    pausedUntil: number;
+    budget?: { remaining: number; resetAt: number };
+}
+
+// Pool of requests scheduled without one
+const DEFAULT_POOL = '';
+
+interface SharedRun {
+    promise: Promise<unknown>;
+    controller: AbortController;
+    callers: number;
+}
+
+const cancelled = () => new DOMException('Request was cancelled', 'AbortError');
+
+/**
+ * Wait for a number of milliseconds unless cancelled first
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(cancelled());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Create a request scheduler
+ */
+export function createRequestScheduler(options: RequestSchedulerOptions = {}): RequestScheduler {
+    const { concurrency = DEFAULT_MAX_CONCURRENT_REQUESTS, maxPause = DEFAULT_MAX_PAUSE } = options;
+    const queue: QueuedTask[] = [];
+    const shared = new Map<string, SharedRun>();
+    const pools = new Map<string, RateLimitPool>();
+    let active = 0;
+    let timer: { handle: ReturnType<typeof setTimeout>; at: number } | undefined;
+
+    const getPool = (id: string) => {
+        let pool = pools.get(id);
+        if (!pool) {
+            pool = { pausedUntil: 0 };
+            pools.set(id, pool);
+        }
+        return pool;
+    };
+
+    // Forget pools whose pause and rate limit window are over
+    const prune = () => {
+        const now = Date.now();
+        pools.forEach((pool, id) => {
+            if (pool.pausedUntil <= now && (!pool.budget || pool.budget.resetAt <= now)) pools.delete(id);
+        });
+    };
+
+    // When requests of a pool may start again, or 0 when they may start now
+    const getResumeAt = (id: string) => {
+        const pool = pools.get(id);
+        const now = Date.now();
+        if (!pool) {
+            return 0;
+        }
+        let resumeAt = pool.pausedUntil > now ? pool.pausedUntil : 0;
+        if (pool.budget && pool.budget.remaining <= 0 && pool.budget.resetAt > now) {
+            resumeAt = Math.max(resumeAt, pool.budget.resetAt);
+        }
+        return resumeAt;
+    };
+
+    // Start queued tasks in order, skipping those of paused pools
+    const dispatch = () => {
+        let nextResumeAt = 0;
+        for (let index = 0; index < queue.length;) {
+            const task = queue[index];
+            const resumeAt = getResumeAt(task.pool);
+            if (resumeAt) {
+                if (resumeAt - Date.now() > maxPause) {
+                    queue.splice(index, 1);
+                    task.fail(new RequestPausedError(resumeAt));
+                } else {
+                    nextResumeAt = nextResumeAt ? Math.min(nextResumeAt, resumeAt) : resumeAt;
+                    index++;
+                }
+                continue;
+            }
+
+            if (active >= concurrency) {
+                break;
+            }
+
+            queue.splice(index, 1);
+            const budget = pools.get(task.pool)?.budget;
+            if (budget) {
+                budget.remaining--;
+            }
+            task.start();
+        }
+
+        if (nextResumeAt && (!timer || nextResumeAt < timer.at)) {
+            if (timer) clearTimeout(timer.handle);
+            timer = {
+                at: nextResumeAt,
+                handle: setTimeout(() => {
+                    timer = undefined;
+                    dispatch();
+                }, nextResumeAt - Date.now()),
+            };
+        }
+    };
+
+    const enqueue = <T>(task: (signal?: AbortSignal) => Promise<T>, pool: string, signal?: AbortSignal) => new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+            const index = queue.indexOf(entry);
+            if (index >= 0) {
+                queue.splice(index, 1);
+                reject(cancelled());
+            }
+        };
+        const entry: QueuedTask = {
+            pool,
+            start: () => {
+                signal?.removeEventListener('abort', onAbort);
+                active++;
+                task(signal).then(resolve, reject).finally(() => {
+                    active--;
+                    dispatch();
+                });
+            },
+            fail: error => {
+                signal?.removeEventListener('abort', onAbort);
+                reject(error);
+            },
+        };
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+        queue.push(entry);
+        dispatch();
+    });
+
+    // Follow a shared run; a caller cancelling only stops the run once nobody else waits
+    const follow = <T>(key: string, run: SharedRun, signal?: AbortSignal) => new Promise<T>((resolve, reject) => {
+        run.callers++;
+        const onAbort = () => {
+            reject(cancelled());
+            if (--run.callers === 0) {
+                if (shared.get(key) === run) shared.delete(key);
+                run.controller.abort();
+            }
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        run.promise.then(
+            value => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve(value as T);
+            },
+            error => {
+                signal?.removeEventListener('abort', onAbort);
+                reject(error);
+            }
+        );
+    });
+
+    return {
+        concurrency,
+
+        schedule<T>(
+            task: (signal?: AbortSignal) => Promise<T>,
+            { key, pool = DEFAULT_POOL, signal }: { key?: string; pool?: string; signal?: AbortSignal } = {}
+        ) {
+            if (signal?.aborted) {
+                return Promise.reject(cancelled());
+            }
+            if (!key) {
+                return enqueue(task, pool, signal);
+            }
+
+            let run = shared.get(key);
+            if (!run) {
+                const controller = new AbortController();
+                const created: SharedRun = { promise: enqueue(task, pool, controller.signal), controller, callers: 0 };
+                const cleanup = () => {
+                    if (shared.get(key) === created) shared.delete(key);
+                };
+                created.promise.then(cleanup, cleanup);
+                shared.set(key, created);
+                run = created;
+            }
+            return follow<T>(key, run, signal);
+        },
+
+        updateBudget(remaining: number, reset: number, poolId = DEFAULT_POOL) {
+            if (!reset || Number.isNaN(remaining)) {
+                return;
+            }
+
+            prune();
+            const pool = getPool(poolId);
+            const resetAt = reset * 1000;
+            if (!pool.budget || resetAt > pool.budget.resetAt) {
+                pool.budget = { remaining, resetAt };
+            } else if (resetAt === pool.budget.resetAt) {
+                // Responses arrive out of order; within a window the lowest count is the latest
+                pool.budget.remaining = Math.min(pool.budget.remaining, remaining);
+            }
+            dispatch();
+        },
+
+        pause(until: number, poolId = DEFAULT_POOL) {
+            const pool = getPool(poolId);
+            pool.pausedUntil = Math.max(pool.pausedUntil, until);
+            dispatch();
+        },
+
+        async waitForResume(signal?: AbortSignal, pool = DEFAULT_POOL) {
+            const resumeAt = getResumeAt(pool);
+            if (!resumeAt) {
+                return true;
+            }
+            if (resumeAt - Date.now() > maxPause) {
+                return false;
+            }
+            await delay(resumeAt - Date.now(), signal);
+            return true;
+        },
+
+        stats(poolId?: string) {
+            const now = Date.now();
+            const selected = poolId === undefined ? Array.from(pools.values()) : [pools.get(poolId)].flatMap(pool => pool || []);
+            const budgets = selected.flatMap(pool => pool.budget && pool.budget.resetAt > now ? [pool.budget.remaining] : []);
+            const pausedUntil = Math.max(0, ...selected.map(pool => pool.pausedUntil));
+            return {
+                active,
+                queued: queue.length,
+                shared: shared.size,
+                ...(budgets.length > 0 ? { remaining: Math.max(0, Math.min(...budgets)) } : {}),
+                ...(pausedUntil > now ? { pausedUntil } : {}),
+            };
+        },
+    };
+}
+
+// Stored on globalThis so every bundle (instrumentation, server components and
+// route handlers) shares one queue and the rate limit budget of each credential
+const globalScheduler = globalThis as typeof globalThis & { __gitfluxRequestScheduler?: RequestScheduler };
+
+/**
+ * Get the request scheduler, creating it on first use
+ */
+export function getRequestScheduler(): RequestScheduler {
+    if (!globalScheduler.__gitfluxRequestScheduler) {
+        const concurrency = parseInt(process.env.GITFLUX_MAX_CONCURRENT_REQUESTS || '');
+        globalScheduler.__gitfluxRequestScheduler = createRequestScheduler({
+            concurrency: concurrency > 0 ? concurrency : DEFAULT_MAX_CONCURRENT_REQUESTS,
+        });
+    }
+    return globalScheduler.__gitfluxRequestScheduler;
+}
+
+/**
+ * Replace the request scheduler; pass undefined to start over with a new one
+ */
+export function setRequestScheduler(scheduler?: RequestScheduler): void {
+    globalScheduler.__gitfluxRequestScheduler = scheduler;
+}
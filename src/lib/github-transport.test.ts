@@ -0,0 +1,77 @@
+/**
+ * Unit tests for the injectable GitHub transport
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  fetchTransport,
+  getGitHubTransport,
+  getGitHubTransportMode,
+  isProxiedTransport,
+  setGitHubTransport,
+} from './github-transport';
+import { getGitHubApiBase, getGitHubGraphQLEndpoint } from './github-hosts';
+import { clearCommitActivityCache, fetchRepository } from './github-api';
+import { makeGraphQLRequest } from './github-graphql';
+
+describe('GitHub transport', () => {
+  afterEach(() => {
+    setGitHubTransport(undefined);
+    vi.unstubAllEnvs();
+  });
+
+  it('uses fetch by default', () => {
+    expect(getGitHubTransport()).toBe(fetchTransport);
+  });
+
+  it('sends REST requests through the injected transport', async () => {
+    clearCommitActivityCache();
+    const transport = {
+      request: vi.fn(async () => new Response(JSON.stringify({ full_name: 'owner/repo' }), { status: 200 })),
+    };
+    setGitHubTransport(transport);
+
+    const result = await fetchRepository('owner', 'repo');
+
+    expect(result.data).toEqual({ full_name: 'owner/repo' });
+    expect(transport.request).toHaveBeenCalledWith(expect.objectContaining({
+      url: 'https://api.github.com/repos/owner/repo',
+      method: 'GET',
+    }));
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('sends GraphQL requests through the injected transport', async () => {
+    const transport = {
+      request: vi.fn(async () => new Response(JSON.stringify({ data: { viewer: { login: 'me' } } }), { status: 200 })),
+    };
+    setGitHubTransport(transport);
+
+    const result = await makeGraphQLRequest('query { viewer { login } }', {});
+
+    expect(result.data).toEqual({ viewer: { login: 'me' } });
+    expect(transport.request).toHaveBeenCalledWith(expect.objectContaining({
+      url: 'https://api.github.com/graphql',
+      method: 'POST',
+      body: JSON.stringify({ query: 'query { viewer { login } }', variables: {} }),
+    }));
+  });
+
+  it('selects the mode from GITFLUX_TRANSPORT', () => {
+    expect(getGitHubTransportMode()).toBe('live');
+
+    vi.stubEnv('GITFLUX_TRANSPORT', 'replay');
+    expect(getGitHubTransportMode()).toBe('replay');
+
+    vi.stubEnv('GITFLUX_TRANSPORT', 'bogus');
+    expect(getGitHubTransportMode()).toBe('live');
+  });
+
+  it('routes browser requests through the proxy while replaying', () => {
+    vi.stubEnv('GITFLUX_TRANSPORT', 'replay');
+
+    expect(isProxiedTransport()).toBe(true);
+    expect(getGitHubApiBase()).toBe('/api/github/github.com');
+    expect(getGitHubGraphQLEndpoint('ghe.example.com')).toBe('/api/github/ghe.example.com/graphql');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * GitHub transport layer
+ * Every REST and GraphQL request goes through an injectable transport, so requests
+ * can be recorded to fixtures, replayed offline, or served by tests without
+ * mocking the global fetch.
+ *
+ * Environment:
+ * - GITFLUX_TRANSPORT: "live" (default), "record" or "replay"
+ * - GITFLUX_FIXTURES_DIR: fixtures directory for record/replay (default "fixtures/github")
+ *
+ * Recording and replaying use the filesystem and are configured on the server
+ * (see src/instrumentation.ts). In those modes browser requests are routed through
+ * the /api/github proxy route so that they are recorded and replayed as well.
+ * Browsers of signed-in users also send github.com requests through the proxy,
+ * which adds the user's token from the session cookie.
+ */
+
+export interface GitHubTransportRequest {
+    url: string;
+    method: 'GET' | 'POST';
+    headers: Record<string, string>;
+    body?: string;
+    signal?: AbortSignal;
+}
+
+export interface GitHubTransport {
+    request(request: GitHubTransportRequest): Promise<Response>;
+}
+
+export type GitHubTransportMode = 'live' | 'record' | 'replay';
+
+// Readable cookie set next to the httpOnly session cookie, so browser code can
+// tell that requests should go through the proxy; it holds no credentials
+export const SESSION_MARKER_COOKIE = 'gitflux_signed_in';
+
+/**
+ * Default transport: send requests with the global fetch
+ */
+export const fetchTransport: GitHubTransport = {
+    request: ({ url, method, headers, body, signal }) => fetch(url, { method, headers, body, signal }),
+};
+
+// Stored on globalThis so the transport configured at server startup is shared by
+// every bundle (instrumentation, server components and route handlers)
+const globalTransport = globalThis as typeof globalThis & { __gitfluxGitHubTransport?: GitHubTransport };
+
+/**
+ * Get the transport used for GitHub requests
+ */
+export function getGitHubTransport(): GitHubTransport {
+    return globalTransport.__gitfluxGitHubTransport || fetchTransport;
+}
+
+/**
+ * Replace the transport used for GitHub requests; pass undefined to restore fetch
+ */
+export function setGitHubTransport(transport?: GitHubTransport): void {
+    globalTransport.__gitfluxGitHubTransport = transport;
+}
+
+/**
+ * Get the transport mode selected through GITFLUX_TRANSPORT
+ */
+export function getGitHubTransportMode(): GitHubTransportMode {
+    const mode = process.env.GITFLUX_TRANSPORT;
+    return mode === 'record' || mode === 'replay' ? mode : 'live';
+}
+
+/**
+ * Check whether browser requests must go through the server-side /api/github proxy
+ */
+export function isProxiedTransport(): boolean {
+    return typeof window !== 'undefined' && getGitHubTransportMode() !== 'live';
+}
+
+/**
+ * Check whether the browser belongs to a user signed in with GitHub
+ */
+export function hasBrowserSession(): boolean {
+    return typeof document !== 'undefined'
+        && document.cookie.split(';').some(cookie => cookie.trim().startsWith(`${SESSION_MARKER_COOKIE}=`));
+}
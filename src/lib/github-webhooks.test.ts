@@ -0,0 +1,119 @@
+/**
+ * Unit tests for GitHub webhook handling, against the mock GitHub server
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  handleWebhookEvent,
+  isWebhookEvent,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from './github-webhooks';
+import {
+  fetchBranches,
+  fetchCommitActivityData,
+  getCommitActivityCacheStats,
+} from './github-api';
+import { getCommitSyncState, syncCommitsWithFiles } from './commit-sync';
+import { parseWebhookPayload, PayloadValidationError } from './github-models';
+import { useMockGitHubServer } from '@/test/mock-github/fixture';
+
+const repository = { name: 'widgets', owner: { login: 'acme' }, default_branch: 'main' };
+
+const pushPayload = (extra: Record<string, unknown> = {}) => parseWebhookPayload({
+  ref: 'refs/heads/main',
+  repository,
+  commits: [{ author: { name: 'Alice Example', username: 'alice' } }],
+  ...extra,
+});
+
+describe('GitHub webhooks', () => {
+  describe('signatures', () => {
+    const body = JSON.stringify({ zen: 'Keep it logically awesome.' });
+
+    it('accepts bodies signed with the secret', () => {
+      const signature = signWebhookPayload(body, 'secret');
+
+      expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+      expect(verifyWebhookSignature(body, signature, 'secret')).toBe(true);
+    });
+
+    it('rejects missing signatures, other secrets and changed bodies', () => {
+      const signature = signWebhookPayload(body, 'secret');
+
+      expect(verifyWebhookSignature(body, null, 'secret')).toBe(false);
+      expect(verifyWebhookSignature(body, 'sha256=abc', 'secret')).toBe(false);
+      expect(verifyWebhookSignature(body, signature, 'other')).toBe(false);
+      expect(verifyWebhookSignature(`${body} `, signature, 'secret')).toBe(false);
+    });
+  });
+
+  it('parses payloads and names the missing field', () => {
+    expect(pushPayload()).toEqual({
+      repository,
+      ref: 'refs/heads/main',
+      ref_type: undefined,
+      forced: false,
+      commits: [{ author: { name: 'Alice Example', username: 'alice' } }],
+    });
+    expect(() => parseWebhookPayload({ ref: 'main' })).toThrow(PayloadValidationError);
+    expect(() => parseWebhookPayload({ ref: 'main' })).toThrow('payload.repository');
+    expect(isWebhookEvent('pull_request_review')).toBe(true);
+    expect(isWebhookEvent('issues')).toBe(false);
+  });
+
+  describe('refreshing cached data', () => {
+    const server = useMockGitHubServer();
+
+    const commitListRequests = () => server().requests.filter(request => request.startsWith('/repos/acme/widgets/commits?')).length;
+
+    it('syncs new commits and drops cached commit activity after a push to the default branch', async () => {
+      await syncCommitsWithFiles('acme', 'widgets');
+      await fetchCommitActivityData('acme', 'widgets', '30d');
+      const requests = commitListRequests();
+
+      // Served from the store and the cache until the push
+      await syncCommitsWithFiles('acme', 'widgets');
+      await fetchCommitActivityData('acme', 'widgets', '30d');
+      expect(commitListRequests()).toBe(requests);
+
+      const result = await handleWebhookEvent('push', pushPayload());
+
+      expect(result).toEqual({ repository: 'github.com/acme/widgets', refreshed: ['commits', 'branches'] });
+      await syncCommitsWithFiles('acme', 'widgets');
+      await fetchCommitActivityData('acme', 'widgets', '30d');
+      expect(commitListRequests()).toBe(requests + 2);
+      expect(getCommitSyncState('acme', 'widgets')?.commitCount).toBeGreaterThan(0);
+    });
+
+    it('drops the stored commits after a force push', async () => {
+      await syncCommitsWithFiles('acme', 'widgets');
+
+      await handleWebhookEvent('push', pushPayload({ forced: true }));
+
+      expect(getCommitSyncState('acme', 'widgets')).toBeUndefined();
+    });
+
+    it('keeps commits for pushes to other branches and downloads branches again', async () => {
+      await syncCommitsWithFiles('acme', 'widgets');
+      await fetchBranches('acme', 'widgets');
+      const { revalidated } = getCommitActivityCacheStats();
+
+      const result = await handleWebhookEvent('push', pushPayload({ ref: 'refs/heads/feature' }));
+      await fetchBranches('acme', 'widgets');
+
+      expect(result.refreshed).toEqual(['branches']);
+      expect(getCommitActivityCacheStats().revalidated).toBe(revalidated);
+      await syncCommitsWithFiles('acme', 'widgets');
+      expect(commitListRequests()).toBe(1);
+    });
+
+    it('downloads pull requests again after pull request events and ignores tags', async () => {
+      const created = await handleWebhookEvent('create', parseWebhookPayload({ ref: 'v1.0.0', ref_type: 'tag', repository }));
+      const reviewed = await handleWebhookEvent('pull_request_review', parseWebhookPayload({ repository }));
+
+      expect(created.refreshed).toEqual([]);
+      expect(reviewed.refreshed).toEqual(['pullRequests']);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * GitHub webhooks (server-only)
+ * POST /api/webhooks/github receives repository events, so analyses reflect a
+ * change right away instead of when cached data expires. Deliveries are
+ * authenticated by their X-Hub-Signature-256 header, an HMAC-SHA256 of the body
+ * with the webhook secret.
+ *
+ * - push to the default branch: the next commit sync fetches the new commits (a
+ *   force push drops the stored commits) and cached commit activity is dropped
+ * - push, create and delete of branches: branch responses are downloaded again
+ * - pull_request and pull_request_review: pull request and review responses are
+ *   downloaded again
+ *
+ * Environment:
+ * - GITHUB_WEBHOOK_SECRET: secret set on the webhook; deliveries are rejected without it
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { clearResponseValidators, invalidateCommitActivity } from './github-api';
+import { clearCommitSyncStore, markCommitSyncStale } from './commit-sync';
+import { normalizeGitHubHost } from './github-hosts';
+import type { GitHubWebhookPayload } from './github-models';
+
+export const WEBHOOK_EVENTS = ['push', 'pull_request', 'pull_request_review', 'create', 'delete'] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// Cached data a delivery refreshed
+export type WebhookRefresh = 'commits' | 'branches' | 'pullRequests';
+
+export interface WebhookResult {
+    repository: string; // host/owner/repo
+    refreshed: WebhookRefresh[];
+}
+
+/**
+ * Get the webhook secret, or undefined when webhooks are not configured
+ */
+export function getWebhookSecret(): string | undefined {
+    return process.env.GITHUB_WEBHOOK_SECRET || undefined;
+}
+
+/**
+ * Sign a webhook body the way GitHub does (the X-Hub-Signature-256 value)
+ */
+export function signWebhookPayload(body: string, secret: string): string {
+    return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/**
+ * Check a delivery's X-Hub-Signature-256 header in constant time
+ */
+export function verifyWebhookSignature(body: string, signature: string | null | undefined, secret: string): boolean {
+    if (!signature) {
+        return false;
+    }
+    const expected = Buffer.from(signWebhookPayload(body, secret));
+    const received = Buffer.from(signature);
+    return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Check whether an X-GitHub-Event header names an event that refreshes data
+ */
+export function isWebhookEvent(event: string | null | undefined): event is WebhookEvent {
+    return WEBHOOK_EVENTS.includes(event as WebhookEvent);
+}
+
+/**
+ * Refresh the cached data of the repository an event is about
+ */
+export async function handleWebhookEvent(
+    event: WebhookEvent,
+    payload: GitHubWebhookPayload,
+    host?: string
+): Promise<WebhookResult> {
+    const owner = payload.repository.owner.login;
+    const repo = payload.repository.name;
+    const refreshed: WebhookRefresh[] = [];
+
+    if (event === 'push') {
+        if (payload.ref === `refs/heads/${payload.repository.default_branch}`) {
+            if (payload.forced) {
+                clearCommitSyncStore(owner, repo);
+            } else {
+                markCommitSyncStale(owner, repo, host);
+            }
+            const authors = payload.commits.flatMap(commit => commit.author.username ? [commit.author.username] : []);
+            await invalidateCommitActivity(owner, repo, { host, authors: Array.from(new Set(authors)) });
+            refreshed.push('commits');
+        }
+        // Every push moves a branch head
+        refreshed.push('branches');
+    } else if (event === 'create' || event === 'delete') {
+        if (payload.ref_type === 'branch') {
+            refreshed.push('branches');
+        }
+    } else {
+        refreshed.push('pullRequests');
+    }
+
+    clearResponseValidators(owner, repo, [
+        ...(refreshed.includes('branches') ? ['branches'] : []),
+        ...(refreshed.includes('pullRequests') ? ['pulls'] : []),
+    ]);
+
+    return { repository: `${normalizeGitHubHost(host)}/${owner}/${repo}`, refreshed };
+}
@@ -0,0 +1,333 @@
+/**
+ * GitLab repository provider
+ * Maps GitLab projects, commits, branches and merge requests into the shared
+ * analysis types. Merge request approvals and review comments are read from
+ * the merge request notes, which carry timestamps the approvals API lacks.
+ */
+
+import {
+    CommitFileData,
+    Contributor,
+    GitHubBranchPayload,
+    GitHubPullRequestPayload,
+    processBranchData,
+    processPRData,
+} from './github-api';
+import { createGitHubError, errorResponse, forwardError } from './github-errors';
+import { getGitLabApiBase, getProviderToken } from './provider-hosts';
+import { fetchAllProviderPages, makeProviderRequest, ProviderApiConfig } from './provider-request';
+import type { ChangeRequestReview, RepositoryProvider } from './repository-provider';
+
+// GitLab API payloads (fields used by the analysis)
+interface GitLabProject {
+    name: string;
+    path_with_namespace: string;
+    description: string | null;
+    web_url: string;
+    default_branch?: string;
+    star_count: number;
+    forks_count: number;
+    visibility: 'public' | 'internal' | 'private';
+    created_at: string;
+    last_activity_at: string;
+}
+
+interface GitLabCommit {
+    id: string;
+    authored_date: string;
+    author_name: string;
+    message: string;
+}
+
+interface GitLabDiff {
+    old_path: string;
+    new_path: string;
+    new_file: boolean;
+    deleted_file: boolean;
+    diff?: string;
+}
+
+interface GitLabBranch {
+    name: string;
+    merged: boolean;
+    default: boolean;
+    commit: GitLabCommit & { title?: string };
+}
+
+interface GitLabUser {
+    username: string;
+}
+
+interface GitLabMergeRequest {
+    iid: number;
+    title: string;
+    state: 'opened' | 'closed' | 'merged' | 'locked';
+    created_at: string;
+    merged_at?: string | null;
+    closed_at?: string | null;
+    author: GitLabUser;
+    reviewers?: GitLabUser[];
+    labels?: string[];
+    draft?: boolean;
+    work_in_progress?: boolean;
+    source_branch?: string;
+    sha?: string; // Head of the source branch
+}
+
+interface GitLabNote {
+    body: string;
+    system: boolean;
+    created_at: string;
+    author: GitLabUser;
+}
+
+interface GitLabApprovals {
+    updated_at?: string;
+    approved_by?: { user: GitLabUser }[];
+}
+
+const DEFAULT_MAX_COMMITS = 1000;
+const DEFAULT_MAX_ITEMS = 1000;
+
+/**
+ * Count added and removed lines in a unified diff
+ */
+export function countDiffLines(diff = ''): { additions: number; deletions: number } {
+    let additions = 0;
+    let deletions = 0;
+
+    diff.split('\n').forEach(line => {
+        if (line.startsWith('+') && !line.startsWith('+++')) {
+            additions++;
+        } else if (line.startsWith('-') && !line.startsWith('---')) {
+            deletions++;
+        }
+    });
+
+    return { additions, deletions };
+}
+
+/**
+ * Map a merge request into the GitHub pull request shape used by processPRData
+ */
+function toPullRequestPayload(mergeRequest: GitLabMergeRequest): GitHubPullRequestPayload {
+    return {
+        number: mergeRequest.iid,
+        title: mergeRequest.title,
+        state: mergeRequest.state === 'closed' || mergeRequest.state === 'merged' ? 'closed' : 'open',
+        created_at: mergeRequest.created_at,
+        merged_at: mergeRequest.state === 'merged' ? mergeRequest.merged_at || mergeRequest.closed_at : null,
+        closed_at: mergeRequest.closed_at,
+        user: { login: mergeRequest.author.username },
+        requested_reviewers: mergeRequest.reviewers?.map(reviewer => ({ login: reviewer.username })),
+        labels: mergeRequest.labels?.map(name => ({ name })),
+        draft: Boolean(mergeRequest.draft || mergeRequest.work_in_progress),
+        head: mergeRequest.source_branch ? { ref: mergeRequest.source_branch, sha: mergeRequest.sha } : undefined,
+    };
+}
+
+/**
+ * Create the provider for a GitLab host
+ */
+export function createGitLabProvider(host: string): RepositoryProvider {
+    const token = getProviderToken('gitlab', host);
+    const config: ProviderApiConfig = {
+        name: 'GitLab',
+        apiBase: getGitLabApiBase(host),
+        headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+    };
+
+    // Projects are addressed by their URL-encoded path, which supports subgroups
+    const projectPath = (owner: string, repo: string) => `/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+
+    return {
+        kind: 'gitlab',
+        host,
+        changeRequestLabel: 'Merge request',
+
+        async getRepository(owner, repo, options = {}) {
+            const [response, languages] = await Promise.all([
+                makeProviderRequest<GitLabProject>(config, projectPath(owner, repo), options),
+                makeProviderRequest<Record<string, number>>(config, `${projectPath(owner, repo)}/languages`, options),
+            ]);
+            if (!response.data) {
+                return forwardError(response);
+            }
+
+            const project = response.data;
+            const language = Object.entries(languages.data || {}).sort((a, b) => b[1] - a[1])[0]?.[0] || null;
+            return {
+                data: {
+                    name: project.name,
+                    fullName: project.path_with_namespace,
+                    description: project.description,
+                    htmlUrl: project.web_url,
+                    defaultBranch: project.default_branch || 'main',
+                    stars: project.star_count,
+                    forks: project.forks_count,
+                    language,
+                    private: project.visibility !== 'public',
+                    createdAt: project.created_at,
+                    updatedAt: project.last_activity_at,
+                },
+                rateLimit: response.rateLimit,
+            };
+        },
+
+        async getContributors(owner, repo, options = {}) {
+            const { maxItems = DEFAULT_MAX_ITEMS, signal } = options;
+            const response = await fetchAllProviderPages<{ name: string; email: string; commits: number }>(
+                config,
+                `${projectPath(owner, repo)}/repository/contributors?per_page=100&order_by=commits&sort=desc`,
+                { maxItems, signal }
+            );
+            if (!response.data) {
+                return forwardError(response);
+            }
+
+            const contributors: Contributor[] = response.data.map(contributor => ({
+                login: contributor.name,
+                avatar_url: '',
+                contributions: contributor.commits,
+                html_url: '',
+                type: 'User',
+            }));
+            return { data: contributors, rateLimit: response.rateLimit };
+        },
+
+        async getCommitsWithFiles(owner, repo, options = {}) {
+            const { since, until, maxCommits = DEFAULT_MAX_COMMITS, onProgress, signal } = options;
+            let endpoint = `${projectPath(owner, repo)}/repository/commits?per_page=100`;
+            if (since) endpoint += `&since=${since}`;
+            if (until) endpoint += `&until=${until}`;
+
+            const list = await fetchAllProviderPages<GitLabCommit>(config, endpoint, { maxItems: maxCommits, signal });
+            if (!list.data) {
+                return forwardError(list);
+            }
+
+            const commits: CommitFileData[] = [];
+            for (let i = 0; i < list.data.length; i++) {
+                const commit = list.data[i];
+                const diffs = await fetchAllProviderPages<GitLabDiff>(
+                    config,
+                    `${projectPath(owner, repo)}/repository/commits/${commit.id}/diff?per_page=100`,
+                    { signal }
+                );
+                if (signal?.aborted) {
+                    return errorResponse(createGitHubError('cancelled'));
+                }
+                if (!diffs.data) {
+                    // Log error but continue processing other commits
+                    console.warn(`Failed to fetch details for commit ${commit.id}:`, diffs.error);
+                    continue;
+                }
+
+                commits.push({
+                    sha: commit.id,
+                    date: commit.authored_date,
+                    author: commit.author_name,
+                    message: commit.message,
+                    files: diffs.data.map(diff => {
+                        const { additions, deletions } = countDiffLines(diff.diff);
+                        return {
+                            filename: diff.new_path || diff.old_path,
+                            status: diff.new_file ? 'added' : diff.deleted_file ? 'removed' : 'modified',
+                            changes: additions + deletions,
+                            additions,
+                            deletions,
+                        };
+                    }),
+                });
+                onProgress?.(i + 1, list.data.length);
+            }
+
+            return { data: commits, rateLimit: list.rateLimit };
+        },
+
+        async getBranches(owner, repo, timePeriod, options = {}) {
+            const { maxItems = DEFAULT_MAX_ITEMS, signal } = options;
+            const response = await fetchAllProviderPages<GitLabBranch>(
+                config,
+                `${projectPath(owner, repo)}/repository/branches?per_page=100`,
+                { maxItems, signal }
+            );
+            if (!response.data) {
+                return forwardError(response);
+            }
+
+            const defaultBranch = response.data.find(branch => branch.default)?.name || 'main';
+            const payloads: GitHubBranchPayload[] = response.data.map(branch => ({
+                name: branch.name,
+                commit: {
+                    sha: branch.commit.id,
+                    commit: {
+                        author: { name: branch.commit.author_name, date: branch.commit.authored_date },
+                        message: branch.commit.message,
+                    },
+                },
+            }));
+            const merged = new Set(response.data.filter(branch => branch.merged).map(branch => branch.name));
+
+            return {
+                data: processBranchData(payloads, defaultBranch, timePeriod).map(branch => (
+                    !branch.isDefault && merged.has(branch.name) ? { ...branch, status: 'merged' as const } : branch
+                )),
+                rateLimit: response.rateLimit,
+            };
+        },
+
+        async getChangeRequests(owner, repo, timePeriod, options = {}) {
+            const { maxItems = DEFAULT_MAX_ITEMS, signal } = options;
+            const response = await fetchAllProviderPages<GitLabMergeRequest>(
+                config,
+                `${projectPath(owner, repo)}/merge_requests?state=all&per_page=100&order_by=updated_at&sort=desc`,
+                { maxItems, signal }
+            );
+            if (!response.data) {
+                return forwardError(response);
+            }
+            return { data: processPRData(response.data.map(toPullRequestPayload), timePeriod), rateLimit: response.rateLimit };
+        },
+
+        async getReviews(owner, repo, number, options = {}) {
+            const mergeRequestPath = `${projectPath(owner, repo)}/merge_requests/${number}`;
+            const [notes, approvals] = await Promise.all([
+                fetchAllProviderPages<GitLabNote>(config, `${mergeRequestPath}/notes?per_page=100&sort=asc&order_by=created_at`, options),
+                makeProviderRequest<GitLabApprovals>(config, `${mergeRequestPath}/approvals`, options),
+            ]);
+            if (!notes.data) {
+                return forwardError(notes);
+            }
+
+            const reviews: ChangeRequestReview[] = [];
+            notes.data.forEach(note => {
+                const body = note.body.trim().toLowerCase();
+                let state: ChangeRequestReview['state'] | undefined;
+                if (note.system) {
+                    if (body.startsWith('approved this merge request')) {
+                        state = 'APPROVED';
+                    } else if (body.startsWith('requested changes')) {
+                        state = 'CHANGES_REQUESTED';
+                    }
+                } else {
+                    state = 'COMMENTED';
+                }
+
+                if (state) {
+                    reviews.push({ prNumber: number, reviewer: note.author.username, state, submittedAt: note.created_at });
+                }
+            });
+
+            // Approvals without a matching note (e.g. notes pruned) use the approval update time
+            const approved = new Set(reviews.filter(review => review.state === 'APPROVED').map(review => review.reviewer));
+            approvals.data?.approved_by?.forEach(({ user }) => {
+                if (!approved.has(user.username) && approvals.data?.updated_at) {
+                    reviews.push({ prNumber: number, reviewer: user.username, state: 'APPROVED', submittedAt: approvals.data.updated_at });
+                }
+            });
+
+            return { data: reviews, rateLimit: notes.rateLimit };
+        },
+    };
+}
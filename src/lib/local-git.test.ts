@@ -0,0 +1,251 @@
+/**
+ * Unit tests for the local git repository provider
+ * Builds a small repository in a temporary directory with fixed commit dates.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  fetchLocalBranches,
+  fetchLocalCommits,
+  fetchLocalCommitsWithFiles,
+  fetchLocalRepositoryInfo,
+  findLocalRepository,
+  getConfiguredLocalRepositories,
+  parseGitLog,
+} from './local-git';
+import { processFileChangeData } from './github-api';
+import { calculateContributorTrends } from './commit-activity-data';
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+describe('Local git provider', () => {
+  let repoPath: string;
+
+  const git = (args: string[], author = 'Alice Example', date = daysAgo(1)) => {
+    execFileSync('git', args, {
+      cwd: repoPath,
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: author,
+        GIT_AUTHOR_EMAIL: `${author.split(' ')[0].toLowerCase()}@example.com`,
+        GIT_AUTHOR_DATE: date,
+        GIT_COMMITTER_NAME: author,
+        GIT_COMMITTER_EMAIL: `${author.split(' ')[0].toLowerCase()}@example.com`,
+        GIT_COMMITTER_DATE: date,
+      },
+      stdio: 'pipe',
+    });
+  };
+
+  const commit = (message: string, author: string, date: string) => {
+    git(['add', '-A'], author, date);
+    git(['commit', '-q', '-m', message], author, date);
+  };
+
+  beforeAll(() => {
+    repoPath = mkdtempSync(path.join(tmpdir(), 'gitflux-local-'));
+    git(['init', '-q', '-b', 'main']);
+
+    writeFileSync(path.join(repoPath, 'README.md'), '# Widgets\n');
+    writeFileSync(path.join(repoPath, 'old.txt'), 'obsolete\n');
+    commit('Initial commit', 'Alice Example', daysAgo(200));
+
+    writeFileSync(path.join(repoPath, 'index.ts'), 'export const a = 1;\nexport const b = 2;\n');
+    writeFileSync(path.join(repoPath, 'logo.bin'), Buffer.from([0, 1, 2, 0, 3]));
+    commit('Add index and logo', 'Bob Example', daysAgo(20));
+
+    // Merged feature branch
+    git(['checkout', '-q', '-b', 'feature/done']);
+    writeFileSync(path.join(repoPath, 'README.md'), '# Widgets\n\nDocs\n');
+    commit('Document widgets', 'Bob Example', daysAgo(10));
+    git(['checkout', '-q', 'main']);
+    git(['merge', '-q', '--ff-only', 'feature/done']);
+
+    writeFileSync(path.join(repoPath, 'index.ts'), 'export const a = 10;\nexport const b = 2;\n');
+    unlinkSync(path.join(repoPath, 'old.txt'));
+    commit('Update index, remove old file', 'Alice Example', daysAgo(5));
+
+    // Unmerged branch from before the last main commit
+    git(['checkout', '-q', '-b', 'feature/wip', 'HEAD~1']);
+    writeFileSync(path.join(repoPath, 'wip.ts'), 'export {};\n');
+    commit('Work in progress', 'Carol Example', daysAgo(2));
+    git(['checkout', '-q', 'main']);
+  });
+
+  afterAll(() => {
+    rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('configuration', () => {
+    it('parses named and unnamed repositories', () => {
+      vi.stubEnv('GITFLUX_LOCAL_REPOS', 'gitflux=/srv/git/gitflux, /srv/mirrors/widgets/ ,');
+
+      expect(getConfiguredLocalRepositories()).toEqual([
+        { name: 'gitflux', path: path.resolve('/srv/git/gitflux') },
+        { name: 'widgets', path: path.resolve('/srv/mirrors/widgets') },
+      ]);
+      expect(findLocalRepository('widgets')?.path).toBe(path.resolve('/srv/mirrors/widgets'));
+      expect(findLocalRepository('../etc')).toBeUndefined();
+    });
+
+    it('returns no repositories when nothing is configured', () => {
+      vi.stubEnv('GITFLUX_LOCAL_REPOS', '');
+
+      expect(getConfiguredLocalRepositories()).toEqual([]);
+    });
+  });
+
+  describe('parseGitLog', () => {
+    it('parses numstat and summary lines', () => {
+      const output = [
+        '\x1eabc123\x1f2024-01-15T10:00:00+01:00\x1fAlice\x1falice@example.com\x1fAdd files',
+        '',
+        '3\t1\tsrc/a.ts',
+        '-\t-\timage.png',
+        '0\t4\tgone.txt',
+        ' create mode 100644 image.png',
+        ' delete mode 100644 gone.txt',
+        '',
+      ].join('\n');
+
+      expect(parseGitLog(output)).toEqual([{
+        sha: 'abc123',
+        date: '2024-01-15T09:00:00.000Z',
+        author: 'Alice',
+        email: 'alice@example.com',
+        message: 'Add files',
+        files: [
+          { filename: 'src/a.ts', status: 'modified', changes: 4, additions: 3, deletions: 1 },
+          { filename: 'image.png', status: 'added', changes: 0, additions: 0, deletions: 0 },
+          { filename: 'gone.txt', status: 'removed', changes: 4, additions: 0, deletions: 4 },
+        ],
+      }]);
+    });
+  });
+
+  describe('fetchLocalCommitsWithFiles', () => {
+    it('reads commits with file changes, newest first', async () => {
+      const result = await fetchLocalCommitsWithFiles(repoPath);
+
+      expect(result.error).toBeUndefined();
+      expect(result.data?.map(c => c.message)).toEqual([
+        'Update index, remove old file',
+        'Document widgets',
+        'Add index and logo',
+        'Initial commit',
+      ]);
+      expect(result.data?.[0].files).toEqual(expect.arrayContaining([
+        { filename: 'index.ts', status: 'modified', changes: 2, additions: 1, deletions: 1 },
+        { filename: 'old.txt', status: 'removed', changes: 1, additions: 0, deletions: 1 },
+      ]));
+      expect(result.data?.[2].files).toEqual(expect.arrayContaining([
+        { filename: 'logo.bin', status: 'added', changes: 0, additions: 0, deletions: 0 },
+      ]));
+    });
+
+    it('limits commits to a time range', async () => {
+      const result = await fetchLocalCommitsWithFiles(repoPath, { since: daysAgo(30) });
+
+      expect(result.data).toHaveLength(3);
+    });
+
+    it('produces data the file change analysis can process', async () => {
+      const result = await fetchLocalCommitsWithFiles(repoPath);
+      const analysis = processFileChangeData(result.data!, 'all');
+
+      expect(analysis.files.find(file => file.filename === 'index.ts')?.changeCount).toBe(2);
+      expect(analysis.files.find(file => file.filename === 'README.md')?.changeCount).toBe(2);
+      expect(analysis.totalChanges).toBe(7);
+    });
+
+    it('reports unknown repositories as not found', async () => {
+      const result = await fetchLocalCommitsWithFiles(path.join(repoPath, 'missing'));
+
+      expect(result.error).toBe('Repository not found');
+    });
+
+    it('reports cancelled requests', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await fetchLocalCommitsWithFiles(repoPath, { signal: controller.signal });
+
+      expect(result.error).toBe('Request was cancelled');
+    });
+  });
+
+  describe('fetchLocalCommits', () => {
+    it('returns GitHub-shaped commits keyed by author name', async () => {
+      const result = await fetchLocalCommits(repoPath, { since: daysAgo(30) });
+
+      expect(result.data?.[0]).toMatchObject({
+        commit: { author: { name: 'Alice Example', email: 'alice@example.com' }, message: 'Update index, remove old file' },
+        author: null,
+      });
+
+      const trends = calculateContributorTrends(result.data!, '3m');
+      expect(trends.contributors.map(c => c.contributor).sort()).toEqual(['Alice Example', 'Bob Example']);
+    });
+  });
+
+  describe('fetchLocalBranches', () => {
+    it('reads branches with ahead/behind counts and merged status', async () => {
+      const result = await fetchLocalBranches(repoPath, '90d');
+      const branches = new Map(result.data?.map(branch => [branch.name, branch]));
+
+      expect(branches.get('main')).toMatchObject({ isDefault: true, status: 'active', commitCount: 4, author: 'Alice Example' });
+      expect(branches.get('feature/done')).toMatchObject({ status: 'merged', ahead: 0, behind: 1, commitCount: 0 });
+      expect(branches.get('feature/wip')).toMatchObject({
+        status: 'active',
+        ahead: 1,
+        behind: 1,
+        commitCount: 1,
+        author: 'Carol Example',
+        lastCommitMessage: 'Work in progress',
+      });
+    });
+
+    it('finds the default branch on a detached HEAD', async () => {
+      git(['checkout', '-q', '--detach', 'feature/wip']);
+      try {
+        const result = await fetchLocalBranches(repoPath, '90d');
+        const branches = new Map(result.data?.map(branch => [branch.name, branch]));
+
+        expect(result.error).toBeUndefined();
+        expect(branches.get('main')).toMatchObject({ isDefault: true });
+        expect(branches.get('feature/done')).toMatchObject({ status: 'merged', behind: 1 });
+      } finally {
+        git(['checkout', '-q', 'main']);
+      }
+    });
+
+    it('does not mark a new branch without commits of its own as merged', async () => {
+      git(['branch', 'feature/new', 'main']);
+      try {
+        const result = await fetchLocalBranches(repoPath, '90d');
+        const branch = result.data?.find(candidate => candidate.name === 'feature/new');
+
+        expect(branch).toMatchObject({ status: 'active', ahead: 0, behind: 0 });
+      } finally {
+        git(['branch', '-D', 'feature/new']);
+      }
+    });
+  });
+
+  describe('fetchLocalRepositoryInfo', () => {
+    it('summarizes the repository', async () => {
+      const result = await fetchLocalRepositoryInfo({ name: 'widgets', path: repoPath });
+
+      expect(result.data).toMatchObject({ name: 'widgets', defaultBranch: 'main', commitCount: 4 });
+      expect(new Date(result.data!.firstCommitDate!).getTime()).toBeLessThan(new Date(result.data!.lastCommitDate!).getTime());
+    });
+  });
+});
@@ -0,0 +1,393 @@
+/**
+ * Local git repository provider
+ * Reads commit, file change and branch data from a local clone by running git,
+ * producing the same structures as the GitHub API fetchers so that the existing
+ * analysis functions work on the full history without API rate limits.
+ *
+ * Environment:
+ * - GITFLUX_LOCAL_REPOS: comma-separated local repositories that may be analyzed,
+ *   as "name=/path/to/clone" or just "/path/to/clone" (named after the directory),
+ *   e.g. "gitflux=/srv/git/gitflux,/srv/mirrors/widgets"
+ *
+ * Only configured repositories are served; request paths are never used as
+ * filesystem paths.
+ */
+
+import { execFile } from 'child_process';
+import path from 'path';
+import {
+    BranchData,
+    CommitFileData,
+    GitHubApiResponse,
+    GitHubCommit,
+    TimePeriod,
+    processBranchData,
+} from './github-api';
+import { createGitHubError, errorResponse } from './github-errors';
+
+export interface LocalRepository {
+    name: string;
+    path: string;
+}
+
+export interface LocalRepositoryInfo {
+    name: string;
+    defaultBranch: string;
+    commitCount: number;
+    firstCommitDate?: string;
+    lastCommitDate?: string;
+}
+
+export interface LocalLogOptions {
+    since?: string;
+    until?: string;
+    maxCommits?: number;
+    signal?: AbortSignal;
+}
+
+export interface LocalCommitRecord extends CommitFileData {
+    email: string;
+}
+
+const GIT_TIMEOUT = 5 * 60 * 1000;
+const GIT_MAX_BUFFER = 256 * 1024 * 1024;
+const RECORD_SEPARATOR = '\x1e';
+const FIELD_SEPARATOR = '\x1f';
+const LOG_FORMAT = `--format=${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%aI${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%ae${FIELD_SEPARATOR}%s`;
+
+class GitCommandError extends Error {
+    constructor(message: string, public readonly code?: string | number) {
+        super(message);
+        this.name = 'GitCommandError';
+    }
+}
+
+/**
+ * Get the local repositories configured in GITFLUX_LOCAL_REPOS
+ */
+export function getConfiguredLocalRepositories(): LocalRepository[] {
+    const configured = process.env.GITFLUX_LOCAL_REPOS || '';
+
+    return configured
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(Boolean)
+        .map(entry => {
+            const separator = entry.indexOf('=');
+            const repoPath = separator >= 0 ? entry.slice(separator + 1).trim() : entry;
+            const name = separator >= 0 ? entry.slice(0, separator).trim() : path.basename(repoPath.replace(/[\\/]+$/, ''));
+            return { name, path: path.resolve(repoPath) };
+        })
+        .filter(repository => repository.name);
+}
+
+/**
+ * Find a configured local repository by name
+ */
+export function findLocalRepository(name: string): LocalRepository | undefined {
+    return getConfiguredLocalRepositories().find(repository => repository.name === name);
+}
+
+/**
+ * Run a git command in a repository and return its standard output
+ */
+export function runGit(repoPath: string, args: string[], signal?: AbortSignal): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile(
+            'git',
+            ['-C', repoPath, '-c', 'core.quotePath=false', ...args],
+            {
+                encoding: 'utf8',
+                maxBuffer: GIT_MAX_BUFFER,
+                timeout: GIT_TIMEOUT,
+                signal,
+                env: { ...process.env, GIT_TERMINAL_PROMPT: '0', LC_ALL: 'C' },
+            },
+            (error, stdout, stderr) => {
+                if (error) {
+                    const code = (error as NodeJS.ErrnoException).code;
+                    reject(new GitCommandError(stderr.trim() || error.message, code));
+                    return;
+                }
+                resolve(stdout);
+            }
+        );
+    });
+}
+
+/**
+ * Map git failures onto the error kinds and messages used by the GitHub fetchers
+ */
+function toErrorResponse<T>(error: unknown, signal?: AbortSignal): GitHubApiResponse<T> {
+    if (signal?.aborted || (error instanceof GitCommandError && error.code === 'ABORT_ERR')) {
+        return errorResponse(createGitHubError('cancelled'));
+    }
+    if (error instanceof GitCommandError) {
+        if (error.code === 'ENOENT') {
+            return errorResponse(createGitHubError('server', { message: 'Git is not available on this server' }));
+        }
+        if (error.code === 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER') {
+            return errorResponse(createGitHubError('validation', {
+                message: 'Repository history is too large to analyze at once. Please choose a shorter time period.',
+            }));
+        }
+        if (/not a git repository|cannot change to/i.test(error.message)) {
+            return errorResponse(createGitHubError('not_found'));
+        }
+        return errorResponse(createGitHubError('server', { message: `Git command failed: ${error.message}` }));
+    }
+    return errorResponse(createGitHubError('server', {
+        message: 'An unexpected error occurred while reading the local repository',
+    }));
+}
+
+function logArgs(options: LocalLogOptions): string[] {
+    const args = ['log', LOG_FORMAT];
+    if (options.since) args.push(`--since=${options.since}`);
+    if (options.until) args.push(`--until=${options.until}`);
+    if (options.maxCommits) args.push(`--max-count=${options.maxCommits}`);
+    return args;
+}
+
+/**
+ * Parse `git log --numstat --summary` output in the provider's log format
+ * Binary files count as zero line changes; renames are reported as a removal
+ * and an addition (the log is run with --no-renames).
+ */
+export function parseGitLog(output: string): LocalCommitRecord[] {
+    return output
+        .split(RECORD_SEPARATOR)
+        .filter(record => record.trim())
+        .map(record => {
+            const [header, ...lines] = record.split('\n');
+            const [sha, date, author, email, message] = header.split(FIELD_SEPARATOR);
+            const files = new Map<string, CommitFileData['files'][number]>();
+            const statuses = new Map<string, 'added' | 'removed'>();
+
+            lines.forEach(line => {
+                const numstat = line.match(/^(\d+|-)\t(\d+|-)\t(.+)$/);
+                if (numstat) {
+                    const additions = numstat[1] === '-' ? 0 : parseInt(numstat[1]);
+                    const deletions = numstat[2] === '-' ? 0 : parseInt(numstat[2]);
+                    files.set(numstat[3], {
+                        filename: numstat[3],
+                        status: 'modified',
+                        changes: additions + deletions,
+                        additions,
+                        deletions,
+                    });
+                    return;
+                }
+
+                const summary = line.match(/^ (create|delete) mode \d+ (.+)$/);
+                if (summary) {
+                    statuses.set(summary[2], summary[1] === 'create' ? 'added' : 'removed');
+                }
+            });
+
+            statuses.forEach((status, filename) => {
+                const file = files.get(filename);
+                if (file) {
+                    file.status = status;
+                }
+            });
+
+            return {
+                sha,
+                date: new Date(date).toISOString(),
+                author,
+                email: email || '',
+                message: message || '',
+                files: Array.from(files.values()),
+            };
+        });
+}
+
+/**
+ * Read commits with their changed files from a local repository
+ */
+export async function fetchLocalCommitsWithFiles(
+    repoPath: string,
+    options: LocalLogOptions = {}
+): Promise<GitHubApiResponse<CommitFileData[]>> {
+    try {
+        const output = await runGit(
+            repoPath,
+            [...logArgs(options), '--numstat', '--summary', '--no-renames'],
+            options.signal
+        );
+        return {
+            data: parseGitLog(output).map(({ email: _email, ...commit }) => commit),
+        };
+    } catch (error) {
+        return toErrorResponse(error, options.signal);
+    }
+}
+
+/**
+ * Convert a local commit into the GitHub commit list shape
+ * Local commits have no GitHub account, so analysis falls back to author names.
+ */
+function toGitHubCommit(commit: LocalCommitRecord): GitHubCommit {
+    return {
+        sha: commit.sha,
+        commit: {
+            author: {
+                name: commit.author,
+                email: commit.email,
+                date: commit.date,
+            },
+            message: commit.message,
+        },
+        author: null,
+    };
+}
+
+/**
+ * Read the commit list of a local repository (without file details)
+ */
+export async function fetchLocalCommits(
+    repoPath: string,
+    options: LocalLogOptions = {}
+): Promise<GitHubApiResponse<GitHubCommit[]>> {
+    try {
+        const output = await runGit(repoPath, logArgs(options), options.signal);
+        return { data: parseGitLog(output).map(toGitHubCommit) };
+    } catch (error) {
+        return toErrorResponse(error, options.signal);
+    }
+}
+
+/**
+ * Get the default branch (the branch HEAD points to)
+ * On a detached HEAD, as in CI checkouts, it is the first of origin's default branch,
+ * init.defaultBranch, main and master that exists locally, or else the first that is set.
+ */
+async function getDefaultBranch(repoPath: string, signal?: AbortSignal): Promise<string> {
+    // symbolic-ref fails when the ref is not symbolic or the setting is missing
+    const optional = (args: string[]) => runGit(repoPath, args, signal).then(output => output.trim(), () => '');
+    const head = await optional(['symbolic-ref', '--quiet', '--short', 'HEAD']);
+    if (head) {
+        return head;
+    }
+
+    const [remoteHead, configured, localBranches] = await Promise.all([
+        optional(['symbolic-ref', '--quiet', '--short', 'refs/remotes/origin/HEAD']),
+        optional(['config', '--get', 'init.defaultBranch']),
+        runGit(repoPath, ['for-each-ref', '--format=%(refname:short)', 'refs/heads'], signal),
+    ]);
+    const candidates = [remoteHead.replace(/^origin\//, ''), configured, 'main', 'master'].filter(Boolean);
+    const local = new Set(localBranches.split('\n').filter(Boolean));
+    return candidates.find(name => local.has(name)) || candidates[0];
+}
+
+/**
+ * Read branches from a local repository with real ahead/behind counts
+ * Ahead/behind are measured against the default branch; commitCount is the
+ * number of commits only on the branch (the full history for the default branch).
+ * Branches fully merged into the default branch that it has since moved past are
+ * marked as merged; a new branch with no commits of its own stays as it is.
+ */
+export async function fetchLocalBranches(
+    repoPath: string,
+    timePeriod: TimePeriod,
+    options: { signal?: AbortSignal } = {}
+): Promise<GitHubApiResponse<BranchData[]>> {
+    const { signal } = options;
+
+    try {
+        const defaultBranch = await getDefaultBranch(repoPath, signal);
+        const format = ['%(refname:short)', '%(objectname)', '%(committerdate:iso-strict)', '%(authorname)', '%(contents:subject)']
+            .join('%1f');
+        const refsOutput = await runGit(repoPath, ['for-each-ref', `--format=${format}`, 'refs/heads'], signal);
+
+        // Same shape as the GitHub branch list with commit details
+        const branches = refsOutput
+            .split('\n')
+            .filter(Boolean)
+            .map(line => {
+                const [name, sha, date, author, message] = line.split(FIELD_SEPARATOR);
+                return {
+                    name,
+                    commit: {
+                        sha,
+                        commit: {
+                            author: { name: author, date: new Date(date).toISOString() },
+                            message: message || '',
+                        },
+                    },
+                };
+            });
+        const processed = processBranchData(branches, defaultBranch, timePeriod);
+
+        // Without a local default branch (a detached checkout) there is nothing to compare with
+        if (!branches.some(branch => branch.name === defaultBranch)) {
+            return { data: processed };
+        }
+        const mergedOutput = await runGit(
+            repoPath,
+            ['for-each-ref', '--format=%(refname:short)', `--merged=refs/heads/${defaultBranch}`, 'refs/heads'],
+            signal
+        );
+        const merged = new Set(mergedOutput.split('\n').filter(Boolean));
+
+        for (const branch of processed) {
+            if (branch.isDefault) {
+                const count = await runGit(repoPath, ['rev-list', '--count', `refs/heads/${branch.name}`], signal);
+                branch.commitCount = parseInt(count.trim()) || 0;
+                continue;
+            }
+
+            const counts = await runGit(
+                repoPath,
+                ['rev-list', '--left-right', '--count', `refs/heads/${defaultBranch}...refs/heads/${branch.name}`],
+                signal
+            );
+            const [behind, ahead] = counts.trim().split(/\s+/).map(value => parseInt(value) || 0);
+            branch.ahead = ahead;
+            branch.behind = behind;
+            branch.commitCount = ahead;
+            branch.compared = true;
+            if (merged.has(branch.name) && behind > 0) {
+                branch.status = 'merged';
+            }
+        }
+
+        return { data: processed };
+    } catch (error) {
+        return toErrorResponse(error, signal);
+    }
+}
+
+/**
+ * Read summary information about a local repository
+ */
+export async function fetchLocalRepositoryInfo(
+    repository: LocalRepository,
+    options: { signal?: AbortSignal } = {}
+): Promise<GitHubApiResponse<LocalRepositoryInfo>> {
+    const { signal } = options;
+
+    try {
+        const defaultBranch = await getDefaultBranch(repository.path, signal);
+        const [count, first, last] = await Promise.all([
+            runGit(repository.path, ['rev-list', '--count', 'HEAD'], signal),
+            runGit(repository.path, ['log', '--max-parents=0', '--format=%aI', 'HEAD'], signal),
+            runGit(repository.path, ['log', '-1', '--format=%aI', 'HEAD'], signal),
+        ]);
+        // Repositories can have several root commits
+        const firstDates = first.split('\n').filter(Boolean).map(date => new Date(date).toISOString()).sort();
+
+        return {
+            data: {
+                name: repository.name,
+                defaultBranch,
+                commitCount: parseInt(count.trim()) || 0,
+                firstCommitDate: firstDates[0],
+                lastCommitDate: last.trim() ? new Date(last.trim()).toISOString() : undefined,
+            },
+        };
+    } catch (error) {
+        return toErrorResponse(error, signal);
+    }
+}
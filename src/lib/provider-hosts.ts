@@ -0,0 +1,100 @@
+/**
+ * GitLab and Gitea host configuration
+ * Decides which repository provider serves a host and resolves API endpoints and
+ * credentials for GitLab and Gitea hosts. GitHub hosts are configured in
+ * github-hosts.ts.
+ *
+ * Environment:
+ * - GITLAB_HOSTS / GITEA_HOSTS: comma-separated self-managed hosts, in addition to
+ *   gitlab.com and codeberg.org / gitea.com (NEXT_PUBLIC_ variants for the browser)
+ * - GITLAB_TOKEN / GITEA_TOKEN: tokens for every host of that provider
+ * - GITLAB_TOKEN_<HOST> / GITEA_TOKEN_<HOST>: token for one host, with the hostname
+ *   upper-cased and non-alphanumerics replaced by "_" (GITLAB_TOKEN_GITLAB_EXAMPLE_COM)
+ * - GITLAB_API_URL: override the gitlab.com API base
+ */
+
+import { isAllowedGitHubHost, normalizeGitHubHost } from './github-hosts';
+
+export type ProviderKind = 'github' | 'gitlab' | 'gitea';
+
+export const DEFAULT_GITLAB_HOSTS = ['gitlab.com'];
+export const DEFAULT_GITEA_HOSTS = ['codeberg.org', 'gitea.com'];
+
+/**
+ * Read a comma-separated host list from the environment
+ * Env vars are read by their literal names so that Next.js inlines the
+ * NEXT_PUBLIC_ variants into browser bundles.
+ */
+function parseHostList(value?: string): string[] {
+    return (value || '')
+        .split(',')
+        .map(host => host.trim().toLowerCase().replace(/\/+$/, ''))
+        .filter(Boolean);
+}
+
+/**
+ * Get the GitLab hosts that may be analyzed
+ */
+export function getConfiguredGitLabHosts(): string[] {
+    return [
+        ...DEFAULT_GITLAB_HOSTS,
+        ...parseHostList(process.env.GITLAB_HOSTS || process.env.NEXT_PUBLIC_GITLAB_HOSTS),
+    ];
+}
+
+/**
+ * Get the Gitea hosts that may be analyzed
+ */
+export function getConfiguredGiteaHosts(): string[] {
+    return [
+        ...DEFAULT_GITEA_HOSTS,
+        ...parseHostList(process.env.GITEA_HOSTS || process.env.NEXT_PUBLIC_GITEA_HOSTS),
+    ];
+}
+
+/**
+ * Determine which provider serves a host
+ * Returns undefined for hosts that are not configured, so server-side requests
+ * never go to arbitrary user-supplied hosts
+ */
+export function getProviderKind(host?: string | null): ProviderKind | undefined {
+    const normalized = normalizeGitHubHost(host);
+    if (getConfiguredGitLabHosts().includes(normalized)) {
+        return 'gitlab';
+    }
+    if (getConfiguredGiteaHosts().includes(normalized)) {
+        return 'gitea';
+    }
+    if (isAllowedGitHubHost(normalized)) {
+        return 'github';
+    }
+    return undefined;
+}
+
+/**
+ * Get the GitLab REST API base URL for a host
+ */
+export function getGitLabApiBase(host: string): string {
+    const normalized = normalizeGitHubHost(host);
+    if (normalized === DEFAULT_GITLAB_HOSTS[0] && process.env.GITLAB_API_URL) {
+        return process.env.GITLAB_API_URL.replace(/\/+$/, '');
+    }
+    return `https://${normalized}/api/v4`;
+}
+
+/**
+ * Get the Gitea REST API base URL for a host
+ */
+export function getGiteaApiBase(host: string): string {
+    return `https://${normalizeGitHubHost(host)}/api/v1`;
+}
+
+/**
+ * Get the access token for a GitLab or Gitea host
+ * Tokens are never shared between providers
+ */
+export function getProviderToken(kind: 'gitlab' | 'gitea', host: string): string | undefined {
+    const prefix = kind === 'gitlab' ? 'GITLAB_TOKEN' : 'GITEA_TOKEN';
+    const hostVariable = `${prefix}_${normalizeGitHubHost(host).toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+    return process.env[hostVariable] || process.env[prefix] || undefined;
+}
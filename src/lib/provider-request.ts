@@ -0,0 +1,160 @@
+/**
+ * HTTP requests for GitLab and Gitea providers
+ * Requests go through the same transport as GitHub requests, so they can be
+ * recorded, replayed and served by tests, and list endpoints are paginated by
+ * following Link: rel="next" headers (both GitLab and Gitea send them).
+ */
+
+import { GitHubApiResponse, PaginationLinks, RateLimitInfo, parseLinkHeader } from './github-api';
+import { createGitHubError, errorResponse, forwardError } from './github-errors';
+import { getGitHubTransport } from './github-transport';
+
+export interface ProviderApiConfig {
+    name: string; // Provider name used in error messages, e.g. "GitLab"
+    apiBase: string;
+    headers: Record<string, string>;
+}
+
+export interface ProviderHttpOptions {
+    signal?: AbortSignal;
+    retries?: number;
+    retryDelay?: number;
+}
+
+interface ProviderRequestResult<T> extends GitHubApiResponse<T> {
+    links?: PaginationLinks;
+}
+
+/**
+ * Read GitLab-style RateLimit-* headers, if present
+ */
+function extractProviderRateLimit(headers: Headers): RateLimitInfo | undefined {
+    const remaining = headers.get('ratelimit-remaining');
+    if (remaining === null) {
+        return undefined;
+    }
+    return {
+        remaining: parseInt(remaining),
+        reset: parseInt(headers.get('ratelimit-reset') || '0'),
+        limit: parseInt(headers.get('ratelimit-limit') || '0'),
+    };
+}
+
+/**
+ * Make a GET request to a GitLab or Gitea API with error handling and retries
+ */
+export async function makeProviderRequest<T>(
+    config: ProviderApiConfig,
+    endpoint: string,
+    options: ProviderHttpOptions = {}
+): Promise<ProviderRequestResult<T>> {
+    const { signal, retries = 2, retryDelay = 1000 } = options;
+    const url = `${config.apiBase}${endpoint}`;
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+        if (signal?.aborted) {
+            return errorResponse(createGitHubError('cancelled'));
+        }
+
+        try {
+            const response = await getGitHubTransport().request({
+                url,
+                method: 'GET',
+                headers: {
+                    'Accept': 'application/json',
+                    'User-Agent': 'GitFlux-Analyzer/1.0',
+                    ...config.headers,
+                },
+                signal,
+            });
+            const rateLimit = extractProviderRateLimit(response.headers);
+
+            if (!response.ok) {
+                const { status } = response;
+                if (status === 404) {
+                    return errorResponse(createGitHubError('not_found', { status }), rateLimit);
+                }
+                if (status === 401 || status === 403) {
+                    return errorResponse(createGitHubError(status === 401 ? 'auth_required' : 'forbidden', {
+                        status,
+                        message: 'Access forbidden. Repository may be private or require authentication.',
+                    }), rateLimit);
+                }
+                if (status === 429) {
+                    const retryAfter = parseInt(response.headers.get('retry-after') || '');
+                    return errorResponse(createGitHubError('rate_limited', {
+                        status,
+                        message: `${config.name} API rate limit exceeded. Please try again later.`,
+                        ...(rateLimit?.reset ? { resetAt: rateLimit.reset * 1000 } : {}),
+                        ...(retryAfter >= 0 ? { retryAfter } : {}),
+                    }), rateLimit);
+                }
+                if (status >= 500 && attempt < retries) {
+                    await new Promise(resolve => setTimeout(resolve, retryDelay * Math.pow(2, attempt)));
+                    continue;
+                }
+                if (status >= 500) {
+                    return errorResponse(createGitHubError('server', {
+                        status,
+                        message: `${config.name} API is currently unavailable. Please try again later.`,
+                    }), rateLimit);
+                }
+                return errorResponse(createGitHubError('validation', {
+                    status,
+                    message: `${config.name} API error: ${status} ${response.statusText}`,
+                }), rateLimit);
+            }
+
+            return {
+                data: await response.json(),
+                rateLimit,
+                links: parseLinkHeader(response.headers.get('link'), config.apiBase),
+            };
+        } catch (error) {
+            if (error instanceof Error && error.name === 'AbortError') {
+                return errorResponse(createGitHubError('cancelled'));
+            }
+            if (attempt < retries) {
+                await new Promise(resolve => setTimeout(resolve, retryDelay * Math.pow(2, attempt)));
+                continue;
+            }
+            if (error instanceof TypeError) {
+                return errorResponse(createGitHubError('network'));
+            }
+            return errorResponse(createGitHubError('network', {
+                message: `An unexpected error occurred while fetching data from ${config.name}.`,
+            }));
+        }
+    }
+
+    return errorResponse(createGitHubError('server', { message: 'Maximum retry attempts exceeded.' }));
+}
+
+/**
+ * Collect every page of a GitLab or Gitea list endpoint, up to maxItems
+ */
+export async function fetchAllProviderPages<T>(
+    config: ProviderApiConfig,
+    endpoint: string,
+    options: ProviderHttpOptions & { maxItems?: number } = {}
+): Promise<GitHubApiResponse<T[]>> {
+    const { maxItems = Infinity, ...requestOptions } = options;
+    const items: T[] = [];
+    let next: string | undefined = endpoint;
+    let rateLimit: RateLimitInfo | undefined;
+
+    while (next && items.length < maxItems) {
+        const response: ProviderRequestResult<T[]> = await makeProviderRequest<T[]>(config, next, requestOptions);
+        if (response.error || !response.data) {
+            return response.error
+                ? forwardError(response)
+                : errorResponse(createGitHubError('validation', { message: `No data returned from ${config.name}` }), response.rateLimit);
+        }
+
+        items.push(...response.data.slice(0, maxItems - items.length));
+        rateLimit = response.rateLimit || rateLimit;
+        next = response.data.length > 0 ? response.links?.next : undefined;
+    }
+
+    return { data: items, rateLimit };
+}
@@ -0,0 +1,79 @@
+/**
+ * Shared helpers for server-rendered analysis pages
+ * Local clones, GitLab and Gitea repositories are analyzed on the server and
+ * rendered with RepositoryAnalysis; these helpers turn their commits into the
+ * data the activity charts expect.
+ */
+
+import type { CommitFileData, TimePeriod } from './github-api';
+import {
+    calculateContributorTrends,
+    filterCommitsByTimeRange,
+    GitHubCommit,
+    type ContributorTrendData,
+    type TimeRange,
+    type WeeklyCommitData,
+} from './commit-activity-data';
+
+const VALID_TIME_PERIODS: TimePeriod[] = ['30d', '90d', '6m', '1y', 'all'];
+const VALID_TIME_RANGES: TimeRange[] = ['30d', '3m', '6m', '1y'];
+
+// Closest activity time range for each file change time period
+export const TIME_RANGE_BY_PERIOD: Record<TimePeriod, TimeRange> = {
+    '30d': '30d',
+    '90d': '3m',
+    '6m': '6m',
+    '1y': '1y',
+    'all': '1y',
+};
+
+/**
+ * Read the ?period= search param, defaulting to 90 days
+ */
+export function parseTimePeriod(period?: string | null): TimePeriod {
+    return VALID_TIME_PERIODS.includes(period as TimePeriod) ? (period as TimePeriod) : '90d';
+}
+
+/**
+ * Read the ?range= search param of the activity charts, defaulting to 30 days
+ */
+export function parseTimeRange(range?: string | null): TimeRange {
+    return VALID_TIME_RANGES.includes(range as TimeRange) ? (range as TimeRange) : '30d';
+}
+
+/**
+ * Convert commits with files into the commit shape used by the activity charts
+ */
+export function toActivityCommits(commits: CommitFileData[]): GitHubCommit[] {
+    return commits.map(commit => ({
+        sha: commit.sha,
+        commit: {
+            author: { name: commit.author, email: '', date: commit.date },
+            message: commit.message,
+        },
+        author: null,
+    }));
+}
+
+/**
+ * Build heatmap and contributor trend data for a time range
+ */
+export function buildActivityData(
+    commits: GitHubCommit[],
+    timeRange: TimeRange
+): { commitDays: WeeklyCommitData[]; contributorTrends: ContributorTrendData[] } {
+    const filtered = filterCommitsByTimeRange(commits, timeRange);
+
+    // One entry per commit; the heatmap groups them by day itself
+    const commitDays = filtered.map(commit => ({
+        date: commit.commit.author.date,
+        dayOfWeek: new Date(commit.commit.author.date).getDay(),
+        commitCount: 1,
+        contributors: [commit.commit.author.name],
+    }));
+
+    return {
+        commitDays,
+        contributorTrends: calculateContributorTrends(filtered, timeRange).contributors,
+    };
+}
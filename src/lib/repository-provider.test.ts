@@ -0,0 +1,211 @@
+/**
+ * Unit tests for repository providers and host routing
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { setGitHubTransport, type GitHubTransport } from './github-transport';
+import { getProviderKind, getProviderToken } from './provider-hosts';
+import { getRepositoryProvider } from './repository-provider';
+import { countDiffLines } from './gitlab-provider';
+
+/**
+ * Transport answering each URL (without query string) from a table of JSON bodies
+ */
+function routeTransport(routes: Record<string, unknown>, headers: Record<string, string> = {}) {
+  const transport = {
+    request: vi.fn(async ({ url }: { url: string }) => {
+      const path = url.split('?')[0];
+      if (!(path in routes)) {
+        return new Response('{"message":"404 Not Found"}', { status: 404 });
+      }
+      return new Response(JSON.stringify(routes[path]), { status: 200, headers });
+    }),
+  };
+  setGitHubTransport(transport as unknown as GitHubTransport);
+  return transport;
+}
+
+const recent = (daysAgo: number) => new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000).toISOString();
+
+describe('repository providers', () => {
+  afterEach(() => {
+    setGitHubTransport(undefined);
+    vi.unstubAllEnvs();
+  });
+
+  describe('host routing', () => {
+    it('maps hosts to providers', () => {
+      vi.stubEnv('GITLAB_HOSTS', 'gitlab.example.com');
+
+      expect(getProviderKind('github.com')).toBe('github');
+      expect(getProviderKind(undefined)).toBe('github');
+      expect(getProviderKind('gitlab.com')).toBe('gitlab');
+      expect(getProviderKind('gitlab.example.com')).toBe('gitlab');
+      expect(getProviderKind('codeberg.org')).toBe('gitea');
+      expect(getProviderKind('unknown.example.com')).toBeUndefined();
+      expect(getRepositoryProvider('unknown.example.com')).toBeUndefined();
+    });
+
+    it('reads per-host tokens before the provider-wide token', () => {
+      vi.stubEnv('GITLAB_TOKEN', 'shared');
+      vi.stubEnv('GITLAB_TOKEN_GITLAB_EXAMPLE_COM', 'scoped');
+
+      expect(getProviderToken('gitlab', 'gitlab.example.com')).toBe('scoped');
+      expect(getProviderToken('gitlab', 'gitlab.com')).toBe('shared');
+      expect(getProviderToken('gitea', 'codeberg.org')).toBeUndefined();
+    });
+  });
+
+  describe('GitLab', () => {
+    const api = 'https://gitlab.com/api/v4/projects/group%2Fproject';
+
+    it('counts diff lines without file headers', () => {
+      expect(countDiffLines('--- a/x\n+++ b/x\n@@ -1,2 +1,2 @@\n-old\n+new\n+more\n same')).toEqual({ additions: 2, deletions: 1 });
+    });
+
+    it('maps projects and sends the token as a bearer token', async () => {
+      vi.stubEnv('GITLAB_TOKEN', 'glpat');
+      const transport = routeTransport({
+        [api]: {
+          name: 'project',
+          path_with_namespace: 'group/project',
+          description: null,
+          web_url: 'https://gitlab.com/group/project',
+          default_branch: 'develop',
+          star_count: 3,
+          forks_count: 1,
+          visibility: 'public',
+          created_at: '2024-01-01T00:00:00Z',
+          last_activity_at: '2024-06-01T00:00:00Z',
+        },
+        [`${api}/languages`]: { Ruby: 20, Go: 80 },
+      });
+
+      const result = await getRepositoryProvider('gitlab.com')!.getRepository('group', 'project');
+
+      expect(result.data).toMatchObject({ fullName: 'group/project', defaultBranch: 'develop', language: 'Go', private: false });
+      expect(transport.request).toHaveBeenCalledWith(expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: 'Bearer glpat' }),
+      }));
+    });
+
+    it('maps merge requests to pull request data', async () => {
+      routeTransport({
+        [`${api}/merge_requests`]: [
+          { iid: 7, title: 'Merged', state: 'merged', created_at: recent(3), merged_at: recent(1), author: { username: 'ann' }, labels: ['bug'] },
+          { iid: 8, title: 'Draft', state: 'opened', created_at: recent(2), author: { username: 'bob' }, draft: true },
+        ],
+      });
+
+      const result = await getRepositoryProvider('gitlab.com')!.getChangeRequests('group', 'project', '30d');
+
+      expect(result.data).toHaveLength(2);
+      expect(result.data![0]).toMatchObject({ number: 7, state: 'merged', author: 'ann', labels: ['bug'] });
+      expect(result.data![0].timeToMerge).toBeGreaterThan(0);
+      expect(result.data![1]).toMatchObject({ number: 8, state: 'open', isDraft: true });
+    });
+
+    it('reads approvals and comments from merge request notes', async () => {
+      routeTransport({
+        [`${api}/merge_requests/7/notes`]: [
+          { body: 'Looks close', system: false, created_at: recent(2), author: { username: 'carol' } },
+          { body: 'approved this merge request', system: true, created_at: recent(1), author: { username: 'carol' } },
+          { body: 'added 1 commit', system: true, created_at: recent(1), author: { username: 'ann' } },
+        ],
+        [`${api}/merge_requests/7/approvals`]: {
+          updated_at: recent(1),
+          approved_by: [{ user: { username: 'carol' } }, { user: { username: 'dave' } }],
+        },
+      });
+
+      const result = await getRepositoryProvider('gitlab.com')!.getReviews('group', 'project', 7);
+
+      expect(result.data!.map(review => [review.reviewer, review.state])).toEqual([
+        ['carol', 'COMMENTED'],
+        ['carol', 'APPROVED'],
+        ['dave', 'APPROVED'],
+      ]);
+    });
+
+    it('marks merged branches', async () => {
+      const commit = { id: 'abc', authored_date: recent(1), author_name: 'Ann', message: 'Work' };
+      routeTransport({
+        [`${api}/repository/branches`]: [
+          { name: 'main', merged: false, default: true, commit },
+          { name: 'feature', merged: true, default: false, commit },
+        ],
+      });
+
+      const result = await getRepositoryProvider('gitlab.com')!.getBranches('group', 'project', '30d');
+
+      expect(result.data!.find(branch => branch.name === 'main')).toMatchObject({ isDefault: true, status: 'active' });
+      expect(result.data!.find(branch => branch.name === 'feature')).toMatchObject({ status: 'merged' });
+    });
+  });
+
+  describe('Gitea', () => {
+    const api = 'https://codeberg.org/api/v1/repos/owner/repo';
+
+    it('maps commits with changed files', async () => {
+      const transport = routeTransport({
+        [`${api}/commits`]: [{
+          sha: 'abc',
+          commit: { author: { name: 'Ann', date: recent(1) }, message: 'Add docs' },
+          author: { login: 'ann' },
+          files: [{ filename: 'docs/a.md', status: 'added' }, { filename: 'old.md', status: 'removed' }],
+        }],
+      });
+
+      const result = await getRepositoryProvider('codeberg.org')!.getCommitsWithFiles('owner', 'repo');
+
+      expect(result.data).toEqual([expect.objectContaining({
+        sha: 'abc',
+        author: 'Ann',
+        files: [
+          expect.objectContaining({ filename: 'docs/a.md', status: 'added' }),
+          expect.objectContaining({ filename: 'old.md', status: 'removed' }),
+        ],
+      })]);
+      expect(transport.request.mock.calls[0][0].url).toContain('files=true');
+    });
+
+    it('derives contributors from commit authors', async () => {
+      routeTransport({
+        [`${api}/commits`]: [
+          { sha: '1', commit: { author: { name: 'Ann', date: recent(1) }, message: 'a' }, author: { login: 'ann' } },
+          { sha: '2', commit: { author: { name: 'Ann', date: recent(2) }, message: 'b' }, author: { login: 'ann' } },
+          { sha: '3', commit: { author: { name: 'Bob', date: recent(3) }, message: 'c' }, author: null },
+        ],
+      });
+
+      const result = await getRepositoryProvider('codeberg.org')!.getContributors('owner', 'repo');
+
+      expect(result.data!.map(contributor => [contributor.login, contributor.contributions])).toEqual([
+        ['ann', 2],
+        ['Bob', 1],
+      ]);
+    });
+
+    it('maps review states and skips pending reviews', async () => {
+      routeTransport({
+        [`${api}/pulls/3/reviews`]: [
+          { user: { login: 'ann' }, state: 'REQUEST_CHANGES', submitted_at: recent(2) },
+          { user: { login: 'bob' }, state: 'PENDING', submitted_at: '' },
+          { user: { login: 'ann' }, state: 'APPROVED', submitted_at: recent(1) },
+        ],
+      });
+
+      const result = await getRepositoryProvider('codeberg.org')!.getReviews('owner', 'repo', 3);
+
+      expect(result.data!.map(review => review.state)).toEqual(['CHANGES_REQUESTED', 'APPROVED']);
+    });
+
+    it('reports missing repositories', async () => {
+      routeTransport({});
+
+      const result = await getRepositoryProvider('codeberg.org')!.getRepository('owner', 'missing');
+
+      expect(result.error).toBe('Repository not found');
+    });
+  });
+});
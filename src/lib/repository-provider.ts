@@ -0,0 +1,92 @@
+/**
+ * Repository provider abstraction
+ * Each hosting service (GitHub, GitLab, Gitea) implements RepositoryProvider and
+ * maps its wire format into the shared analysis types (PRData, BranchData,
+ * CommitFileData), so analytics do not depend on a particular API.
+ */
+
+import type {
+    BranchData,
+    CommitFileData,
+    Contributor,
+    GitHubApiResponse,
+    PRData,
+    TimePeriod,
+} from './github-api';
+import { normalizeGitHubHost } from './github-hosts';
+import { getProviderKind, ProviderKind } from './provider-hosts';
+import { createGitHubProvider } from './github-provider';
+import { createGitLabProvider } from './gitlab-provider';
+import { createGiteaProvider } from './gitea-provider';
+
+export type { ProviderKind } from './provider-hosts';
+
+// Repository information common to every provider
+export interface RepositoryInfo {
+    name: string;
+    fullName: string;
+    description: string | null;
+    htmlUrl: string;
+    defaultBranch: string;
+    stars: number;
+    forks: number;
+    language: string | null;
+    private: boolean;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// A review of a pull request (GitHub, Gitea) or merge request approval (GitLab)
+export interface ChangeRequestReview {
+    prNumber: number;
+    reviewer: string;
+    state: 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED';
+    submittedAt: string;
+}
+
+export interface ProviderRequestOptions {
+    signal?: AbortSignal;
+}
+
+export interface CommitQueryOptions extends ProviderRequestOptions {
+    since?: string;
+    until?: string;
+    maxCommits?: number;
+    onProgress?: (processed: number, total: number) => void;
+}
+
+export interface ListQueryOptions extends ProviderRequestOptions {
+    maxItems?: number;
+}
+
+export interface RepositoryProvider {
+    readonly kind: ProviderKind;
+    readonly host: string;
+    // What the service calls pull requests, e.g. "Merge request" on GitLab
+    readonly changeRequestLabel: string;
+
+    getRepository(owner: string, repo: string, options?: ProviderRequestOptions): Promise<GitHubApiResponse<RepositoryInfo>>;
+    getContributors(owner: string, repo: string, options?: ListQueryOptions): Promise<GitHubApiResponse<Contributor[]>>;
+    getCommitsWithFiles(owner: string, repo: string, options?: CommitQueryOptions): Promise<GitHubApiResponse<CommitFileData[]>>;
+    getBranches(owner: string, repo: string, timePeriod: TimePeriod, options?: ListQueryOptions): Promise<GitHubApiResponse<BranchData[]>>;
+    getChangeRequests(owner: string, repo: string, timePeriod: TimePeriod, options?: ListQueryOptions): Promise<GitHubApiResponse<PRData[]>>;
+    getReviews(owner: string, repo: string, number: number, options?: ProviderRequestOptions): Promise<GitHubApiResponse<ChangeRequestReview[]>>;
+}
+
+/**
+ * Get the provider serving a host, or undefined if the host is not configured
+ */
+export function getRepositoryProvider(host?: string | null): RepositoryProvider | undefined {
+    const normalized = normalizeGitHubHost(host);
+
+    switch (getProviderKind(normalized)) {
+        case 'github':
+            return createGitHubProvider(normalized);
+        case 'gitlab':
+            return createGitLabProvider(normalized);
+        case 'gitea':
+            return createGiteaProvider(normalized);
+        default:
+            return undefined;
+    }
+}
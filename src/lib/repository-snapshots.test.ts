@@ -0,0 +1,85 @@
+/**
+ * Unit tests for repository snapshots, against the mock GitHub server
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  captureRepositorySnapshot,
+  getSnapshotStore,
+  parseSnapshotRepositories,
+  setSnapshotStore,
+  type SnapshotMetrics,
+} from './repository-snapshots';
+import { exampleSeed as seed, useMockGitHubServer } from '@/test/mock-github/fixture';
+
+describe('repository snapshots', () => {
+  const server = useMockGitHubServer();
+
+  beforeEach(() => {
+    setSnapshotStore(undefined);
+  });
+
+  afterEach(() => {
+    setSnapshotStore(undefined);
+  });
+
+  it('captures the metrics of a repository and saves the snapshot', async () => {
+    const result = await captureRepositorySnapshot('acme', 'widgets');
+
+    expect(result.error).toBeUndefined();
+    expect(result.data).toMatchObject({ host: 'github.com', owner: 'acme', repo: 'widgets' });
+    expect(result.data?.metrics.contributors).toBeGreaterThan(0);
+    expect(result.data?.metrics.commits).toBeGreaterThan(0);
+    expect(result.data?.metrics.totalBranches).toBe(seed.repositories[0].branches!.length);
+    expect(result.data?.metrics.hotspots.map(hotspot => hotspot.filename)).toContain('src/widgets/resize.ts');
+    expect(result.data?.metrics.hotspots.length).toBeLessThanOrEqual(5);
+
+    expect(await getSnapshotStore().list('Acme', 'Widgets')).toEqual([result.data]);
+  });
+
+  it('saves nothing when the rate limit cuts the analysis short', async () => {
+    server().simulate({ kind: 'rate_limit', path: '/pulls' });
+
+    const result = await captureRepositorySnapshot('acme', 'widgets');
+
+    expect(result.errorInfo?.kind).toBe('rate_limited');
+    expect(await getSnapshotStore().list('acme', 'widgets')).toEqual([]);
+  });
+
+  it('lists snapshots oldest first, keeping the latest within a limit', async () => {
+    const store = getSnapshotStore();
+    const metrics: SnapshotMetrics = {
+      contributors: 1,
+      commits: 1,
+      openPRs: 0,
+      mergedPRs: 0,
+      averageTimeToMerge: 0,
+      reviewsPerPR: 0,
+      totalBranches: 1,
+      staleBranches: 0,
+      hotspots: [],
+    };
+    for (const capturedAt of ['2025-03-01T00:00:00Z', '2025-01-01T00:00:00Z', '2025-02-01T00:00:00Z']) {
+      await store.save({
+        host: 'github.com',
+        owner: 'acme',
+        repo: 'widgets',
+        capturedAt,
+        metrics,
+      });
+    }
+
+    const latest = await store.list('acme', 'widgets', { limit: 2 });
+
+    expect(latest.map(snapshot => snapshot.capturedAt)).toEqual(['2025-02-01T00:00:00Z', '2025-03-01T00:00:00Z']);
+    expect(await store.list('acme', 'widgets', { host: 'ghe.example.com' })).toEqual([]);
+  });
+
+  it('parses configured repositories with optional Enterprise hosts', () => {
+    expect(parseSnapshotRepositories(' acme/widgets, GHE.example.com/platform/api ,invalid,a//b')).toEqual([
+      { host: 'github.com', owner: 'acme', repo: 'widgets' },
+      { host: 'ghe.example.com', owner: 'platform', repo: 'api' },
+    ]);
+    expect(parseSnapshotRepositories(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Repository snapshots
+ * A snapshot records the key metrics of a repository at one point in time
+ * (contributors, commits, pull requests, time to merge, reviews, branches and the
+ * most changed files), so the history page can chart how they evolve. Snapshots
+ * are captured by scripts/capture-snapshots.ts for a configured list of
+ * repositories and kept in a snapshot store: SQLite on the server (see
+ * snapshot-store-sqlite.ts), in memory otherwise.
+ *
+ * Activity metrics cover the SNAPSHOT_PERIOD before the capture; branch counts
+ * are those at the time of the capture.
+ *
+ * Environment:
+ * - GITFLUX_SNAPSHOT_REPOS: repositories to capture, comma-separated as owner/repo
+ *   or host/owner/repo for Enterprise hosts
+ */
+
+import type { TimePeriod } from './github-api';
+import { analyzeBranchPRs, analyzeContributorTrends, analyzeFileChanges, type AnalysisOptions, type AnalysisResponse } from './github-analysis';
+import { createGitHubError, errorResponse, forwardError } from './github-errors';
+import { DEFAULT_GITHUB_HOST, normalizeGitHubHost } from './github-hosts';
+
+export const SNAPSHOT_PERIOD: TimePeriod = '90d';
+
+// Most changed files kept per snapshot
+const HOTSPOT_COUNT = 5;
+
+export interface SnapshotHotspot {
+    filename: string;
+    changeCount: number;
+}
+
+export interface SnapshotMetrics {
+    contributors: number; // Commit authors
+    commits: number;
+    openPRs: number;
+    mergedPRs: number;
+    averageTimeToMerge: number; // Hours
+    reviewsPerPR: number;
+    totalBranches: number;
+    staleBranches: number;
+    hotspots: SnapshotHotspot[];
+}
+
+export interface RepositorySnapshot {
+    host: string;
+    owner: string;
+    repo: string;
+    capturedAt: string; // ISO date
+    metrics: SnapshotMetrics;
+}
+
+export interface SnapshotListOptions {
+    host?: string;
+    limit?: number; // Keep only the latest snapshots
+}
+
+export interface SnapshotRepository {
+    host: string;
+    owner: string;
+    repo: string;
+}
+
+export interface SnapshotStore {
+    save(snapshot: RepositorySnapshot): Promise<void>;
+    // Oldest first
+    list(owner: string, repo: string, options?: SnapshotListOptions): Promise<RepositorySnapshot[]>;
+}
+
+/**
+ * Create a store that keeps snapshots in memory until the process exits
+ */
+export function createMemorySnapshotStore(): SnapshotStore {
+    const snapshots: RepositorySnapshot[] = [];
+    return {
+        async save(snapshot) {
+            snapshots.push(snapshot);
+        },
+        async list(owner, repo, { host = DEFAULT_GITHUB_HOST, limit } = {}) {
+            const matching = snapshots
+                .filter(snapshot =>
+                    snapshot.host === normalizeGitHubHost(host) &&
+                    snapshot.owner.toLowerCase() === owner.toLowerCase() &&
+                    snapshot.repo.toLowerCase() === repo.toLowerCase())
+                .sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+            return limit !== undefined ? matching.slice(-limit) : matching;
+        },
+    };
+}
+
+// Stored on globalThis so the store installed at startup is shared by every route bundle
+const globalStore = globalThis as typeof globalThis & { __gitfluxSnapshotStore?: SnapshotStore };
+
+/**
+ * Get the snapshot store, creating the in-memory store on first use
+ */
+export function getSnapshotStore(): SnapshotStore {
+    if (!globalStore.__gitfluxSnapshotStore) {
+        globalStore.__gitfluxSnapshotStore = createMemorySnapshotStore();
+    }
+    return globalStore.__gitfluxSnapshotStore;
+}
+
+/**
+ * Replace the snapshot store (undefined restores a fresh in-memory store)
+ */
+export function setSnapshotStore(store?: SnapshotStore): void {
+    globalStore.__gitfluxSnapshotStore = store;
+}
+
+/**
+ * Parse a list of repositories in the GITFLUX_SNAPSHOT_REPOS format, skipping
+ * malformed entries
+ */
+export function parseSnapshotRepositories(value: string | undefined): SnapshotRepository[] {
+    return (value || '')
+        .split(',')
+        .map(entry => entry.trim().replace(/^\/+|\/+$/g, '').split('/'))
+        .filter(parts => parts.length === 2 || parts.length === 3)
+        .filter(parts => parts.every(Boolean))
+        .map(parts => {
+            const [owner, repo] = parts.slice(-2);
+            return { host: normalizeGitHubHost(parts.length === 3 ? parts[0] : undefined), owner, repo };
+        });
+}
+
+/**
+ * Analyze a repository and save a snapshot of its metrics
+ * Snapshots are only saved from complete data: when the rate limit cuts an
+ * analysis short, nothing is saved and a rate limit error is returned.
+ */
+export async function captureRepositorySnapshot(
+    owner: string,
+    repo: string,
+    options: AnalysisOptions = {}
+): Promise<AnalysisResponse<RepositorySnapshot>> {
+    // Both commit analyses read the same synced commits
+    const fileChanges = await analyzeFileChanges(owner, repo, SNAPSHOT_PERIOD, options);
+    if (fileChanges.error || !fileChanges.data) {
+        return forwardError(fileChanges);
+    }
+    const contributors = await analyzeContributorTrends(owner, repo, '3m', options);
+    if (contributors.error || !contributors.data) {
+        return forwardError(contributors);
+    }
+    const branchPRs = await analyzeBranchPRs(owner, repo, SNAPSHOT_PERIOD, options);
+    if (branchPRs.error || !branchPRs.data) {
+        return forwardError(branchPRs);
+    }
+
+    const rateLimit = branchPRs.rateLimit || contributors.rateLimit || fileChanges.rateLimit;
+    if (fileChanges.rateLimitWarning || contributors.rateLimitWarning || branchPRs.rateLimitWarning) {
+        return errorResponse(createGitHubError('rate_limited', {
+            message: 'Rate limit too low to capture a complete snapshot',
+            resetAt: rateLimit?.reset ? rateLimit.reset * 1000 : undefined,
+        }), rateLimit);
+    }
+
+    const { branches, pullRequests, reviews } = branchPRs.data;
+    const snapshot: RepositorySnapshot = {
+        host: normalizeGitHubHost(options.host),
+        owner,
+        repo,
+        capturedAt: new Date().toISOString(),
+        metrics: {
+            contributors: contributors.data.totalContributors,
+            commits: contributors.data.contributors.reduce(
+                (sum, contributor) => sum + contributor.dataPoints.reduce((total, point) => total + point.commitCount, 0),
+                0
+            ),
+            openPRs: pullRequests.openPRs,
+            mergedPRs: pullRequests.mergedPRs,
+            averageTimeToMerge: pullRequests.averageTimeToMerge,
+            reviewsPerPR: reviews.averageReviewsPerPR,
+            totalBranches: branches.totalBranches,
+            staleBranches: branches.staleBranches,
+            hotspots: fileChanges.data.files
+                .slice(0, HOTSPOT_COUNT)
+                .map(({ filename, changeCount }) => ({ filename, changeCount })),
+        },
+    };
+
+    await getSnapshotStore().save(snapshot);
+    return { data: snapshot, rateLimit };
+}
@@ -0,0 +1,68 @@
+/**
+ * Unit tests for the SQLite snapshot store
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { createSqliteSnapshotStore } from './snapshot-store-sqlite';
+import type { RepositorySnapshot, SnapshotStore } from './repository-snapshots';
+
+const snapshot = (capturedAt: string, contributors: number, host = 'github.com'): RepositorySnapshot => ({
+  host,
+  owner: 'acme',
+  repo: 'widgets',
+  capturedAt,
+  metrics: {
+    contributors,
+    commits: 40,
+    openPRs: 3,
+    mergedPRs: 12,
+    averageTimeToMerge: 18,
+    reviewsPerPR: 1.5,
+    totalBranches: 8,
+    staleBranches: 2,
+    hotspots: [{ filename: 'src/widgets/resize.ts', changeCount: 9 }],
+  },
+});
+
+describe('SQLite snapshot store', () => {
+  let db: Database.Database;
+  let store: SnapshotStore;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    store = createSqliteSnapshotStore(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('stores snapshots with their metrics and lists them oldest first', async () => {
+    await store.save(snapshot('2025-02-01T00:00:00.000Z', 5));
+    await store.save(snapshot('2025-01-01T00:00:00.000Z', 4));
+
+    expect(await store.list('ACME', 'widgets')).toEqual([
+      snapshot('2025-01-01T00:00:00.000Z', 4),
+      snapshot('2025-02-01T00:00:00.000Z', 5),
+    ]);
+  });
+
+  it('keeps the latest snapshots within a limit and separates hosts', async () => {
+    for (const month of ['01', '02', '03']) {
+      await store.save(snapshot(`2025-${month}-01T00:00:00.000Z`, parseInt(month)));
+    }
+    await store.save(snapshot('2025-04-01T00:00:00.000Z', 9, 'ghe.example.com'));
+
+    const latest = await store.list('acme', 'widgets', { limit: 2 });
+
+    expect(latest.map(entry => entry.metrics.contributors)).toEqual([2, 3]);
+    expect(await store.list('acme', 'widgets', { host: 'GHE.example.com' })).toHaveLength(1);
+  });
+
+  it('reuses an existing snapshot table', async () => {
+    await store.save(snapshot('2025-01-01T00:00:00.000Z', 4));
+
+    expect(await createSqliteSnapshotStore(db).list('acme', 'widgets')).toHaveLength(1);
+  });
+});
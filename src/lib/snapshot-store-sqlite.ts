@@ -0,0 +1,111 @@
+/**
+ * SQLite snapshot store (server-only)
+ * Keeps repository snapshots in a single SQLite file, one row per snapshot with
+ * its metrics as JSON, so history survives restarts and the capture script and
+ * the server can share it. The store takes an open database: better-sqlite3 on
+ * Node (openSnapshotDatabase) or bun:sqlite in scripts run with Bun, which share
+ * the small API used here.
+ *
+ * Environment:
+ * - GITFLUX_SNAPSHOT_DB: database file (default .gitflux/snapshots.db)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DEFAULT_GITHUB_HOST, normalizeGitHubHost } from './github-hosts';
+import { setSnapshotStore, type RepositorySnapshot, type SnapshotStore } from './repository-snapshots';
+
+export const DEFAULT_SNAPSHOT_DB = '.gitflux/snapshots.db';
+
+export interface SqliteStatement {
+    run(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+}
+
+export interface SqliteDatabase {
+    exec(sql: string): unknown;
+    prepare(sql: string): SqliteStatement;
+}
+
+interface SnapshotRow {
+    host: string;
+    owner: string;
+    repo: string;
+    captured_at: string;
+    metrics: string;
+}
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        host TEXT NOT NULL,
+        owner TEXT NOT NULL COLLATE NOCASE,
+        repo TEXT NOT NULL COLLATE NOCASE,
+        captured_at TEXT NOT NULL,
+        metrics TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS snapshots_by_repository ON snapshots (host, owner, repo, captured_at);
+`;
+
+/**
+ * Create a snapshot store in an open SQLite database, creating its table if needed
+ */
+export function createSqliteSnapshotStore(db: SqliteDatabase): SnapshotStore {
+    db.exec(SCHEMA);
+    const insert = db.prepare(
+        'INSERT INTO snapshots (host, owner, repo, captured_at, metrics) VALUES (?, ?, ?, ?, ?)'
+    );
+    // Latest first, so a limit keeps the most recent snapshots
+    const select = db.prepare(
+        'SELECT host, owner, repo, captured_at, metrics FROM snapshots ' +
+        'WHERE host = ? AND owner = ? AND repo = ? ORDER BY captured_at DESC LIMIT ?'
+    );
+
+    return {
+        async save(snapshot) {
+            insert.run(
+                normalizeGitHubHost(snapshot.host),
+                snapshot.owner,
+                snapshot.repo,
+                snapshot.capturedAt,
+                JSON.stringify(snapshot.metrics)
+            );
+        },
+
+        async list(owner, repo, { host = DEFAULT_GITHUB_HOST, limit = -1 } = {}) {
+            const rows = select.all(normalizeGitHubHost(host), owner, repo, limit) as SnapshotRow[];
+            return rows.reverse().map((row): RepositorySnapshot => ({
+                host: row.host,
+                owner: row.owner,
+                repo: row.repo,
+                capturedAt: row.captured_at,
+                metrics: JSON.parse(row.metrics),
+            }));
+        },
+    };
+}
+
+/**
+ * Open (or create) a snapshot database file with better-sqlite3
+ */
+export async function openSnapshotDatabase(file: string): Promise<SqliteDatabase> {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Loaded on demand: the native module is only available under Node
+    const { default: Database } = await import('better-sqlite3');
+    const db = new Database(file);
+    db.pragma('journal_mode = WAL');
+    return db;
+}
+
+/**
+ * Install the SQLite snapshot store at GITFLUX_SNAPSHOT_DB (or the default file)
+ */
+export async function configureSnapshotStoreFromEnv(): Promise<void> {
+    const file = process.env.GITFLUX_SNAPSHOT_DB || DEFAULT_SNAPSHOT_DB;
+    try {
+        setSnapshotStore(createSqliteSnapshotStore(await openSnapshotDatabase(file)));
+    } catch (error) {
+        // History is optional; the in-memory store keeps the app working
+        console.warn(`Failed to open snapshot database ${file}:`, error);
+    }
+}
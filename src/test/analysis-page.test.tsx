@@ -7,6 +7,7 @@ import { Contributors } from '@/components/Contributors';
 import { CommitChart } from '@/components/CommitChart';
 import { RepoForm } from '@/components/RepoForm';
 import * as githubApi from '@/lib/github-api';
+import * as githubAuth from '@/lib/github-auth';
 
 // Mock Next.js navigation
 const mockNotFound = vi.fn();
@@ -30,6 +31,11 @@ vi.mock('@/lib/github-api', () => ({
   transformCommitActivity: vi.fn(),
 }));
 
+// Mock the session; nobody is signed in unless a test says so
+vi.mock('@/lib/github-auth', () => ({
+  getSessionToken: vi.fn(),
+}));
+
 // Mock Recharts
 vi.mock('recharts', () => ({
   LineChart: ({ children }: any) => <div data-testid="line-chart">{children}</div>,
@@ -98,6 +104,7 @@ describe('Analysis Page Integration Tests', () => {
       data: mockCommitActivity,
     });
     vi.mocked(githubApi.transformCommitActivity).mockReturnValue(mockTransformedCommitData);
+    vi.mocked(githubAuth.getSessionToken).mockResolvedValue(undefined);
   });
 
   describe('Complete Page Integration', () => {
@@ -129,6 +136,7 @@ describe('Analysis Page Integration Tests', () => {
     it('handles repository not found error', async () => {
       vi.mocked(githubApi.fetchRepository).mockResolvedValue({
         error: 'Repository not found',
+        errorInfo: { kind: 'not_found', message: 'Repository not found', status: 404 },
       });
 
       const params = Promise.resolve({ owner: 'nonexistent', repo: 'repo' });
@@ -425,7 +425,7 @@ describe('Complete Integration Tests - User Flow', () => {
       
       // Component should make API call with correct parameters
       await waitFor(() => {
-        expect(githubApi.fetchContributors).toHaveBeenCalledWith('facebook', 'react');
+        expect(githubApi.fetchContributors).toHaveBeenCalledWith('facebook', 'react', { host: undefined });
       });
     });
 
@@ -434,7 +434,7 @@ describe('Complete Integration Tests - User Flow', () => {
       
       // Component should make API call with correct parameters
       await waitFor(() => {
-        expect(githubApi.fetchCommitActivity).toHaveBeenCalledWith('facebook', 'react');
+        expect(githubApi.fetchCommitActivity).toHaveBeenCalledWith('facebook', 'react', { host: undefined });
       });
     });
 
@@ -0,0 +1,55 @@
+/**
+ * Test fixture running the mock GitHub API server for a test file
+ * Starts the server once per file and, before each test, points the GitHub
+ * client at it through the Node transport with a fresh scheduler, empty caches
+ * and no failure scenarios or recorded requests.
+ */
+
+import { afterAll, afterEach, beforeAll, beforeEach, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { clearCommitActivityCache } from '@/lib/github-api';
+import { clearCommitSyncStore } from '@/lib/commit-sync';
+import { setGitHubTransport } from '@/lib/github-transport';
+import { setRequestScheduler } from '@/lib/github-scheduler';
+import { startMockGitHubServer, MockGitHubServer, MockServerSeed } from './server';
+import { nodeHttpTransport } from './http-transport';
+
+export const exampleSeed: MockServerSeed = JSON.parse(
+  readFileSync(path.join(__dirname, 'example-repository.json'), 'utf8')
+);
+
+/**
+ * Run the mock server for the enclosing describe block (or file)
+ * Returns a getter for the server, which only exists once the block starts.
+ */
+export function useMockGitHubServer(seed: MockServerSeed = exampleSeed): () => MockGitHubServer {
+  let server: MockGitHubServer;
+
+  beforeAll(async () => {
+    server = await startMockGitHubServer(seed);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    vi.stubEnv('GITHUB_API_BASE', server.url);
+    vi.stubEnv('GITHUB_TOKEN', '');
+    setGitHubTransport(nodeHttpTransport);
+    setRequestScheduler(undefined);
+    clearCommitActivityCache();
+    clearCommitSyncStore();
+    server.resetScenarios();
+    server.requests.length = 0;
+    server.authorizations.length = 0;
+  });
+
+  afterEach(() => {
+    setGitHubTransport(undefined);
+    vi.unstubAllEnvs();
+  });
+
+  return () => server;
+}
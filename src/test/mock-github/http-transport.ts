@@ -0,0 +1,45 @@
+/**
+ * GitHub transport built on Node's http module
+ * Test setup replaces the global fetch with a mock, so end-to-end tests against
+ * the mock GitHub API server send real requests through this transport instead.
+ */
+
+import { request as httpRequest } from 'http';
+import { GitHubTransport } from '@/lib/github-transport';
+
+export const nodeHttpTransport: GitHubTransport = {
+  request: ({ url, method, headers, body, signal }) => new Promise<Response>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+      return;
+    }
+
+    const req = httpRequest(url, { method, headers }, res => {
+      const chunks: Buffer[] = [];
+      res.on('data', chunk => chunks.push(chunk));
+      res.on('end', () => {
+        const responseHeaders = new Headers();
+        Object.entries(res.headers).forEach(([name, value]) => {
+          if (value !== undefined) {
+            responseHeaders.set(name, Array.isArray(value) ? value.join(', ') : value);
+          }
+        });
+
+        const status = res.statusCode || 500;
+        resolve(new Response(status === 304 ? null : Buffer.concat(chunks).toString('utf8'), {
+          status,
+          statusText: res.statusMessage,
+          headers: responseHeaders,
+        }));
+      });
+      res.on('error', reject);
+    });
+
+    signal?.addEventListener('abort', () => {
+      req.destroy();
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    });
+    req.on('error', reject);
+    req.end(body);
+  }),
+};
@@ -0,0 +1,443 @@
+/**
+ * Declarative repository descriptions for the mock GitHub API server
+ * and the builders that turn them into GitHub REST payloads.
+ *
+ * Dates are ISO strings or offsets relative to the server start such as
+ * "-3d", "-12h" or "-30m", so seeds keep falling inside the time periods
+ * the analysis pages use.
+ */
+
+import { createHash } from 'crypto';
+
+const WEEK_SECONDS = 7 * 24 * 60 * 60;
+
+export interface MockFileSeed {
+  filename: string;
+  status?: 'added' | 'modified' | 'removed' | 'renamed';
+  additions?: number;
+  deletions?: number;
+}
+
+export interface MockCommitSeed {
+  sha?: string;
+  author: string; // GitHub login
+  name?: string;
+  email?: string;
+  date: string;
+  message: string;
+  files?: MockFileSeed[];
+}
+
+export interface MockBranchSeed {
+  name: string;
+  sha?: string; // Defaults to the newest commit
+  protected?: boolean;
+  aheadBy?: number; // Relative to the default branch, used by compare
+  behindBy?: number;
+}
+
+export interface MockReviewSeed {
+  user: string;
+  state: 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'DISMISSED';
+  submittedAt: string;
+}
+
+export interface MockPullRequestSeed {
+  number: number;
+  title: string;
+  author: string;
+  state?: 'open' | 'closed';
+  draft?: boolean;
+  createdAt: string;
+  updatedAt?: string;
+  closedAt?: string;
+  mergedAt?: string;
+  head?: string;
+  base?: string;
+  additions?: number;
+  deletions?: number;
+  labels?: string[];
+  requestedReviewers?: string[];
+  reviews?: MockReviewSeed[];
+}
+
+export interface MockRepositorySeed {
+  owner: string;
+  name: string;
+  description?: string | null;
+  language?: string | null;
+  stars?: number;
+  forks?: number;
+  defaultBranch?: string;
+  createdAt?: string;
+  contributors?: { login: string; contributions: number }[]; // Derived from commits when omitted
+  commits?: MockCommitSeed[];
+  branches?: MockBranchSeed[];
+  pullRequests?: MockPullRequestSeed[];
+}
+
+const RELATIVE_DATE_PATTERN = /^-(\d+)([dhm])$/;
+const UNIT_MS: Record<string, number> = { d: 24 * 60 * 60 * 1000, h: 60 * 60 * 1000, m: 60 * 1000 };
+
+/**
+ * Resolve an ISO date or a relative offset ("-3d") to an ISO string
+ */
+export function resolveMockDate(value: string, now: Date): string {
+  const match = value.match(RELATIVE_DATE_PATTERN);
+  if (match) {
+    return new Date(now.getTime() - parseInt(match[1]) * UNIT_MS[match[2]]).toISOString();
+  }
+  return new Date(value).toISOString();
+}
+
+function userPayload(login: string) {
+  const id = parseInt(createHash('sha1').update(login).digest('hex').slice(0, 6), 16);
+  return {
+    login,
+    id,
+    avatar_url: `https://avatars.githubusercontent.com/u/${id}?v=4`,
+    html_url: `https://github.com/${login}`,
+    type: 'User',
+  };
+}
+
+/**
+ * A repository seed resolved into GitHub REST payloads
+ */
+export class MockRepository {
+  readonly owner: string;
+  readonly name: string;
+  readonly defaultBranch: string;
+  private readonly seed: MockRepositorySeed;
+  private readonly commits: (MockCommitSeed & { sha: string; date: string })[];
+  private readonly pullRequests: MockPullRequestSeed[];
+
+  constructor(seed: MockRepositorySeed, now: Date = new Date()) {
+    this.seed = seed;
+    this.owner = seed.owner;
+    this.name = seed.name;
+    this.defaultBranch = seed.defaultBranch || 'main';
+
+    // Newest first, like the commits endpoint
+    this.commits = (seed.commits || [])
+      .map(commit => ({
+        ...commit,
+        date: resolveMockDate(commit.date, now),
+        sha: commit.sha || createHash('sha1').update(`${commit.author}:${commit.date}:${commit.message}`).digest('hex'),
+      }))
+      .sort((a, b) => b.date.localeCompare(a.date));
+
+    this.pullRequests = (seed.pullRequests || []).map(pr => ({
+      ...pr,
+      createdAt: resolveMockDate(pr.createdAt, now),
+      updatedAt: resolveMockDate(pr.updatedAt || pr.mergedAt || pr.closedAt || pr.createdAt, now),
+      closedAt: pr.closedAt || pr.mergedAt ? resolveMockDate((pr.closedAt || pr.mergedAt)!, now) : undefined,
+      mergedAt: pr.mergedAt ? resolveMockDate(pr.mergedAt, now) : undefined,
+      reviews: pr.reviews?.map(review => ({ ...review, submittedAt: resolveMockDate(review.submittedAt, now) })),
+    }));
+  }
+
+  get fullName(): string {
+    return `${this.owner}/${this.name}`;
+  }
+
+  repository() {
+    const created = this.seed.createdAt || this.commits[this.commits.length - 1]?.date || new Date(0).toISOString();
+    return {
+      id: parseInt(createHash('sha1').update(this.fullName).digest('hex').slice(0, 6), 16),
+      name: this.name,
+      full_name: this.fullName,
+      owner: userPayload(this.owner),
+      private: false,
+      description: this.seed.description ?? null,
+      stargazers_count: this.seed.stars ?? 0,
+      forks_count: this.seed.forks ?? 0,
+      language: this.seed.language ?? null,
+      default_branch: this.defaultBranch,
+      html_url: `https://github.com/${this.fullName}`,
+      created_at: created,
+      updated_at: this.commits[0]?.date || created,
+      pushed_at: this.commits[0]?.date || created,
+    };
+  }
+
+  contributors() {
+    if (this.seed.contributors) {
+      return this.seed.contributors.map(({ login, contributions }) => ({ ...userPayload(login), contributions }));
+    }
+
+    const counts = new Map<string, number>();
+    this.commits.forEach(commit => counts.set(commit.author, (counts.get(commit.author) || 0) + 1));
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([login, contributions]) => ({ ...userPayload(login), contributions }));
+  }
+
+  /**
+   * Start of each of the last 52 weeks in epoch seconds (weeks start on Sunday, UTC)
+   */
+  private weekStarts(now: Date): number[] {
+    const currentWeek = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - now.getUTCDay()));
+    return Array.from({ length: 52 }, (_, index) => Math.floor(currentWeek.getTime() / 1000) - (51 - index) * WEEK_SECONDS);
+  }
+
+  /**
+   * Index of the week a commit falls into, or -1 when it is older than 52 weeks
+   */
+  private weekIndex(weeks: number[], date: string): number {
+    const time = new Date(date).getTime() / 1000;
+    return weeks.findIndex(week => time >= week && time < week + WEEK_SECONDS);
+  }
+
+  private commitTotals(commit: MockCommitSeed) {
+    return (commit.files || []).reduce(
+      (totals, file) => ({ additions: totals.additions + (file.additions ?? 0), deletions: totals.deletions + (file.deletions ?? 0) }),
+      { additions: 0, deletions: 0 }
+    );
+  }
+
+  /**
+   * Weekly commit totals for the last 52 weeks
+   */
+  commitActivity(now: Date = new Date()) {
+    const weeks = this.weekStarts(now).map(week => ({ week, total: 0, days: [0, 0, 0, 0, 0, 0, 0] }));
+    const starts = weeks.map(entry => entry.week);
+
+    this.commits.forEach(commit => {
+      const week = weeks[this.weekIndex(starts, commit.date)];
+      if (week) {
+        week.total++;
+        week.days[new Date(commit.date).getUTCDay()]++;
+      }
+    });
+
+    return weeks;
+  }
+
+  /**
+   * Weekly additions, deletions and commits of each contributor for the last 52 weeks
+   */
+  contributorStats(now: Date = new Date()) {
+    const starts = this.weekStarts(now);
+    const byAuthor = new Map<string, { w: number; a: number; d: number; c: number }[]>();
+
+    this.commits.forEach(commit => {
+      if (!byAuthor.has(commit.author)) {
+        byAuthor.set(commit.author, starts.map(w => ({ w, a: 0, d: 0, c: 0 })));
+      }
+      const week = byAuthor.get(commit.author)![this.weekIndex(starts, commit.date)];
+      if (week) {
+        const { additions, deletions } = this.commitTotals(commit);
+        week.a += additions;
+        week.d += deletions;
+        week.c++;
+      }
+    });
+
+    return Array.from(byAuthor.entries()).map(([login, weeks]) => ({
+      author: userPayload(login),
+      total: weeks.reduce((sum, week) => sum + week.c, 0),
+      weeks,
+    }));
+  }
+
+  /**
+   * Weekly [week, additions, -deletions] for the last 52 weeks
+   */
+  codeFrequency(now: Date = new Date()) {
+    const starts = this.weekStarts(now);
+    const weeks = starts.map(week => [week, 0, 0]);
+
+    this.commits.forEach(commit => {
+      const week = weeks[this.weekIndex(starts, commit.date)];
+      if (week) {
+        const { additions, deletions } = this.commitTotals(commit);
+        week[1] += additions;
+        week[2] -= deletions;
+      }
+    });
+
+    return weeks;
+  }
+
+  /**
+   * Weekly commit counts of everyone and of the repository owner for the last 52 weeks
+   */
+  participation(now: Date = new Date()) {
+    const starts = this.weekStarts(now);
+    const all = starts.map(() => 0);
+    const owner = starts.map(() => 0);
+
+    this.commits.forEach(commit => {
+      const index = this.weekIndex(starts, commit.date);
+      if (index >= 0) {
+        all[index]++;
+        if (commit.author === this.owner) owner[index]++;
+      }
+    });
+
+    return { all, owner };
+  }
+
+  commitList(filters: { since?: string; until?: string; author?: string; sha?: string } = {}) {
+    return this.commits
+      .filter(commit => !filters.since || commit.date >= new Date(filters.since).toISOString())
+      .filter(commit => !filters.until || commit.date <= new Date(filters.until).toISOString())
+      .filter(commit => !filters.author || commit.author === filters.author)
+      .map(commit => this.commitSummary(commit));
+  }
+
+  commitDetail(sha: string) {
+    const commit = this.commits.find(entry => entry.sha === sha || entry.sha.startsWith(sha));
+    if (!commit) {
+      return undefined;
+    }
+
+    const files = (commit.files || []).map(file => {
+      const additions = file.additions ?? 0;
+      const deletions = file.deletions ?? 0;
+      return {
+        filename: file.filename,
+        status: file.status || 'modified',
+        additions,
+        deletions,
+        changes: additions + deletions,
+      };
+    });
+    const additions = files.reduce((sum, file) => sum + file.additions, 0);
+    const deletions = files.reduce((sum, file) => sum + file.deletions, 0);
+
+    return {
+      ...this.commitSummary(commit),
+      stats: { additions, deletions, total: additions + deletions },
+      files,
+    };
+  }
+
+  branches() {
+    const seeds = this.seed.branches || [{ name: this.defaultBranch }];
+    return seeds.map(branch => ({
+      name: branch.name,
+      commit: {
+        sha: branch.sha || this.commits[0]?.sha || '0'.repeat(40),
+        url: `https://api.github.com/repos/${this.fullName}/commits/${branch.sha || this.commits[0]?.sha}`,
+      },
+      protected: branch.protected ?? branch.name === this.defaultBranch,
+    }));
+  }
+
+  // Head of a pull request, at the commit of the seeded branch when there is one
+  private headPayload(ref: string) {
+    const branch = this.branches().find(candidate => candidate.name === ref);
+    return branch ? { ref, sha: branch.commit.sha } : { ref };
+  }
+
+  branch(name: string) {
+    const listed = this.branches().find(branch => branch.name === name);
+    const commit = listed && this.commits.find(candidate => candidate.sha === listed.commit.sha);
+    if (!listed || !commit) {
+      return undefined;
+    }
+
+    return {
+      name,
+      commit: this.commitSummary(commit),
+      protected: listed.protected,
+    };
+  }
+
+  // Branch seed of a branch name or of a branch head SHA
+  private compareRef(ref: string): MockBranchSeed | undefined {
+    const seeds = this.seed.branches || [];
+    const named = seeds.find(branch => branch.name === ref);
+    if (named || ref === this.defaultBranch) {
+      return named || { name: ref };
+    }
+    const head = this.branches().find(branch => branch.commit.sha === ref);
+    return head && (seeds.find(branch => branch.name === head.name) || { name: head.name });
+  }
+
+  compare(base: string, head: string) {
+    const headBranch = this.compareRef(head);
+    const baseBranch = this.compareRef(base);
+    if (!headBranch || !baseBranch) {
+      return undefined;
+    }
+
+    // Seeded counts are relative to the default branch; a commit compared with
+    // itself is identical whichever branches point at it
+    const same = base === head;
+    const aheadBy = same ? 0 : Math.max(0, (headBranch.aheadBy ?? 0) - (baseBranch.aheadBy ?? 0));
+    const behindBy = same ? 0 : Math.max(0, (headBranch.behindBy ?? 0) - (baseBranch.behindBy ?? 0));
+    const status = aheadBy && behindBy ? 'diverged' : aheadBy ? 'ahead' : behindBy ? 'behind' : 'identical';
+
+    return {
+      status,
+      ahead_by: aheadBy,
+      behind_by: behindBy,
+      total_commits: aheadBy,
+      commits: this.commits.slice(0, aheadBy).reverse().map(commit => this.commitSummary(commit)),
+      files: [],
+    };
+  }
+
+  pulls(filters: { state?: string; sort?: string; direction?: string } = {}) {
+    const state = filters.state || 'open';
+    const sortField = filters.sort === 'updated' ? 'updatedAt' : 'createdAt';
+    const ascending = filters.direction === 'asc';
+
+    return this.pullRequests
+      .filter(pr => state === 'all' || (pr.state || 'open') === state)
+      .sort((a, b) => {
+        const order = (a[sortField] || '').localeCompare(b[sortField] || '');
+        return ascending ? order : -order;
+      })
+      .map(pr => ({
+        number: pr.number,
+        title: pr.title,
+        state: pr.state || 'open',
+        draft: pr.draft || false,
+        user: userPayload(pr.author),
+        created_at: pr.createdAt,
+        updated_at: pr.updatedAt,
+        closed_at: pr.closedAt || null,
+        merged_at: pr.mergedAt || null,
+        head: this.headPayload(pr.head || `feature/pr-${pr.number}`),
+        base: { ref: pr.base || this.defaultBranch },
+        additions: pr.additions ?? 0,
+        deletions: pr.deletions ?? 0,
+        labels: (pr.labels || []).map(name => ({ name })),
+        requested_reviewers: (pr.requestedReviewers || []).map(userPayload),
+        html_url: `https://github.com/${this.fullName}/pull/${pr.number}`,
+      }));
+  }
+
+  reviews(prNumber: number) {
+    const pr = this.pullRequests.find(entry => entry.number === prNumber);
+    if (!pr) {
+      return undefined;
+    }
+
+    return (pr.reviews || []).map((review, index) => ({
+      id: prNumber * 1000 + index,
+      user: userPayload(review.user),
+      state: review.state,
+      submitted_at: review.submittedAt,
+      body: '',
+    }));
+  }
+
+  private commitSummary(commit: MockCommitSeed & { sha: string; date: string }) {
+    const signature = {
+      name: commit.name || commit.author,
+      email: commit.email || `${commit.author}@users.noreply.github.com`,
+      date: commit.date,
+    };
+    return {
+      sha: commit.sha,
+      commit: { author: signature, committer: signature, message: commit.message },
+      author: userPayload(commit.author),
+      html_url: `https://github.com/${this.fullName}/commit/${commit.sha}`,
+    };
+  }
+}
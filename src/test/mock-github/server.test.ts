@@ -0,0 +1,203 @@
+import { describe, it, expect, vi } from 'vitest';
+import { useMockGitHubServer } from './fixture';
+import { nodeHttpTransport } from './http-transport';
+import {
+  fetchAllPages,
+  fetchBranchComparison,
+  fetchBranchDetails,
+  fetchBranches,
+  fetchCodeFrequency,
+  fetchCommitActivity,
+  fetchCommitsWithFiles,
+  fetchContributorActivity,
+  fetchContributors,
+  fetchParticipation,
+  fetchPRReviews,
+  fetchPullRequests,
+  fetchRepository,
+} from '@/lib/github-api';
+
+describe('Mock GitHub API server', () => {
+  const server = useMockGitHubServer();
+
+  it('serves repository information with rate limit headers', async () => {
+    const result = await fetchRepository('acme', 'widgets');
+
+    expect(result.error).toBeUndefined();
+    expect(result.data).toMatchObject({ full_name: 'acme/widgets', stargazers_count: 128, language: 'TypeScript' });
+    expect(result.rateLimit?.limit).toBe(5000);
+  });
+
+  it('returns 404 for unknown repositories', async () => {
+    const result = await fetchRepository('acme', 'missing');
+
+    expect(result.error).toBe('Repository not found');
+  });
+
+  it('derives contributors from the seeded commits', async () => {
+    const result = await fetchContributors('acme', 'widgets');
+
+    expect(result.data?.map(contributor => [contributor.login, contributor.contributions])).toEqual([
+      ['alice', 2],
+      ['bob', 2],
+      ['carol', 1],
+    ]);
+  });
+
+  it('paginates list endpoints with Link headers', async () => {
+    const result = await fetchAllPages<{ name: string }>('/repos/acme/widgets/branches?per_page=1');
+
+    expect(result.data?.map(branch => branch.name)).toEqual(['main', 'feature/resizing', 'fix/alignment']);
+    expect(server().requests.filter(request => request.startsWith('/repos/acme/widgets/branches'))).toHaveLength(3);
+  });
+
+  it('serves commits with file details within a time range', async () => {
+    const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+    const result = await fetchCommitsWithFiles('acme', 'widgets', since, undefined, 1, 100, { batchDelay: 0 });
+
+    expect(result.data).toHaveLength(4);
+    expect(result.data?.[0]).toMatchObject({
+      message: 'Add widget resizing',
+      files: [
+        { filename: 'src/widgets/resize.ts', status: 'added', additions: 120, changes: 120 },
+        { filename: 'src/widgets/index.ts', status: 'modified', additions: 3, deletions: 1, changes: 4 },
+      ],
+    });
+  });
+
+  it('lists commits whose details failed to load', async () => {
+    server().simulate({ kind: 'server_error', status: 422, path: '/commits/', times: 1 });
+    const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+    const result = await fetchCommitsWithFiles('acme', 'widgets', since, undefined, 1, 100, { batchDelay: 0 });
+
+    expect(result.data).toHaveLength(3);
+    expect(result.failedCommits).toHaveLength(1);
+    expect(result.data?.map(commit => commit.sha)).not.toContain(result.failedCommits![0].sha);
+  });
+
+  it('serves pull requests, reviews and branch comparisons', async () => {
+    const pulls = await fetchPullRequests('acme', 'widgets', 'closed');
+    expect(pulls.data?.map(pr => pr.number)).toEqual([11, 10]);
+    expect(pulls.data?.[0].merged_at).toBeTruthy();
+
+    const reviews = await fetchPRReviews('acme', 'widgets', 11);
+    expect(reviews.data?.map(review => review.state)).toEqual(['CHANGES_REQUESTED', 'APPROVED']);
+    expect(reviews.data?.map(review => review.pull_request_number)).toEqual([11, 11]);
+
+    const comparison = await fetchBranchComparison('acme', 'widgets', 'main', 'fix/alignment');
+    expect(comparison.data).toMatchObject({ status: 'diverged', ahead_by: 1, behind_by: 3 });
+  });
+
+  it('serves branches with their latest commit', async () => {
+    const list = await fetchBranches('acme', 'widgets');
+    const branches = await fetchBranchDetails('acme', 'widgets', list.data!);
+
+    expect(branches.data?.map(branch => branch.name)).toEqual(['main', 'feature/resizing', 'fix/alignment']);
+    expect(branches.data?.[0].commit).toMatchObject({
+      sha: list.data?.[0].commit.sha,
+      commit: { message: 'Add widget resizing' },
+    });
+  });
+
+  it('summarizes commit activity by week', async () => {
+    const result = await fetchCommitActivity('acme', 'widgets');
+
+    expect(result.data).toHaveLength(52);
+    expect(result.data?.reduce((sum, week) => sum + week.total, 0)).toBe(5);
+  });
+
+  it('simulates stats that are still being computed', async () => {
+    server().simulate({ kind: 'computing', path: '/stats/commit_activity', times: 1 });
+
+    const response = await nodeHttpTransport.request({
+      url: `${server().url}/repos/acme/widgets/stats/commit_activity`,
+      method: 'GET',
+      headers: {},
+    });
+
+    expect(response.status).toBe(202);
+    expect((await fetchCommitActivity('acme', 'widgets')).data).toHaveLength(52);
+  });
+
+  it('polls statistics until they are computed', async () => {
+    server().simulate({ kind: 'computing', path: '/stats/', times: 2 });
+    const sent = server().requests.length;
+
+    const result = await fetchCommitActivity('acme', 'widgets', { pollInterval: 10 });
+
+    expect(result.status).toBe('ready');
+    expect(result.data).toHaveLength(52);
+    expect(server().requests.slice(sent)).toEqual(Array(3).fill('/repos/acme/widgets/stats/commit_activity'));
+  });
+
+  it('reports statistics still being computed when polling times out', async () => {
+    server().simulate({ kind: 'computing', path: '/stats/participation', times: 5 });
+
+    const result = await fetchParticipation('acme', 'widgets', { pollInterval: 10, timeout: 50 });
+
+    expect(result.status).toBe('computing');
+    expect(result.data).toBeUndefined();
+    expect(result.error).toBeUndefined();
+  });
+
+  it('serves contributor, code frequency and participation statistics', async () => {
+    const [contributors, codeFrequency, participation] = await Promise.all([
+      fetchContributorActivity('acme', 'widgets'),
+      fetchCodeFrequency('acme', 'widgets'),
+      fetchParticipation('acme', 'widgets'),
+    ]);
+
+    expect(contributors.data?.reduce((sum, entry) => sum + entry.total, 0)).toBe(5);
+    expect(codeFrequency.data).toHaveLength(52);
+    expect(participation.data?.all.reduce((sum, count) => sum + count, 0)).toBe(5);
+  });
+
+  it('simulates rate limits', async () => {
+    server().simulate({ kind: 'rate_limit', times: 1 });
+
+    const result = await fetchRepository('acme', 'widgets');
+
+    expect(result.error).toContain('rate limit exceeded');
+    expect(result.rateLimit?.remaining).toBe(0);
+  });
+
+  it('simulates server errors', async () => {
+    server().simulate({ kind: 'server_error', status: 502 });
+
+    const result = await fetchRepository('acme', 'widgets', { signal: undefined });
+
+    expect(result.error).toBe('GitHub API is currently unavailable. Please try again later.');
+  }, 15000);
+
+  it('simulates slow responses that can be cancelled', async () => {
+    server().simulate({ kind: 'slow', delay: 500, times: 1 });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    const result = await fetchRepository('acme', 'widgets', { signal: controller.signal });
+
+    expect(result.error).toBe('Request was cancelled');
+  });
+
+  it('answers conditional requests with 304 Not Modified', async () => {
+    const first = await nodeHttpTransport.request({ url: `${server().url}/repos/acme/widgets`, method: 'GET', headers: {} });
+    const etag = first.headers.get('etag')!;
+
+    const second = await nodeHttpTransport.request({
+      url: `${server().url}/repos/acme/widgets`,
+      method: 'GET',
+      headers: { 'If-None-Match': etag },
+    });
+
+    expect(second.status).toBe(304);
+  });
+
+  it('also serves paths under /api/v3 like an Enterprise host', async () => {
+    vi.stubEnv('GITHUB_API_BASE', `${server().url}/api/v3`);
+
+    const result = await fetchBranches('acme', 'widgets');
+
+    expect(result.data).toHaveLength(3);
+  });
+
+});
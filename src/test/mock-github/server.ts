@@ -0,0 +1,349 @@
+/**
+ * Local mock GitHub API server for development and integration tests
+ * Implements the REST endpoints GitFlux uses on top of declarative repository
+ * seeds, with pagination, conditional requests, rate limit headers and
+ * simulated failures (202 stats computing, 403 rate limits, 5xx, slow responses).
+ * With an app seed it also stands in for the GitHub App installation and
+ * access token endpoints.
+ *
+ * Point GITHUB_API_BASE (or GITHUB_API_URL) at the server URL to run the app
+ * or end-to-end tests against it; paths are also served under /api/v3 to act
+ * as an Enterprise host.
+ */
+
+import { createHash, createVerify } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { MockRepository, MockRepositorySeed } from './repository';
+
+export type MockFailureKind = 'computing' | 'rate_limit' | 'server_error' | 'slow';
+
+export interface MockFailureScenario {
+  kind: MockFailureKind;
+  path?: string; // Only requests whose path contains this string
+  status?: number; // Status for server_error (default 500)
+  delay?: number; // Delay in ms for slow responses
+  times?: number; // Number of matching requests to affect (default: every request)
+}
+
+export interface MockGitHubAppSeed {
+  id: number;
+  publicKey?: string; // PEM; app JWTs are verified against it when set
+  // repositories: names of the only repositories the installation can access
+  installations: { id: number; account: string; repositories?: string[] }[];
+  tokenLifetime?: number; // Seconds installation tokens are valid (default 3600)
+}
+
+export interface MockServerSeed {
+  repositories: MockRepositorySeed[];
+  rateLimit?: { limit?: number; remaining?: number };
+  scenarios?: MockFailureScenario[];
+  app?: MockGitHubAppSeed;
+}
+
+export interface MockGitHubServer {
+  url: string;
+  /** Add a failure scenario at runtime */
+  simulate(scenario: MockFailureScenario): void;
+  /** Remove all failure scenarios */
+  resetScenarios(): void;
+  /** Paths of every request received, in order */
+  requests: string[];
+  /** Authorization header of every request received ('' without one), in order */
+  authorizations: string[];
+  close(): Promise<void>;
+}
+
+const DEFAULT_PER_PAGE = 30;
+const MAX_PER_PAGE = 100;
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Accept either a single repository description or a full server seed
+ */
+export function normalizeMockSeed(seed: MockRepositorySeed | MockRepositorySeed[] | MockServerSeed): MockServerSeed {
+  if (Array.isArray(seed)) {
+    return { repositories: seed };
+  }
+  if ('repositories' in seed) {
+    return seed;
+  }
+  return { repositories: [seed] };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'content-type': 'application/json; charset=utf-8', ...headers });
+  res.end(status === 304 ? undefined : JSON.stringify(body));
+}
+
+/**
+ * Start a mock GitHub API server on the given port (0 picks a free port)
+ */
+export async function startMockGitHubServer(
+  seed: MockRepositorySeed | MockRepositorySeed[] | MockServerSeed,
+  options: { port?: number; hostname?: string } = {}
+): Promise<MockGitHubServer> {
+  const { port = 0, hostname = '127.0.0.1' } = options;
+  const config = normalizeMockSeed(seed);
+  const now = new Date();
+  const repositories = new Map(
+    config.repositories.map(repository => {
+      const mock = new MockRepository(repository, now);
+      return [mock.fullName.toLowerCase(), mock] as const;
+    })
+  );
+
+  const rateLimit = {
+    limit: config.rateLimit?.limit ?? 5000,
+    remaining: config.rateLimit?.remaining ?? config.rateLimit?.limit ?? 5000,
+    reset: Math.floor((Date.now() + RATE_LIMIT_WINDOW_MS) / 1000),
+  };
+  const scenarios: (MockFailureScenario & { remaining: number })[] = [];
+  const requests: string[] = [];
+  const authorizations: string[] = [];
+  let issuedTokens = 0;
+
+  const simulate = (scenario: MockFailureScenario) => {
+    scenarios.push({ ...scenario, remaining: scenario.times ?? Infinity });
+  };
+  (config.scenarios || []).forEach(simulate);
+
+  const takeScenario = (path: string, kinds: MockFailureKind[]) => {
+    const scenario = scenarios.find(entry =>
+      kinds.includes(entry.kind) && entry.remaining > 0 && (!entry.path || path.includes(entry.path))
+    );
+    if (scenario) {
+      scenario.remaining--;
+    }
+    return scenario;
+  };
+
+  const rateLimitHeaders = () => ({
+    'x-ratelimit-limit': String(rateLimit.limit),
+    'x-ratelimit-remaining': String(rateLimit.remaining),
+    'x-ratelimit-reset': String(rateLimit.reset),
+    'x-ratelimit-used': String(rateLimit.limit - rateLimit.remaining),
+  });
+
+  // App endpoints accept JWTs issued by the app that have not expired
+  const isAppJwt = (authorization?: string) => {
+    const [header, payload, signature] = authorization?.match(/^Bearer (.+)$/)?.[1].split('.') || [];
+    if (!config.app || !signature) {
+      return false;
+    }
+    try {
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+      if (String(claims.iss) !== String(config.app.id) || claims.exp * 1000 < Date.now()) {
+        return false;
+      }
+    } catch {
+      return false;
+    }
+    return !config.app.publicKey || createVerify('RSA-SHA256')
+      .update(`${header}.${payload}`)
+      .verify(config.app.publicKey, Buffer.from(signature, 'base64url'));
+  };
+
+  // Installation lookups and installation access tokens; undefined for other requests
+  const handleAppRequest = (req: IncomingMessage, path: string): { status: number; body: unknown } | undefined => {
+    const lookup = req.method === 'GET' && path.match(/^\/(?:repos\/([^/]+)\/([^/]+)|users\/([^/]+)|orgs\/([^/]+))\/installation$/);
+    const exchange = req.method === 'POST' && path.match(/^\/app\/installations\/(\d+)\/access_tokens$/);
+    if (!lookup && !exchange) {
+      return undefined;
+    }
+    if (!isAppJwt(req.headers.authorization)) {
+      return { status: 401, body: { message: 'A JSON web token could not be decoded' } };
+    }
+
+    if (lookup) {
+      const account = decodeURIComponent(lookup[1] || lookup[3] || lookup[4]).toLowerCase();
+      const repo = lookup[2] && decodeURIComponent(lookup[2]).toLowerCase();
+      const installation = config.app!.installations.find(entry => entry.account.toLowerCase() === account
+        && (!repo || !entry.repositories || entry.repositories.some(name => name.toLowerCase() === repo)));
+      return installation
+        ? { status: 200, body: { id: installation.id, app_id: config.app!.id, account: { login: installation.account } } }
+        : { status: 404, body: { message: 'Not Found' } };
+    }
+
+    const installationId = parseInt(exchange ? exchange[1] : '');
+    if (!config.app!.installations.some(entry => entry.id === installationId)) {
+      return { status: 404, body: { message: 'Not Found' } };
+    }
+    issuedTokens++;
+    return {
+      status: 201,
+      body: {
+        token: `ghs_mock_${installationId}_${issuedTokens}`,
+        expires_at: new Date(Date.now() + (config.app!.tokenLifetime ?? 3600) * 1000).toISOString(),
+      },
+    };
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse, baseUrl: string) => {
+    const url = new URL(req.url || '/', baseUrl);
+    const path = url.pathname.replace(/^\/api\/v3(?=\/)/, '');
+    const prefix = url.pathname.startsWith('/api/v3/') ? '/api/v3' : '';
+    requests.push(`${path}${url.search}`);
+    authorizations.push(req.headers.authorization || '');
+
+    const slow = takeScenario(path, ['slow']);
+    if (slow) {
+      await new Promise(resolve => setTimeout(resolve, slow.delay ?? 1000));
+    }
+
+    const appResponse = handleAppRequest(req, path);
+    if (appResponse) {
+      sendJson(res, appResponse.status, appResponse.body);
+      return;
+    }
+
+    // Rate limiting: scenarios force a 403 without using up the budget, which
+    // otherwise decreases per request
+    if (takeScenario(path, ['rate_limit']) || rateLimit.remaining <= 0) {
+      sendJson(res, 403, {
+        message: 'API rate limit exceeded for 127.0.0.1. (But here\'s the good news: Authenticated requests get a higher rate limit.)',
+        documentation_url: 'https://docs.github.com/rest/overview/resources-in-the-rest-api#rate-limiting',
+      }, { ...rateLimitHeaders(), 'x-ratelimit-remaining': '0' });
+      return;
+    }
+    rateLimit.remaining--;
+
+    // Only REST reads: a GraphQL query (POST /graphql) is not found
+    if (req.method !== 'GET') {
+      sendJson(res, 404, { message: 'Not Found' });
+      return;
+    }
+
+    const serverError = takeScenario(path, ['server_error']);
+    if (serverError) {
+      const status = serverError.status ?? 500;
+      sendJson(res, status, { message: status === 502 ? 'Server Error' : 'Internal Server Error' }, rateLimitHeaders());
+      return;
+    }
+
+    const match = path.match(/^\/repos\/([^/]+)\/([^/]+)(\/.*)?$/);
+    const repository = match && repositories.get(`${match[1]}/${match[2]}`.toLowerCase());
+    if (!match || !repository) {
+      sendJson(res, 404, { message: 'Not Found' }, rateLimitHeaders());
+      return;
+    }
+
+    const resource = match[3] || '';
+    let body: unknown;
+    let paginate = false;
+
+    if (resource === '') {
+      body = repository.repository();
+    } else if (resource === '/contributors') {
+      body = repository.contributors();
+      paginate = true;
+    } else if (resource.startsWith('/stats/') && takeScenario(path, ['computing'])) {
+      sendJson(res, 202, {}, rateLimitHeaders());
+      return;
+    } else if (resource === '/stats/commit_activity') {
+      body = repository.commitActivity();
+    } else if (resource === '/stats/contributors') {
+      body = repository.contributorStats();
+    } else if (resource === '/stats/code_frequency') {
+      body = repository.codeFrequency();
+    } else if (resource === '/stats/participation') {
+      body = repository.participation();
+    } else if (resource === '/commits') {
+      body = repository.commitList({
+        since: url.searchParams.get('since') || undefined,
+        until: url.searchParams.get('until') || undefined,
+        author: url.searchParams.get('author') || undefined,
+      });
+      paginate = true;
+    } else if (resource.startsWith('/commits/')) {
+      body = repository.commitDetail(decodeURIComponent(resource.slice('/commits/'.length)));
+    } else if (resource === '/branches') {
+      body = repository.branches();
+      paginate = true;
+    } else if (resource.startsWith('/branches/')) {
+      body = repository.branch(decodeURIComponent(resource.slice('/branches/'.length)));
+    } else if (resource === '/pulls') {
+      body = repository.pulls({
+        state: url.searchParams.get('state') || undefined,
+        sort: url.searchParams.get('sort') || undefined,
+        direction: url.searchParams.get('direction') || undefined,
+      });
+      paginate = true;
+    } else if (/^\/pulls\/\d+\/reviews$/.test(resource)) {
+      body = repository.reviews(parseInt(resource.split('/')[2]));
+      paginate = true;
+    } else if (resource.startsWith('/compare/')) {
+      const [base, head] = decodeURIComponent(resource.slice('/compare/'.length)).split('...');
+      body = head ? repository.compare(base, head) : undefined;
+    }
+
+    if (body === undefined) {
+      sendJson(res, 404, { message: 'Not Found' }, rateLimitHeaders());
+      return;
+    }
+
+    const headers: Record<string, string> = rateLimitHeaders();
+
+    if (paginate && Array.isArray(body)) {
+      const perPage = Math.min(MAX_PER_PAGE, parseInt(url.searchParams.get('per_page') || '') || DEFAULT_PER_PAGE);
+      const page = Math.max(1, parseInt(url.searchParams.get('page') || '') || 1);
+      const lastPage = Math.max(1, Math.ceil(body.length / perPage));
+
+      const pageUrl = (pageNumber: number) => {
+        const link = new URL(`${prefix}${path}${url.search}`, baseUrl);
+        link.searchParams.set('per_page', String(perPage));
+        link.searchParams.set('page', String(pageNumber));
+        return link.toString();
+      };
+
+      const links: string[] = [];
+      if (page < lastPage) {
+        links.push(`<${pageUrl(page + 1)}>; rel="next"`, `<${pageUrl(lastPage)}>; rel="last"`);
+      }
+      if (page > 1) {
+        links.push(`<${pageUrl(1)}>; rel="first"`, `<${pageUrl(page - 1)}>; rel="prev"`);
+      }
+      if (links.length) {
+        headers.link = links.join(', ');
+      }
+
+      body = body.slice((page - 1) * perPage, page * perPage);
+    }
+
+    // Conditional requests; like GitHub, 304 responses do not use the rate limit
+    const etag = `"${createHash('sha1').update(JSON.stringify(body)).digest('hex')}"`;
+    headers.etag = etag;
+    if (req.headers['if-none-match'] === etag) {
+      rateLimit.remaining++;
+      headers['x-ratelimit-remaining'] = String(rateLimit.remaining);
+      sendJson(res, 304, undefined, headers);
+      return;
+    }
+
+    sendJson(res, 200, body, headers);
+  };
+
+  const server: Server = createServer((req, res) => {
+    const address = server.address() as AddressInfo;
+    handle(req, res, `http://${hostname}:${address.port}`).catch(error => {
+      sendJson(res, 500, { message: error instanceof Error ? error.message : 'Internal Server Error' });
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(port, hostname, resolve));
+  const address = server.address() as AddressInfo;
+
+  return {
+    url: `http://${hostname}:${address.port}`,
+    simulate,
+    resetScenarios: () => {
+      scenarios.length = 0;
+    },
+    requests,
+    authorizations,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections?.();
+      server.close(error => (error ? reject(error) : resolve()));
+    }),
+  };
+}